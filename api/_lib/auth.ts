@@ -0,0 +1,44 @@
+import type { VercelRequest } from '@vercel/node';
+import crypto from 'crypto';
+import { supabase } from './supabase.js';
+import { ApiError } from './errors.js';
+
+export interface ApiKey {
+  id: string;
+  profile_id: string;
+  tier: string;
+  // Monthly quota
+  rate_limit: number;
+  is_test: boolean;
+}
+
+// Keys are stored as their sha256; the plaintext is only shown once
+export function hashApiKey(key: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(key)
+    .digest('hex');
+}
+
+/** The active key in X-API-Key. Rate limits are checked separately (rateLimit.ts). */
+export async function authenticate(req: VercelRequest): Promise<ApiKey> {
+  const header = req.headers['x-api-key'];
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key) {
+    throw new ApiError('authentication_failed', 'API key required in X-API-Key header');
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, profile_id, tier, rate_limit, is_test')
+    .eq('key_hash', hashApiKey(key))
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError('authentication_failed', 'Invalid or revoked API key');
+  }
+
+  return data;
+}
@@ -0,0 +1,73 @@
+import type { ZodError } from 'zod';
+
+// Every /api/v1 error has the same shape:
+//   { "error": { "code": "invalid_request", "message": "...", "request_id": "...", "details": {...} } }
+// `code` is stable and meant for programs; `message` is for people.
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'authentication_failed'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'idempotency_conflict'
+  | 'rate_limited'
+  | 'service_unavailable'
+  | 'internal_error';
+
+const STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  authentication_failed: 401,
+  not_found: 404,
+  method_not_allowed: 405,
+  idempotency_conflict: 409,
+  rate_limited: 429,
+  service_unavailable: 503,
+  internal_error: 500,
+};
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    request_id: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(code: ApiErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = STATUS[code];
+    this.details = details;
+  }
+
+  toBody(requestId: string): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        request_id: requestId,
+        ...(this.details ? { details: this.details } : {}),
+      },
+    };
+  }
+}
+
+/** invalid_request naming the first offending field, with every issue in `details`. */
+export function validationError(error: ZodError, source: 'body' | 'query') {
+  const issues = error.issues.map((issue) => ({
+    field: issue.path.join('.') || source,
+    message: issue.message,
+  }));
+  const [first] = issues;
+  return new ApiError(
+    'invalid_request',
+    first.field === source ? first.message : `${first.field}: ${first.message}`,
+    { field: first.field, issues }
+  );
+}
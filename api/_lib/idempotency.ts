@@ -0,0 +1,106 @@
+import type { VercelRequest } from '@vercel/node';
+import crypto from 'crypto';
+import { supabase } from './supabase.js';
+import { ApiError } from './errors.js';
+import { endpointName } from './usage.js';
+import type { ApiKey } from './auth.js';
+
+const MAX_KEY_LENGTH = 255;
+
+interface StoredKey {
+  claimed: boolean;
+  stored_endpoint: string;
+  stored_hash: string;
+  stored_status: number | null;
+  stored_body: unknown;
+}
+
+export type IdempotencyClaim =
+  // A stored response to send again
+  | { replay: { status: number; body: unknown } }
+  // The key is ours; save() the response for retries
+  | { replay?: undefined; save(status: number, body: unknown): Promise<void> };
+
+// JSON with object keys sorted, so a retry that serializes the same body in
+// another order still matches
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((name) => (value as Record<string, unknown>)[name] !== undefined)
+      .map((name) => `${JSON.stringify(name)}:${canonicalJson((value as Record<string, unknown>)[name])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Handles the Idempotency-Key header of a POST request. Without one this
+ * returns null. The first request with a key claims it; later ones with the
+ * same key, endpoint and body get the first response replayed, and ones
+ * with a different endpoint or body, or sent while the first is still
+ * running, fail with idempotency_conflict. Keys are scoped to the API key
+ * and kept for 24 hours.
+ */
+export async function claimIdempotencyKey(req: VercelRequest, key: ApiKey): Promise<IdempotencyClaim | null> {
+  const header = req.headers['idempotency-key'];
+  const idempotencyKey = Array.isArray(header) ? header[0] : header;
+  if (req.method !== 'POST' || idempotencyKey === undefined) return null;
+
+  if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+    throw new ApiError('invalid_request', `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`, { field: 'Idempotency-Key' });
+  }
+
+  const endpoint = endpointName(req);
+  const requestHash = crypto.createHash('sha256').update(canonicalJson(req.body ?? {})).digest('hex');
+  const { data, error } = await supabase
+    .rpc('claim_idempotency_key', {
+      p_key_id: key.id,
+      p_idempotency_key: idempotencyKey,
+      p_endpoint: endpoint,
+      p_request_hash: requestHash
+    })
+    .single<StoredKey>();
+
+  if (error) throw error;
+
+  if (!data.claimed) {
+    if (data.stored_endpoint !== endpoint || data.stored_hash !== requestHash) {
+      throw new ApiError(
+        'idempotency_conflict',
+        data.stored_endpoint !== endpoint
+          ? `Idempotency-Key was already used for ${data.stored_endpoint}`
+          : 'Idempotency-Key was already used with a different request body',
+        { idempotency_key: idempotencyKey }
+      );
+    }
+    if (data.stored_status === null) {
+      throw new ApiError(
+        'idempotency_conflict',
+        'A request with this Idempotency-Key is still in progress; retry shortly',
+        { idempotency_key: idempotencyKey }
+      );
+    }
+    return { replay: { status: data.stored_status, body: data.stored_body } };
+  }
+
+  const match = { api_key_id: key.id, idempotency_key: idempotencyKey };
+  return {
+    async save(status, body) {
+      // Server errors may be transient, so a retry runs the request again
+      const { error: saveError } = status >= 500
+        ? await supabase.from('api_idempotency_keys').delete().match(match)
+        : await supabase.from('api_idempotency_keys')
+          .update({ response_status: status, response_body: body })
+          .match(match);
+
+      // The claim lapses after five minutes anyway
+      if (saveError) {
+        console.error('Failed to save idempotent response:', saveError);
+      }
+    }
+  };
+}
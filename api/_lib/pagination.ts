@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+// List endpoints page newest first by (created_at, id); the id breaks ties
+// between rows created in the same microsecond, so the order is total and a
+// walk through every page sees each row once, even while rows are added.
+// Cursors are opaque to callers: base64url JSON of the last row's position.
+
+export interface CursorPosition {
+  created_at: string;
+  id: string;
+}
+
+const position = z.object({
+  created_at: z.string().datetime({ offset: true }),
+  id: z.string().uuid(),
+});
+
+export function encodeCursor(row: CursorPosition) {
+  return Buffer.from(JSON.stringify({ created_at: row.created_at, id: row.id })).toString('base64url');
+}
+
+/** The position in a cursor, or null if it isn't one of ours. */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const result = position.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** PostgREST filter for the rows after `after` in newest-first order. */
+export function afterCursor(after: CursorPosition) {
+  // Quoted, as timestamps contain reserved characters (. and :)
+  return `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`;
+}
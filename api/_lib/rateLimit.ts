@@ -0,0 +1,60 @@
+import type { VercelResponse } from '@vercel/node';
+import { supabase } from './supabase.js';
+import { ApiError } from './errors.js';
+import { perMinuteLimit } from './tiers.js';
+import type { ApiKey } from './auth.js';
+
+interface RateLimitWindows {
+  allowed: boolean;
+  minute_remaining: number;
+  minute_reset: string;
+  month_remaining: number;
+  month_reset: string;
+}
+
+const unixSeconds = (timestamp: string) => Math.ceil(new Date(timestamp).getTime() / 1000);
+
+/**
+ * Counts the call against the key's per-minute and monthly windows, in the
+ * database (consume_api_rate_limit). The X-RateLimit headers describe
+ * whichever window has fewer calls left; over either limit the call fails
+ * with rate_limited and Retry-After.
+ */
+export async function enforceRateLimit(res: VercelResponse, key: ApiKey) {
+  const minuteLimit = perMinuteLimit(key.tier);
+  const { data, error } = await supabase
+    .rpc('consume_api_rate_limit', {
+      p_key_id: key.id,
+      p_minute_limit: minuteLimit,
+      p_month_limit: key.rate_limit
+    })
+    .single<RateLimitWindows>();
+
+  if (error) throw error;
+
+  const windows = [
+    { name: 'minute', limit: minuteLimit, remaining: data.minute_remaining, reset: unixSeconds(data.minute_reset) },
+    { name: 'month', limit: key.rate_limit, remaining: data.month_remaining, reset: unixSeconds(data.month_reset) },
+  ];
+  const binding = windows.reduce((tightest, window) => window.remaining < tightest.remaining ? window : tightest);
+
+  res.setHeader('X-RateLimit-Limit', binding.limit);
+  res.setHeader('X-RateLimit-Remaining', binding.remaining);
+  res.setHeader('X-RateLimit-Reset', binding.reset);
+
+  if (!data.allowed) {
+    // The window that ran out; with both out, the one that resets last
+    const exhausted = windows.filter((window) => window.remaining === 0)
+      .reduce((latest, window) => window.reset > latest.reset ? window : latest);
+    const retryAfter = Math.max(exhausted.reset - Math.floor(Date.now() / 1000), 1);
+
+    res.setHeader('Retry-After', retryAfter);
+    throw new ApiError(
+      'rate_limited',
+      exhausted.name === 'minute'
+        ? `Rate limit of ${exhausted.limit} requests per minute exceeded`
+        : `Monthly quota of ${exhausted.limit} requests used`,
+      { window: exhausted.name, limit: exhausted.limit, retry_after: retryAfter }
+    );
+  }
+}
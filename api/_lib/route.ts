@@ -0,0 +1,130 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import crypto from 'crypto';
+import { z, type ZodTypeAny } from 'zod';
+import { ApiError, validationError } from './errors.js';
+import { authenticate, type ApiKey } from './auth.js';
+import { enforceRateLimit } from './rateLimit.js';
+import { claimIdempotencyKey, type IdempotencyClaim } from './idempotency.js';
+import { recordUsage } from './usage.js';
+
+// The request pipeline every /api/v1 route goes through: request ID, CORS,
+// method routing, API key, rate limits, zod-validated query and body, then
+// the Idempotency-Key of POST requests (idempotency.ts).
+// A route is a map of methods to endpoints:
+//
+//   export default apiRoute({
+//     GET: endpoint({ query: schema }, async ({ key, query }) => ({ ... })),
+//   });
+//
+// Whatever the handler returns is sent as JSON; anything it throws becomes
+// the error envelope (see errors.ts), without leaking internal messages.
+// Every response to a valid key is metered before it is sent (usage.ts).
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RouteContext<Body, Query> {
+  req: VercelRequest;
+  res: VercelResponse;
+  requestId: string;
+  key: ApiKey;
+  body: Body;
+  query: Query;
+}
+
+export interface Endpoint<Body extends ZodTypeAny, Query extends ZodTypeAny> {
+  body?: Body;
+  query?: Query;
+  // Status of a successful response. Default: 200
+  status?: number;
+  handle(ctx: RouteContext<z.infer<Body>, z.infer<Query>>): Promise<unknown>;
+}
+
+const ALLOWED_HEADERS = 'X-API-Key, Content-Type, X-Request-Id, Idempotency-Key';
+
+export function endpoint<Body extends ZodTypeAny = z.ZodUnknown, Query extends ZodTypeAny = z.ZodUnknown>(
+  options: Omit<Endpoint<Body, Query>, 'handle'>,
+  handle: Endpoint<Body, Query>['handle']
+): Endpoint<Body, Query> {
+  return { ...options, handle };
+}
+
+// Callers may pass their own X-Request-Id to correlate logs
+function requestIdFor(req: VercelRequest) {
+  const header = req.headers['x-request-id'];
+  const given = Array.isArray(header) ? header[0] : header;
+  return given && /^[\w-]{1,64}$/.test(given) ? given : `req_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+function parse<T extends ZodTypeAny>(schema: T | undefined, value: unknown, source: 'body' | 'query'): z.infer<T> {
+  if (!schema) return value;
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw validationError(result.error, source);
+  }
+  return result.data;
+}
+
+export function apiRoute(endpoints: Partial<Record<Method, Endpoint<ZodTypeAny, ZodTypeAny>>>) {
+  const methods = Object.keys(endpoints);
+
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    const requestId = requestIdFor(req);
+    res.setHeader('X-Request-Id', requestId);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+    res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After, Idempotent-Replayed');
+
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    // Known once authenticated; every response after that is metered
+    let key: ApiKey | undefined;
+    let claim: IdempotencyClaim | null = null;
+    let status: number;
+    let result: unknown;
+    try {
+      const route = endpoints[req.method as Method];
+      if (!route) {
+        res.setHeader('Allow', methods.join(', '));
+        throw new ApiError('method_not_allowed', `Use ${methods.join(' or ')} for this endpoint`);
+      }
+
+      key = await authenticate(req);
+      await enforceRateLimit(res, key);
+      const query = parse(route.query, req.query, 'query');
+      const body = parse(route.body, req.body ?? {}, 'body');
+
+      claim = await claimIdempotencyKey(req, key);
+      if (claim?.replay) {
+        res.setHeader('Idempotent-Replayed', 'true');
+        ({ status, body: result } = claim.replay);
+      } else {
+        result = await route.handle({ req, res, requestId, key, body, query });
+        status = route.status ?? 200;
+      }
+    } catch (error) {
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError('internal_error', 'Something went wrong on our side. Quote the request ID if you contact support.');
+
+      if (apiError.code === 'internal_error') {
+        console.error(`[${requestId}] ${req.method} ${req.url} failed:`, error);
+      }
+      status = apiError.status;
+      result = apiError.toBody(requestId);
+    }
+
+    // Saved before sending, so a retry prompted by this response finds it
+    if (claim && !claim.replay) {
+      await claim.save(status, result);
+    }
+    // Also metered before sending: the function may be stopped as soon as
+    // the response is out
+    if (key) {
+      await recordUsage(req, key, status);
+    }
+    res.status(status).json(result);
+  };
+}
@@ -0,0 +1,8 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client shared by the API routes; every query must scope
+// itself to the API key's merchant.
+export const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
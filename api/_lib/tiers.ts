@@ -0,0 +1,19 @@
+// API key tiers. `perMonth` is copied to api_keys.rate_limit when a key is
+// created, so a key's quota can be raised on its own; `perMinute` is the
+// burst limit and always comes from the tier.
+export const TIERS = {
+  starter: { perMinute: 60, perMonth: 1000 },
+  growth: { perMinute: 300, perMonth: 10000 },
+  enterprise: { perMinute: 1000, perMonth: 100000 },
+} as const;
+
+export type Tier = keyof typeof TIERS;
+
+export function isTier(value: unknown): value is Tier {
+  return typeof value === 'string' && value in TIERS;
+}
+
+/** Burst limit for a key's tier; unknown tiers get the starter limit. */
+export function perMinuteLimit(tier: string) {
+  return TIERS[isTier(tier) ? tier : 'starter'].perMinute;
+}
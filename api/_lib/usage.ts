@@ -0,0 +1,24 @@
+import type { VercelRequest } from '@vercel/node';
+import { supabase } from './supabase.js';
+import type { ApiKey } from './auth.js';
+
+// Method and path without the query string, e.g. 'POST /api/v1/invoices/create'
+export function endpointName(req: VercelRequest) {
+  return `${req.method} ${new URL(req.url ?? '/', 'http://localhost').pathname}`;
+}
+
+/**
+ * Counts the finished request in api_usage_daily, by key, endpoint, day and
+ * status. Metering must never fail a request, so errors are only logged.
+ */
+export async function recordUsage(req: VercelRequest, key: ApiKey, status: number) {
+  const { error } = await supabase.rpc('record_api_usage', {
+    p_key_id: key.id,
+    p_endpoint: endpointName(req),
+    p_status: status
+  });
+
+  if (error) {
+    console.error('Failed to record API usage:', error);
+  }
+}
@@ -1,15 +1,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
+import { TIERS, isTier } from '../_lib/tiers.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-function generateApiKey(): { key: string; hash: string; prefix: string } {
+// Test keys (rav_test_) create sandbox records paid on testnets
+function generateApiKey(mode: 'live' | 'test'): { key: string; hash: string; prefix: string } {
   const randomBytes = crypto.randomBytes(24).toString('hex');
-  const key = `rav_live_${randomBytes}`;
+  const key = `rav_${mode}_${randomBytes}`;
   
   const hash = crypto
     .createHash('sha256')
@@ -50,17 +52,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 
-  const { name, tier = 'starter' } = req.body;
+  const { name, tier = 'starter', mode = 'live' } = req.body;
 
-  // Generate API key
-  const { key, hash, prefix } = generateApiKey();
+  if (mode !== 'live' && mode !== 'test') {
+    return res.status(400).json({ error: 'mode must be live or test' });
+  }
 
-  // Determine rate limit
-  const rateLimits = {
-    starter: 1000,
-    growth: 10000,
-    enterprise: 100000
-  };
+  if (!isTier(tier)) {
+    return res.status(400).json({ error: `tier must be one of: ${Object.keys(TIERS).join(', ')}` });
+  }
+
+  // Generate API key
+  const { key, hash, prefix } = generateApiKey(mode);
 
   // Save to database
   const { data: apiKey, error } = await supabase
@@ -71,7 +74,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       key_hash: hash,
       name,
       tier,
-      rate_limit: rateLimits[tier as keyof typeof rateLimits]
+      // Monthly quota; the per-minute limit always follows the tier
+      rate_limit: TIERS[tier].perMonth,
+      is_test: mode === 'test'
     })
     .select()
     .single();
@@ -86,7 +91,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     prefix,
     name,
     tier,
+    mode,
     rate_limit: apiKey.rate_limit,
+    rate_limit_per_minute: TIERS[tier].perMinute,
     created_at: apiKey.created_at
   });
 }
\ No newline at end of file
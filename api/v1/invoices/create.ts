@@ -1,153 +1,171 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
-
-const supabase = createClient(
-  process.env.VITE_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
-
-function hashApiKey(key: string): string {
-  return crypto
-    .createHash('sha256')
-    .update(key)
-    .digest('hex');
-}
-
-async function validateApiKey(key: string) {
-  const keyHash = hashApiKey(key);
-  
-  const { data, error } = await supabase
-    .from('api_keys')
-    .select('id, profile_id, tier, rate_limit, calls_used, is_active')
-    .eq('key_hash', keyHash)
-    .eq('is_active', true)
-    .single();
-  
-  if (error || !data) {
-    return null;
-  }
-  
-  // Check rate limit
-  if (data.calls_used >= data.rate_limit) {
-    return null;
-  }
-  
-  // Update usage stats
-  await supabase
-    .from('api_keys')
-    .update({ 
-      calls_used: data.calls_used + 1,
-      last_used_at: new Date().toISOString()
-    })
-    .eq('id', data.id);
-  
-  return data;
-}
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'X-API-Key, Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  // Validate API key
-  const apiKey = req.headers['x-api-key'] as string;
-  if (!apiKey) {
-    return res.status(401).json({ error: 'API key required in X-API-Key header' });
-  }
-
-  const auth = await validateApiKey(apiKey);
-  if (!auth) {
-    return res.status(401).json({ error: 'Invalid or rate-limited API key' });
-  }
-
-  // Parse request body
-  const { 
-    client_name, 
-    client_email, 
-    items, 
-    description,
-    network = 'base',
-    due_days = 7 
-  } = req.body;
-
-  // Validate input
-  if (!client_email || !items || !Array.isArray(items) || items.length === 0) {
-    return res.status(400).json({ 
-      error: 'Invalid request. Required: client_email, items (array)' 
-    });
-  }
-
-  // Calculate total amount
-  const amount = items.reduce((sum: number, item: any) => {
-    return sum + (item.price * item.quantity);
-  }, 0);
-
-  // ✅ CHANGED: Generate invoice number using hash-based RPC
-  const { data: invoiceNumber, error: rpcError } = await supabase
-    .rpc('generate_invoice_number', { p_merchant_id: auth.profile_id });
-
-  if (rpcError || !invoiceNumber) {
-    console.error('Failed to generate invoice number:', rpcError);
-    return res.status(500).json({ 
-      error: 'Failed to generate invoice number',
-      details: rpcError?.message 
-    });
-  }
-
-  // Calculate dates
-  const issueDate = new Date();
-  const dueDate = new Date();
-  dueDate.setDate(dueDate.getDate() + due_days);
-
-  // Create invoice in database
-  const { data: invoice, error } = await supabase
-    .from('invoices')
-    .insert({
-      merchant_id: auth.profile_id,
-      invoice_number: invoiceNumber,
-      client_name: client_name || null,
-      client_email,
-      items,
-      description: description || null,
-      amount,
-      network,
-      status: 'sent',
-      issue_date: issueDate.toISOString(),
-      due_date: dueDate.toISOString(),
-      reminder_count: 0,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Database error:', error);
-    return res.status(500).json({ error: 'Failed to create invoice', details: error.message });
-  }
-
-  // Return invoice details
-  return res.status(201).json({
-    invoice_id: invoice.id,
-    invoice_number: invoice.invoice_number,
-    payment_url: `${process.env.VITE_APP_URL || 'https://www.ravgateway.com'}/invoice/${invoice.id}`,
-    client_email: invoice.client_email,
-    client_name: invoice.client_name,
-    amount: invoice.amount,
-    network: invoice.network,
-    status: invoice.status,
-    issue_date: invoice.issue_date,
-    due_date: invoice.due_date,
-    created_at: invoice.created_at
-  });
-}
\ No newline at end of file
+import { z } from 'zod';
+import { networksFor } from '../../../supabase/functions/_shared/networks.js';
+import { SplitRuleError, parseSplitRules } from '../../../supabase/functions/_shared/splits.js';
+import { CURRENCIES, isCurrency } from '../../../supabase/functions/_shared/currencies.js';
+import { supabase } from '../../_lib/supabase.js';
+import { ApiError } from '../../_lib/errors.js';
+import { apiRoute, endpoint } from '../../_lib/route.js';
+
+// Shared chain/token config; VITE_NETWORK_PROFILE selects mainnet or testnet.
+// Sandbox (rav_test_) keys always use testnets.
+const NETWORKS = networksFor(process.env.VITE_NETWORK_PROFILE);
+const TEST_NETWORKS = networksFor('testnet');
+
+const createBody = z.object({
+  client_name: z.string().nullish(),
+  client_email: z.string({ required_error: 'client_email is required' }).email('client_email must be an email address'),
+  items: z.array(
+    z.object({
+      name: z.string().optional(),
+      price: z.number().nonnegative(),
+      quantity: z.number().positive(),
+    }).passthrough(),
+    { required_error: 'items is required' }
+  ).min(1, 'items must have at least one item'),
+  description: z.string().nullish(),
+  network: z.string().default('base'),
+  // Item prices are in this currency; payments are converted at checkout
+  currency: z.string().default('USD').refine(isCurrency, `Unsupported currency. Use one of: ${CURRENCIES.join(', ')}`),
+  split_rules: z.unknown(),
+  // Escrow invoices are deposited in full and paid out per milestone
+  escrow: z.object({
+    milestones: z.array(z.object({
+      title: z.string().trim().min(1).max(100),
+      amount: z.number().positive(),
+    }), { message: 'Each milestone needs a title (up to 100 characters) and a positive amount' })
+      .min(1, 'escrow.milestones must be a non-empty array'),
+    release_days: z.number().int().min(1).max(90).default(14),
+  }).nullish(),
+  due_days: z.number().int().positive().default(7),
+});
+
+export default apiRoute({
+  POST: endpoint({ body: createBody, status: 201 }, async ({ key, body }) => {
+    const { client_name, client_email, items, description, network, currency, split_rules, escrow, due_days } = body;
+
+    const networks = key.is_test ? TEST_NETWORKS : NETWORKS;
+    if (!(network in networks)) {
+      throw new ApiError('invalid_request', `Unsupported network. Use one of: ${Object.keys(networks).join(', ')}`, { field: 'network' });
+    }
+
+    // The invoice is paid to the merchant's wallet on its network
+    const { data: wallet } = await supabase
+      .from('merchant_wallets')
+      .select('address')
+      .eq('merchant_id', key.profile_id)
+      .eq('network', network)
+      .maybeSingle();
+
+    if (!wallet) {
+      throw new ApiError('invalid_request', `Set a ${network} wallet address in Settings before creating invoices`, { field: 'network' });
+    }
+
+    // Checked again against the amount due when each payment intent is created
+    let splitRules = null;
+    try {
+      const rules = parseSplitRules(split_rules);
+      splitRules = rules.length > 0 ? rules : null;
+    } catch (err) {
+      if (err instanceof SplitRuleError) {
+        throw new ApiError('invalid_request', err.message, { field: 'split_rules' });
+      }
+      throw err;
+    }
+
+    // Calculate total amount
+    const amount = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+
+    const milestones = escrow?.milestones ?? [];
+    if (escrow) {
+      if (splitRules) {
+        throw new ApiError('invalid_request', 'split_rules cannot be combined with escrow', { field: 'split_rules' });
+      }
+      if (currency !== 'USD') {
+        throw new ApiError('invalid_request', 'Escrow invoices must be priced in USD', { field: 'currency' });
+      }
+
+      const total = milestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+      if (Math.abs(total - amount) > 0.000001) {
+        throw new ApiError('invalid_request', `Milestones add up to ${total}, not the invoice amount of ${amount}`, { field: 'escrow.milestones' });
+      }
+    }
+
+    // ✅ CHANGED: Generate invoice number using hash-based RPC
+    const { data: invoiceNumber, error: rpcError } = await supabase
+      .rpc('generate_invoice_number', { p_merchant_id: key.profile_id });
+
+    if (rpcError || !invoiceNumber) {
+      throw rpcError ?? new Error('generate_invoice_number returned nothing');
+    }
+
+    // Calculate dates
+    const issueDate = new Date();
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + due_days);
+
+    // Create invoice in database
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        merchant_id: key.profile_id,
+        invoice_number: invoiceNumber,
+        client_name: client_name || null,
+        client_email,
+        items,
+        description: description || null,
+        amount,
+        currency,
+        network,
+        split_rules: splitRules,
+        escrow: Boolean(escrow),
+        escrow_release_days: escrow ? escrow.release_days : null,
+        status: 'sent',
+        issue_date: issueDate.toISOString(),
+        due_date: dueDate.toISOString(),
+        reminder_count: 0,
+        is_test: key.is_test,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    let createdMilestones: unknown[] = [];
+    if (invoice.escrow) {
+      const { data: rows, error: milestonesError } = await supabase
+        .from('invoice_milestones')
+        .insert(milestones.map((milestone, position) => ({ invoice_id: invoice.id, position, ...milestone })))
+        .select('id, position, title, amount, status');
+
+      if (milestonesError || !rows) {
+        // An escrow invoice without its milestones cannot be funded
+        await supabase.from('invoices').delete().eq('id', invoice.id);
+        throw milestonesError ?? new Error('Milestones were not created');
+      }
+      createdMilestones = rows;
+    }
+
+    // Return invoice details
+    return {
+      invoice_id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      payment_url: `${process.env.VITE_APP_URL || 'https://www.ravgateway.com'}/invoice/${invoice.id}`,
+      client_email: invoice.client_email,
+      client_name: invoice.client_name,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      network: invoice.network,
+      split_rules: invoice.split_rules,
+      escrow: invoice.escrow,
+      escrow_release_days: invoice.escrow_release_days,
+      milestones: createdMilestones,
+      status: invoice.status,
+      issue_date: invoice.issue_date,
+      due_date: invoice.due_date,
+      is_test: invoice.is_test,
+      created_at: invoice.created_at
+    };
+  }),
+});
@@ -1,108 +1,92 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
+import { z } from 'zod';
+import { supabase } from '../../_lib/supabase.js';
+import { ApiError } from '../../_lib/errors.js';
+import { apiRoute, endpoint } from '../../_lib/route.js';
 
-const supabase = createClient(
-  process.env.VITE_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+const getQuery = z.object({
+  id: z.string({ required_error: 'Invoice ID required as query parameter (?id=xxx)' }).uuid('Invoice ID must be a UUID'),
+});
 
-function hashApiKey(key: string): string {
-  return crypto
-    .createHash('sha256')
-    .update(key)
-    .digest('hex');
-}
+export default apiRoute({
+  GET: endpoint({ query: getQuery }, async ({ key, query }) => {
+    // Fetch invoice
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', query.id)
+      .eq('merchant_id', key.profile_id)
+      .eq('is_test', key.is_test)
+      .maybeSingle();
 
-async function validateApiKey(key: string) {
-  const keyHash = hashApiKey(key);
-  
-  const { data, error } = await supabase
-    .from('api_keys')
-    .select('id, profile_id, tier, rate_limit, calls_used, is_active')
-    .eq('key_hash', keyHash)
-    .eq('is_active', true)
-    .single();
-  
-  if (error || !data) {
-    return null;
-  }
-  
-  if (data.calls_used >= data.rate_limit) {
-    return null;
-  }
-  
-  await supabase
-    .from('api_keys')
-    .update({ 
-      calls_used: data.calls_used + 1,
-      last_used_at: new Date().toISOString()
-    })
-    .eq('id', data.id);
-  
-  return data;
-}
+    if (error) throw error;
+    if (!invoice) {
+      throw new ApiError('not_found', 'Invoice not found');
+    }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'X-API-Key, Content-Type');
+    // Every transfer towards the invoice, oldest first
+    const { data: payments, error: paymentsError } = await supabase
+      .from('transactions')
+      .select('id, amount, token, network, tx_hash, from_address, status, fiat_amount, exchange_rate, created_at')
+      .eq('invoice_id', invoice.id)
+      .eq('transaction_type', 'credit')
+      .order('created_at', { ascending: true });
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+    if (paymentsError) throw paymentsError;
 
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+    let milestones: unknown[] = [];
+    if (invoice.escrow) {
+      const { data: rows, error: milestonesError } = await supabase
+        .from('invoice_milestones')
+        .select('id, position, title, amount, status, completed_at, released_at, release_tx_hash, auto_released')
+        .eq('invoice_id', invoice.id)
+        .order('position', { ascending: true });
 
-  // Validate API key
-  const apiKey = req.headers['x-api-key'] as string;
-  if (!apiKey) {
-    return res.status(401).json({ error: 'API key required in X-API-Key header' });
-  }
+      if (milestonesError) throw milestonesError;
+      milestones = rows || [];
+    }
 
-  const auth = await validateApiKey(apiKey);
-  if (!auth) {
-    return res.status(401).json({ error: 'Invalid or rate-limited API key' });
-  }
-
-  // Get invoice ID from query parameter
-  const invoiceId = req.query.id as string;
-  
-  if (!invoiceId) {
-    return res.status(400).json({ error: 'Invoice ID required as query parameter (?id=xxx)' });
-  }
-
-  // Fetch invoice
-  const { data: invoice, error } = await supabase
-    .from('invoices')
-    .select('*')
-    .eq('id', invoiceId)
-    .eq('merchant_id', auth.profile_id)
-    .single();
-
-  if (error || !invoice) {
-    return res.status(404).json({ error: 'Invoice not found' });
-  }
-
-  // Return invoice details
-  return res.status(200).json({
-    invoice_id: invoice.id,
-    invoice_number: invoice.invoice_number,
-    client_name: invoice.client_name,
-    client_email: invoice.client_email,
-    items: invoice.items,
-    description: invoice.description,
-    amount: invoice.amount,
-    network: invoice.network,
-    status: invoice.status,
-    payment_url: `https://www.ravgateway.com/invoice/${invoice.id}`,
-    tx_hash: invoice.tx_hash,
-    issue_date: invoice.issue_date,
-    due_date: invoice.due_date,
-    paid_at: invoice.paid_at,
-    created_at: invoice.created_at
-  });
-}
\ No newline at end of file
+    // Return invoice details
+    return {
+      invoice_id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      client_name: invoice.client_name,
+      client_email: invoice.client_email,
+      items: invoice.items,
+      description: invoice.description,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      amount_paid: invoice.amount_paid,
+      amount_due: invoice.amount_due,
+      overpaid_amount: invoice.overpaid_amount,
+      overpayment_resolution: invoice.overpayment_resolution,
+      network: invoice.network,
+      status: invoice.status,
+      payment_url: `https://www.ravgateway.com/invoice/${invoice.id}`,
+      tx_hash: invoice.tx_hash,
+      issue_date: invoice.issue_date,
+      due_date: invoice.due_date,
+      paid_at: invoice.paid_at,
+      escrow: invoice.escrow,
+      escrow_release_days: invoice.escrow_release_days,
+      escrow_id: invoice.escrow_id,
+      escrow_contract: invoice.escrow_contract,
+      escrow_funded_at: invoice.escrow_funded_at,
+      milestones,
+      payments: (payments || []).map((payment) => ({
+        id: payment.id,
+        amount: payment.amount,
+        token: payment.token,
+        // What the payment counted for, in the invoice's currency
+        fiat_amount: payment.fiat_amount,
+        exchange_rate: payment.exchange_rate,
+        network: payment.network,
+        tx_hash: payment.tx_hash,
+        from_address: payment.from_address,
+        status: payment.status,
+        created_at: payment.created_at
+      })),
+      is_test: invoice.is_test,
+      created_at: invoice.created_at
+    };
+  }),
+});
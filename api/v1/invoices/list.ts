@@ -1,111 +1,101 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
+import { z } from 'zod';
+import { supabase } from '../../_lib/supabase.js';
+import { ApiError } from '../../_lib/errors.js';
+import { afterCursor, decodeCursor, encodeCursor } from '../../_lib/pagination.js';
+import { apiRoute, endpoint } from '../../_lib/route.js';
+import { CURRENCIES, isCurrency } from '../../../supabase/functions/_shared/currencies.js';
 
-const supabase = createClient(
-  process.env.VITE_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
-
-function hashApiKey(key: string): string {
-  return crypto
-    .createHash('sha256')
-    .update(key)
-    .digest('hex');
-}
-
-async function validateApiKey(key: string) {
-  const keyHash = hashApiKey(key);
-  
-  const { data, error } = await supabase
-    .from('api_keys')
-    .select('id, profile_id, tier, rate_limit, calls_used, is_active')
-    .eq('key_hash', keyHash)
-    .eq('is_active', true)
-    .single();
-  
-  if (error || !data) {
-    return null;
-  }
-  
-  if (data.calls_used >= data.rate_limit) {
-    return null;
-  }
-  
-  await supabase
-    .from('api_keys')
-    .update({ 
-      calls_used: data.calls_used + 1,
-      last_used_at: new Date().toISOString()
-    })
-    .eq('id', data.id);
-  
-  return data;
-}
+const INVOICE_STATUSES = ['draft', 'sent', 'viewed', 'partially_paid', 'paid', 'overdue', 'funded', 'disputed', 'resolved'] as const;
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'X-API-Key, Content-Type');
+const timestamp = (name: string) => z.string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), `${name} must be an ISO 8601 date or timestamp`)
+  .optional();
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+// The text filters match with regular expressions (~*), because PostgREST
+// reads * in a LIKE pattern as %, with no way to escape it. Every regex
+// metacharacter is escaped, so the value matches literally.
+const regexLiteral = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  // Validate API key
-  const apiKey = req.headers['x-api-key'] as string;
-  if (!apiKey) {
-    return res.status(401).json({ error: 'API key required in X-API-Key header' });
-  }
-
-  const auth = await validateApiKey(apiKey);
-  if (!auth) {
-    return res.status(401).json({ error: 'Invalid or rate-limited API key' });
-  }
+const listQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional(),
+  status: z.enum(INVOICE_STATUSES).optional(),
+  created_gte: timestamp('created_gte'),
+  created_lt: timestamp('created_lt'),
+  due_date_gte: timestamp('due_date_gte'),
+  due_date_lt: timestamp('due_date_lt'),
+  client_email: z.string().email('client_email must be an email address').optional(),
+  network: z.string().min(1).optional(),
+  currency: z.string().refine(isCurrency, `Unsupported currency. Use one of: ${CURRENCIES.join(', ')}`).optional(),
+  amount_min: z.coerce.number().nonnegative().optional(),
+  amount_max: z.coerce.number().nonnegative().optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+}).refine(
+  // Amounts are in each invoice's own currency
+  (query) => query.currency || (query.amount_min === undefined && query.amount_max === undefined),
+  { message: 'currency is required with amount_min or amount_max', path: ['currency'] },
+);
 
-  // Query parameters
-  const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-  const status = req.query.status as string;
+export default apiRoute({
+  GET: endpoint({ query: listQuery }, async ({ key, query }) => {
+    // Newest first, one extra row to tell whether there is another page
+    let request = supabase
+      .from('invoices')
+      .select('*')
+      .eq('merchant_id', key.profile_id)
+      // Test keys only see sandbox invoices, live keys only live ones
+      .eq('is_test', key.is_test)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1);
 
-  // Build query
-  let query = supabase
-    .from('invoices')
-    .select('*')
-    .eq('merchant_id', auth.profile_id)
-    .order('created_at', { ascending: false })
-    .limit(limit);
+    if (query.cursor) {
+      const after = decodeCursor(query.cursor);
+      if (!after) {
+        throw new ApiError('invalid_request', 'cursor is not a valid cursor; pass next_cursor from the previous page', { field: 'cursor' });
+      }
+      request = request.or(afterCursor(after));
+    }
 
-  // Filter by status if provided
-if (status && ['draft', 'sent', 'viewed', 'paid', 'overdue'].includes(status)) {
-    query = query.eq('status', status);
-  }
+    if (query.status) request = request.eq('status', query.status);
+    if (query.created_gte) request = request.gte('created_at', query.created_gte);
+    if (query.created_lt) request = request.lt('created_at', query.created_lt);
+    if (query.due_date_gte) request = request.gte('due_date', query.due_date_gte);
+    if (query.due_date_lt) request = request.lt('due_date', query.due_date_lt);
+    if (query.client_email) request = request.regexIMatch('client_email', `^${regexLiteral(query.client_email)}$`);
+    if (query.network) request = request.eq('network', query.network);
+    if (query.currency) request = request.eq('currency', query.currency);
+    if (query.amount_min !== undefined) request = request.gte('amount', query.amount_min);
+    if (query.amount_max !== undefined) request = request.lte('amount', query.amount_max);
+    if (query.search) request = request.regexIMatch('invoice_number', regexLiteral(query.search));
 
-  const { data: invoices, error } = await query;
+    const { data: rows, error } = await request;
+    if (error) throw error;
 
-  if (error) {
-    return res.status(500).json({ error: 'Failed to fetch invoices' });
-  }
+    const hasMore = rows.length > query.limit;
+    const invoices = hasMore ? rows.slice(0, query.limit) : rows;
 
-  // Return invoices
-  return res.status(200).json({
-    invoices: invoices.map(inv => ({
-      invoice_id: inv.id,
-      invoice_number: inv.invoice_number,
-      client_name: inv.client_name,
-      client_email: inv.client_email,
-      amount: inv.amount,
-      network: inv.network,
-      status: inv.status,
-      issue_date: inv.issue_date,
-      due_date: inv.due_date,
-      paid_at: inv.paid_at,
-      created_at: inv.created_at
-    })),
-    count: invoices.length
-  });
-}
\ No newline at end of file
+    return {
+      invoices: invoices.map(inv => ({
+        invoice_id: inv.id,
+        invoice_number: inv.invoice_number,
+        client_name: inv.client_name,
+        client_email: inv.client_email,
+        amount: inv.amount,
+        currency: inv.currency,
+        amount_paid: inv.amount_paid,
+        amount_due: inv.amount_due,
+        network: inv.network,
+        status: inv.status,
+        issue_date: inv.issue_date,
+        due_date: inv.due_date,
+        paid_at: inv.paid_at,
+        is_test: inv.is_test,
+        created_at: inv.created_at
+      })),
+      count: invoices.length,
+      has_more: hasMore,
+      next_cursor: hasMore ? encodeCursor(invoices[invoices.length - 1]) : null
+    };
+  }),
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { resolveNetworks } from '../../../supabase/functions/_shared/networks.js';
+import { paymentUri } from '../../../supabase/functions/_shared/uris.js';
+import { CURRENCIES, isCurrency } from '../../../supabase/functions/_shared/currencies.js';
+import { IntentError, createIntent } from '../../../supabase/functions/_shared/intentrecord.js';
+import { supabase } from '../../_lib/supabase.js';
+import { ApiError } from '../../_lib/errors.js';
+import { apiRoute, endpoint } from '../../_lib/route.js';
+
+// Shared chain/token config; VITE_NETWORK_PROFILE selects mainnet or testnet,
+// with the same per-network overrides as the edge functions. Sandbox
+// (rav_test_) keys always use testnets.
+const PROFILE = process.env.VITE_NETWORK_PROFILE || 'mainnet';
+const NETWORKS = resolveNetworks(PROFILE, PROFILE, process.env);
+const TEST_NETWORKS = resolveNetworks('testnet', PROFILE, process.env);
+
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60;
+
+const createBody = z.object({
+  amount: z.coerce.number().optional(),
+  currency: z.string().refine(isCurrency, `Unsupported currency. Use one of: ${CURRENCIES.join(', ')}`).optional(),
+  product_id: z.string().uuid().optional(),
+  quantity: z.number().int().min(1).max(1000).default(1),
+  network: z.string().default('base'),
+  token: z.string().optional(),
+  description: z.string().nullish(),
+  customer_email: z.string().email().nullish(),
+  metadata: z.record(z.unknown()).nullish(),
+  split_rules: z.unknown(),
+  expires_in_minutes: z.number().int()
+    .min(1, `expires_in_minutes must be between 1 and ${MAX_EXPIRY_MINUTES}`)
+    .max(MAX_EXPIRY_MINUTES, `expires_in_minutes must be between 1 and ${MAX_EXPIRY_MINUTES}`)
+    .optional(),
+});
+
+export default apiRoute({
+  POST: endpoint({ body: createBody, status: 201 }, async ({ key, body }) => {
+    const {
+      amount,
+      currency,
+      product_id,
+      quantity,
+      network,
+      token,
+      description,
+      customer_email,
+      metadata,
+      split_rules,
+      expires_in_minutes
+    } = body;
+
+    const networks = key.is_test ? TEST_NETWORKS : NETWORKS;
+
+    // Products are always priced from the catalogue, in their own currency
+    let total = Number(amount);
+    let priceCurrency: string = currency || 'USD';
+    let productName: string | null = null;
+    // Explicit split_rules replace the product's own
+    let splitRules: unknown = split_rules;
+    if (product_id) {
+      const { data: product, error: productError } = await supabase
+        .from('products')
+        .select('id, name, price, currency, split_rules')
+        .eq('id', product_id)
+        .eq('merchant_id', key.profile_id)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (productError) throw productError;
+      if (!product) {
+        throw new ApiError('not_found', 'Product not found', { field: 'product_id' });
+      }
+
+      total = Number(product.price) * quantity;
+      priceCurrency = product.currency;
+      productName = product.name;
+      if (split_rules === undefined) splitRules = product.split_rules;
+    }
+
+    if (!Number.isFinite(total) || total <= 0) {
+      throw new ApiError('invalid_request', 'Invalid request. Required: amount (positive number) or product_id', { field: 'amount' });
+    }
+
+    // Converted, checked against the merchant's wallet and tokens, split
+    // and inserted the same way as the pay pages' intents
+    let intent;
+    try {
+      intent = await createIntent(supabase, {
+        merchantId: key.profile_id,
+        network,
+        token,
+        amount: total,
+        currency: priceCurrency,
+        productId: product_id,
+        quantity,
+        description: description || productName,
+        customerEmail: customer_email,
+        metadata,
+        isTest: key.is_test,
+        splitRules,
+        expiresInMinutes: expires_in_minutes
+      }, { networks, env: process.env });
+    } catch (err) {
+      if (err instanceof IntentError) {
+        throw new ApiError(
+          err.status === 503 ? 'service_unavailable' : 'invalid_request',
+          err.message,
+          err.field ? { field: err.field } : undefined
+        );
+      }
+      throw err;
+    }
+
+    return {
+      payment_intent_id: intent.id,
+      payment_url: `${process.env.VITE_APP_URL || 'https://www.ravgateway.com'}/checkout/${intent.id}`,
+      // EIP-681 or Solana Pay URI to render as a scan-to-pay QR code. A
+      // wallet's URI sends one transfer, so split payments have none.
+      payment_uri: intent.splits.length > 0 ? null : paymentUri(intent, networks, { message: intent.description || undefined }),
+      amount: intent.amount,
+      currency: intent.currency,
+      fiat_amount: intent.fiat_amount,
+      exchange_rate: intent.exchange_rate,
+      token: intent.token,
+      token_address: intent.token_address,
+      network: intent.network,
+      recipient_address: intent.recipient_address,
+      splits: intent.splits,
+      description: intent.description,
+      metadata: intent.metadata,
+      status: intent.status,
+      expires_at: intent.expires_at,
+      is_test: intent.is_test,
+      created_at: intent.created_at
+    };
+  }),
+});
@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title RavEscrow
+/// @notice Holds the full amount of a milestone invoice until each milestone
+/// is released to the merchant. The client funds the escrow up front, the
+/// merchant marks milestones complete, and each completed milestone is
+/// released by the client or, once `releaseAfter` seconds have passed since
+/// completion, by anyone. A dispute by either party freezes the escrow until
+/// the arbiter splits what is left between them.
+contract RavEscrow {
+    error AlreadyFunded();
+    error InvalidTerms();
+    error NotAToken();
+    error UnknownEscrow();
+    error EscrowFrozen();
+    error NotClient();
+    error NotMerchant();
+    error NotParty();
+    error NotArbiter();
+    error NotDisputed();
+    error NoSuchMilestone();
+    error AlreadyCompleted();
+    error AlreadyReleased();
+    error NotDue();
+    error TransferFailed();
+
+    struct Milestone {
+        uint256 amount;
+        // 0 until the merchant marks the milestone complete
+        uint64 completedAt;
+        bool released;
+    }
+
+    struct Escrow {
+        address client;
+        address merchant;
+        address token;
+        uint64 releaseAfter;
+        bool disputed;
+        // Set once the arbiter has resolved a dispute
+        bool closed;
+        Milestone[] milestones;
+    }
+
+    event Funded(
+        bytes32 indexed id,
+        bytes32 indexed ref,
+        address client,
+        address merchant,
+        address token,
+        uint256[] amounts,
+        uint64 releaseAfter
+    );
+    event MilestoneCompleted(bytes32 indexed id, uint256 index);
+    event MilestoneReleased(bytes32 indexed id, uint256 index, uint256 amount, bool automatic);
+    event Disputed(bytes32 indexed id, address by);
+    event Resolved(bytes32 indexed id, uint256 toMerchant, uint256 toClient);
+
+    address public immutable arbiter;
+
+    mapping(bytes32 => Escrow) internal escrows;
+
+    constructor(address arbiter_) {
+        arbiter = arbiter_;
+    }
+
+    /// @notice Escrows are keyed by their client, so nobody else can take an
+    /// invoice's reference before the client funds it.
+    function escrowId(address client, bytes32 ref) public pure returns (bytes32) {
+        return keccak256(abi.encode(client, ref));
+    }
+
+    /// @notice Moves the sum of `amounts` from the caller into escrow. The
+    /// caller must have approved this contract for it.
+    function fund(
+        bytes32 ref,
+        address token,
+        address merchant,
+        uint256[] calldata amounts,
+        uint64 releaseAfter
+    ) external returns (bytes32 id) {
+        id = escrowId(msg.sender, ref);
+        Escrow storage escrow = escrows[id];
+        if (escrow.client != address(0)) revert AlreadyFunded();
+        if (merchant == address(0) || amounts.length == 0) revert InvalidTerms();
+        if (token.code.length == 0) revert NotAToken();
+
+        escrow.client = msg.sender;
+        escrow.merchant = merchant;
+        escrow.token = token;
+        escrow.releaseAfter = releaseAfter;
+
+        uint256 total;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            if (amounts[i] == 0) revert InvalidTerms();
+            escrow.milestones.push(Milestone(amounts[i], 0, false));
+            total += amounts[i];
+        }
+
+        _call(token, abi.encodeWithSignature("transferFrom(address,address,uint256)", msg.sender, address(this), total));
+        emit Funded(id, ref, msg.sender, merchant, token, amounts, releaseAfter);
+    }
+
+    function complete(bytes32 id, uint256 index) external {
+        Escrow storage escrow = _active(id);
+        if (msg.sender != escrow.merchant) revert NotMerchant();
+
+        Milestone storage milestone = _milestone(escrow, index);
+        if (milestone.released) revert AlreadyReleased();
+        if (milestone.completedAt != 0) revert AlreadyCompleted();
+
+        milestone.completedAt = uint64(block.timestamp);
+        emit MilestoneCompleted(id, index);
+    }
+
+    /// @notice The client may release a milestone at any time, complete or not.
+    function release(bytes32 id, uint256 index) external {
+        Escrow storage escrow = _active(id);
+        if (msg.sender != escrow.client) revert NotClient();
+        _release(id, escrow, index, false);
+    }
+
+    /// @notice Releases a completed milestone the client has not disputed
+    /// within `releaseAfter` seconds. Callable by anyone.
+    function autoRelease(bytes32 id, uint256 index) external {
+        Escrow storage escrow = _active(id);
+        Milestone storage milestone = _milestone(escrow, index);
+        if (milestone.completedAt == 0 || block.timestamp < milestone.completedAt + escrow.releaseAfter) {
+            revert NotDue();
+        }
+        _release(id, escrow, index, true);
+    }
+
+    function dispute(bytes32 id) external {
+        Escrow storage escrow = _active(id);
+        if (msg.sender != escrow.client && msg.sender != escrow.merchant) revert NotParty();
+
+        escrow.disputed = true;
+        emit Disputed(id, msg.sender);
+    }
+
+    /// @notice Ends a dispute: `toMerchant` of the unreleased funds goes to
+    /// the merchant and the rest back to the client.
+    function resolve(bytes32 id, uint256 toMerchant) external {
+        if (msg.sender != arbiter) revert NotArbiter();
+        Escrow storage escrow = escrows[id];
+        if (!escrow.disputed || escrow.closed) revert NotDisputed();
+
+        uint256 remaining;
+        for (uint256 i = 0; i < escrow.milestones.length; i++) {
+            if (!escrow.milestones[i].released) {
+                remaining += escrow.milestones[i].amount;
+                escrow.milestones[i].released = true;
+            }
+        }
+        if (toMerchant > remaining) revert InvalidTerms();
+        escrow.closed = true;
+
+        if (toMerchant > 0) _transfer(escrow.token, escrow.merchant, toMerchant);
+        if (remaining > toMerchant) _transfer(escrow.token, escrow.client, remaining - toMerchant);
+        emit Resolved(id, toMerchant, remaining - toMerchant);
+    }
+
+    function milestoneOf(bytes32 id, uint256 index)
+        external
+        view
+        returns (uint256 amount, uint64 completedAt, bool released)
+    {
+        Milestone storage m = _milestone(escrows[id], index);
+        return (m.amount, m.completedAt, m.released);
+    }
+
+    function _active(bytes32 id) private view returns (Escrow storage escrow) {
+        escrow = escrows[id];
+        if (escrow.client == address(0)) revert UnknownEscrow();
+        if (escrow.disputed) revert EscrowFrozen();
+    }
+
+    function _milestone(Escrow storage escrow, uint256 index) private view returns (Milestone storage) {
+        if (index >= escrow.milestones.length) revert NoSuchMilestone();
+        return escrow.milestones[index];
+    }
+
+    function _release(bytes32 id, Escrow storage escrow, uint256 index, bool automatic) private {
+        Milestone storage milestone = _milestone(escrow, index);
+        if (milestone.released) revert AlreadyReleased();
+
+        milestone.released = true;
+        _transfer(escrow.token, escrow.merchant, milestone.amount);
+        emit MilestoneReleased(id, index, milestone.amount, automatic);
+    }
+
+    function _transfer(address token, address to, uint256 amount) private {
+        _call(token, abi.encodeWithSignature("transfer(address,uint256)", to, amount));
+    }
+
+    // Tolerates tokens whose transfer functions return nothing (USDT)
+    function _call(address token, bytes memory data) private {
+        (bool ok, bytes memory result) = token.call(data);
+        if (!ok || (result.length > 0 && !abi.decode(result, (bool)))) revert TransferFailed();
+    }
+}
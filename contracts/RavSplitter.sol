@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title RavSplitter
+/// @notice Pays one checkout to several wallets in a single transaction.
+/// The payer approves this contract for the total and calls pay(); every
+/// share moves straight from the payer to its recipient, so each recipient
+/// sees an ordinary ERC-20 Transfer from the payer. Holds no funds.
+contract RavSplitter {
+    error LengthMismatch();
+    error NotAToken();
+    error TransferFailed(address recipient);
+
+    event SplitPaid(address indexed token, address indexed payer, uint256 total);
+
+    function pay(address token, address[] calldata recipients, uint256[] calldata amounts) external {
+        if (recipients.length != amounts.length) revert LengthMismatch();
+        if (token.code.length == 0) revert NotAToken();
+
+        uint256 total;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            // Tolerates tokens whose transferFrom returns nothing (USDT)
+            (bool ok, bytes memory data) = token.call(
+                abi.encodeWithSignature("transferFrom(address,address,uint256)", msg.sender, recipients[i], amounts[i])
+            );
+            if (!ok || (data.length > 0 && !abi.decode(data, (bool)))) revert TransferFailed(recipients[i]);
+            total += amounts[i];
+        }
+
+        emit SplitPaid(token, msg.sender, total);
+    }
+}
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {RavEscrow} from "../RavEscrow.sol";
+import {MockUSDC} from "./mocks/MockUSDC.sol";
+import {MockUSDT} from "./mocks/MockUSDT.sol";
+import {TestBase} from "./TestBase.sol";
+
+contract RavEscrowTest is TestBase {
+    address internal constant CLIENT = address(0xC11E17);
+    address internal constant MERCHANT = address(0x3E2C);
+    address internal constant ARBITER = address(0xA2B1);
+    address internal constant STRANGER = address(0x5712);
+
+    bytes32 internal constant REF = keccak256("invoice-1");
+    uint64 internal constant RELEASE_AFTER = 3 days;
+
+    RavEscrow internal escrow;
+    MockUSDC internal usdc;
+
+    function setUp() public {
+        escrow = new RavEscrow(ARBITER);
+        usdc = new MockUSDC();
+        usdc.mint(CLIENT, 1_000e6);
+        vm.prank(CLIENT);
+        usdc.approve(address(escrow), type(uint256).max);
+    }
+
+    function _amounts() internal pure returns (uint256[] memory amounts) {
+        amounts = new uint256[](2);
+        amounts[0] = 100e6;
+        amounts[1] = 200e6;
+    }
+
+    function _fund() internal returns (bytes32 id) {
+        vm.prank(CLIENT);
+        id = escrow.fund(REF, address(usdc), MERCHANT, _amounts(), RELEASE_AFTER);
+    }
+
+    function _complete(bytes32 id, uint256 index) internal {
+        vm.prank(MERCHANT);
+        escrow.complete(id, index);
+    }
+
+    // Fund
+
+    function test_FundEscrowsTheTotal() public {
+        bytes32 id = _fund();
+
+        assertTrue(id == escrow.escrowId(CLIENT, REF), "id is keccak256(client, ref)");
+        assertEq(usdc.balanceOf(address(escrow)), 300e6, "escrow holds the total");
+        assertEq(usdc.balanceOf(CLIENT), 700e6, "client paid the total");
+
+        (uint256 amount, uint64 completedAt, bool released) = escrow.milestoneOf(id, 1);
+        assertEq(amount, 200e6, "milestone amount");
+        assertEq(completedAt, 0, "not completed");
+        assertTrue(!released, "not released");
+    }
+
+    function test_FundTwiceReverts() public {
+        _fund();
+        vm.expectRevert(RavEscrow.AlreadyFunded.selector);
+        _fund();
+    }
+
+    function test_SameRefFromAnotherClientIsAnotherEscrow() public {
+        bytes32 id = _fund();
+        usdc.mint(STRANGER, 300e6);
+        vm.prank(STRANGER);
+        usdc.approve(address(escrow), 300e6);
+
+        vm.prank(STRANGER);
+        bytes32 other = escrow.fund(REF, address(usdc), STRANGER, _amounts(), RELEASE_AFTER);
+        assertTrue(other != id, "escrows are keyed by client");
+    }
+
+    function test_FundRejectsBadTerms() public {
+        uint256[] memory none = new uint256[](0);
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.InvalidTerms.selector);
+        escrow.fund(REF, address(usdc), MERCHANT, none, RELEASE_AFTER);
+
+        uint256[] memory zero = new uint256[](1);
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.InvalidTerms.selector);
+        escrow.fund(REF, address(usdc), MERCHANT, zero, RELEASE_AFTER);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.InvalidTerms.selector);
+        escrow.fund(REF, address(usdc), address(0), _amounts(), RELEASE_AFTER);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.NotAToken.selector);
+        escrow.fund(REF, STRANGER, MERCHANT, _amounts(), RELEASE_AFTER);
+    }
+
+    function test_FundWithoutAllowanceReverts() public {
+        vm.prank(CLIENT);
+        usdc.approve(address(escrow), 0);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.TransferFailed.selector);
+        escrow.fund(REF, address(usdc), MERCHANT, _amounts(), RELEASE_AFTER);
+    }
+
+    // Complete and release
+
+    function test_ClientReleasesCompletedMilestone() public {
+        bytes32 id = _fund();
+        _complete(id, 0);
+
+        (, uint64 completedAt,) = escrow.milestoneOf(id, 0);
+        assertEq(completedAt, block.timestamp, "completion time recorded");
+
+        vm.prank(CLIENT);
+        escrow.release(id, 0);
+
+        assertEq(usdc.balanceOf(MERCHANT), 100e6, "merchant paid the milestone");
+        assertEq(usdc.balanceOf(address(escrow)), 200e6, "rest stays in escrow");
+        (,, bool released) = escrow.milestoneOf(id, 0);
+        assertTrue(released, "milestone released");
+    }
+
+    function test_ClientMayReleaseBeforeCompletion() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        escrow.release(id, 1);
+        assertEq(usdc.balanceOf(MERCHANT), 200e6, "merchant paid the milestone");
+    }
+
+    function test_ReleaseTwiceReverts() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        escrow.release(id, 0);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.AlreadyReleased.selector);
+        escrow.release(id, 0);
+
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.AlreadyReleased.selector);
+        escrow.complete(id, 0);
+    }
+
+    function test_CompleteTwiceReverts() public {
+        bytes32 id = _fund();
+        _complete(id, 0);
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.AlreadyCompleted.selector);
+        escrow.complete(id, 0);
+    }
+
+    function test_UnknownEscrowOrMilestoneReverts() public {
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.UnknownEscrow.selector);
+        escrow.complete(keccak256("nothing"), 0);
+
+        bytes32 id = _fund();
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.NoSuchMilestone.selector);
+        escrow.complete(id, 2);
+    }
+
+    // Automatic release
+
+    function test_AutoReleaseAfterReviewPeriod() public {
+        bytes32 id = _fund();
+        _complete(id, 0);
+
+        vm.warp(block.timestamp + RELEASE_AFTER - 1);
+        vm.prank(STRANGER);
+        vm.expectRevert(RavEscrow.NotDue.selector);
+        escrow.autoRelease(id, 0);
+
+        vm.warp(block.timestamp + 1);
+        vm.prank(STRANGER);
+        escrow.autoRelease(id, 0);
+        assertEq(usdc.balanceOf(MERCHANT), 100e6, "anyone can release once due");
+
+        vm.prank(STRANGER);
+        vm.expectRevert(RavEscrow.AlreadyReleased.selector);
+        escrow.autoRelease(id, 0);
+    }
+
+    function test_AutoReleaseNeedsCompletion() public {
+        bytes32 id = _fund();
+        vm.warp(block.timestamp + RELEASE_AFTER + 1);
+        vm.expectRevert(RavEscrow.NotDue.selector);
+        escrow.autoRelease(id, 1);
+    }
+
+    // Disputes
+
+    function test_DisputeFreezesEscrow() public {
+        bytes32 id = _fund();
+        _complete(id, 0);
+        vm.prank(CLIENT);
+        escrow.dispute(id);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.EscrowFrozen.selector);
+        escrow.release(id, 0);
+
+        vm.warp(block.timestamp + RELEASE_AFTER);
+        vm.expectRevert(RavEscrow.EscrowFrozen.selector);
+        escrow.autoRelease(id, 0);
+
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.EscrowFrozen.selector);
+        escrow.complete(id, 1);
+
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.EscrowFrozen.selector);
+        escrow.dispute(id);
+    }
+
+    function test_ResolveSplitsWhatIsLeft() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        escrow.release(id, 0);
+        vm.prank(MERCHANT);
+        escrow.dispute(id);
+
+        vm.prank(ARBITER);
+        escrow.resolve(id, 50e6);
+
+        assertEq(usdc.balanceOf(MERCHANT), 150e6, "released milestone plus the merchant's share");
+        assertEq(usdc.balanceOf(CLIENT), 850e6, "client refunded the rest");
+        assertEq(usdc.balanceOf(address(escrow)), 0, "nothing left in escrow");
+
+        vm.prank(ARBITER);
+        vm.expectRevert(RavEscrow.NotDisputed.selector);
+        escrow.resolve(id, 0);
+    }
+
+    function test_ResolveCannotPayMoreThanIsLeft() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        escrow.release(id, 0);
+        vm.prank(CLIENT);
+        escrow.dispute(id);
+
+        vm.prank(ARBITER);
+        vm.expectRevert(RavEscrow.InvalidTerms.selector);
+        escrow.resolve(id, 200e6 + 1);
+    }
+
+    function test_ResolveNeedsDispute() public {
+        bytes32 id = _fund();
+        vm.prank(ARBITER);
+        vm.expectRevert(RavEscrow.NotDisputed.selector);
+        escrow.resolve(id, 0);
+    }
+
+    // Callers
+
+    function test_OnlyMerchantCompletes() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.NotMerchant.selector);
+        escrow.complete(id, 0);
+    }
+
+    function test_OnlyClientReleases() public {
+        bytes32 id = _fund();
+        _complete(id, 0);
+
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.NotClient.selector);
+        escrow.release(id, 0);
+
+        vm.prank(STRANGER);
+        vm.expectRevert(RavEscrow.NotClient.selector);
+        escrow.release(id, 0);
+    }
+
+    function test_OnlyPartiesDispute() public {
+        bytes32 id = _fund();
+        vm.prank(STRANGER);
+        vm.expectRevert(RavEscrow.NotParty.selector);
+        escrow.dispute(id);
+
+        vm.prank(ARBITER);
+        vm.expectRevert(RavEscrow.NotParty.selector);
+        escrow.dispute(id);
+    }
+
+    function test_OnlyArbiterResolves() public {
+        bytes32 id = _fund();
+        vm.prank(CLIENT);
+        escrow.dispute(id);
+
+        vm.prank(CLIENT);
+        vm.expectRevert(RavEscrow.NotArbiter.selector);
+        escrow.resolve(id, 0);
+
+        vm.prank(MERCHANT);
+        vm.expectRevert(RavEscrow.NotArbiter.selector);
+        escrow.resolve(id, 300e6);
+    }
+
+    // Tokens without return values
+
+    function test_WorksWithTokensReturningNothing() public {
+        MockUSDT usdt = new MockUSDT();
+        usdt.mint(CLIENT, 300e6);
+        vm.prank(CLIENT);
+        usdt.approve(address(escrow), 300e6);
+
+        vm.prank(CLIENT);
+        bytes32 id = escrow.fund(REF, address(usdt), MERCHANT, _amounts(), RELEASE_AFTER);
+        vm.prank(CLIENT);
+        escrow.release(id, 1);
+
+        assertEq(usdt.balanceOf(MERCHANT), 200e6, "merchant paid");
+        assertEq(usdt.balanceOf(address(escrow)), 100e6, "rest stays in escrow");
+    }
+}
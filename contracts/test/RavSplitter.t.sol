@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {RavSplitter} from "../RavSplitter.sol";
+import {MockUSDC} from "./mocks/MockUSDC.sol";
+import {MockUSDT} from "./mocks/MockUSDT.sol";
+import {TestBase} from "./TestBase.sol";
+
+contract RavSplitterTest is TestBase {
+    address internal constant PAYER = address(0x9A7E2);
+    address internal constant MERCHANT = address(0x3E2C);
+    address internal constant PARTNER = address(0x9A27);
+    address internal constant PLATFORM = address(0x91A7);
+
+    RavSplitter internal splitter;
+    MockUSDC internal usdc;
+
+    function setUp() public {
+        splitter = new RavSplitter();
+        usdc = new MockUSDC();
+        usdc.mint(PAYER, 1_000e6);
+    }
+
+    function _split() internal pure returns (address[] memory recipients, uint256[] memory amounts) {
+        recipients = new address[](3);
+        recipients[0] = MERCHANT;
+        recipients[1] = PARTNER;
+        recipients[2] = PLATFORM;
+        amounts = new uint256[](3);
+        amounts[0] = 70e6;
+        amounts[1] = 25e6;
+        amounts[2] = 5e6;
+    }
+
+    function test_PaysEveryRecipientFromThePayer() public {
+        (address[] memory recipients, uint256[] memory amounts) = _split();
+        vm.prank(PAYER);
+        usdc.approve(address(splitter), 100e6);
+
+        vm.prank(PAYER);
+        splitter.pay(address(usdc), recipients, amounts);
+
+        assertEq(usdc.balanceOf(MERCHANT), 70e6, "merchant share");
+        assertEq(usdc.balanceOf(PARTNER), 25e6, "partner share");
+        assertEq(usdc.balanceOf(PLATFORM), 5e6, "platform share");
+        assertEq(usdc.balanceOf(PAYER), 900e6, "payer paid the total");
+        assertEq(usdc.balanceOf(address(splitter)), 0, "splitter holds nothing");
+        assertEq(usdc.allowance(PAYER, address(splitter)), 0, "allowance used up");
+    }
+
+    function test_RevertsNamingTheShareThatFailed() public {
+        (address[] memory recipients, uint256[] memory amounts) = _split();
+        // Enough for the first two shares only
+        vm.prank(PAYER);
+        usdc.approve(address(splitter), 95e6);
+
+        vm.prank(PAYER);
+        vm.expectRevert(abi.encodeWithSelector(RavSplitter.TransferFailed.selector, PLATFORM));
+        splitter.pay(address(usdc), recipients, amounts);
+
+        assertEq(usdc.balanceOf(MERCHANT), 0, "nothing paid when a share fails");
+    }
+
+    function test_RejectsMismatchedLengths() public {
+        (address[] memory recipients,) = _split();
+        uint256[] memory amounts = new uint256[](2);
+
+        vm.prank(PAYER);
+        vm.expectRevert(RavSplitter.LengthMismatch.selector);
+        splitter.pay(address(usdc), recipients, amounts);
+    }
+
+    function test_RejectsNonContractToken() public {
+        (address[] memory recipients, uint256[] memory amounts) = _split();
+        vm.prank(PAYER);
+        vm.expectRevert(RavSplitter.NotAToken.selector);
+        splitter.pay(PARTNER, recipients, amounts);
+    }
+
+    function test_WorksWithTokensReturningNothing() public {
+        MockUSDT usdt = new MockUSDT();
+        usdt.mint(PAYER, 100e6);
+        (address[] memory recipients, uint256[] memory amounts) = _split();
+        vm.prank(PAYER);
+        usdt.approve(address(splitter), 100e6);
+
+        vm.prank(PAYER);
+        splitter.pay(address(usdt), recipients, amounts);
+
+        assertEq(usdt.balanceOf(MERCHANT), 70e6, "merchant share");
+        assertEq(usdt.balanceOf(PLATFORM), 5e6, "platform share");
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice The forge cheatcodes these tests use.
+interface Vm {
+    function warp(uint256 timestamp) external;
+    function prank(address sender) external;
+    function expectRevert(bytes4 selector) external;
+    function expectRevert(bytes calldata data) external;
+    function addr(uint256 privateKey) external returns (address);
+    function sign(uint256 privateKey, bytes32 digest) external returns (uint8 v, bytes32 r, bytes32 s);
+}
+
+/// @notice Base of the contract tests. A test fails by reverting, so the
+/// assertions are plain requires.
+abstract contract TestBase {
+    Vm internal constant vm = Vm(address(uint160(uint256(keccak256("hevm cheat code")))));
+
+    function assertEq(uint256 actual, uint256 expected, string memory what) internal pure {
+        require(actual == expected, what);
+    }
+
+    function assertTrue(bool condition, string memory what) internal pure {
+        require(condition, what);
+    }
+}
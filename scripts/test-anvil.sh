@@ -0,0 +1,32 @@
+#!/usr/bin/env sh
+# Runs the edge function tests in supabase/functions/tests against a fresh
+# anvil node: builds the mock tokens with forge, starts anvil with Base's
+# chain id, points the base network and the relayer at it and stops it
+# afterwards. Extra arguments are passed to `deno test`, e.g. --filter relay.
+set -eu
+cd "$(dirname "$0")/.."
+
+PORT="${ANVIL_PORT:-8545}"
+RPC_URL="http://127.0.0.1:$PORT"
+
+forge build
+
+anvil --chain-id 8453 --port "$PORT" --silent &
+ANVIL_PID=$!
+trap 'kill "$ANVIL_PID"' EXIT
+
+i=0
+until cast chain-id --rpc-url "$RPC_URL" >/dev/null 2>&1; do
+  i=$((i + 1))
+  if [ "$i" -gt 50 ]; then
+    echo "anvil did not start on port $PORT" >&2
+    exit 1
+  fi
+  sleep 0.2
+done
+
+# The relayer is anvil's second default account
+NETWORK_PROFILE=mainnet \
+RPC_URL_BASE="$RPC_URL" \
+RELAYER_PRIVATE_KEY=0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d \
+deno test --allow-net --allow-env --allow-read --no-lock "$@" supabase/functions/tests/
@@ -20,6 +20,7 @@ import ResetPassword from "./pages/ResetPassword";
 import ForgotPassword from "./pages/ForgotPassword";
 import ApiKeys from "./pages/ApiKeys";
 import ApiDocs from "./pages/ApiDocs";
+import ConfirmWallet from "./pages/ConfirmWallet";
 
 const queryClient = new QueryClient();
 
@@ -38,11 +39,13 @@ const App = () => (
             <Route path="/admin" element={<Admin />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/confirm-wallet" element={<ConfirmWallet />} />
             <Route path="/products" element={<Products />} />
             <Route path="/invoices" element={<Invoices />} />
             <Route path="/invoice/:invoiceId" element={<InvoicePayment />} />
             <Route path="/invoice-preview/:invoiceId" element={<InvoicePreview />} />
             <Route path="/pay/:merchantId" element={<CustomerPayment />} />
+            <Route path="/checkout/:intentId" element={<CustomerPayment />} />
             <Route path="/success" element={<Success />} />
             <Route path="/apikeys" element={<ApiKeys />} />
             <Route path="/api-docs" element={<ApiDocs />} />
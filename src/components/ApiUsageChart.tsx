@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { endpointUsage, usageSeries, type ApiUsageRow } from '@/lib/apiUsage';
+
+interface ApiUsageChartProps {
+  rows: ApiUsageRow[];
+  keyId: string;
+  quota: number;
+}
+
+// Usage of one API key: month-to-date calls against its quota, the daily
+// calls by status, and this month's busiest endpoints
+export default function ApiUsageChart({ rows, keyId, quota }: ApiUsageChartProps) {
+  const series = useMemo(() => usageSeries(rows, keyId, quota), [rows, keyId, quota]);
+  const endpoints = useMemo(() => endpointUsage(rows, keyId), [rows, keyId]);
+  const formatDay = (date: string) => date.slice(5);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Usage against monthly quota</h3>
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tickFormatter={formatDay} fontSize={10} minTickGap={20} />
+            <YAxis fontSize={10} />
+            <Tooltip />
+            <Legend />
+            <Line type="stepAfter" dataKey="monthToDate" name="Calls this month" stroke="#2563eb" strokeWidth={2} dot={false} />
+            <Line type="stepAfter" dataKey="quota" name="Quota" stroke="#dc2626" strokeDasharray="5 5" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Daily calls by status</h3>
+        <ResponsiveContainer width="100%" height={240}>
+          <BarChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tickFormatter={formatDay} fontSize={10} minTickGap={20} />
+            <YAxis fontSize={10} allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="success" name="2xx" stackId="status" fill="#16a34a" />
+            <Bar dataKey="clientErrors" name="4xx" stackId="status" fill="#f59e0b" />
+            <Bar dataKey="rateLimited" name="429" stackId="status" fill="#9333ea" />
+            <Bar dataKey="serverErrors" name="5xx" stackId="status" fill="#dc2626" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="lg:col-span-2">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Endpoints this month</h3>
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No calls this month</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {endpoints.map((usage) => (
+                <tr key={usage.endpoint} className="border-b border-gray-200 dark:border-gray-700">
+                  <td className="py-2 font-mono text-gray-900 dark:text-gray-200">{usage.endpoint}</td>
+                  <td className="py-2 text-right text-gray-700 dark:text-gray-300">{usage.calls.toLocaleString()} calls</td>
+                  <td className="py-2 text-right text-gray-600 dark:text-gray-400">{usage.errors.toLocaleString()} errors</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { CheckCircle2, Circle, Clock, Loader2, ShieldAlert, Unlock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/errorHandler";
+import {
+  browserSigner,
+  sendEscrowAction,
+  syncEscrow,
+  type FundedEscrow,
+  type Milestone,
+  type MilestoneAction,
+} from "@/lib/escrow";
+import type { EvmNetwork } from "@/lib/networks";
+
+// The escrow fields of an invoice
+export interface EscrowInvoice {
+  id: string;
+  status: string;
+  network: string | null;
+  is_test: boolean;
+  escrow_id: string | null;
+  escrow_contract: string | null;
+  escrow_release_days: number | null;
+}
+
+interface EscrowMilestonesProps {
+  invoice: EscrowInvoice;
+  milestones: Milestone[];
+  // Merchants mark milestones complete; clients release them
+  role: "merchant" | "client";
+  onChanged: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const statusBadge = (milestone: Milestone) => {
+  switch (milestone.status) {
+    case "completed":
+      return <Badge className="bg-blue-100 text-blue-700 text-xs">Completed</Badge>;
+    case "released":
+      return (
+        <Badge className="bg-green-100 text-green-700 text-xs">
+          {milestone.auto_released ? "Auto-released" : "Released"}
+        </Badge>
+      );
+    case "resolved":
+      return <Badge className="bg-gray-100 text-gray-700 text-xs">Resolved</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-700 text-xs">In escrow</Badge>;
+  }
+};
+
+/**
+ * Milestones of an escrow invoice with the actions open to the viewer. Each
+ * action is sent from the viewer's browser wallet and synced once mined.
+ */
+const EscrowMilestones = ({ invoice, milestones, role, onChanged }: EscrowMilestonesProps) => {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<string | null>(null);
+
+  const funded = Boolean(invoice.status === "funded" && invoice.escrow_id && invoice.escrow_contract && invoice.network);
+
+  const runAction = async (action: MilestoneAction, milestone?: Milestone) => {
+    if (!funded) return;
+    if (action === "dispute" && !confirm("Open a dispute? The remaining escrow is frozen until it is resolved.")) {
+      return;
+    }
+
+    const escrow: FundedEscrow = {
+      invoiceId: invoice.id,
+      network: invoice.network as EvmNetwork,
+      isTest: invoice.is_test,
+      escrowId: invoice.escrow_id!,
+      contract: invoice.escrow_contract!,
+    };
+
+    setPending(milestone ? `${action}:${milestone.id}` : action);
+    try {
+      const signer = await browserSigner(escrow.network, escrow.isTest);
+      toast({
+        title: "Confirm in wallet",
+        description: "Waiting for blockchain confirmation...",
+      });
+
+      const txHash = await sendEscrowAction(signer, escrow, action, milestone?.position);
+
+      try {
+        await syncEscrow(invoice.id, escrow.network, txHash);
+      } catch (syncError) {
+        console.error("Escrow sync failed:", syncError);
+        toast({
+          title: "Transaction sent",
+          description: "The escrow will update within a few minutes.",
+        });
+      }
+
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Escrow action failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {milestones.map((milestone) => {
+        const releaseAt = milestone.completed_at && invoice.escrow_release_days
+          ? new Date(new Date(milestone.completed_at).getTime() + invoice.escrow_release_days * DAY_MS)
+          : null;
+        const open = milestone.status === "pending" || milestone.status === "completed";
+
+        return (
+          <div key={milestone.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3">
+            <div className="flex items-start gap-3 min-w-0">
+              {open ? (
+                <Circle className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="text-sm font-medium truncate">
+                    {milestone.position + 1}. {milestone.title}
+                  </p>
+                  {statusBadge(milestone)}
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5">${Number(milestone.amount).toFixed(2)}</p>
+                {funded && milestone.status === "completed" && releaseAt && (
+                  <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    Releases automatically on {releaseAt.toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {funded && role === "merchant" && milestone.status === "pending" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-9 text-xs sm:text-sm"
+                disabled={pending !== null}
+                onClick={() => runAction("complete", milestone)}
+              >
+                {pending === `complete:${milestone.id}` ? (
+                  <Loader2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                )}
+                Mark Complete
+              </Button>
+            )}
+
+            {funded && role === "client" && open && (
+              <Button
+                size="sm"
+                className="h-9 text-xs sm:text-sm"
+                disabled={pending !== null}
+                onClick={() => runAction("release", milestone)}
+              >
+                {pending === `release:${milestone.id}` ? (
+                  <Loader2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 animate-spin" />
+                ) : (
+                  <Unlock className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                )}
+                Release
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {funded && (
+        <Button
+          variant="outline"
+          className="w-full h-10 text-destructive"
+          disabled={pending !== null}
+          onClick={() => runAction("dispute")}
+        >
+          {pending === "dispute" ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 mr-2" />
+          )}
+          Open Dispute
+        </Button>
+      )}
+
+      {invoice.status === "disputed" && (
+        <p className="text-xs text-destructive">
+          This escrow is disputed. The remaining funds are frozen until RavGateway resolves the dispute.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EscrowMilestones;
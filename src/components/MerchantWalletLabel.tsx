@@ -0,0 +1,41 @@
+import { BadgeCheck, Clock } from "lucide-react";
+import type { WalletName } from "@/lib/wallets";
+
+interface MerchantWalletLabelProps {
+  address: string;
+  name?: WalletName;
+  // Replacement wallet in its cooling-off period
+  upcoming?: { address: string; activeAt: string };
+}
+
+const short = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+// Wallet the payer is paying, with the merchant's ENS name or Basename when
+// it still points at that wallet. A name that was re-pointed is left out
+// rather than shown next to an address it no longer belongs to. A pending
+// wallet change is announced so payers are not surprised by the new address.
+const MerchantWalletLabel = ({ address, name, upcoming }: MerchantWalletLabelProps) => (
+  <>
+    <p className="text-xs text-muted-foreground mt-2 flex items-center justify-center gap-1.5 flex-wrap">
+      <span>Merchant:</span>
+      {name?.verified && (
+        <span className="flex items-center gap-1 font-medium text-foreground" title="Verified: this name points to the wallet below">
+          <BadgeCheck className="w-3.5 h-3.5 text-green-600" />
+          {name.name}
+        </span>
+      )}
+      <span className="font-mono">{short(address)}</span>
+    </p>
+    {upcoming && (
+      <p className="text-xs text-orange-600 mt-1 flex items-center justify-center gap-1.5 flex-wrap">
+        <Clock className="w-3.5 h-3.5" />
+        <span>
+          The merchant's wallet changes to <span className="font-mono">{short(upcoming.address)}</span> on{" "}
+          {new Date(upcoming.activeAt).toLocaleString()}. Payments until then go to the current wallet.
+        </span>
+      </p>
+    )}
+  </>
+);
+
+export default MerchantWalletLabel;
@@ -0,0 +1,83 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { MilestoneDraft } from "@/lib/escrow";
+
+interface MilestonesEditorProps {
+  milestones: MilestoneDraft[];
+  onChange: (milestones: MilestoneDraft[]) => void;
+  releaseDays: string;
+  onReleaseDaysChange: (days: string) => void;
+}
+
+const EMPTY_MILESTONE: MilestoneDraft = { title: "", amount: "" };
+
+/**
+ * Milestones of an escrow invoice. The client deposits their total up front
+ * and each one is paid out as it is released. Validated on save with
+ * toMilestoneRows.
+ */
+const MilestonesEditor = ({ milestones, onChange, releaseDays, onReleaseDaysChange }: MilestonesEditorProps) => {
+  const update = (index: number, changes: Partial<MilestoneDraft>) =>
+    onChange(milestones.map((milestone, i) => (i === index ? { ...milestone, ...changes } : milestone)));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Milestones must add up to the invoice amount. Mark each one complete from this page; your client releases
+        it, or it releases automatically after the review period.
+      </p>
+
+      {milestones.map((milestone, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={milestone.title}
+            onChange={(e) => update(index, { title: e.target.value })}
+            placeholder={`Milestone ${index + 1}`}
+            maxLength={100}
+            className="h-10"
+          />
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={milestone.amount}
+            onChange={(e) => update(index, { amount: e.target.value })}
+            placeholder="Amount"
+            className="h-10 w-32"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(milestones.filter((_, i) => i !== index))}
+            aria-label="Remove milestone"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...milestones, EMPTY_MILESTONE])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Milestone
+      </Button>
+
+      <div className="space-y-2">
+        <Label htmlFor="releaseDays" className="text-sm">Review Period (days)</Label>
+        <Input
+          id="releaseDays"
+          type="number"
+          min="1"
+          max="90"
+          value={releaseDays}
+          onChange={(e) => onReleaseDaysChange(e.target.value)}
+          className="h-11"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MilestonesEditor;
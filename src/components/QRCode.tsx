@@ -1,24 +1,34 @@
 import { Card } from "@/components/ui/card";
 import { QRCodeSVG } from "qrcode.react";
+import { scanToPayUri, type ScanToPayIntent, type UriLabels } from "@/lib/uris";
 
  interface QRCodeProps {
-  value: string;
+  value?: string;
+  // Rendered as an EIP-681 / Solana Pay URI wallets can scan, instead of value
+  payment?: ScanToPayIntent;
+  labels?: UriLabels;
   size?: number;
 }
 
-const QRCode = ({ value, size = 200 }: QRCodeProps) => {
+const QRCode = ({ value, payment, labels, size = 200 }: QRCodeProps) => {
+  const content = payment ? scanToPayUri(payment, labels) : value;
+
+  if (!content) {
+    return null;
+  }
+
   return (
     <Card className="p-8 inline-block bg-white">
       <div className="flex justify-center">
         <QRCodeSVG
-          value={value}
+          value={content}
           size={size}
           level="H"
           includeMargin={true}        
         />
       </div>
       <p className="text-center text-xs text-muted-foreground mt-3 font-mono break-all max-w-[200px]">
-        {value.length > 30 ? `${value.substring(0, 30)}...` : value}
+        {content.length > 30 ? `${content.substring(0, 30)}...` : content}
       </p>
     </Card>
   );
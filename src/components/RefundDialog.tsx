@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { ethers } from "ethers";
+import { Connection } from "@solana/web3.js";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/errorHandler";
+import { ERC20_ABI, hexChainId, networksForMode, type Network } from "@/lib/networks";
+import { getSolanaProvider, sendSplTransfer } from "@/lib/solana";
+import { findToken } from "@/lib/tokens";
+
+// The credit being refunded: the stablecoin goes back to `fromAddress` on
+// the network and in the token it was paid with
+export interface RefundablePayment {
+  id: string;
+  amount: number;
+  refundedAmount: number;
+  network: string;
+  token: string;
+  fromAddress: string;
+  isTest?: boolean;
+}
+
+interface RefundDialogProps {
+  payment: RefundablePayment | null;
+  onOpenChange: (open: boolean) => void;
+  onRefunded?: () => void;
+}
+
+/**
+ * Sends a refund from the merchant's wallet to the payer and records it with
+ * record-refund, which verifies the transfer on-chain.
+ */
+const RefundDialog = ({ payment, onOpenChange, onRefunded }: RefundDialogProps) => {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const refundable = payment ? Number(payment.amount) - Number(payment.refundedAmount) : 0;
+
+  const sendEvmRefund = async (network: Network, tokenAddress: string, decimals: number, value: number) => {
+    if (typeof window.ethereum === "undefined") {
+      throw new Error("Connect a browser wallet holding the merchant funds to send a refund");
+    }
+
+    const selectedNet = networksForMode(payment!.isTest)[network];
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    await provider.send("eth_requestAccounts", []);
+
+    try {
+      await provider.send("wallet_switchEthereumChain", [{ chainId: hexChainId(network, payment!.isTest) }]);
+    } catch (switchError: unknown) {
+      if ((switchError as { code?: number }).code !== 4902) throw switchError;
+      await provider.send("wallet_addEthereumChain", [
+        {
+          chainId: hexChainId(network, payment!.isTest),
+          chainName: selectedNet.name,
+          nativeCurrency: selectedNet.nativeCurrency,
+          rpcUrls: [selectedNet.rpcUrl],
+          blockExplorerUrls: [selectedNet.explorer],
+        },
+      ]);
+    }
+
+    const signer = await provider.getSigner();
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+    const tx = await tokenContract.transfer(
+      payment!.fromAddress,
+      ethers.parseUnits(value.toString(), decimals)
+    );
+
+    toast({
+      title: "Refund submitted",
+      description: "Waiting for blockchain confirmation...",
+    });
+
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status === 0) {
+      throw new Error("Refund transaction failed on blockchain");
+    }
+    return receipt.hash as string;
+  };
+
+  const sendSolanaRefund = async (mint: string, decimals: number, value: number) => {
+    const provider = getSolanaProvider();
+    if (!provider) {
+      throw new Error("Install Phantom or another Solana wallet to send a refund");
+    }
+    await provider.connect();
+
+    const connection = new Connection(networksForMode(payment!.isTest).solana.rpcUrl, "confirmed");
+    const { signature, blockhash, lastValidBlockHeight } = await sendSplTransfer({
+      provider,
+      connection,
+      mint,
+      decimals,
+      recipient: payment!.fromAddress,
+      amount: ethers.parseUnits(value.toString(), decimals),
+      memo: `refund:${payment!.id}`,
+    });
+
+    toast({
+      title: "Refund submitted",
+      description: "Waiting for blockchain confirmation...",
+    });
+
+    const { value: status } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+    if (status.err) {
+      throw new Error("Refund transaction failed on blockchain");
+    }
+    return signature;
+  };
+
+  const handleRefund = async () => {
+    if (!payment) return;
+
+    const value = Number(amount || refundable);
+    if (!(value > 0) || value > refundable) {
+      toast({
+        title: "Invalid amount",
+        description: `Refund between $0.01 and $${refundable.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const network = payment.network as Network;
+    const token = findToken(network, payment.token, payment.isTest);
+    if (!token) {
+      toast({
+        title: "Unsupported token",
+        description: `${payment.token} cannot be refunded from the dashboard`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      toast({
+        title: "Confirm in wallet",
+        description: `Refunding ${value} ${token.symbol}...`,
+      });
+
+      const txHash = network === "solana"
+        ? await sendSolanaRefund(token.address, token.decimals, value)
+        : await sendEvmRefund(network, token.address, token.decimals, value);
+
+      const { error } = await supabase.functions.invoke("record-refund", {
+        body: { transactionId: payment.id, txHash, amount: value },
+      });
+
+      if (error) {
+        toast({
+          title: "Refund sent",
+          description: "The refund is on-chain but could not be recorded yet. Keep the transaction hash for reference.",
+        });
+      } else {
+        toast({
+          title: "Refund recorded",
+          description: `$${value.toFixed(2)} refunded to ${payment.fromAddress.slice(0, 6)}...${payment.fromAddress.slice(-4)}`,
+        });
+      }
+
+      setAmount("");
+      onOpenChange(false);
+      onRefunded?.();
+    } catch (error) {
+      toast({
+        title: "Refund failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={payment !== null} onOpenChange={(open) => !sending && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            Sends {payment?.token} from your wallet back to the payer. The refund is verified on-chain and a receipt is emailed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {payment && (
+          <div className="space-y-4">
+            <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Refund to:</span>
+                <span className="font-mono text-xs break-all text-right ml-2">{payment.fromAddress}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Refundable:</span>
+                <span className="font-semibold">${refundable.toFixed(2)} {payment.token}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={refundable}
+                placeholder={refundable.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={sending}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to refund the full amount.</p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleRefund} disabled={sending || refundable <= 0}>
+            {sending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Sending Refund...
+              </>
+            ) : (
+              <>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Send Refund
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Loader2, Smartphone } from "lucide-react";
+import QRCode from "@/components/QRCode";
+import { supabase } from "@/integrations/supabase/client";
+import type { ScanToPayIntent, UriLabels } from "@/lib/uris";
+
+const POLL_INTERVAL_MS = 5000;
+
+interface ScanToPayProps {
+  intent: ScanToPayIntent;
+  labels?: UriLabels;
+  // Called once chain-watcher has matched the transfer to the intent
+  onPaid: (txHash: string) => void;
+}
+
+// QR code a mobile wallet pays the intent from. Nothing is reported back by
+// the browser: the page polls the intent until chain-watcher settles it.
+const ScanToPay = ({ intent, labels, onPaid }: ScanToPayProps) => {
+  const [status, setStatus] = useState("requires_payment");
+
+  useEffect(() => {
+    const timer = setInterval(async () => {
+      const { data } = await supabase.rpc("get_payment_intent", { p_intent_id: intent.id });
+      const current = data?.[0];
+      if (!current) return;
+
+      setStatus(current.status);
+      if (current.status === "succeeded") {
+        clearInterval(timer);
+        onPaid(current.tx_hash);
+      } else if (current.status === "expired" || current.status === "canceled") {
+        clearInterval(timer);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [intent.id, onPaid]);
+
+  if (status === "expired" || status === "canceled") {
+    return (
+      <p className="text-sm text-destructive text-center">
+        This payment request has expired. Refresh the page to get a new code.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <QRCode payment={intent} labels={labels} size={window.innerWidth < 640 ? 180 : 220} />
+      <p className="text-xs text-muted-foreground text-center flex items-center gap-1">
+        <Smartphone className="w-3 h-3" />
+        Scan with a wallet app to send {Number(intent.amount).toFixed(2)} {intent.token}
+      </p>
+      <p className="text-xs text-muted-foreground text-center flex items-center gap-1">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        {status === "processing"
+          ? "Payment detected, waiting for confirmation..."
+          : `Waiting for payment until ${new Date(intent.expires_at).toLocaleTimeString()}`}
+      </p>
+    </div>
+  );
+};
+
+export default ScanToPay;
@@ -0,0 +1,100 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_SPLIT_RECIPIENTS, type SplitRuleDraft } from "@/lib/splits";
+
+interface SplitRulesEditorProps {
+  rules: SplitRuleDraft[];
+  onChange: (rules: SplitRuleDraft[]) => void;
+}
+
+const EMPTY_RULE: SplitRuleDraft = { address: "", kind: "percent", value: "", label: "" };
+
+/**
+ * Recipients that get a share of every payment, e.g. a vendor or a platform
+ * commission. Validated on save with fromSplitRuleDrafts.
+ */
+const SplitRulesEditor = ({ rules, onChange }: SplitRulesEditorProps) => {
+  const update = (index: number, changes: Partial<SplitRuleDraft>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-sm">Split Payments</Label>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Send a share of each payment to other wallets in the same transaction. You receive the rest.
+          Recipients must use an address on the network the customer pays with.
+        </p>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={rule.address}
+              onChange={(e) => update(index, { address: e.target.value.trim() })}
+              placeholder="Recipient wallet address"
+              className="h-10 font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              aria-label="Remove recipient"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-2">
+            <div className="flex">
+              <Button
+                type="button"
+                variant={rule.kind === "percent" ? "default" : "outline"}
+                onClick={() => update(index, { kind: "percent" })}
+                className="h-10 rounded-r-none"
+              >
+                %
+              </Button>
+              <Button
+                type="button"
+                variant={rule.kind === "amount" ? "default" : "outline"}
+                onClick={() => update(index, { kind: "amount" })}
+                className="h-10 rounded-l-none"
+              >
+                $
+              </Button>
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={rule.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+              placeholder={rule.kind === "percent" ? "Percent" : "Fixed amount"}
+              className="h-10"
+            />
+            <Input
+              value={rule.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              placeholder="Label (optional)"
+              maxLength={50}
+              className="h-10"
+            />
+          </div>
+        </div>
+      ))}
+
+      {rules.length < MAX_SPLIT_RECIPIENTS && (
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rules, EMPTY_RULE])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Recipient
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SplitRulesEditor;
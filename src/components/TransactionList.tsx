@@ -2,7 +2,9 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowDownLeft, ArrowUpRight, ChevronDown, Printer } from "lucide-react";
+import { ArrowDownLeft, ArrowUpRight, ChevronDown, Printer, Undo2 } from "lucide-react";
+import RefundDialog, { type RefundablePayment } from "@/components/RefundDialog";
+import { networkName, txExplorerUrl } from "@/lib/networks";
 
 export interface Transaction {
   id: string;
@@ -10,19 +12,64 @@ export interface Transaction {
   name: string;
   amount: number;
   date: string;
-  status: "completed" | "pending";
+  status: "pending" | "confirming" | "confirmed" | "failed" | "dropped";
+  confirmations?: number;
+  requiredConfirmations?: number;
   txHash?: string;
   network?: string;
+  token?: string;
   productName?: string;
   quantity?: number;
+  isTest?: boolean;
+  // Payer's wallet, where a refund is sent
+  fromAddress?: string;
+  // On credits: how much has been refunded so far
+  refundedAmount?: number;
+  // On debits: the credit this refund pays back
+  refundOf?: string;
+  // On split lines: the payer's line of the same payment, owned by another merchant
+  splitOf?: string;
 }
 
 interface TransactionListProps {
   transactions: Transaction[];
+  onRefunded?: () => void;
 }
 
-const TransactionList = ({ transactions }: TransactionListProps) => {
+const statusColors: Record<Transaction["status"], string> = {
+  pending: "#eab308",
+  confirming: "#3b82f6",
+  confirmed: "#22c55e",
+  failed: "#ef4444",
+  dropped: "#ef4444",
+};
+
+const statusLabel = (transaction: Transaction) =>
+  transaction.status === "confirming" && transaction.requiredConfirmations
+    ? `confirming (${Math.min(transaction.confirmations ?? 0, transaction.requiredConfirmations)}/${transaction.requiredConfirmations})`
+    : transaction.status;
+
+const statusVariant = (status: Transaction["status"]) => {
+  if (status === "confirmed") return "default";
+  if (status === "failed" || status === "dropped") return "destructive";
+  return "secondary";
+};
+
+// A verified credit with a payer address can be refunded until it is fully refunded
+const isRefundable = (transaction: Transaction) =>
+  transaction.type === "credit" &&
+  (transaction.status === "confirmed" || transaction.status === "confirming") &&
+  !!transaction.fromAddress && !!transaction.network && !!transaction.token &&
+  (transaction.refundedAmount ?? 0) < transaction.amount;
+
+const refundLabel = (transaction: Transaction) => {
+  if (transaction.type !== "credit" || !transaction.refundedAmount) return null;
+  return transaction.refundedAmount >= transaction.amount ? "refunded" : "partially refunded";
+};
+
+const TransactionList = ({ transactions, onRefunded }: TransactionListProps) => {
   const [visibleCount, setVisibleCount] = useState(5);
+  const [refunding, setRefunding] = useState<RefundablePayment | null>(null);
 
   const visibleTransactions = transactions.slice(0, visibleCount);
   const hasMore = visibleCount < transactions.length;
@@ -127,7 +174,7 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
           .status {
            display: inline-block;
             padding: 3px 10px;  /* Reduced from 4px 12px */
-            background: ${transaction.status === 'completed' ? '#22c55e' : '#eab308'};
+            background: ${statusColors[transaction.status]};
             color: white;
             border-radius: 4px;
             font-size: 11px;  /* Reduced from 12px */
@@ -171,7 +218,7 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
           <div class="header">
             <div class="logo">RAVGATEWAY</div>
             <div style="font-size: 12px; margin-top: 5px;">Blockchain Payment System</div>
-            <div class="title">PAYMENT RECEIPT</div>
+            <div class="title">${transaction.type === "debit" ? "REFUND RECEIPT" : "PAYMENT RECEIPT"}</div>
           </div>
 
           <div class="section">
@@ -185,7 +232,7 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
             </div>
             <div class="row">
               <span class="label">Status:</span>
-              <span class="status">${transaction.status.toUpperCase()}</span>
+              <span class="status">${statusLabel(transaction).toUpperCase()}</span>
             </div>
           </div>
 
@@ -210,7 +257,7 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
 
           <div class="total">
             <div class="total-row">
-              <span>TOTAL PAID:</span>
+              <span>${transaction.type === "debit" ? "TOTAL REFUNDED:" : "TOTAL PAID:"}</span>
               <span>$${transaction.amount.toFixed(2)}</span>
             </div>
           </div>
@@ -220,17 +267,23 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
             <div style="font-weight: bold; margin-bottom: 10px;"> Blockchain Verification</div>
             <div class="row">
               <span class="label">Network:</span>
-              <span>${transaction.network === 'celo' ? 'Celo' : 'Base'} Testnet</span>
+              <span>${networkName(transaction.network, transaction.isTest)}</span>
             </div>
+            ${transaction.token ? `
+            <div class="row">
+              <span class="label">Paid In:</span>
+              <span>${transaction.token}</span>
+            </div>
+            ` : ''}
             <div class="blockchain">
               <div style="font-weight: bold; margin-bottom: 5px;">Transaction Hash:</div>
               <div>${transaction.txHash}</div>
             </div>
+            ${txExplorerUrl(transaction.network, transaction.txHash, transaction.isTest) ? `
             <div style="font-size: 10px; margin-top: 10px;">
-              Verify at: ${transaction.network === 'celo' 
-                ? 'https://celo-sepolia.blockscout.com' 
-                : 'https://sepolia.basescan.org'}/tx/${transaction.txHash}
+              Verify at: ${txExplorerUrl(transaction.network, transaction.txHash, transaction.isTest)}
             </div>
+            ` : ''}
           </div>
           ` : ''}
 
@@ -289,7 +342,10 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="font-medium text-foreground truncate">{transaction.name}</p>
-                    <p className="text-sm text-muted-foreground">{transaction.date}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {transaction.type === "debit" && transaction.refundOf ? "Refund • " : ""}
+                      {transaction.date}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
@@ -300,14 +356,46 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
                         : "text-red-600"
                     }`}>
                       {transaction.type === "credit" ? "+" : "-"}${transaction.amount.toFixed(2)}
+                      {transaction.token && (
+                        <span className="ml-1 text-xs font-normal text-muted-foreground">{transaction.token}</span>
+                      )}
                     </p>
                     <Badge 
-                      variant={transaction.status === "completed" ? "default" : "secondary"}
+                      variant={statusVariant(transaction.status)}
                       className="mt-1"
                     >
-                      {transaction.status}
+                      {statusLabel(transaction)}
                     </Badge>
+                    {refundLabel(transaction) && (
+                      <Badge variant="outline" className="mt-1 ml-1 border-orange-500 text-orange-600">
+                        {refundLabel(transaction)}
+                      </Badge>
+                    )}
+                    {transaction.splitOf && (
+                      <Badge variant="outline" className="mt-1 ml-1">
+                        Split
+                      </Badge>
+                    )}
                   </div>
+                  {isRefundable(transaction) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRefunding({
+                        id: transaction.id,
+                        amount: transaction.amount,
+                        refundedAmount: transaction.refundedAmount ?? 0,
+                        network: transaction.network!,
+                        token: transaction.token!,
+                        fromAddress: transaction.fromAddress!,
+                        isTest: transaction.isTest,
+                      })}
+                      title="Refund"
+                      className="flex-shrink-0"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -351,6 +439,12 @@ const TransactionList = ({ transactions }: TransactionListProps) => {
           </div>
         </>
       )}
+
+      <RefundDialog
+        payment={refunding}
+        onOpenChange={(open) => !open && setRefunding(null)}
+        onRefunded={onRefunded}
+      />
     </Card>
   );
 };
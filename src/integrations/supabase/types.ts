@@ -14,35 +14,462 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          calls_used: number | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          is_test: boolean
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string | null
+          profile_id: string | null
+          rate_limit: number | null
+          tier: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          calls_used?: number | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_test?: boolean
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name?: string | null
+          profile_id?: string | null
+          rate_limit?: number | null
+          tier?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          calls_used?: number | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_test?: boolean
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string | null
+          profile_id?: string | null
+          rate_limit?: number | null
+          tier?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_usage_daily: {
+        Row: {
+          api_key_id: string
+          calls: number
+          day: string
+          endpoint: string
+          profile_id: string
+          status_counts: Json
+        }
+        Insert: {
+          api_key_id: string
+          calls?: number
+          day: string
+          endpoint: string
+          profile_id: string
+          status_counts?: Json
+        }
+        Update: {
+          api_key_id?: string
+          calls?: number
+          day?: string
+          endpoint?: string
+          profile_id?: string
+          status_counts?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_usage_daily_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_usage_daily_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_milestones: {
+        Row: {
+          amount: number
+          auto_released: boolean
+          completed_at: string | null
+          created_at: string
+          id: string
+          invoice_id: string
+          position: number
+          release_tx_hash: string | null
+          released_at: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          auto_released?: boolean
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          invoice_id: string
+          position: number
+          release_tx_hash?: string | null
+          released_at?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          auto_released?: boolean
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          position?: number
+          release_tx_hash?: string | null
+          released_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_milestones_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount: number
+          amount_due: number
+          amount_paid: number
+          client_email: string
+          client_name: string
+          created_at: string
+          currency: string
+          description: string | null
+          due_date: string
+          escrow: boolean
+          escrow_client_address: string | null
+          escrow_contract: string | null
+          escrow_fund_tx_hash: string | null
+          escrow_funded_at: string | null
+          escrow_id: string | null
+          escrow_merchant_address: string | null
+          escrow_release_days: number | null
+          id: string
+          invoice_number: string
+          is_test: boolean
+          issue_date: string
+          items: Json | null
+          last_reminded_at: string | null
+          merchant_id: string
+          network: string | null
+          overpaid_amount: number
+          overpayment_resolution: string | null
+          paid_at: string | null
+          refunded_amount: number
+          reminder_count: number | null
+          split_rules: Json | null
+          status: string
+          token: string | null
+          tx_hash: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          amount_paid?: number
+          client_email: string
+          client_name: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          due_date: string
+          escrow?: boolean
+          escrow_client_address?: string | null
+          escrow_contract?: string | null
+          escrow_fund_tx_hash?: string | null
+          escrow_funded_at?: string | null
+          escrow_id?: string | null
+          escrow_merchant_address?: string | null
+          escrow_release_days?: number | null
+          id?: string
+          invoice_number: string
+          is_test?: boolean
+          issue_date?: string
+          items?: Json | null
+          last_reminded_at?: string | null
+          merchant_id: string
+          network?: string | null
+          overpayment_resolution?: string | null
+          paid_at?: string | null
+          refunded_amount?: number
+          reminder_count?: number | null
+          split_rules?: Json | null
+          status?: string
+          token?: string | null
+          tx_hash?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          amount_paid?: number
+          client_email?: string
+          client_name?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          due_date?: string
+          escrow?: boolean
+          escrow_client_address?: string | null
+          escrow_contract?: string | null
+          escrow_fund_tx_hash?: string | null
+          escrow_funded_at?: string | null
+          escrow_id?: string | null
+          escrow_merchant_address?: string | null
+          escrow_release_days?: number | null
+          id?: string
+          invoice_number?: string
+          is_test?: boolean
+          issue_date?: string
+          items?: Json | null
+          last_reminded_at?: string | null
+          merchant_id?: string
+          network?: string | null
+          overpayment_resolution?: string | null
+          paid_at?: string | null
+          refunded_amount?: number
+          reminder_count?: number | null
+          split_rules?: Json | null
+          status?: string
+          token?: string | null
+          tx_hash?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merchant_wallets: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          merchant_id: string
+          name: string | null
+          name_address: string | null
+          name_checked_at: string | null
+          network: string
+          updated_at: string
+          verified_at: string | null
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          id?: string
+          merchant_id: string
+          name?: string | null
+          name_address?: string | null
+          name_checked_at?: string | null
+          network: string
+          updated_at?: string
+          verified_at?: string | null
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          merchant_id?: string
+          name?: string | null
+          name_address?: string | null
+          name_checked_at?: string | null
+          network?: string
+          updated_at?: string
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "merchant_wallets_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_intents: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          customer_email: string | null
+          description: string | null
+          exchange_rate: number
+          expires_at: string
+          fiat_amount: number | null
+          id: string
+          invoice_id: string | null
+          is_test: boolean
+          merchant_id: string
+          metadata: Json
+          network: string
+          product_id: string | null
+          quantity: number
+          rate_quoted_at: string | null
+          rate_source: string | null
+          recipient_address: string
+          solana_reference: string | null
+          splits: Json
+          splitter_address: string | null
+          status: string
+          token: string
+          token_address: string
+          tx_hash: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          customer_email?: string | null
+          description?: string | null
+          exchange_rate?: number
+          expires_at: string
+          fiat_amount?: number | null
+          id?: string
+          invoice_id?: string | null
+          is_test?: boolean
+          merchant_id: string
+          metadata?: Json
+          network: string
+          product_id?: string | null
+          quantity?: number
+          rate_quoted_at?: string | null
+          rate_source?: string | null
+          recipient_address: string
+          solana_reference?: string | null
+          splits?: Json
+          splitter_address?: string | null
+          status?: string
+          token: string
+          token_address: string
+          tx_hash?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          customer_email?: string | null
+          description?: string | null
+          exchange_rate?: number
+          expires_at?: string
+          fiat_amount?: number | null
+          id?: string
+          invoice_id?: string | null
+          is_test?: boolean
+          merchant_id?: string
+          metadata?: Json
+          network?: string
+          product_id?: string | null
+          quantity?: number
+          rate_quoted_at?: string | null
+          rate_source?: string | null
+          recipient_address?: string
+          solana_reference?: string | null
+          splits?: Json
+          splitter_address?: string | null
+          status?: string
+          token?: string
+          token_address?: string
+          tx_hash?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_intents_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           created_at: string
+          currency: string
           description: string | null
           id: string
           is_active: boolean
           merchant_id: string
           name: string
           price: number
+          split_rules: Json | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          currency?: string
           description?: string | null
           id?: string
           is_active?: boolean
           merchant_id: string
           name: string
           price: number
+          split_rules?: Json | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          currency?: string
           description?: string | null
           id?: string
           is_active?: boolean
           merchant_id?: string
           name?: string
           price?: number
+          split_rules?: Json | null
           updated_at?: string
         }
         Relationships: [
@@ -57,66 +484,227 @@ export type Database = {
       }
       profiles: {
         Row: {
+          accepted_tokens: Json | null
           business_address: string | null
           created_at: string
+          gasless_billing: boolean
           id: string
           merchant_name: string
+          solana_wallet_address: string | null
           updated_at: string
           wallet_address: string | null
         }
         Insert: {
+          accepted_tokens?: Json | null
           business_address?: string | null
           created_at?: string
+          gasless_billing?: boolean
           id: string
           merchant_name: string
+          solana_wallet_address?: string | null
           updated_at?: string
           wallet_address?: string | null
         }
         Update: {
+          accepted_tokens?: Json | null
           business_address?: string | null
           created_at?: string
+          gasless_billing?: boolean
           id?: string
           merchant_name?: string
+          solana_wallet_address?: string | null
           updated_at?: string
           wallet_address?: string | null
         }
         Relationships: []
       }
+      relayed_payments: {
+        Row: {
+          billed_to_merchant: boolean
+          created_at: string
+          gas_cost_wei: number | null
+          gas_used: number | null
+          id: string
+          is_test: boolean
+          merchant_id: string
+          network: string
+          payer_address: string
+          payment_intent_id: string
+          relayer_address: string
+          standard: string
+          status: string
+          token: string
+          tx_hash: string | null
+        }
+        Insert: {
+          billed_to_merchant?: boolean
+          created_at?: string
+          gas_cost_wei?: number | null
+          gas_used?: number | null
+          id?: string
+          is_test?: boolean
+          merchant_id: string
+          network: string
+          payer_address: string
+          payment_intent_id: string
+          relayer_address: string
+          standard: string
+          status?: string
+          token: string
+          tx_hash?: string | null
+        }
+        Update: {
+          billed_to_merchant?: boolean
+          created_at?: string
+          gas_cost_wei?: number | null
+          gas_used?: number | null
+          id?: string
+          is_test?: boolean
+          merchant_id?: string
+          network?: string
+          payer_address?: string
+          payment_intent_id?: string
+          relayer_address?: string
+          standard?: string
+          status?: string
+          token?: string
+          tx_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "relayed_payments_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "relayed_payments_payment_intent_id_fkey"
+            columns: ["payment_intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           amount: number
+          block_hash: string | null
+          block_number: number | null
+          confirmations: number
           created_at: string
+          currency: string
           customer_name: string
+          exchange_rate: number
+          fiat_amount: number | null
+          from_address: string | null
           id: string
+          invoice_id: string | null
+          is_test: boolean
           merchant_id: string
+          milestone_id: string | null
+          network: string | null
+          payment_intent_id: string | null
           product_id: string | null
+          quantity: number
+          rate_quoted_at: string | null
+          rate_source: string | null
           reference_id: string
+          refund_of: string | null
+          refunded_amount: number
+          required_confirmations: number | null
+          split_amount: number
+          split_of: string | null
           status: string
+          to_address: string | null
+          token: string | null
           transaction_type: string
+          tx_hash: string | null
         }
         Insert: {
           amount: number
+          block_hash?: string | null
+          block_number?: number | null
+          confirmations?: number
           created_at?: string
+          currency?: string
           customer_name: string
+          exchange_rate?: number
+          fiat_amount?: number | null
+          from_address?: string | null
           id?: string
+          invoice_id?: string | null
+          is_test?: boolean
           merchant_id: string
+          milestone_id?: string | null
+          network?: string | null
+          payment_intent_id?: string | null
           product_id?: string | null
+          quantity?: number
+          rate_quoted_at?: string | null
+          rate_source?: string | null
           reference_id: string
+          refund_of?: string | null
+          refunded_amount?: number
+          required_confirmations?: number | null
+          split_amount?: number
+          split_of?: string | null
           status?: string
+          to_address?: string | null
+          token?: string | null
           transaction_type: string
+          tx_hash?: string | null
         }
         Update: {
           amount?: number
+          block_hash?: string | null
+          block_number?: number | null
+          confirmations?: number
           created_at?: string
+          currency?: string
           customer_name?: string
+          exchange_rate?: number
+          fiat_amount?: number | null
+          from_address?: string | null
           id?: string
+          invoice_id?: string | null
+          is_test?: boolean
           merchant_id?: string
+          milestone_id?: string | null
+          network?: string | null
+          payment_intent_id?: string | null
           product_id?: string | null
+          quantity?: number
+          rate_quoted_at?: string | null
+          rate_source?: string | null
           reference_id?: string
+          refund_of?: string | null
+          refunded_amount?: number
+          required_confirmations?: number | null
+          split_amount?: number
+          split_of?: string | null
           status?: string
+          to_address?: string | null
+          token?: string | null
           transaction_type?: string
+          tx_hash?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_payment_intent_id_fkey"
+            columns: ["payment_intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_merchant_id_fkey"
             columns: ["merchant_id"]
@@ -131,14 +719,178 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_split_of_fkey"
+            columns: ["split_of"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_changes: {
+        Row: {
+          active_at: string | null
+          address: string
+          created_at: string
+          email_confirmed_at: string | null
+          email_token_hash: string | null
+          expires_at: string
+          id: string
+          merchant_id: string
+          message: string
+          name: string | null
+          network: string
+          nonce: string
+          previous_address: string | null
+          signature: string | null
+          signed_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          active_at?: string | null
+          address: string
+          created_at?: string
+          email_confirmed_at?: string | null
+          email_token_hash?: string | null
+          expires_at: string
+          id?: string
+          merchant_id: string
+          message: string
+          name?: string | null
+          network: string
+          nonce: string
+          previous_address?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          active_at?: string | null
+          address?: string
+          created_at?: string
+          email_confirmed_at?: string | null
+          email_token_hash?: string | null
+          expires_at?: string
+          id?: string
+          merchant_id?: string
+          message?: string
+          name?: string | null
+          network?: string
+          nonce?: string
+          previous_address?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_changes_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      wallet_logins: {
+        Row: {
+          address: string
+          created_at: string
+          expires_at: string
+          id: string
+          message: string
+          nonce: string
+          used_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          message: string
+          nonce: string
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          message?: string
+          nonce?: string
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      get_invoice_payments: {
+        Args: { p_invoice_id: string }
+        Returns: {
+          amount: number
+          created_at: string
+          from_address: string
+          id: string
+          is_test: boolean
+          network: string
+          refunded_amount: number
+          status: string
+          tx_hash: string
+          token: string
+        }[]
+      }
+      get_payment_intent: {
+        Args: { p_intent_id: string }
+        Returns: {
+          amount: number
+          description: string
+          expires_at: string
+          id: string
+          invoice_id: string
+          is_test: boolean
+          merchant_id: string
+          merchant_name: string
+          network: string
+          product_id: string
+          product_name: string
+          quantity: number
+          recipient_address: string
+          solana_reference: string
+          splits: Json
+          splitter_address: string
+          status: string
+          token: string
+          token_address: string
+          tx_hash: string
+        }[]
+      }
+      get_pending_wallet_changes: {
+        Args: { p_merchant_id: string }
+        Returns: {
+          active_at: string
+          address: string
+          network: string
+        }[]
+      }
       is_profile_owner: { Args: { profile_id: string }; Returns: boolean }
+      mark_invoice_viewed: { Args: { p_invoice_id: string }; Returns: undefined }
     }
     Enums: {
       [_ in never]: never
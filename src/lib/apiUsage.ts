@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// API usage as metered by the API (api_usage_daily): calls per key,
+// endpoint and UTC day, with a count per HTTP status. Quota periods are
+// calendar months (UTC); rate-limited calls don't count against the quota.
+
+export interface ApiUsageRow {
+  api_key_id: string;
+  day: string;
+  endpoint: string;
+  calls: number;
+  status_counts: Record<string, number>;
+}
+
+export interface UsageDay {
+  date: string;
+  success: number;
+  clientErrors: number;
+  rateLimited: number;
+  serverErrors: number;
+  // Calls counted against the quota since the start of the month
+  monthToDate: number;
+  quota: number;
+}
+
+export interface EndpointUsage {
+  endpoint: string;
+  calls: number;
+  errors: number;
+}
+
+// Whole quota periods shown: this month and the two before
+export const USAGE_MONTHS = 3;
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const usageStart = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (USAGE_MONTHS - 1), 1));
+};
+
+/** The merchant's usage rows for every key since the start of the charted periods. */
+export const fetchApiUsage = async () => {
+  const { data, error } = await supabase
+    .from("api_usage_daily")
+    .select("api_key_id, day, endpoint, calls, status_counts")
+    .gte("day", utcDay(usageStart()))
+    .order("day", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ApiUsageRow[];
+};
+
+const countStatuses = (counts: Record<string, number>, matches: (status: number) => boolean) =>
+  Object.entries(counts).reduce((sum, [status, calls]) => sum + (matches(Number(status)) ? calls : 0), 0);
+
+/** Calls in `row` counted against the quota: everything but 429s. */
+export const quotaCalls = (row: ApiUsageRow) => row.calls - (row.status_counts["429"] ?? 0);
+
+/** This month's quota usage per key. */
+export const monthUsageByKey = (rows: ApiUsageRow[]) => {
+  const month = utcDay(new Date()).slice(0, 7);
+  return rows
+    .filter((row) => row.day.startsWith(month))
+    .reduce<Record<string, number>>((usage, row) => {
+      usage[row.api_key_id] = (usage[row.api_key_id] ?? 0) + quotaCalls(row);
+      return usage;
+    }, {});
+};
+
+/** One entry per day for a key up to today, oldest first, including days without calls. */
+export const usageSeries = (rows: ApiUsageRow[], keyId: string, quota: number): UsageDay[] => {
+  const byDay = new Map<string, ApiUsageRow[]>();
+  for (const row of rows) {
+    if (row.api_key_id !== keyId) continue;
+    byDay.set(row.day, [...(byDay.get(row.day) ?? []), row]);
+  }
+
+  const series: UsageDay[] = [];
+  const today = utcDay(new Date());
+  let monthToDate = 0;
+
+  for (const cursor = usageStart(); utcDay(cursor) <= today; cursor.setUTCDate(cursor.getUTCDate() + 1)) {
+    const date = utcDay(cursor);
+    // A new quota period starts on the 1st
+    if (date.endsWith("-01")) monthToDate = 0;
+
+    const dayRows = byDay.get(date) ?? [];
+    const total = (matches: (status: number) => boolean) =>
+      dayRows.reduce((sum, row) => sum + countStatuses(row.status_counts, matches), 0);
+
+    monthToDate += dayRows.reduce((sum, row) => sum + quotaCalls(row), 0);
+    series.push({
+      date,
+      success: total((status) => status < 400),
+      clientErrors: total((status) => status >= 400 && status < 500 && status !== 429),
+      rateLimited: total((status) => status === 429),
+      serverErrors: total((status) => status >= 500),
+      monthToDate,
+      quota,
+    });
+  }
+
+  return series;
+};
+
+/** Calls per endpoint this month for a key, busiest first. */
+export const endpointUsage = (rows: ApiUsageRow[], keyId: string): EndpointUsage[] => {
+  const month = utcDay(new Date()).slice(0, 7);
+  const byEndpoint = new Map<string, EndpointUsage>();
+
+  for (const row of rows) {
+    if (row.api_key_id !== keyId || !row.day.startsWith(month)) continue;
+    const usage = byEndpoint.get(row.endpoint) ?? { endpoint: row.endpoint, calls: 0, errors: 0 };
+    usage.calls += row.calls;
+    usage.errors += countStatuses(row.status_counts, (status) => status >= 400);
+    byEndpoint.set(row.endpoint, usage);
+  }
+
+  return [...byEndpoint.values()].sort((a, b) => b.calls - a.calls);
+};
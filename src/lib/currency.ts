@@ -0,0 +1,10 @@
+import { CURRENCIES, type Currency } from "../../supabase/functions/_shared/currencies.ts";
+
+export { CURRENCIES, type Currency };
+
+// Products and invoices are priced in any of CURRENCIES and paid in USD
+// stablecoins, converted when the payment intent is created.
+
+/** Formats an amount in its currency, e.g. "$12.50" or "NGN 15,000.00". */
+export const formatMoney = (amount: number, currency = "USD") =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(Number(amount));
@@ -0,0 +1,180 @@
+import { ethers } from "ethers";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { hexChainId, networksForMode, type EvmNetwork } from "@/lib/networks";
+
+// Milestone escrow runs on RavEscrow (contracts/). Every change is a
+// transaction from the client's or the merchant's own wallet; sync-escrow
+// then reads its events from the receipt and updates the invoice.
+
+const ESCROW_ABI = [
+  "function fund(bytes32 ref, address token, address merchant, uint256[] amounts, uint64 releaseAfter) returns (bytes32)",
+  "function complete(bytes32 id, uint256 index)",
+  "function release(bytes32 id, uint256 index)",
+  "function dispute(bytes32 id)",
+];
+
+const ALLOWANCE_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 value) returns (bool)",
+];
+
+export type Milestone = Tables<"invoice_milestones">;
+
+// What the client's deposit must carry, as returned by escrow-terms
+export interface EscrowTerms {
+  contract: string;
+  ref: string;
+  token: string;
+  token_address: string;
+  decimals: number;
+  merchant: string;
+  // Base units per milestone
+  amounts: string[];
+  // Seconds
+  release_after: number;
+}
+
+// The escrow of a funded invoice, for the milestone actions
+export interface FundedEscrow {
+  invoiceId: string;
+  network: EvmNetwork;
+  isTest: boolean;
+  escrowId: string;
+  contract: string;
+}
+
+// A milestone as edited in the invoice form
+export interface MilestoneDraft {
+  title: string;
+  amount: string;
+}
+
+export const DEFAULT_RELEASE_DAYS = 14;
+
+export const ESCROW_STATUSES = ["funded", "disputed", "resolved"];
+
+/**
+ * Milestone rows for a new escrow invoice. Throws when a milestone is
+ * incomplete or they do not add up to the invoice amount.
+ */
+export const toMilestoneRows = (invoiceId: string, drafts: MilestoneDraft[], amount: number) => {
+  if (drafts.length === 0) {
+    throw new Error("Add at least one milestone");
+  }
+
+  const rows = drafts.map((draft, position) => {
+    const value = Number(draft.amount);
+    if (!draft.title.trim() || !(value > 0)) {
+      throw new Error(`Milestone ${position + 1} needs a title and an amount`);
+    }
+    return { invoice_id: invoiceId, position, title: draft.title.trim(), amount: value };
+  });
+
+  const total = rows.reduce((sum, row) => sum + row.amount, 0);
+  if (Math.abs(total - amount) > 0.000001) {
+    throw new Error(`Milestones add up to $${total.toFixed(2)}, not the invoice amount of $${amount.toFixed(2)}`);
+  }
+  return rows;
+};
+
+export const fetchMilestones = async (invoiceId: string): Promise<Milestone[]> => {
+  const { data, error } = await supabase
+    .from("invoice_milestones")
+    .select("*")
+    .eq("invoice_id", invoiceId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchEscrowTerms = async (invoiceId: string, network: EvmNetwork, token?: string) => {
+  const { data, error } = await supabase.functions.invoke("escrow-terms", {
+    body: { invoiceId, network, token },
+  });
+
+  if (error || !data?.terms) {
+    throw new Error("Unable to prepare the escrow deposit. Please refresh and try again.");
+  }
+  return data.terms as EscrowTerms;
+};
+
+/** Applies the escrow events of a mined transaction to the invoice. */
+export const syncEscrow = async (invoiceId: string, network: EvmNetwork, txHash: string) => {
+  const { error } = await supabase.functions.invoke("sync-escrow", {
+    body: { invoiceId, network, txHash },
+  });
+  if (error) throw error;
+};
+
+/** A browser-wallet signer on the escrow's network, switching chains if needed. */
+export const browserSigner = async (network: EvmNetwork, isTest: boolean) => {
+  if (typeof window.ethereum === "undefined") {
+    throw new Error("Connect a browser wallet to manage the escrow");
+  }
+
+  const selectedNet = networksForMode(isTest)[network];
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  await provider.send("eth_requestAccounts", []);
+
+  try {
+    await provider.send("wallet_switchEthereumChain", [{ chainId: hexChainId(network, isTest) }]);
+  } catch (switchError: unknown) {
+    if ((switchError as { code?: number }).code !== 4902) throw switchError;
+    await provider.send("wallet_addEthereumChain", [
+      {
+        chainId: hexChainId(network, isTest),
+        chainName: selectedNet.name,
+        nativeCurrency: selectedNet.nativeCurrency,
+        rpcUrls: [selectedNet.rpcUrl],
+        blockExplorerUrls: [selectedNet.explorer],
+      },
+    ]);
+  }
+
+  return provider.getSigner();
+};
+
+const mined = async (tx: ethers.TransactionResponse) => {
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status === 0) {
+    throw new Error("Transaction failed on blockchain");
+  }
+  return receipt.hash;
+};
+
+/**
+ * Deposits the invoice into escrow: approves the total first when the
+ * allowance is short, then calls fund(). Resolves with the mined hash.
+ */
+export const fundEscrow = async (signer: ethers.Signer, terms: EscrowTerms) => {
+  const payer = await signer.getAddress();
+  const amounts = terms.amounts.map((amount) => BigInt(amount));
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+  const token = new ethers.Contract(terms.token_address, ALLOWANCE_ABI, signer);
+  if ((await token.allowance(payer, terms.contract)) < total) {
+    const approval = await token.approve(terms.contract, total);
+    await approval.wait();
+  }
+
+  const escrow = new ethers.Contract(terms.contract, ESCROW_ABI, signer);
+  return mined(await escrow.fund(terms.ref, terms.token_address, terms.merchant, amounts, terms.release_after));
+};
+
+export type MilestoneAction = "complete" | "release" | "dispute";
+
+/** Sends a milestone action from the signer's wallet; resolves with the mined hash. */
+export const sendEscrowAction = async (
+  signer: ethers.Signer,
+  escrow: FundedEscrow,
+  action: MilestoneAction,
+  position?: number,
+) => {
+  const contract = new ethers.Contract(escrow.contract, ESCROW_ABI, signer);
+  const tx = action === "dispute"
+    ? await contract.dispute(escrow.escrowId)
+    : await contract[action](escrow.escrowId, position);
+  return mined(tx);
+};
@@ -0,0 +1,102 @@
+import { ethers } from "ethers";
+import { supabase } from "@/integrations/supabase/client";
+import type { TokenConfig } from "@/lib/networks";
+
+// "Pay without gas": the payer signs an EIP-3009 authorization (or an
+// EIP-2612 permit) and the relay-payment function submits it, paying the
+// gas. The transfer it mines is reported like any other payment.
+
+const GASLESS_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+];
+
+// What relay-payment asks the payer to sign for an intent
+interface RelayTerms {
+  standard: "eip3009" | "eip2612";
+  relayer: string;
+  chainId: number;
+  token: string;
+  recipient: string;
+  value: string;
+  validBefore: number;
+}
+
+export const supportsGasless = (token?: TokenConfig | null) => Boolean(token?.gasless);
+
+const invokeRelay = async <T,>(body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("relay-payment", { body });
+  if (error || !data || data.error) {
+    throw new Error(data?.error || "Gasless payment is not available right now. Try paying with gas.");
+  }
+  return data as T;
+};
+
+const domainFor = async (contract: ethers.Contract, terms: RelayTerms): Promise<ethers.TypedDataDomain> => {
+  const name: string = await contract.name();
+  // Permit tokens without version() sign with version "1"
+  const version: string = await contract.version().catch(() => "1");
+  return { name, version, chainId: terms.chainId, verifyingContract: terms.token };
+};
+
+/**
+ * Signs the intent's payment in the wallet and has it relayed. Resolves with
+ * the mined transaction hash.
+ */
+export const payWithoutGas = async (signer: ethers.Signer, intentId: string) => {
+  const terms = await invokeRelay<RelayTerms>({ intentId });
+  const payer = await signer.getAddress();
+  const contract = new ethers.Contract(terms.token, GASLESS_ABI, signer);
+  const domain = await domainFor(contract, terms);
+
+  if (terms.standard === "eip3009") {
+    const authorization = {
+      from: payer,
+      to: terms.recipient,
+      value: terms.value,
+      validAfter: 0,
+      validBefore: terms.validBefore,
+      nonce: ethers.hexlify(ethers.randomBytes(32)),
+    };
+    const signature = await signer.signTypedData(domain, {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    }, authorization);
+
+    const { txHash } = await invokeRelay<{ txHash: string }>({
+      intentId,
+      authorization: { ...authorization, signature },
+    });
+    return txHash;
+  }
+
+  const permit = {
+    owner: payer,
+    spender: terms.relayer,
+    value: terms.value,
+    nonce: await contract.nonces(payer),
+    deadline: terms.validBefore,
+  };
+  const signature = await signer.signTypedData(domain, {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  }, permit);
+
+  const { txHash } = await invokeRelay<{ txHash: string }>({
+    intentId,
+    permit: { owner: payer, value: terms.value, deadline: terms.validBefore, signature },
+  });
+  return txHash;
+};
@@ -0,0 +1,21 @@
+import { JsonRpcProvider } from "ethers";
+import {
+  ENS_RPC_URL,
+  isNameMismatched,
+  isNameVerified,
+  isWalletName,
+  normalizeWalletName,
+} from "../../supabase/functions/_shared/names.ts";
+
+export { isNameMismatched, isNameVerified, isWalletName, normalizeWalletName };
+
+// ENS and Basenames live on Ethereum mainnet for every network profile;
+// created on first use so payment pages never connect to it
+let ensProvider: JsonRpcProvider | undefined;
+
+/** Address an ENS name or Basename points at (lowercase), or null when it resolves nowhere. */
+export const resolveWalletName = async (name: string): Promise<string | null> => {
+  ensProvider ??= new JsonRpcProvider(import.meta.env.VITE_ENS_RPC_URL || ENS_RPC_URL);
+  const address = await ensProvider.resolveName(normalizeWalletName(name));
+  return address ? address.toLowerCase() : null;
+};
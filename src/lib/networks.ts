@@ -0,0 +1,49 @@
+import {
+  NETWORK_IDS,
+  explorerTxUrl,
+  networksFor,
+  type Network,
+  type NetworkConfig,
+  type TokenConfig,
+} from "../../supabase/functions/_shared/networks.ts";
+
+export { NETWORK_IDS, explorerTxUrl, type Network, type NetworkConfig, type TokenConfig };
+
+// Chain and token config comes from the shared module used by the edge
+// functions and API routes; VITE_NETWORK_PROFILE selects mainnet or testnet.
+export const NETWORK_PROFILE = import.meta.env.VITE_NETWORK_PROFILE || "mainnet";
+
+const profile = networksFor(NETWORK_PROFILE);
+
+export const NETWORKS: Record<Network, NetworkConfig> = {
+  ...profile,
+  solana: {
+    ...profile.solana,
+    rpcUrl: import.meta.env.VITE_SOLANA_RPC_URL || profile.solana.rpcUrl,
+  },
+};
+
+// Sandbox (is_test) invoices and intents are always paid on testnets
+export const TEST_NETWORKS = networksFor("testnet");
+
+export const networksForMode = (isTest = false) => (isTest ? TEST_NETWORKS : NETWORKS);
+
+export type EvmNetwork = Exclude<Network, "solana">;
+
+// Hex chain id for wallet_switchEthereumChain / wallet_addEthereumChain
+export const hexChainId = (network: Network, isTest = false) =>
+  `0x${networksForMode(isTest)[network].chainId.toString(16)}`;
+
+export const txExplorerUrl = (network: string, txHash: string, isTest = false) =>
+  network in NETWORKS ? explorerTxUrl(networksForMode(isTest)[network as Network], txHash) : null;
+
+export const networkName = (network: string, isTest = false) =>
+  network in NETWORKS ? networksForMode(isTest)[network as Network].name : network;
+
+// ERC20 ABI for token transfers
+export const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import { supabase } from "@/integrations/supabase/client";
+import type { Network } from "@/lib/networks";
+import { getSolanaProvider } from "@/lib/solana";
+import { sameWalletAddress } from "@/lib/wallets";
+
+// A receiving wallet only becomes active once the merchant signs a
+// server-issued message with it (the wallet-ownership edge function).
+// Replacing an active wallet then also needs the emailed confirmation and a
+// cooling-off period, during which the pay pages show the upcoming change.
+
+export type WalletChangeStatus =
+  | "awaiting_signature"
+  | "awaiting_email"
+  | "cooling_off"
+  | "active"
+  | "canceled"
+  | "expired";
+
+export interface WalletChange {
+  id: string;
+  network: Network;
+  address: string;
+  name: string | null;
+  previous_address: string | null;
+  status: WalletChangeStatus;
+  // When a cooling-off change takes over
+  active_at: string | null;
+  expires_at: string;
+}
+
+// Wallets about to change, as shown on the pay pages
+export type UpcomingWallets = Partial<Record<Network, { address: string; activeAt: string }>>;
+
+const invokeOwnership = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("wallet-ownership", { body });
+  if (error) {
+    // The function explains what went wrong in the response body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || "Unable to update the wallet. Please try again.");
+  }
+  return data as { change: WalletChange; message?: string };
+};
+
+/** Signs `message` with the browser wallet, which must be connected to `address`. */
+const signWithWallet = async (network: Network, address: string, message: string) => {
+  if (network === "solana") {
+    const provider = getSolanaProvider();
+    if (!provider?.signMessage) {
+      throw new Error("Install a Solana wallet such as Phantom that can sign messages");
+    }
+    const { publicKey } = await provider.connect();
+    if (publicKey.toBase58() !== address) {
+      throw new Error(`Switch your Solana wallet to ${address.slice(0, 6)}...${address.slice(-4)} to sign`);
+    }
+    const { signature } = await provider.signMessage(new TextEncoder().encode(message), "utf8");
+    return btoa(String.fromCharCode(...signature));
+  }
+
+  if (typeof window.ethereum === "undefined") {
+    throw new Error("Install a browser wallet such as MetaMask to sign with this address");
+  }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  await provider.send("eth_requestAccounts", []);
+  const signer = await provider.getSigner();
+  if (!sameWalletAddress(network, signer.address, address)) {
+    throw new Error(`Switch your wallet to ${address.slice(0, 6)}...${address.slice(-4)} to sign`);
+  }
+  return signer.signMessage(message);
+};
+
+/**
+ * Asks the server for an ownership message, signs it with the wallet and
+ * submits the signature. Resolves with the change: `active` when it took
+ * effect right away, `awaiting_email` when the account email must confirm it.
+ */
+export const proveWalletOwnership = async (network: Network, address: string, name?: string | null) => {
+  const { change, message } = await invokeOwnership({ action: "request", network, address, name });
+  const signature = await signWithWallet(network, change.address, message!);
+  return (await invokeOwnership({ action: "verify", changeId: change.id, signature })).change;
+};
+
+export const cancelWalletChange = async (changeId: string) =>
+  (await invokeOwnership({ action: "cancel", changeId })).change;
+
+/** Confirms or cancels a change from the link in the confirmation email. */
+export const answerWalletChangeEmail = async (action: "confirm" | "cancel", token: string) =>
+  (await invokeOwnership({ action, token })).change;
+
+/** The merchant's changes still waiting on their email or the cooling-off period. */
+export const fetchOpenWalletChanges = async (merchantId: string) => {
+  const { data, error } = await supabase
+    .from("wallet_changes")
+    .select("id, network, address, name, previous_address, status, active_at, expires_at")
+    .eq("merchant_id", merchantId)
+    .in("status", ["awaiting_email", "cooling_off"]);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((change) => [change.network, change])) as Partial<Record<Network, WalletChange>>;
+};
+
+/** Networks whose active wallet was proven with a signature. */
+export const fetchVerifiedNetworks = async (merchantId: string) => {
+  const { data, error } = await supabase
+    .from("merchant_wallets")
+    .select("network")
+    .eq("merchant_id", merchantId)
+    .not("verified_at", "is", null);
+
+  if (error) throw error;
+  return (data || []).map((wallet) => wallet.network as Network);
+};
+
+export const fetchUpcomingWallets = async (merchantId: string): Promise<UpcomingWallets> => {
+  const { data, error } = await supabase.rpc("get_pending_wallet_changes", { p_merchant_id: merchantId });
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map((change) => [change.network, { address: change.address, activeAt: change.active_at }])
+  );
+};
@@ -0,0 +1,115 @@
+import { Buffer } from "buffer";
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { NETWORKS } from "@/lib/networks";
+import type { SolanaWalletProvider } from "@/types/solana";
+
+// spl-token encodes instructions with the Node Buffer global
+globalThis.Buffer ??= Buffer;
+
+// Solana entry of the active network profile; tokens are in lib/tokens
+export const SOLANA = NETWORKS.solana;
+
+const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+/**
+ * Base58 wallet address. Off-curve addresses (PDAs) are rejected because
+ * merchants need a wallet that can sign to move received funds.
+ */
+export const isSolanaAddress = (value: string) => {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) return false;
+  try {
+    return PublicKey.isOnCurve(new PublicKey(value).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+export const getSolanaProvider = (): SolanaWalletProvider | null =>
+  window.phantom?.solana ?? window.solana ?? null;
+
+interface SplTransfer {
+  provider: SolanaWalletProvider;
+  connection: Connection;
+  mint: string;
+  decimals: number;
+  recipient: string;
+  amount: bigint;
+  memo?: string;
+  // Split legs paid in the same transaction
+  splits?: { recipient: string; amount: bigint }[];
+}
+
+/**
+ * Sends an SPL token transfer from the connected wallet to the recipient's
+ * associated token account, creating that account first if the recipient
+ * has never held the token. Split legs become further transfers in the same
+ * transaction. Returns the transaction signature.
+ */
+export async function sendSplTransfer({
+  provider,
+  connection,
+  mint,
+  decimals,
+  recipient,
+  amount,
+  memo,
+  splits = [],
+}: SplTransfer) {
+  if (!provider.publicKey) {
+    throw new Error("Solana wallet is not connected");
+  }
+
+  const payer = provider.publicKey;
+  const mintKey = new PublicKey(mint);
+
+  const source = getAssociatedTokenAddressSync(mintKey, payer);
+  const transaction = new Transaction();
+
+  for (const leg of [{ recipient, amount }, ...splits]) {
+    const ownerKey = new PublicKey(leg.recipient);
+    const destination = getAssociatedTokenAddressSync(mintKey, ownerKey);
+    transaction.add(
+      // No-op when the account already exists
+      createAssociatedTokenAccountIdempotentInstruction(payer, destination, ownerKey, mintKey),
+      createTransferCheckedInstruction(source, mintKey, destination, payer, leg.amount, decimals),
+    );
+  }
+
+  if (memo) {
+    transaction.add(new TransactionInstruction({
+      programId: MEMO_PROGRAM_ID,
+      keys: [],
+      data: Buffer.from(memo, "utf8"),
+    }));
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+  transaction.recentBlockhash = blockhash;
+  transaction.lastValidBlockHeight = lastValidBlockHeight;
+  transaction.feePayer = payer;
+
+  const { signature } = await provider.signAndSendTransaction(transaction);
+  return { signature, blockhash, lastValidBlockHeight };
+}
+
+/** Balance of `mint` held in the owner's associated token account. */
+export async function getSplBalance(connection: Connection, owner: PublicKey, mint: string) {
+  const account = getAssociatedTokenAddressSync(new PublicKey(mint), owner);
+  try {
+    const { value } = await connection.getTokenAccountBalance(account);
+    return BigInt(value.amount);
+  } catch {
+    // No token account yet
+    return 0n;
+  }
+}
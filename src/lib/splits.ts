@@ -0,0 +1,106 @@
+import { ethers } from "ethers";
+import {
+  MAX_SPLIT_RECIPIENTS,
+  SplitRuleError,
+  legUnits,
+  merchantShareUnits,
+  parseSplitRules,
+  type SplitLeg,
+  type SplitRule,
+} from "../../supabase/functions/_shared/splits.ts";
+
+export { MAX_SPLIT_RECIPIENTS, SplitRuleError, merchantShareUnits, parseSplitRules, type SplitLeg, type SplitRule };
+
+// Split payments on EVM networks go through RavSplitter (contracts/), which
+// moves every share straight from the payer in one transaction
+
+const SPLITTER_ABI = [
+  "function pay(address token, address[] recipients, uint256[] amounts)",
+];
+
+const ALLOWANCE_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 value) returns (bool)",
+];
+
+// The intent fields a split payment is made from
+interface SplitPayment {
+  amount: number;
+  token_address: string;
+  recipient_address: string;
+  splits: SplitLeg[];
+  splitter_address?: string | null;
+}
+
+// A split rule as edited in a form; the value stays a string until saved
+export interface SplitRuleDraft {
+  address: string;
+  kind: "percent" | "amount";
+  value: string;
+  label: string;
+}
+
+/** Drafts for the editor from stored split_rules; invalid rules load as none. */
+export const toSplitRuleDrafts = (stored: unknown): SplitRuleDraft[] => {
+  try {
+    return parseSplitRules(stored).map((rule) => ({
+      address: rule.address,
+      kind: rule.percent !== undefined ? "percent" : "amount",
+      value: String(rule.percent ?? rule.amount),
+      label: rule.label || "",
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * split_rules to store for the drafts, or null for none. Throws a
+ * SplitRuleError naming the first invalid recipient.
+ */
+export const fromSplitRuleDrafts = (drafts: SplitRuleDraft[]): SplitRule[] | null => {
+  const rules = parseSplitRules(drafts.map((draft) => ({
+    address: draft.address,
+    [draft.kind]: Number(draft.value),
+    label: draft.label.trim() || undefined,
+  })));
+  return rules.length > 0 ? rules : null;
+};
+
+export const hasSplits = (payment?: { splits?: SplitLeg[] | null } | null) =>
+  Boolean(payment?.splits && payment.splits.length > 0);
+
+/** Recipients and base-unit amounts of a split intent, the merchant's share first. */
+export const splitTransfers = (payment: SplitPayment, decimals: number) => [
+  { recipient: payment.recipient_address, amount: merchantShareUnits(payment.amount, payment.splits, decimals) },
+  ...payment.splits.map((leg) => ({ recipient: leg.address, amount: legUnits(leg, decimals) })),
+];
+
+/**
+ * Pays a split intent through its splitter: approves the total first when
+ * the allowance is short, then sends pay(). Resolves with the pay()
+ * transaction, not yet mined.
+ */
+export const sendSplitPayment = async (signer: ethers.Signer, payment: SplitPayment, decimals: number) => {
+  const splitterAddress = payment.splitter_address;
+  if (!splitterAddress) {
+    throw new Error("Split payments are not available on this network");
+  }
+
+  const payer = await signer.getAddress();
+  const transfers = splitTransfers(payment, decimals);
+  const total = transfers.reduce((sum, transfer) => sum + transfer.amount, 0n);
+
+  const token = new ethers.Contract(payment.token_address, ALLOWANCE_ABI, signer);
+  if ((await token.allowance(payer, splitterAddress)) < total) {
+    const approval = await token.approve(splitterAddress, total);
+    await approval.wait();
+  }
+
+  const splitter = new ethers.Contract(splitterAddress, SPLITTER_ABI, signer);
+  return splitter.pay(
+    payment.token_address,
+    transfers.map((transfer) => transfer.recipient),
+    transfers.map((transfer) => transfer.amount),
+  ) as Promise<ethers.TransactionResponse>;
+};
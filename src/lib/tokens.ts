@@ -0,0 +1,38 @@
+import { NETWORK_IDS, NETWORKS, TEST_NETWORKS, type Network, type TokenConfig } from "@/lib/networks";
+
+export type { Network, TokenConfig };
+
+const tokensOf = (networks: typeof NETWORKS) =>
+  Object.fromEntries(
+    NETWORK_IDS.map((network) => [network, networks[network].tokens])
+  ) as Record<Network, TokenConfig[]>;
+
+// Stablecoins per network for the active profile (see lib/networks). The
+// first enabled token is the network's default.
+export const TOKENS = tokensOf(NETWORKS);
+
+// Testnet tokens, used by sandbox invoices and intents
+export const TEST_TOKENS = tokensOf(TEST_NETWORKS);
+
+// Network -> accepted token symbols, as stored in profiles.accepted_tokens
+export type AcceptedTokens = Partial<Record<Network, string[]>>;
+
+export const enabledTokens = (network: Network, isTest = false) =>
+  (isTest ? TEST_TOKENS : TOKENS)[network].filter((token) => token.enabled);
+
+/** Tokens a merchant takes on a network. No choice saved means every enabled token. */
+export const acceptedTokens = (network: Network, accepted?: AcceptedTokens | null, isTest = false) => {
+  const symbols = accepted?.[network];
+  return symbols
+    ? enabledTokens(network, isTest).filter((token) => symbols.includes(token.symbol))
+    : enabledTokens(network, isTest);
+};
+
+/** Looks a token up by symbol or address (EVM addresses compare case-insensitively). */
+export const findToken = (network: Network, symbolOrAddress: string, isTest = false) =>
+  (isTest ? TEST_TOKENS : TOKENS)[network].find((token) =>
+    token.symbol === symbolOrAddress ||
+    (network === "solana"
+      ? token.address === symbolOrAddress
+      : token.address.toLowerCase() === symbolOrAddress.toLowerCase())
+  );
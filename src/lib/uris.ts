@@ -0,0 +1,15 @@
+import { paymentUri, type PaymentRequest, type UriLabels } from "../../supabase/functions/_shared/uris.ts";
+import { networksForMode } from "@/lib/networks";
+
+export type { PaymentRequest, UriLabels };
+
+// A payment intent as returned by create-payment-intent or get_payment_intent
+export interface ScanToPayIntent extends PaymentRequest {
+  token: string;
+  expires_at: string;
+  is_test?: boolean;
+}
+
+/** EIP-681 / Solana Pay URI for an intent, on the testnets for sandbox intents */
+export const scanToPayUri = (intent: ScanToPayIntent, labels?: UriLabels) =>
+  paymentUri(intent, networksForMode(intent.is_test), labels);
@@ -0,0 +1,40 @@
+import { ethers } from "ethers";
+import { supabase } from "@/integrations/supabase/client";
+import { isWalletLoginEmail } from "../../supabase/functions/_shared/siwe.ts";
+
+export { isWalletLoginEmail };
+
+// Sign-In with Ethereum: the siwe-login edge function issues the message,
+// checks the signature and hands back a one-time token that becomes a
+// normal Supabase session here.
+
+const invokeLogin = async <T>(body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("siwe-login", { body });
+  if (error) {
+    // The function explains what went wrong in the response body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || "Unable to sign in with your wallet. Please try again.");
+  }
+  return data as T;
+};
+
+/** Signs in with the browser wallet's current account. */
+export const signInWithWallet = async () => {
+  if (typeof window.ethereum === "undefined") {
+    throw new Error("Install a browser wallet such as MetaMask to sign in with it");
+  }
+
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  await provider.send("eth_requestAccounts", []);
+  const signer = await provider.getSigner();
+
+  const { loginId, message } = await invokeLogin<{ loginId: string; message: string }>({
+    action: "nonce",
+    address: signer.address,
+  });
+  const signature = await signer.signMessage(message);
+  const { token_hash } = await invokeLogin<{ token_hash: string }>({ action: "verify", loginId, signature });
+
+  const { error } = await supabase.auth.verifyOtp({ token_hash, type: "magiclink" });
+  if (error) throw error;
+};
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isSolanaAddress } from "@/lib/solana";
+import { NETWORK_IDS, type Network } from "@/lib/networks";
+import { isNameMismatched, isNameVerified } from "@/lib/names";
+
+// Receiving wallet per network, as stored in merchant_wallets
+export type MerchantWallets = Partial<Record<Network, string>>;
+
+/** Address format of the network's chain family: base58 on Solana, 0x + 40 hex on EVM. */
+export const isWalletAddress = (network: Network, address: string) =>
+  network === "solana" ? isSolanaAddress(address) : /^0x[a-fA-F0-9]{40}$/.test(address);
+
+// EVM addresses are stored lowercase; base58 is case-sensitive
+export const normalizeWalletAddress = (network: Network, address: string) =>
+  network === "solana" ? address : address.toLowerCase();
+
+export const sameWalletAddress = (network: Network, a?: string | null, b?: string | null) =>
+  Boolean(a && b) && normalizeWalletAddress(network, a!) === normalizeWalletAddress(network, b!);
+
+// ENS name or Basename an EVM wallet was saved with (see lib/names.ts)
+export interface WalletName {
+  name: string;
+  // Stored address payments go to
+  address: string;
+  // Address the name resolved to at its last check, null if it no longer resolves
+  resolvedAddress: string | null;
+  checkedAt: string | null;
+  // Still points at the stored address, so it can be shown to payers
+  verified: boolean;
+  // Checked and now points elsewhere: payments still go to the stored address
+  mismatched: boolean;
+}
+
+export type MerchantWalletNames = Partial<Record<Network, WalletName>>;
+
+export const fetchWalletNames = async (merchantId: string): Promise<MerchantWalletNames> => {
+  const { data, error } = await supabase
+    .from("merchant_wallets")
+    .select("network, address, name, name_address, name_checked_at")
+    .eq("merchant_id", merchantId)
+    .not("name", "is", null);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).map((wallet) => [
+      wallet.network,
+      {
+        name: wallet.name!,
+        address: wallet.address,
+        resolvedAddress: wallet.name_address,
+        checkedAt: wallet.name_checked_at,
+        verified: isNameVerified(wallet),
+        mismatched: isNameMismatched(wallet),
+      },
+    ])
+  );
+};
+
+export const fetchMerchantWallets = async (merchantId: string): Promise<MerchantWallets> => {
+  const { data, error } = await supabase
+    .from("merchant_wallets")
+    .select("network, address")
+    .eq("merchant_id", merchantId);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter((wallet) => (NETWORK_IDS as string[]).includes(wallet.network))
+      .map((wallet) => [wallet.network, wallet.address])
+  );
+};
@@ -152,11 +152,14 @@ const Admin = () => {
     try {
       setRefreshing(true);
       
-      // Build date filter
+      // Build date filter. Gross volume: payments only, as refunds are
+      // recorded as debit rows
       let query = supabase
         .from("transactions")
         .select("amount, created_at, merchant_id")
-        .eq("status", "completed");
+        .eq("status", "confirmed")
+        .eq("transaction_type", "credit")
+        .eq("is_test", false);
       
       if (startDate) {
         query = query.gte("created_at", new Date(startDate).toISOString());
@@ -173,7 +176,8 @@ const Admin = () => {
       // Fetch invoices
       const { data: invoices, error: invError } = await supabase
         .from("invoices")
-        .select("amount, created_at, status");
+        .select("amount, created_at, status")
+        .eq("is_test", false);
       if (invError) throw invError;
 
       // Fetch merchants with names
@@ -301,7 +301,7 @@ export default function ApiDocs() {
                     <tr className="border-b border-gray-200 dark:border-gray-700">
                       <td className="p-3"><code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">status</code></td>
                       <td className="p-3">string</td>
-                      <td className="p-3">Filter: draft, sent, viewed, paid, overdue</td>
+                      <td className="p-3">Filter: draft, sent, viewed, partially_paid, paid, overdue</td>
                     </tr>
                   </tbody>
                 </table>
@@ -325,6 +325,53 @@ export default function ApiDocs() {
               </div>
             </div>
           </section>
+
+          {/* Create Payment Intent */}
+          <section className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-4">
+              <span className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-300 px-3 py-1 rounded font-semibold text-sm">
+                POST
+              </span>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white">Create Payment Intent</h3>
+            </div>
+            
+            <p className="text-gray-700 dark:text-gray-300 mb-4">
+              Fix the amount, token, network and your wallet for a one-off checkout, then send your customer to the returned payment URL.
+            </p>
+
+            <div className="mb-4">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-2">Endpoint</h4>
+              <code className="text-sm text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 px-3 py-2 rounded block">
+                POST {baseUrl}/payment_intents
+              </code>
+            </div>
+
+            <div className="mb-4">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-2">Example Request</h4>
+              <div className="relative">
+                <button
+                  onClick={() => copyToClipboard(`curl -X POST '${baseUrl}/payment_intents' -H 'X-API-Key: rav_live_your_api_key_here' -H 'Content-Type: application/json' -d '{"amount": 49.99, "network": "base", "description": "Pro plan"}'`, 'intent')}
+                  className="absolute top-2 right-2 p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white z-10"
+                >
+                  {copiedEndpoint === 'intent' ? '✓' : <Copy size={16} />}
+                </button>
+                <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg overflow-x-auto text-sm">
+{`curl -X POST '${baseUrl}/payment_intents' \\
+  -H 'X-API-Key: rav_live_your_api_key_here' \\
+  -H 'Content-Type: application/json' \\
+  -d '{
+    "amount": 49.99,
+    "network": "base",
+    "description": "Pro plan"
+  }'`}
+                </pre>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Pass <code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">product_id</code> and <code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">quantity</code> instead of <code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">amount</code> to price the intent from your catalogue. Intents expire after 30 minutes unless <code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 rounded">expires_in_minutes</code> is set.
+            </p>
+          </section>
         </div>
 
         {/* Rate Limits */}
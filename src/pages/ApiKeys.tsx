@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Copy, Eye, EyeOff, Trash2, Plus, AlertCircle } from 'lucide-react';
+import ApiUsageChart from '@/components/ApiUsageChart';
+import { fetchApiUsage, monthUsageByKey, type ApiUsageRow } from '@/lib/apiUsage';
 
 interface ApiKey {
   id: string;
@@ -10,6 +12,7 @@ interface ApiKey {
   rate_limit: number;
   calls_used: number;
   is_active: boolean;
+  is_test: boolean;
   last_used_at: string | null;
   created_at: string;
 }
@@ -20,8 +23,11 @@ export default function ApiKeys() {
   const [showNewKeyModal, setShowNewKeyModal] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyTier, setNewKeyTier] = useState('starter');
+  const [newKeyMode, setNewKeyMode] = useState<'live' | 'test'>('live');
   const [generatedKey, setGeneratedKey] = useState<string | null>(null);
   const [showKey, setShowKey] = useState(false);
+  const [usage, setUsage] = useState<ApiUsageRow[]>([]);
+  const [usageKeyId, setUsageKeyId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchApiKeys();
@@ -35,6 +41,13 @@ export default function ApiKeys() {
 
     if (!error && data) {
       setApiKeys(data);
+      setUsageKeyId((current) => current ?? data[0]?.id ?? null);
+    }
+
+    try {
+      setUsage(await fetchApiUsage());
+    } catch (usageError) {
+      console.error('Error loading API usage:', usageError);
     }
     setLoading(false);
   }
@@ -56,7 +69,8 @@ export default function ApiKeys() {
         },
         body: JSON.stringify({
           name: newKeyName,
-          tier: newKeyTier
+          tier: newKeyTier,
+          mode: newKeyMode
         })
       });
 
@@ -66,6 +80,7 @@ export default function ApiKeys() {
         setGeneratedKey(result.api_key);
         setShowNewKeyModal(false);
         setNewKeyName('');
+        setNewKeyMode('live');
         fetchApiKeys();
       } else {
         alert('Failed to generate API key');
@@ -109,6 +124,11 @@ export default function ApiKeys() {
     alert('Copied to clipboard!');
   }
 
+  // calls_used is only updated when a key is used, so a new month would
+  // still show last month's count
+  const monthUsage = monthUsageByKey(usage);
+  const usageKey = apiKeys.find((key) => key.id === usageKeyId);
+
   if (loading) {
     return (
       <div className="p-8 max-w-6xl mx-auto">
@@ -201,7 +221,14 @@ export default function ApiKeys() {
             <tbody>
               {apiKeys.map((key) => (
                 <tr key={key.id} className="border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 dark:hover:bg-opacity-30">
-                  <td className="p-4 text-gray-900 dark:text-white">{key.name || 'Unnamed'}</td>
+                  <td className="p-4 text-gray-900 dark:text-white">
+                    {key.name || 'Unnamed'}
+                    {key.is_test && (
+                      <span className="ml-2 text-xs bg-amber-100 dark:bg-amber-900 dark:bg-opacity-50 text-amber-800 dark:text-amber-300 px-2 py-0.5 rounded border border-amber-200 dark:border-amber-700">
+                        Test
+                      </span>
+                    )}
+                  </td>
                   <td className="p-4">
                     <code className="text-sm bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-200 px-2 py-1 rounded">
                       {key.key_prefix}...
@@ -214,11 +241,11 @@ export default function ApiKeys() {
                   </td>
                   <td className="p-4">
                     <div className="text-sm text-gray-700 dark:text-gray-300">
-                      {key.calls_used.toLocaleString()} / {key.rate_limit.toLocaleString()}
+                      {(monthUsage[key.id] ?? 0).toLocaleString()} / {key.rate_limit.toLocaleString()}
                       <div className="w-32 bg-gray-200 dark:bg-gray-700 rounded-full h-2 mt-1">
                         <div
                           className="bg-blue-600 dark:bg-blue-500 h-2 rounded-full"
-                          style={{ width: `${Math.min((key.calls_used / key.rate_limit) * 100, 100)}%` }}
+                          style={{ width: `${Math.min(((monthUsage[key.id] ?? 0) / key.rate_limit) * 100, 100)}%` }}
                         />
                       </div>
                     </div>
@@ -255,6 +282,32 @@ export default function ApiKeys() {
         </div>
       )}
 
+      {/* Usage History */}
+      {usageKey && (
+        <div className="mt-8 bg-white dark:bg-gray-800 dark:bg-opacity-50 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Usage</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Quotas reset on the 1st of each month (UTC). We email you at 80% and 100% of a key's quota.
+              </p>
+            </div>
+            <select
+              value={usageKey.id}
+              onChange={(e) => setUsageKeyId(e.target.value)}
+              className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg p-2 focus:border-blue-500 focus:outline-none"
+            >
+              {apiKeys.map((key) => (
+                <option key={key.id} value={key.id}>
+                  {key.name || 'Unnamed'} ({key.key_prefix}...)
+                </option>
+              ))}
+            </select>
+          </div>
+          <ApiUsageChart rows={usage} keyId={usageKey.id} quota={usageKey.rate_limit} />
+        </div>
+      )}
+
       {/* Create Key Modal */}
       {showNewKeyModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center p-4 z-50">
@@ -272,6 +325,18 @@ export default function ApiKeys() {
               />
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-200">Mode</label>
+              <select
+                value={newKeyMode}
+                onChange={(e) => setNewKeyMode(e.target.value as 'live' | 'test')}
+                className="w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg p-2 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="live">Live - real payments on mainnet</option>
+                <option value="test">Test - sandbox invoices paid on testnets</option>
+              </select>
+            </div>
+
             <div className="mb-6">
               <label className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-200">Tier</label>
               <select
@@ -279,9 +344,9 @@ export default function ApiKeys() {
                 onChange={(e) => setNewKeyTier(e.target.value)}
                 className="w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg p-2 focus:border-blue-500 focus:outline-none"
               >
-                <option value="starter">Starter - 1,000 calls/month</option>
-                <option value="growth">Growth - 10,000 calls/month</option>
-                <option value="enterprise">Enterprise - 100,000 calls/month</option>
+                <option value="starter">Starter - 1,000 calls/month, 60/minute</option>
+                <option value="growth">Growth - 10,000 calls/month, 300/minute</option>
+                <option value="enterprise">Enterprise - 100,000 calls/month, 1,000/minute</option>
               </select>
             </div>
 
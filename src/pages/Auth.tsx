@@ -10,6 +10,8 @@ import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { getErrorMessage } from "@/lib/errorHandler";
 import { Link } from "react-router-dom";
+import { Wallet } from "lucide-react";
+import { signInWithWallet } from "@/lib/walletLogin";
 
 const authSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -24,6 +26,7 @@ const Auth = () => {
   const [merchantName, setMerchantName] = useState("");
   const [loading, setLoading] = useState(false);
   const [googleLoading, setGoogleLoading] = useState(false);
+  const [walletLoading, setWalletLoading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -73,6 +76,26 @@ const Auth = () => {
     }
   }; */
 
+  // Signs in (or signs up) with the wallet; onAuthStateChange redirects
+  const handleWalletSignIn = async () => {
+    setWalletLoading(true);
+    try {
+      await signInWithWallet();
+      toast({
+        title: "Welcome back!",
+        description: "You've signed in with your wallet.",
+      });
+    } catch (error) {
+      toast({
+        title: "Wallet sign-in failed",
+        description: error instanceof Error ? error.message : getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setWalletLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -210,6 +233,33 @@ const Auth = () => {
                 </div>
               </div> */}
 
+              <div className="mt-4 mb-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleWalletSignIn}
+                  disabled={walletLoading || loading}
+                >
+                  <Wallet className="mr-2 h-5 w-5" />
+                  {walletLoading ? "Waiting for signature..." : "Sign in with Ethereum"}
+                </Button>
+                <p className="text-xs text-muted-foreground text-center mt-2">
+                  Uses your verified receiving wallet, or creates an account for a new wallet
+                </p>
+              </div>
+
+              <div className="relative mb-4">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-background px-2 text-muted-foreground">
+                    Or continue with email
+                  </span>
+                </div>
+              </div>
+
               <form onSubmit={handleSubmit} className="space-y-4 ">
                 <div className="space-y-2">
                   <Label htmlFor="email">Email</Label>
@@ -238,7 +288,7 @@ const Auth = () => {
                       Forgot your password?
                   </Link>
                 </div>
-                <Button type="submit" className="w-full" disabled={loading || googleLoading}>
+                <Button type="submit" className="w-full" disabled={loading || googleLoading || walletLoading}>
                   {loading ? "Signing in..." : "Sign In"}
                 </Button>
               </form>
@@ -340,7 +390,7 @@ const Auth = () => {
                     </Link>
                   </div>
                 </div>
-                <Button type="submit" className="w-full" disabled={loading || googleLoading}>
+                <Button type="submit" className="w-full" disabled={loading || googleLoading || walletLoading}>
                   {loading ? "Creating account..." : "Create Account"}
                 </Button>
               </form>
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+import { answerWalletChangeEmail, type WalletChange } from "@/lib/ownership";
+
+// Landing page for the links in the wallet change email. The answer is only
+// sent on a click, so link scanners opening the email cannot confirm it.
+const ConfirmWallet = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const action = searchParams.get("action") === "cancel" ? "cancel" : "confirm";
+  const token = searchParams.get("token");
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(token ? null : "This link is missing its token. Open it again from the email.");
+  const [change, setChange] = useState<WalletChange | null>(null);
+
+  const handleAnswer = async () => {
+    setIsLoading(true);
+    try {
+      setChange(await answerWalletChangeEmail(action, token!));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unable to update the wallet. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const short = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="flex items-center gap-2 text-destructive mb-2">
+              <AlertCircle className="h-5 w-5" />
+              <CardTitle>Wallet Change Not Updated</CardTitle>
+            </div>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/settings")} variant="outline" className="w-full">
+              Go to Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (change) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="flex items-center gap-2 text-green-600 mb-2">
+              <CheckCircle2 className="h-5 w-5" />
+              <CardTitle>{change.status === "canceled" ? "Wallet Change Canceled" : "Wallet Change Confirmed"}</CardTitle>
+            </div>
+            <CardDescription>
+              {change.status === "canceled"
+                ? "Payments keep going to your current wallet. If you did not start this change, change your password."
+                : `Payments switch to ${short(change.address)} on ${new Date(change.active_at!).toLocaleString()}. Until then they go to your current wallet, and you can still cancel from Settings.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/settings")} className="w-full">
+              Go to Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{action === "cancel" ? "Cancel Wallet Change" : "Confirm Wallet Change"}</CardTitle>
+          <CardDescription>
+            {action === "cancel"
+              ? "Stop the requested change to your receiving wallet. Payments keep going to your current wallet."
+              : "Confirm the new receiving wallet you signed for. It takes over after a cooling-off period."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            onClick={handleAnswer}
+            disabled={isLoading}
+            variant={action === "cancel" ? "destructive" : "default"}
+            className="w-full"
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {action === "cancel" ? "Cancel Change" : "Confirm Change"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ConfirmWallet;
@@ -1,99 +1,79 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import ScanToPay from "@/components/ScanToPay";
+import MerchantWalletLabel from "@/components/MerchantWalletLabel";
 import { Loader2, ShoppingCart, Wallet, Plus, Minus, Shield, CheckCircle2, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { getErrorMessage, isValidUUID } from "@/lib/errorHandler";
+import { payWithoutGas, supportsGasless } from "@/lib/gasless";
 import { z } from "zod";
 import { ethers } from "ethers";
 import EthereumProvider from "@walletconnect/ethereum-provider";
+import { Connection } from "@solana/web3.js";
+import { ERC20_ABI, hexChainId, networksForMode } from "@/lib/networks";
+import { getSolanaProvider, getSplBalance, sendSplTransfer } from "@/lib/solana";
+import { hasSplits, sendSplitPayment, splitTransfers, type SplitLeg } from "@/lib/splits";
+import { acceptedTokens, findToken, type AcceptedTokens, type Network } from "@/lib/tokens";
+import {
+  fetchMerchantWallets,
+  fetchWalletNames,
+  isWalletAddress,
+  sameWalletAddress,
+  type MerchantWalletNames,
+  type MerchantWallets,
+} from "@/lib/wallets";
+import { formatMoney } from "@/lib/currency";
+import { fetchUpcomingWallets, type UpcomingWallets } from "@/lib/ownership";
 
 interface Product {
   id: string;
   name: string;
   description: string | null;
   price: number;
+  // Paid in stablecoin at the rate quoted at checkout when not USD
+  currency: string;
 }
 interface MerchantProfile {
-  wallet_address: string;
+  accepted_tokens: AcceptedTokens | null;
   email: string;
   merchant_name: string;
 }
-
-// Network configuration with stablecoin support - MAINNET
-const NETWORKS = {
-  celo: {
-    name: "Celo Mainnet",
-    chainId: "0xa4ec", // 42220 in decimal
-    rpcUrl: "https://forno.celo.org",
-    explorer: "https://explorer.celo.org",
-    stablecoin: {
-      address: "0x765DE816845861e75A25fCA122bb6898B8B1282a", // cUSD on Celo Mainnet
-      symbol: "cUSD",
-      decimals: 18,
-    },
-  },
-  base: {
-    name: "Base Mainnet",
-    chainId: "0x2105", // 8453 in decimal
-    rpcUrl: "https://mainnet.base.org",
-    explorer: "https://basescan.org",
-    stablecoin: {
-      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC on Base Mainnet
-      symbol: "USDC",
-      decimals: 6,
-    },
-  },
-  solana: {
-    name: "Solana Mainnet",
-    chainId: "0x65", // Not used for Solana (different architecture)
-    rpcUrl: "https://api.mainnet-beta.solana.com",
-    explorer: "https://explorer.solana.com",
-    stablecoin: {
-      address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", // USDC on Solana
-      symbol: "USDC",
-      decimals: 6,
-    },
-  },
-  // lisk: {
-  //   name: "Lisk Mainnet",
-  //   chainId: "0x46f", // 1135 in decimal
-  //   rpcUrl: "https://rpc.api.lisk.com",
-  //   explorer: "https://blockscout.lisk.com",
-  //   stablecoin: {
-  //     address: "0x05D032ac25d322df992303dCa074EE7392C117b9", // USDT on Lisk
-  //     symbol: "USDT",
-  //     decimals: 6,
-  //   },
-  // },
-  // somnia: {
-  //   name: "Somnia Devnet",
-  //   chainId: "0x32c9", // 13001 in decimal (devnet)
-  //   rpcUrl: "https://dream-rpc.somnia.network",
-  //   explorer: "https://explorer-devnet.somnia.network",
-  //   stablecoin: {
-  //     address: "0x", // TODO: Add Somnia USDC address when mainnet launches
-  //     symbol: "USDC",
-  //     decimals: 6,
-  //   },
-  // },
-};
-
-// ERC20 ABI for token transfers
-const ERC20_ABI = [
-  "function balanceOf(address owner) view returns (uint256)",
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)",
-];
+// Amount, token, network and recipient fixed server-side before payment
+interface PaymentIntent {
+  id: string;
+  merchant_id: string;
+  product_id: string | null;
+  product_name?: string | null;
+  quantity: number;
+  amount: number;
+  token: string;
+  token_address: string;
+  network: Network;
+  recipient_address: string;
+  description?: string | null;
+  status: string;
+  expires_at: string;
+  // Sandbox intents are paid on testnets
+  is_test: boolean;
+  // Solana Pay reference for scan-to-pay
+  solana_reference: string | null;
+  // Other wallets paid in the same transaction; recipient_address gets the rest
+  splits?: SplitLeg[];
+  splitter_address?: string | null;
+  // The price in its own currency, converted to `amount` at a locked rate
+  currency?: string;
+  fiat_amount?: number | null;
+}
 
 // Validation schema for payment inputs
 const paymentSchema = z.object({
@@ -112,13 +92,20 @@ const paymentSchema = z.object({
 });
 
 const CustomerPayment = () => {
-  const { merchantId } = useParams();
+  const { merchantId: merchantIdParam, intentId } = useParams();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
+  const merchantId = intent?.merchant_id ?? merchantIdParam;
+  const isTest = intent?.is_test ?? false;
+  const networks = networksForMode(isTest);
   const [products, setProducts] = useState<Product[]>([]);
   const [merchantName, setMerchantName] = useState("");
-  const [merchantWalletAddress, setMerchantWalletAddress] = useState("");
+  const [merchantWallets, setMerchantWallets] = useState<MerchantWallets>({});
+  const [walletNames, setWalletNames] = useState<MerchantWalletNames>({});
+  const [upcomingWallets, setUpcomingWallets] = useState<UpcomingWallets>({});
+  const [merchantTokens, setMerchantTokens] = useState<AcceptedTokens | null>(null);
   const [isMerchantVerified, setIsMerchantVerified] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
@@ -129,9 +116,52 @@ const CustomerPayment = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [walletProvider, setWalletProvider] = useState<any>(null);
   const [showNetworkOptions, setShowNetworkOptions] = useState(false);
-  const [selectedNetwork, setSelectedNetwork] = useState<"celo" | "base" | "solana">("base");
+  const [selectedNetwork, setSelectedNetwork] = useState<Network>("base");
+  const [selectedToken, setSelectedToken] = useState<string | null>(null);
   const [showNetworkSelect, setShowNetworkSelect] = useState(false);
   const [customerEmail, setCustomerEmail] = useState("");
+  const [gasless, setGasless] = useState(false);
+
+  // Checkout links created through the API carry a payment intent
+  useEffect(() => {
+    const fetchIntent = async () => {
+      if (!intentId) return;
+
+      const { data, error } = isValidUUID(intentId)
+        ? await supabase.rpc("get_payment_intent", { p_intent_id: intentId })
+        : { data: null, error: null };
+      // splits comes back as untyped JSON
+      const found = data?.[0] as unknown as PaymentIntent | undefined;
+
+      if (error || !found) {
+        toast({
+          title: "Invalid payment link",
+          description: "This checkout does not exist",
+          variant: "destructive",
+        });
+        setLoadingData(false);
+        return;
+      }
+
+      if (found.status !== "requires_payment") {
+        toast({
+          title: found.status === "expired" ? "Checkout expired" : "Checkout unavailable",
+          description: found.status === "expired"
+            ? "This checkout has expired. Ask the merchant for a new link."
+            : "This checkout has already been paid",
+          variant: "destructive",
+        });
+        setLoadingData(false);
+        return;
+      }
+
+      setIntent(found);
+      setQuantity(found.quantity);
+      setSelectedNetwork(found.network);
+    };
+
+    fetchIntent();
+  }, [intentId, toast]);
 
   useEffect(() => {
     const fetchMerchantData = async () => {
@@ -151,7 +181,7 @@ const CustomerPayment = () => {
       // Fetch merchant profile with security validation
       const { data: profileData, error: profileError } = await supabase
         .from("profiles")
-        .select("merchant_name, wallet_address, created_at")
+        .select("merchant_name, accepted_tokens, created_at")
         .eq("id", merchantId)
         .maybeSingle();
 
@@ -175,7 +205,21 @@ const CustomerPayment = () => {
         return;
       }
 
-      if (!profileData.wallet_address) {
+      // Receiving wallet per network
+      let wallets: MerchantWallets;
+      try {
+        wallets = await fetchMerchantWallets(merchantId);
+      } catch (walletsError) {
+        toast({
+          title: "Merchant not found",
+          description: getErrorMessage(walletsError),
+          variant: "destructive",
+        });
+        setLoadingData(false);
+        return;
+      }
+
+      if (Object.keys(wallets).length === 0) {
         toast({
           title: "Merchant not configured",
           description: "This merchant has not set up payment receiving",
@@ -186,7 +230,7 @@ const CustomerPayment = () => {
       }
 
       // Validate merchant wallet address format
-      if (!/^0x[a-fA-F0-9]{40}$/.test(profileData.wallet_address)) {
+      if (Object.entries(wallets).some(([network, address]) => !isWalletAddress(network as Network, address))) {
         toast({
           title: "Security Warning",
           description: "Merchant wallet address appears invalid",
@@ -197,7 +241,11 @@ const CustomerPayment = () => {
       }
 
       setMerchantName(profileData.merchant_name || "Merchant");
-      setMerchantWalletAddress(profileData.wallet_address);
+      setMerchantWallets(wallets);
+      // Names are only a label; the page works without them
+      fetchWalletNames(merchantId).then(setWalletNames, (error) => console.error("Failed to load wallet names:", error));
+      fetchUpcomingWallets(merchantId).then(setUpcomingWallets, (error) => console.error("Failed to load wallet changes:", error));
+      setMerchantTokens(profileData.accepted_tokens as AcceptedTokens | null);
       
       // Merchant is verified if they have wallet set up and account exists
       const accountAge = Date.now() - new Date(profileData.created_at).getTime();
@@ -206,7 +254,7 @@ const CustomerPayment = () => {
       // Fetch active products - only select necessary columns
       const { data: productsData, error } = await supabase
         .from("products")
-        .select("id, name, description, price")
+        .select("id, name, description, price, currency")
         .eq("merchant_id", merchantId)
         .eq("is_active", true)
         .order("created_at", { ascending: false });
@@ -238,34 +286,40 @@ const CustomerPayment = () => {
 
   const connectWallet = async (
     useWalletConnect: boolean = false,
-    network: "celo" | "base" | "solana" = "base"
+    network: Network = "base"
   ) => {
     setIsConnecting(true);
     try {
       let provider;
       let accounts;
-      const selectedNet = NETWORKS[network];
+      const selectedNet = networks[network];
       
-      // Block Solana for now - needs different implementation
       if (network === "solana") {
-        toast({
-          title: "Coming Soon!",
-          description: "Solana payments launching Q1 2026. For now, please use Base or Celo.",
-        });
-        setIsConnecting(false);
-        return;
-      }
-      
-      if (useWalletConnect) {
+        // Phantom and other wallets injecting window.solana
+        const solanaProvider = getSolanaProvider();
+        if (!solanaProvider) {
+          toast({
+            title: "No Solana wallet found",
+            description: "Install Phantom or another Solana wallet to pay with USDC on Solana",
+            variant: "destructive",
+          });
+          setIsConnecting(false);
+          return;
+        }
+
+        const { publicKey } = await solanaProvider.connect();
+        accounts = [publicKey.toBase58()];
+        setWalletProvider(solanaProvider);
+      } else if (useWalletConnect) {
         // WalletConnect integration for mobile wallets      
         const wcProvider = await EthereumProvider.init({
           projectId: "6f033f2737797ddd7f1907ba4c264474", // Public project ID
-          chains: [parseInt(selectedNet.chainId, 16)],
+          chains: [selectedNet.chainId],
           showQrModal: true,
           qrModalOptions: {
             themeMode: "light",
           },
-          rpcMap: { [parseInt(selectedNet.chainId, 16)]: selectedNet.rpcUrl },
+          rpcMap: { [selectedNet.chainId]: selectedNet.rpcUrl },
         });
 
         await wcProvider.enable();
@@ -290,19 +344,15 @@ const CustomerPayment = () => {
         // Switch to selected network
         try {
           await provider.send("wallet_switchEthereumChain", [
-            { chainId: selectedNet.chainId },
+            { chainId: hexChainId(network, isTest) },
           ]);
         } catch (switchError: any) {
           if (switchError.code === 4902) {
             await provider.send("wallet_addEthereumChain", [
               {
-                chainId: selectedNet.chainId,
+                chainId: hexChainId(network, isTest),
                 chainName: selectedNet.name,
-                nativeCurrency: {
-                  name: selectedNet.stablecoin.symbol,
-                  symbol: selectedNet.stablecoin.symbol,
-                  decimals: selectedNet.stablecoin.decimals,
-                },
+                nativeCurrency: selectedNet.nativeCurrency,
                 rpcUrls: [selectedNet.rpcUrl],
                 blockExplorerUrls: [selectedNet.explorer],
               },
@@ -316,6 +366,7 @@ const CustomerPayment = () => {
       }
 
       setSelectedNetwork(network);
+      setSelectedToken(acceptedTokens(network, merchantTokens, isTest)[0]?.symbol ?? null);
       setWalletAddress(accounts[0]);
       setShowNetworkSelect(false);
       toast({
@@ -333,9 +384,172 @@ const CustomerPayment = () => {
     }
   };
 
+  const warnInsufficientBalance = (amount: number, token: string) => {
+    toast({
+      title: "Insufficient balance",
+      description: `You need at least ${amount} ${token} to complete this payment.`,
+      variant: "destructive",
+    });
+  };
+
+  // Sends the ERC-20 transfer for an intent and resolves with the hash once
+  // mined, or null if the payer cannot cover it
+  const sendEvmPayment = async (checkout: PaymentIntent, registerPending: (txHash: string) => Promise<void>) => {
+    const provider = new ethers.BrowserProvider(walletProvider);
+    const signer = await provider.getSigner();
+
+    // Token configuration for the contract the intent fixed
+    const stablecoin = findToken(checkout.network, checkout.token_address, checkout.is_test);
+    if (!stablecoin) {
+      throw new Error(`Unsupported token: ${checkout.token}`);
+    }
+
+    // Create token contract instance
+    const tokenContract = new ethers.Contract(
+      checkout.token_address,
+      ERC20_ABI,
+      signer
+    );
+
+    const totalAmount = Number(checkout.amount);
+    const tokenAmount = ethers.parseUnits(
+      totalAmount.toString(),
+      stablecoin.decimals
+    );
+
+    console.log("Payment details:", {
+      intent: checkout.id,
+      amount: totalAmount,
+      tokenAmount: tokenAmount.toString(),
+      decimals: stablecoin.decimals,
+      token: checkout.token,
+      to: checkout.recipient_address
+    });
+
+    // Check token balance before sending
+    const balance = await tokenContract.balanceOf(walletAddress);
+    console.log("Token balance:", ethers.formatUnits(balance, stablecoin.decimals));
+
+    if (balance < tokenAmount) {
+      warnInsufficientBalance(totalAmount, checkout.token);
+      return null;
+    }
+
+    toast({
+      title: "Confirm in wallet",
+      description: `Sending ${totalAmount} ${checkout.token}...`,
+    });
+
+    // Send ERC-20 token transfer, or pay every split leg through the splitter
+    const tx = hasSplits(checkout)
+      ? await sendSplitPayment(signer, { ...checkout, splits: checkout.splits! }, stablecoin.decimals)
+      : await tokenContract.transfer(checkout.recipient_address, tokenAmount);
+
+    await registerPending(tx.hash);
+
+    toast({
+      title: "Transaction submitted",
+      description: "Waiting for blockchain confirmation...",
+    });
+
+    const receipt = await tx.wait();
+
+    if (!receipt || receipt.status === 0) {
+      throw new Error("Transaction failed on blockchain");
+    }
+
+    return receipt.hash as string;
+  };
+
+  // Gasless variant of sendEvmPayment: the payer signs an authorization and
+  // relay-payment submits it, so the hash is only known once it is mined
+  const sendGaslessPayment = async (checkout: PaymentIntent) => {
+    const provider = new ethers.BrowserProvider(walletProvider);
+    const signer = await provider.getSigner();
+    const tokenContract = new ethers.Contract(checkout.token_address, ERC20_ABI, signer);
+
+    const stablecoin = findToken(checkout.network, checkout.token_address, checkout.is_test);
+    if (!stablecoin) {
+      throw new Error(`Unsupported token: ${checkout.token}`);
+    }
+
+    const totalAmount = Number(checkout.amount);
+    const balance = await tokenContract.balanceOf(walletAddress);
+    if (balance < ethers.parseUnits(totalAmount.toString(), stablecoin.decimals)) {
+      warnInsufficientBalance(totalAmount, checkout.token);
+      return null;
+    }
+
+    toast({
+      title: "Sign in wallet",
+      description: `Authorize ${totalAmount} ${checkout.token}. No gas is needed.`,
+    });
+
+    const txHash = await payWithoutGas(signer, checkout.id);
+
+    toast({
+      title: "Payment relayed",
+      description: "Recording your payment...",
+    });
+
+    return txHash;
+  };
+
+  // Same flow as sendEvmPayment for an SPL transfer. The intent id goes in
+  // the memo so the payment can be traced back to its checkout.
+  const sendSolanaPayment = async (checkout: PaymentIntent, registerPending: (txHash: string) => Promise<void>) => {
+    const connection = new Connection(networksForMode(checkout.is_test).solana.rpcUrl, "confirmed");
+    const stablecoin = findToken("solana", checkout.token_address, checkout.is_test);
+    if (!stablecoin) {
+      throw new Error(`Unsupported token: ${checkout.token}`);
+    }
+
+    const totalAmount = Number(checkout.amount);
+    const tokenAmount = ethers.parseUnits(totalAmount.toString(), stablecoin.decimals);
+
+    const balance = await getSplBalance(connection, walletProvider.publicKey, checkout.token_address);
+    if (balance < tokenAmount) {
+      warnInsufficientBalance(totalAmount, checkout.token);
+      return null;
+    }
+
+    toast({
+      title: "Confirm in wallet",
+      description: `Sending ${totalAmount} ${checkout.token}...`,
+    });
+
+    // Split legs are extra transfers in the same transaction
+    const [share, ...splits] = splitTransfers({ ...checkout, splits: checkout.splits || [] }, stablecoin.decimals);
+
+    const { signature, blockhash, lastValidBlockHeight } = await sendSplTransfer({
+      provider: walletProvider,
+      connection,
+      mint: checkout.token_address,
+      decimals: stablecoin.decimals,
+      recipient: checkout.recipient_address,
+      amount: share.amount,
+      memo: checkout.id,
+      splits,
+    });
+
+    await registerPending(signature);
+
+    toast({
+      title: "Transaction submitted",
+      description: "Waiting for blockchain confirmation...",
+    });
+
+    const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+    if (value.err) {
+      throw new Error("Transaction failed on blockchain");
+    }
+
+    return signature;
+  };
+
   const handlePayment = async () => {
     // Validate inputs
-    if (!selectedProduct) {
+    if (!intent && !selectedProduct) {
       toast({
         title: "No product selected",
         description: "Please select a product to continue",
@@ -344,8 +558,8 @@ const CustomerPayment = () => {
       return;
     }
 
-    const product = products.find((p) => p.id === selectedProduct);
-    if (!product) {
+    const product = products.find((p) => p.id === (intent?.product_id ?? selectedProduct));
+    if (!intent && !product) {
       toast({
         title: "Product not found",
         description: "Selected product is no longer available",
@@ -372,8 +586,11 @@ const CustomerPayment = () => {
 
       setLoading(true);
 
+      // Payments go to the merchant's wallet on the selected network
+      const expectedRecipient = merchantWallets[selectedNetwork];
+
       // Validate merchant wallet before payment
-      if (!merchantWalletAddress) {
+      if (!expectedRecipient) {
         toast({
           title: "Merchant configuration error",
           description: "Merchant has not set up their wallet address",
@@ -386,11 +603,18 @@ const CustomerPayment = () => {
       // Security check: Verify merchant wallet hasn't changed
       const { data: merchantProfile } = await supabase
         .from("profiles")
-        .select("wallet_address, email, merchant_name")
+        .select("email, merchant_name")
         .eq("id", merchantId)
         .maybeSingle() as { data: MerchantProfile | null };
 
-      if (merchantProfile?.wallet_address !== merchantWalletAddress) {
+      const { data: currentWallet } = await supabase
+        .from("merchant_wallets")
+        .select("address")
+        .eq("merchant_id", merchantId)
+        .eq("network", selectedNetwork)
+        .maybeSingle();
+
+      if (!sameWalletAddress(selectedNetwork, currentWallet?.address, expectedRecipient)) {
         toast({
           title: "Security Alert",
           description: "Merchant wallet address has changed. Please refresh and verify.",
@@ -400,90 +624,74 @@ const CustomerPayment = () => {
         return;
       }
 
-      // Process payment
-      const provider = new ethers.BrowserProvider(walletProvider);
-      const signer = await provider.getSigner();
-
-      // Get stablecoin configuration
-      const network = NETWORKS[selectedNetwork];
-      const stablecoin = network.stablecoin;
-
-      // Create token contract instance
-      const tokenContract = new ethers.Contract(
-        stablecoin.address,
-        ERC20_ABI,
-        signer
-      );
-
-      // Calculate amount in stablecoin (1:1 with USD)
-      const totalAmount = product.price * quantity;
-      const tokenAmount = ethers.parseUnits(
-        totalAmount.toString(),
-        stablecoin.decimals
-      );
-
-      console.log("Payment details:", {
-        amount: totalAmount,
-        tokenAmount: tokenAmount.toString(),
-        decimals: stablecoin.decimals,
-        token: stablecoin.symbol,
-        to: merchantWalletAddress
-      });
-
-      // Check token balance before sending
-      const balance = await tokenContract.balanceOf(walletAddress);
-      console.log("Token balance:", ethers.formatUnits(balance, stablecoin.decimals));
+      // Fix the amount, token and wallet server-side before the wallet prompt opens
+      let checkout = intent;
+      if (!checkout) {
+        const { data: created, error: intentError } = await supabase.functions.invoke("create-payment-intent", {
+          body: {
+            merchantId: merchantId,
+            productId: selectedProduct,
+            quantity: quantity,
+            network: selectedNetwork,
+            token: selectedToken ?? undefined,
+            customerEmail: customerEmail || undefined,
+          },
+        });
+        if (intentError || !created?.intent) {
+          throw new Error("Unable to start checkout. Please try again.");
+        }
+        checkout = created.intent;
+      }
 
-      if (balance < tokenAmount) {
+      if (!sameWalletAddress(checkout.network, checkout.recipient_address, merchantWallets[checkout.network])) {
         toast({
-          title: "Insufficient balance",
-          description: `You need at least ${totalAmount} ${stablecoin.symbol} to complete this payment.`,
+          title: "Security Alert",
+          description: "Merchant wallet address has changed. Please refresh and verify.",
           variant: "destructive",
         });
         setLoading(false);
         return;
       }
 
-      toast({
-        title: "Confirm in wallet",
-        description: `Sending ${totalAmount} ${stablecoin.symbol}...`,
-      });
+      // Amount in stablecoin (1:1 with USD), as fixed by the intent
+      const totalAmount = Number(checkout.amount);
 
-      // Send ERC-20 token transfer
-      const tx = await tokenContract.transfer(
-        merchantWalletAddress,
-        tokenAmount
-      );
+      const paymentRecord = {
+        intentId: checkout.id,
+        customerName: validationData.customerName,
+      };
 
-      toast({
-        title: "Transaction submitted",
-        description: "Waiting for blockchain confirmation...",
-      });
+      // Register the checkout as soon as it has a hash, so the chain watcher
+      // can complete it even if this page is closed before confirmation
+      let pending: { reference_id?: string } | null = null;
+      const registerPending = async (txHash: string) => {
+        const { data } = await supabase.functions.invoke("record-payment", {
+          body: { ...paymentRecord, txHash },
+        });
+        pending = data;
+      };
 
-      const receipt = await tx.wait();
+      const txHash = checkout.network === "solana"
+        ? await sendSolanaPayment(checkout, registerPending)
+        : gasless && !hasSplits(checkout) && supportsGasless(findToken(checkout.network, checkout.token_address, checkout.is_test))
+          ? await sendGaslessPayment(checkout)
+          : await sendEvmPayment(checkout, registerPending);
 
-      if (!receipt || receipt.status === 0) {
-        throw new Error("Transaction failed on blockchain");
+      if (!txHash) {
+        setLoading(false);
+        return;
       }
 
-      console.log("Transaction successful:", receipt.hash);
+      console.log("Transaction successful:", txHash);
 
       // Record transaction via edge function
-      const { data, error } = await supabase.functions.invoke("record-payment", {
-        body: {
-          merchantId: merchantId,
-          amount: totalAmount,
-          customerName: validationData.customerName,
-          productId: selectedProduct,
-          quantity: quantity,
-          txHash: receipt.hash,
-          blockNumber: receipt.blockNumber,
-          fromAddress: walletAddress,
-          toAddress: merchantWalletAddress,
-        },
+      const { data: recorded, error } = await supabase.functions.invoke("record-payment", {
+        body: { ...paymentRecord, txHash },
       });
 
-      if (error) throw error;
+      // The watcher may have completed the registered checkout first
+      if (error && !pending?.reference_id) throw error;
+      const data = recorded ?? pending;
 
       // Send receipt emails 
       try {
@@ -498,14 +706,17 @@ const CustomerPayment = () => {
             customerEmail: customerEmail || undefined,
             merchantName: merchantProfile?.merchant_name || merchantName,
             merchantEmail: merchantProfile?.email,
-            productName: product?.name || "Product",
-            quantity: quantity,
-            unitPrice: product?.price || 0,
+            productName: product?.name || checkout.product_name || checkout.description || "Product",
+            quantity: checkout.quantity,
+            // Receipts are in the stablecoin paid
+            unitPrice: product?.currency === "USD" ? product.price : totalAmount / checkout.quantity,
             totalAmount: totalAmount,
-            txHash: receipt.hash,
-            network: selectedNetwork,
+            txHash: txHash,
+            network: checkout.network,
+            token: checkout.token,
             referenceId: data.reference_id,
             paymentDate: new Date().toLocaleString(),
+            isTest: checkout.is_test,
           },
         });
 
@@ -518,8 +729,9 @@ const CustomerPayment = () => {
         state: {
           amount: totalAmount,
           reference: data.reference_id,
-          txHash: receipt.hash,
-          network: selectedNetwork,
+          txHash: txHash,
+          network: checkout.network,
+          isTest: checkout.is_test,
         },
       });
     } catch (error: any) {
@@ -551,6 +763,35 @@ const CustomerPayment = () => {
     }
   };
 
+  // Scan-to-pay: the watcher settled the intent without a connected wallet
+  const handleScanPaid = useCallback((txHash: string) => {
+    if (!intent) return;
+    navigate("/success", {
+      state: {
+        amount: Number(intent.amount),
+        reference: intent.id,
+        txHash: txHash,
+        network: intent.network,
+        isTest: intent.is_test,
+      },
+    });
+  }, [intent, navigate]);
+
+  // Intents show their fixed token, otherwise everything the merchant accepts
+  // Wallet receiving the payment on the network being paid on
+  const merchantWallet = merchantWallets[intent?.network ?? selectedNetwork];
+  const merchantWalletName = walletNames[intent?.network ?? selectedNetwork];
+
+  // Token the payer is about to send, for the "pay without gas" option
+  const paymentToken = intent
+    ? findToken(intent.network, intent.token_address, intent.is_test)
+    : selectedToken ? findToken(selectedNetwork, selectedToken, isTest) : undefined;
+
+  const selected = products.find((p) => p.id === selectedProduct);
+
+  const networkTokenLabel = (network: Network) =>
+    intent ? intent.token : acceptedTokens(network, merchantTokens).map((token) => token.symbol).join(", ");
+
   if (loadingData) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -589,12 +830,14 @@ const CustomerPayment = () => {
               Pay {merchantName}
             </h1>
             <p className="text-sm sm:text-base text-muted-foreground">
-              Select a product and choose quantity
+              {intent ? "Review your payment" : "Select a product and choose quantity"}
             </p>
-            {merchantWalletAddress && (
-              <p className="text-xs text-muted-foreground mt-2 font-mono">
-                Merchant: {merchantWalletAddress.slice(0, 8)}...{merchantWalletAddress.slice(-6)}
-              </p>
+            {merchantWallet && (
+              <MerchantWalletLabel
+                address={merchantWallet}
+                name={merchantWalletName}
+                upcoming={upcomingWallets[intent?.network ?? selectedNetwork]}
+              />
             )}
           </div>
 
@@ -637,47 +880,53 @@ const CustomerPayment = () => {
                     <div className="border rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-md p-4 space-y-3 mt-2 transition-colors">
                       <p className="text-sm font-medium text-center text-foreground">Select Network</p>
 
-                      <Button 
-                        onClick={() => {
-                          connectWallet(false, "base");
-                          setShowNetworkOptions(false);
-                        }}
-                        disabled={isConnecting}
-                        className="w-full"
-                        variant="outline"
-                      >
-                        Base (USDC)
-                      </Button>
+                      {merchantWallets.base && networkTokenLabel("base") && (!intent || intent.network === "base") && (
+                        <Button 
+                          onClick={() => {
+                            connectWallet(false, "base");
+                            setShowNetworkOptions(false);
+                          }}
+                          disabled={isConnecting}
+                          className="w-full"
+                          variant="outline"
+                        >
+                          Base ({networkTokenLabel("base")})
+                        </Button>
+                      )}
 
-                      <Button 
-                        onClick={() => {
-                          connectWallet(false, "celo");
-                          setShowNetworkOptions(false);
-                        }}
-                        disabled={isConnecting}
-                        className="w-full"
-                        variant="outline"
-                      >
-                        Celo (cUSD)
-                      </Button>
+                      {merchantWallets.celo && networkTokenLabel("celo") && (!intent || intent.network === "celo") && (
+                        <Button 
+                          onClick={() => {
+                            connectWallet(false, "celo");
+                            setShowNetworkOptions(false);
+                          }}
+                          disabled={isConnecting}
+                          className="w-full"
+                          variant="outline"
+                        >
+                          Celo ({networkTokenLabel("celo")})
+                        </Button>
+                      )}
 
-                      <Button 
-                        onClick={() => {
-                          connectWallet(false, "solana");
-                          setShowNetworkOptions(false);
-                        }}
-                        disabled={isConnecting}
-                        className="w-full"
-                        variant="outline"
-                      >
-                        Solana (USDC)
-                      </Button>
+                      {merchantWallets.solana && networkTokenLabel("solana") && (!intent || intent.network === "solana") && (
+                        <Button 
+                          onClick={() => {
+                            connectWallet(false, "solana");
+                            setShowNetworkOptions(false);
+                          }}
+                          disabled={isConnecting}
+                          className="w-full"
+                          variant="outline"
+                        >
+                          Solana ({networkTokenLabel("solana")})
+                        </Button>
+                      )}
                     </div>
                   )}
                   
                   <Button
                     className="w-full h-12 sm:h-14 text-base sm:text-lg"
-                    onClick={() => connectWallet(true)}
+                    onClick={() => connectWallet(true, intent?.network)}
                     disabled={isConnecting}
                     variant="outline"
                   >
@@ -697,6 +946,22 @@ const CustomerPayment = () => {
                 <p className="text-xs text-muted-foreground text-center">
                   Connect your wallet to make secure blockchain payments
                 </p>
+
+                {/* A wallet's scan-to-pay URI sends one transfer, so split payments need a connected wallet */}
+                {intent && !hasSplits(intent) && (
+                  <>
+                    <div className="flex items-center gap-3 pt-2">
+                      <div className="h-px flex-1 bg-border" />
+                      <span className="text-xs text-muted-foreground">or scan to pay</span>
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    <ScanToPay
+                      intent={intent}
+                      labels={{ label: merchantName, message: intent.product_name || intent.description || undefined }}
+                      onPaid={handleScanPaid}
+                    />
+                  </>
+                )}
               </div>
             ) : (
               <>
@@ -707,7 +972,7 @@ const CustomerPayment = () => {
                       {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
                     </p>
                     <p className="text-xs text-muted-foreground mt-0.5">
-                      Network: {NETWORKS[selectedNetwork].name}
+                      Network: {networks[selectedNetwork].name}
                     </p>
                   </div>
                   <Button
@@ -719,6 +984,38 @@ const CustomerPayment = () => {
                   </Button>
                 </div>
 
+                {/* Token choice; an intent has already fixed its token */}
+                {!intent && acceptedTokens(selectedNetwork, merchantTokens).length > 1 && (
+                  <div>
+                    <Label className="text-sm">Pay With</Label>
+                    <div className="grid grid-cols-3 gap-2 mt-2">
+                      {acceptedTokens(selectedNetwork, merchantTokens).map((token) => (
+                        <Button
+                          key={token.symbol}
+                          type="button"
+                          variant={selectedToken === token.symbol ? "default" : "outline"}
+                          onClick={() => setSelectedToken(token.symbol)}
+                          className="h-11"
+                        >
+                          {token.symbol}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedNetwork !== "solana" && !hasSplits(intent) && supportsGasless(paymentToken) && (
+                  <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                    <div>
+                      <Label htmlFor="gasless" className="text-sm">Pay without gas</Label>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        Sign an authorization instead of sending a transaction. No {networks[selectedNetwork].nativeCurrency.symbol} needed.
+                      </p>
+                    </div>
+                    <Switch id="gasless" checked={gasless} onCheckedChange={setGasless} />
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="customerEmail" className="text-sm">Email (Optional - for receipt)</Label>                                   
                   <Input 
@@ -746,7 +1043,54 @@ const CustomerPayment = () => {
                   />
                 </div>
 
-                {products.length > 0 ? (
+                {intent ? (
+                  <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                    <div className="flex justify-between text-sm gap-3">
+                      <span className="text-muted-foreground">Item:</span>
+                      <span className="font-medium text-foreground text-right">
+                        {intent.product_name || intent.description || "Payment"}
+                      </span>
+                    </div>
+                    {intent.product_id && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Quantity:</span>
+                        <span className="font-medium text-foreground">{intent.quantity}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Expires:</span>
+                      <span className="font-medium text-foreground">
+                        {new Date(intent.expires_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {/* Split legs are included in the total */}
+                    {intent.splits?.map((leg) => (
+                      <div key={leg.address} className="flex justify-between text-sm gap-3">
+                        <span className="text-muted-foreground">
+                          {leg.label || `${leg.address.slice(0, 6)}...${leg.address.slice(-4)}`}:
+                        </span>
+                        <span className="font-medium text-foreground">
+                          {leg.amount} {intent.token}
+                        </span>
+                      </div>
+                    ))}
+                    {intent.currency && intent.currency !== "USD" && intent.fiat_amount && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Price:</span>
+                        <span className="font-medium text-foreground">
+                          {formatMoney(intent.fiat_amount, intent.currency)}
+                        </span>
+                      </div>
+                    )}
+                    <div className="h-px bg-border my-2" />
+                    <div className="flex justify-between">
+                      <span className="font-semibold text-foreground">Total:</span>
+                      <span className="text-2xl font-bold text-primary">
+                        {Number(intent.amount).toFixed(2)} {intent.token}
+                      </span>
+                    </div>
+                  </div>
+                ) : products.length > 0 ? (
                   <div>
                     <Label className="text-sm">Select Product/Service</Label>
                     <div className="grid gap-2 sm:gap-3 mt-2">
@@ -775,7 +1119,7 @@ const CustomerPayment = () => {
                               )}
                             </div>
                             <span className="text-base sm:text-lg font-bold text-primary whitespace-nowrap">
-                              ${product.price.toFixed(2)}
+                              {formatMoney(product.price, product.currency)}
                             </span>
                           </div>
                         </Card>
@@ -788,7 +1132,7 @@ const CustomerPayment = () => {
                   </div>
                 )}
 
-                {selectedProduct && (
+                {!intent && selectedProduct && (
                   <div className="space-y-3">
                     <Label className="text-sm">Quantity</Label>
                     <div className="flex items-center gap-4">
@@ -821,7 +1165,7 @@ const CustomerPayment = () => {
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">Unit Price:</span>
                         <span className="font-medium text-foreground">
-                          ${products.find(p => p.id === selectedProduct)?.price.toFixed(2)}
+                          {selected && formatMoney(selected.price, selected.currency)}
                         </span>
                       </div>
                       <div className="flex justify-between text-sm">
@@ -832,9 +1176,14 @@ const CustomerPayment = () => {
                       <div className="flex justify-between">
                         <span className="font-semibold text-foreground">Total:</span>
                         <span className="text-2xl font-bold text-primary">
-                          ${((products.find(p => p.id === selectedProduct)?.price || 0) * quantity).toFixed(2)}
+                          {selected && formatMoney(selected.price * quantity, selected.currency)}
                         </span>
                       </div>
+                      {selected && selected.currency !== "USD" && (
+                        <p className="text-xs text-muted-foreground">
+                          Paid in stablecoins at the exchange rate when you check out. The rate is held for a few minutes.
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -842,7 +1191,7 @@ const CustomerPayment = () => {
                 <Button
                   className="w-full h-12 sm:h-14 text-base sm:text-lg touch-manipulation"
                   onClick={handlePayment}
-                  disabled={loading || !selectedProduct || !customerName.trim()}
+                  disabled={loading || (!intent && !selectedProduct) || !customerName.trim()}
                 >
                   {loading ? (
                     <>
@@ -1,21 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import QRCode from "@/components/QRCode";
 import TransactionList, { Transaction } from "@/components/TransactionList";
 import AnalyticsChart from "@/components/AnalyticsChart";
-import { QrCode, Wallet, TrendingUp, FileText, Users, DollarSign, Clock, CheckCircle2, Copy, ExternalLink } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { QrCode, Wallet, TrendingUp, FileText, Users, DollarSign, Clock, CheckCircle2, Copy, ExternalLink, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchWalletNames } from "@/lib/wallets";
 
 interface Invoice {
   id: string;
   status: string;
   amount: number;
+  amount_paid: number;
   client_name: string;
 }
 
@@ -31,6 +35,10 @@ const Dashboard = () => {
   const [weeklyGrowth, setWeeklyGrowth] = useState(0);
   const [chartData, setChartData] = useState<{ day: string; amount: number }[]>([]);
   const [loading, setLoading] = useState(true);
+  // Sandbox (rav_test_) payments are kept out of the live figures
+  const [showTestData, setShowTestData] = useState(false);
+  // Wallet names that check-wallet-names found pointing elsewhere
+  const [mismatchedNames, setMismatchedNames] = useState<string[]>([]);
   
   // Animation states
   const [animatedInflow, setAnimatedInflow] = useState(0);
@@ -77,6 +85,10 @@ const Dashboard = () => {
     }
 
     setUserId(session.user.id);
+    fetchWalletNames(session.user.id).then(
+      (names) => setMismatchedNames(Object.values(names).filter((named) => named.mismatched).map((named) => named.name)),
+      (error) => console.error("Failed to load wallet names:", error)
+    );
 
     const { data: {user} } = await supabase.auth.getUser();
     if (user) {
@@ -98,7 +110,7 @@ const Dashboard = () => {
     fetchData();
   };
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async (testData = showTestData) => {
     // Fetch transactions
     const { data: txData, error: txError } = await supabase
       .from("transactions")
@@ -108,6 +120,7 @@ const Dashboard = () => {
           name
         )
       `)
+      .eq("is_test", testData)
       .order("created_at", { ascending: false });
 
     if (txError) {
@@ -123,7 +136,8 @@ const Dashboard = () => {
     // Fetch invoices
     const { data: invData, error: invError } = await supabase
       .from("invoices")
-      .select("id, status, amount, client_name")
+      .select("id, status, amount, amount_paid, client_name, created_at")
+      .eq("is_test", testData)
       .order("created_at", { ascending: false });
 
     if (invError) {
@@ -142,47 +156,75 @@ const Dashboard = () => {
       name: tx.customer_name,
       amount: Number(tx.amount),
       date: new Date(tx.created_at).toLocaleString(),
-      status: tx.status as "completed" | "pending",
+      status: tx.status as Transaction["status"],
+      confirmations: tx.confirmations,
+      requiredConfirmations: tx.required_confirmations ?? undefined,
       txHash: tx.tx_hash || undefined,
-      network: undefined,
+      network: tx.network || undefined,
+      token: tx.token || undefined,
       productName: tx.products?.name || "Product",
       quantity: tx.quantity || 1,
+      isTest: tx.is_test,
+      fromAddress: tx.from_address || undefined,
+      refundedAmount: Number(tx.refunded_amount),
+      refundOf: tx.refund_of || undefined,
+      splitOf: tx.split_of || undefined,
     }));
 
     setTransactions(formattedTx);
 
+    // Only confirmed payments count towards revenue. Invoice payments are
+    // counted through the amount paid on their invoice below, which includes
+    // partial payments.
+    const settledTx = (txData || []).filter((tx) => tx.status === "confirmed" && !tx.invoice_id);
+
     // Calculate metrics
-    const creditTx = formattedTx.filter((tx) => tx.type === "credit");
-    const paidInvoices = (invData || []).filter(inv => inv.status === "paid");
+    const creditTx = settledTx.filter((tx) => tx.transaction_type === "credit");
+    const paidInvoices = (invData || []).filter(inv => inv.amount_paid > 0);
+    // Confirmed refunds of checkouts and invoices alike come off revenue
+    const refundTx = (txData || []).filter((tx) => tx.status === "confirmed" && tx.refund_of);
+    // amount_paid includes the shares of split invoices paid to other
+    // wallets, which are not this merchant's revenue
+    const invoiceSplitTx = (txData || []).filter((tx) =>
+      tx.invoice_id && Number(tx.split_amount) > 0 && tx.status !== "failed" && tx.status !== "dropped"
+    );
     
-    const inflow = creditTx.reduce((sum, tx) => sum + tx.amount, 0) +
-                   paidInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+    const inflow = creditTx.reduce((sum, tx) => sum + Number(tx.amount), 0) +
+                   paidInvoices.reduce((sum, inv) => sum + Number(inv.amount_paid), 0) -
+                   invoiceSplitTx.reduce((sum, tx) => sum + Number(tx.split_amount), 0) -
+                   refundTx.reduce((sum, tx) => sum + Number(tx.amount), 0);
     setTotalInflow(inflow);
 
     // Monthly revenue
     const now = new Date();
     const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const thisMonthTx = (txData || []).filter((tx) => {
+    const thisMonthTx = settledTx.filter((tx) => {
       const txDate = new Date(tx.created_at);
       return txDate >= monthStart && tx.transaction_type === "credit";
     });
     const thisMonthInv = (invData || []).filter((inv) => {
       const invDate = new Date(inv.created_at);
-      return invDate >= monthStart && inv.status === "paid";
+      return invDate >= monthStart && inv.amount_paid > 0;
     });
+    const thisMonthRefunds = refundTx.filter((tx) => new Date(tx.created_at) >= monthStart);
+    const thisMonthSplits = invoiceSplitTx.filter((tx) =>
+      thisMonthInv.some((inv) => inv.id === tx.invoice_id)
+    );
     const monthly = thisMonthTx.reduce((sum, tx) => sum + Number(tx.amount), 0) +
-                    thisMonthInv.reduce((sum, inv) => sum + inv.amount, 0);
+                    thisMonthInv.reduce((sum, inv) => sum + Number(inv.amount_paid), 0) -
+                    thisMonthSplits.reduce((sum, tx) => sum + Number(tx.split_amount), 0) -
+                    thisMonthRefunds.reduce((sum, tx) => sum + Number(tx.amount), 0);
     setMonthlyRevenue(monthly);
 
     // Weekly analytics
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const fourteenDaysAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
 
-    const thisWeekTx = (txData || []).filter((tx) => {
+    const thisWeekTx = settledTx.filter((tx) => {
       const txDate = new Date(tx.created_at);
       return txDate >= sevenDaysAgo && tx.transaction_type === "credit";
     });
-    const lastWeekTx = (txData || []).filter((tx) => {
+    const lastWeekTx = settledTx.filter((tx) => {
       const txDate = new Date(tx.created_at);
       return txDate >= fourteenDaysAgo && txDate < sevenDaysAgo && tx.transaction_type === "credit";
     });
@@ -209,7 +251,7 @@ const Dashboard = () => {
       const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
       const dayName = dayNames[date.getDay()];
       
-      const dayTotal = (txData || [])
+      const dayTotal = settledTx
         .filter((tx) => {
           const txDate = new Date(tx.created_at);
           return (
@@ -224,7 +266,25 @@ const Dashboard = () => {
 
     setChartData(dailyData);
     setLoading(false);
-  };
+  }, [showTestData, toast]);
+
+  // Refresh as chain-watcher moves payments through their confirmations
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`transactions-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "transactions", filter: `merchant_id=eq.${userId}` },
+        () => fetchData()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchData]);
 
   const pendingInvoices = invoices.filter(inv => inv.status === "draft" || inv.status === "sent");
   const paidInvoices = invoices.filter(inv => inv.status === "paid");
@@ -235,11 +295,36 @@ const Dashboard = () => {
       <Navbar />
       
       <main className="container mx-auto px-4 py-6 sm:py-8 flex-1">
-        <div className="mb-6 sm:mb-8">
-          <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">Dashboard</h1>
-          <p className="text-sm sm:text-base text-muted-foreground">Welcome back! Here's your overview</p>
+        <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">Dashboard</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              {showTestData ? "Viewing test data from sandbox API keys" : "Welcome back! Here's your overview"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="test-data"
+              checked={showTestData}
+              onCheckedChange={(checked) => {
+                setShowTestData(checked);
+                fetchData(checked);
+              }}
+            />
+            <Label htmlFor="test-data">View test data</Label>
+          </div>
         </div>
 
+        {mismatchedNames.length > 0 && (
+          <Alert className="mb-6 border-red-200 bg-red-50">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-sm text-red-800">
+              {mismatchedNames.join(", ")} no longer {mismatchedNames.length === 1 ? "points" : "point"} to your receiving wallet.
+              Payments still go to the saved address. <Link to="/settings" className="underline font-medium">Review in Settings</Link>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Metrics Grid - Animated */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8">
           {/* Total Inflow */}
@@ -501,9 +586,9 @@ const Dashboard = () => {
             <div className="space-y-4">
               {Object.entries(
                 invoices
-                  .filter(inv => inv.status === "paid")
+                  .filter(inv => inv.amount_paid > 0)
                   .reduce((acc: { [key: string]: number }, inv) => {
-                    acc[inv.client_name] = (acc[inv.client_name] || 0) + inv.amount;
+                    acc[inv.client_name] = (acc[inv.client_name] || 0) + Number(inv.amount_paid);
                     return acc;
                   }, {})
               )
@@ -538,7 +623,7 @@ const Dashboard = () => {
         <div className={`transition-all duration-400 delay-400 ${
           cardsVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'
         }`}>
-          <TransactionList transactions={transactions} />
+          <TransactionList transactions={transactions} onRefunded={() => fetchData()} />
         </div>
       </main>
 
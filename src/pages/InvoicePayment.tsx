@@ -1,63 +1,79 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
-import { Loader2, Wallet, Shield, CheckCircle2, AlertTriangle, FileText } from "lucide-react";
+import ScanToPay from "@/components/ScanToPay";
+import MerchantWalletLabel from "@/components/MerchantWalletLabel";
+import EscrowMilestones from "@/components/EscrowMilestones";
+import { Loader2, Wallet, Shield, CheckCircle2, AlertTriangle, FileText, QrCode, Lock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/errorHandler";
+import { payWithoutGas, supportsGasless } from "@/lib/gasless";
 import { ethers } from "ethers";
 import EthereumProvider from "@walletconnect/ethereum-provider";
+import { ERC20_ABI, hexChainId, networksForMode, type EvmNetwork } from "@/lib/networks";
+import { acceptedTokens, findToken, type AcceptedTokens } from "@/lib/tokens";
+import type { ScanToPayIntent } from "@/lib/uris";
+import { hasSplits, sendSplitPayment } from "@/lib/splits";
+import { formatMoney } from "@/lib/currency";
+import { fetchUpcomingWallets, type UpcomingWallets } from "@/lib/ownership";
+import {
+  fetchMerchantWallets,
+  fetchWalletNames,
+  sameWalletAddress,
+  type MerchantWalletNames,
+  type MerchantWallets,
+} from "@/lib/wallets";
+import {
+  ESCROW_STATUSES,
+  fetchEscrowTerms,
+  fetchMilestones,
+  fundEscrow,
+  syncEscrow,
+  type Milestone,
+} from "@/lib/escrow";
 
 interface Invoice {
   id: string;
   invoice_number: string;
   client_name: string;
   client_email: string;
+  // amount and amount_due are in this currency
+  currency: string;
   amount: number;
+  // Left to pay after any partial payments
+  amount_due: number;
   status: string;
   due_date: string;
   description: string;
   merchant_id: string;
+  // Sandbox invoices are paid on testnets
+  is_test: boolean;
+  // Other wallets paid a share of each payment
+  split_rules: Json | null;
+  network: string | null;
+  // Escrow invoices are deposited once and paid out per milestone
+  escrow: boolean;
+  escrow_id: string | null;
+  escrow_contract: string | null;
+  escrow_release_days: number | null;
 }
 
 interface MerchantProfile {
   merchant_name: string;
-  wallet_address: string;
+  accepted_tokens: AcceptedTokens | null;
   email: string;
 }
 
-// Network configuration
-const NETWORKS = {
-  celo: {
-    name: "Celo Mainnet",
-    chainId: "0xa4ec", // 42220 in decimal
-    rpcUrl: "https://forno.celo.org",
-    explorer: "https://explorer.celo.org",
-    stablecoin: {
-      address: "0x765DE816845861e75A25fCA122bb6898B8B1282a", // cUSD on Celo Mainnet
-      symbol: "cUSD",
-      decimals: 18,
-    },
-  },
-  base: {
-    name: "Base Mainnet",
-    chainId: "0x2105", // 8453 in decimal
-    rpcUrl: "https://mainnet.base.org",
-    explorer: "https://basescan.org",
-    stablecoin: {
-      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC on Base Mainnet
-      symbol: "USDC",
-      decimals: 6,
-    },
-  },
-};
-
 const InvoicePayment = () => {
   const { invoiceId } = useParams();
   const navigate = useNavigate();
@@ -65,12 +81,21 @@ const InvoicePayment = () => {
   
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [merchant, setMerchant] = useState<MerchantProfile | null>(null);
+  const [merchantWallets, setMerchantWallets] = useState<MerchantWallets>({});
+  const [walletNames, setWalletNames] = useState<MerchantWalletNames>({});
+  const [upcomingWallets, setUpcomingWallets] = useState<UpcomingWallets>({});
   const [loading, setLoading] = useState(true);
   const [paying, setPaying] = useState(false);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [walletProvider, setWalletProvider] = useState<any>(null);
-  const [selectedNetwork, setSelectedNetwork] = useState<"celo" | "base">("celo");
+  const [selectedNetwork, setSelectedNetwork] = useState<EvmNetwork>("celo");
+  const [selectedToken, setSelectedToken] = useState<string | null>(null);
   const [showNetworkOptions, setShowNetworkOptions] = useState(false);
+  const [showScanOptions, setShowScanOptions] = useState(false);
+  const [scanIntent, setScanIntent] = useState<ScanToPayIntent | null>(null);
+  const [gasless, setGasless] = useState(false);
+  const [creatingScan, setCreatingScan] = useState(false);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
 
   useEffect(() => {
     fetchInvoiceData();
@@ -100,24 +125,28 @@ const InvoicePayment = () => {
       }
 
       setInvoice(invoiceData);
+      if (invoiceData.escrow) {
+        setMilestones(await fetchMilestones(invoiceData.id));
+      }
 
       // Update status to viewed if it's sent to client
       if (invoiceData.status === "sent") {
-        await supabase
-          .from("invoices")
-          .update({ status: "viewed" })
-          .eq("id", invoiceId);
+        await supabase.rpc("mark_invoice_viewed", { p_invoice_id: invoiceId });
       }
 
       // Fetch merchant info
       const { data: merchantData, error: merchantError } = await supabase
         .from("profiles")
-        .select("merchant_name, wallet_address, email")
+        .select("merchant_name, accepted_tokens, email")
         .eq("id", invoiceData.merchant_id)
         .single();
 
       if (merchantError) throw merchantError;
       setMerchant(merchantData);
+      setMerchantWallets(await fetchMerchantWallets(invoiceData.merchant_id));
+      // Names are only a label; the page works without them
+      fetchWalletNames(invoiceData.merchant_id).then(setWalletNames, (error) => console.error("Failed to load wallet names:", error));
+      fetchUpcomingWallets(invoiceData.merchant_id).then(setUpcomingWallets, (error) => console.error("Failed to load wallet changes:", error));
 
     } catch (error: any) {
       toast({
@@ -130,19 +159,20 @@ const InvoicePayment = () => {
     }
   };
 
-  const connectWallet = async (useWalletConnect: boolean = false, network: "celo" | "base" = "celo") => {
+  const connectWallet = async (useWalletConnect: boolean = false, network: EvmNetwork = "celo") => {
     try {
       let provider;
       let accounts;
-      const selectedNet = NETWORKS[network];
+      const isTest = invoice?.is_test ?? false;
+      const selectedNet = networksForMode(isTest)[network];
       
       if (useWalletConnect) {
         const wcProvider = await EthereumProvider.init({
           projectId: "6f033f2737797ddd7f1907ba4c264474",
-          chains: [parseInt(selectedNet.chainId, 16)],
+          chains: [selectedNet.chainId],
           showQrModal: true,
           qrModalOptions: { themeMode: "light" },
-          rpcMap: { [parseInt(selectedNet.chainId, 16)]: selectedNet.rpcUrl },
+          rpcMap: { [selectedNet.chainId]: selectedNet.rpcUrl },
         });
 
         await wcProvider.enable();
@@ -163,17 +193,13 @@ const InvoicePayment = () => {
         accounts = await provider.send("eth_requestAccounts", []);
 
         try {
-          await provider.send("wallet_switchEthereumChain", [{ chainId: selectedNet.chainId }]);
+          await provider.send("wallet_switchEthereumChain", [{ chainId: hexChainId(network, isTest) }]);
         } catch (switchError: any) {
           if (switchError.code === 4902) {
             await provider.send("wallet_addEthereumChain", [{
-              chainId: selectedNet.chainId,
+              chainId: hexChainId(network, isTest),
               chainName: selectedNet.name,
-              nativeCurrency: {
-                name: selectedNet.stablecoin.symbol,
-                symbol: selectedNet.stablecoin.symbol,
-                decimals: selectedNet.stablecoin.decimals,
-              },
+              nativeCurrency: selectedNet.nativeCurrency,
               rpcUrls: [selectedNet.rpcUrl],
               blockExplorerUrls: [selectedNet.explorer],
             }]);
@@ -184,6 +210,7 @@ const InvoicePayment = () => {
       }
 
       setSelectedNetwork(network);
+      setSelectedToken(acceptedTokens(network, merchant?.accepted_tokens, isTest)[0]?.symbol ?? null);
       setWalletAddress(accounts[0]);
       setShowNetworkOptions(false);
       
@@ -200,55 +227,159 @@ const InvoicePayment = () => {
     }
   };
 
+  // Scan-to-pay: fix the payment in an intent and show it as an EIP-681 QR
+  // code; chain-watcher settles the invoice once the transfer lands
+  const startScanToPay = async (network: EvmNetwork) => {
+    if (!invoice) return;
+
+    setCreatingScan(true);
+    try {
+      const { data: created, error: intentError } = await supabase.functions.invoke("create-payment-intent", {
+        body: { invoiceId: invoice.id, network },
+      });
+
+      if (intentError || !created?.intent) {
+        throw new Error("Unable to create a payment code. Please refresh and try again.");
+      }
+
+      setSelectedNetwork(network);
+      setScanIntent(created.intent);
+      setShowScanOptions(false);
+    } catch (error) {
+      toast({
+        title: "Scan to pay unavailable",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setCreatingScan(false);
+    }
+  };
+
+  const handleScanPaid = useCallback((txHash: string) => {
+    if (!invoice || !scanIntent) return;
+    navigate("/success", {
+      state: {
+        amount: Number(scanIntent.amount),
+        reference: invoice.invoice_number,
+        txHash: txHash,
+        network: scanIntent.network,
+        isTest: invoice.is_test,
+      },
+    });
+  }, [invoice, scanIntent, navigate]);
+
+// Escrow invoices are deposited into the escrow contract in full; the
+// merchant is paid as each milestone is released
+const handleEscrowFunding = async () => {
+  if (!invoice || !walletAddress) return;
+
+  setPaying(true);
+
+  try {
+    const terms = await fetchEscrowTerms(invoice.id, selectedNetwork, selectedToken ?? undefined);
+
+    if (!sameWalletAddress(selectedNetwork, terms.merchant, merchantWallets[selectedNetwork])) {
+      throw new Error("Merchant wallet address has changed. Please refresh and verify.");
+    }
+
+    const provider = new ethers.BrowserProvider(walletProvider);
+    const signer = await provider.getSigner();
+
+    toast({
+      title: "Confirm in wallet",
+      description: `Depositing ${invoice.amount} ${terms.token} into escrow...`,
+    });
+
+    const txHash = await fundEscrow(signer, terms);
+
+    try {
+      await syncEscrow(invoice.id, selectedNetwork, txHash);
+    } catch (syncError) {
+      console.error("Escrow sync failed:", syncError);
+      toast({
+        title: "Deposit sent",
+        description: "Your deposit is on-chain. The invoice will update within a few minutes.",
+      });
+    }
+
+    await fetchInvoiceData();
+  } catch (error) {
+    console.error("Escrow funding error:", error);
+
+    const code = (error as { code?: unknown }).code;
+    toast({
+      title: "Deposit failed",
+      description: code === "ACTION_REJECTED" || code === 4001
+        ? "Transaction was rejected"
+        : getErrorMessage(error),
+      variant: "destructive",
+    });
+  } finally {
+    setPaying(false);
+  }
+};
+
 const handlePayment = async () => {
   if (!invoice || !merchant || !walletAddress) return;
 
   setPaying(true);
 
   try {
+    // Fix the amount, token and merchant wallet before the wallet prompt opens
+    const { data: created, error: intentError } = await supabase.functions.invoke("create-payment-intent", {
+      body: { invoiceId: invoice.id, network: selectedNetwork, token: selectedToken ?? undefined },
+    });
+
+    if (intentError || !created?.intent) {
+      throw new Error("Unable to start payment. Please refresh and try again.");
+    }
+
+    const intent = created.intent;
+
+    if (!sameWalletAddress(selectedNetwork, intent.recipient_address, merchantWallets[selectedNetwork])) {
+      throw new Error("Merchant wallet address has changed. Please refresh and verify.");
+    }
+
     const provider = new ethers.BrowserProvider(walletProvider);
     const signer = await provider.getSigner();
 
-    const network = NETWORKS[selectedNetwork];
-    
-    // ERC-20 Token ABI (minimal interface for transfer)
-    const ERC20_ABI = [
-      "function transfer(address to, uint256 amount) returns (bool)",
-      "function balanceOf(address account) view returns (uint256)",
-      "function decimals() view returns (uint8)",
-      "function symbol() view returns (string)"
-    ];
-
-    // Create contract instance for the stablecoin (USDC on Base or cUSD on Celo)
+    const stablecoin = findToken(selectedNetwork, intent.token_address, invoice.is_test);
+    if (!stablecoin) {
+      throw new Error(`Unsupported token: ${intent.token}`);
+    }
+
+    // Create contract instance for the token the intent fixed
     const tokenContract = new ethers.Contract(
-      network.stablecoin.address,
+      intent.token_address,
       ERC20_ABI,
       signer
     );
 
     // Format amount with correct decimals
     const tokenAmount = ethers.parseUnits(
-      invoice.amount.toString(),
-      network.stablecoin.decimals
+      Number(intent.amount).toString(),
+      stablecoin.decimals
     );
 
     console.log("Payment details:", {
-      amount: invoice.amount,
+      intent: intent.id,
+      amount: intent.amount,
       tokenAmount: tokenAmount.toString(),
-      decimals: network.stablecoin.decimals,
-      token: network.stablecoin.symbol,
-      to: merchant.wallet_address
+      decimals: stablecoin.decimals,
+      token: stablecoin.symbol,
+      to: intent.recipient_address
     });
 
     // Check user's token balance
     try {
       const balance = await tokenContract.balanceOf(walletAddress);
-      console.log("Token balance:", ethers.formatUnits(balance, network.stablecoin.decimals));
+      console.log("Token balance:", ethers.formatUnits(balance, stablecoin.decimals));
       
       if (balance < tokenAmount) {
         toast({
           title: "Insufficient balance",
-          description: `You need at least ${invoice.amount} ${network.stablecoin.symbol} to pay this invoice.`,
+          description: `You need at least ${intent.amount} ${stablecoin.symbol} to pay this invoice.`,
           variant: "destructive",
         });
         setPaying(false);
@@ -258,83 +389,71 @@ const handlePayment = async () => {
       console.error("Balance check failed:", balanceError);
       toast({
         title: "Warning",
-        description: `Could not verify ${network.stablecoin.symbol} balance. Proceeding anyway...`,
+        description: `Could not verify ${stablecoin.symbol} balance. Proceeding anyway...`,
       });
     }
 
-    toast({
-      title: "Confirm in wallet",
-      description: `Sending ${invoice.amount} ${network.stablecoin.symbol}...`,
-    });
-
-    // Execute token transfer
-    const tx = await tokenContract.transfer(
-      merchant.wallet_address,
-      tokenAmount
-    );
+    let txHash: string;
+    if (gasless && !hasSplits(intent) && supportsGasless(stablecoin)) {
+      // The payer only signs; relay-payment sends the transfer and pays gas
+      toast({
+        title: "Sign in wallet",
+        description: `Authorize ${intent.amount} ${stablecoin.symbol}. No gas is needed.`,
+      });
 
-    toast({
-      title: "Transaction submitted",
-      description: "Waiting for blockchain confirmation...",
-    });
+      txHash = await payWithoutGas(signer, intent.id);
+    } else {
+      toast({
+        title: "Confirm in wallet",
+        description: `Sending ${intent.amount} ${stablecoin.symbol}...`,
+      });
 
-    // Wait for transaction confirmation
-    const receipt = await tx.wait();
+      // Execute token transfer, or pay every split leg through the splitter
+      const tx = hasSplits(intent)
+        ? await sendSplitPayment(signer, intent, stablecoin.decimals)
+        : await tokenContract.transfer(intent.recipient_address, tokenAmount);
 
-    if (!receipt || receipt.status === 0) {
-      throw new Error("Transaction failed on blockchain");
-    }
+      toast({
+        title: "Transaction submitted",
+        description: "Waiting for blockchain confirmation...",
+      });
 
-    console.log("Transaction successful:", receipt.hash);
+      // Wait for transaction confirmation
+      const receipt = await tx.wait();
 
-    const paidAt = new Date().toISOString();
+      if (!receipt || receipt.status === 0) {
+        throw new Error("Transaction failed on blockchain");
+      }
+      txHash = receipt.hash;
+    }
 
-    // Update invoice status in database
-    const { error: updateError } = await supabase
-      .from("invoices")
-      .update({ 
-        status: "paid",
-        paid_at: paidAt,
-        tx_hash: receipt.hash,
-        network: selectedNetwork
-      })
-      .eq("id", invoiceId);
+    console.log("Transaction successful:", txHash);
 
-    if (updateError) {
-      console.error("Database update failed:", updateError);
-      // Don't fail the payment if database update fails
-    }
+    // Settle the invoice server-side: the transfer is verified on-chain
+    // before the invoice is marked paid and the confirmation emails go out
+    const { error: settleError } = await supabase.functions.invoke("settle-invoice", {
+      body: {
+        intentId: intent.id,
+        txHash,
+      },
+    });
 
-    // Send payment confirmation emails
-    try {
-      await supabase.functions.invoke("send-invoice-email", {
-        body: {
-          invoiceNumber: invoice.invoice_number,
-          clientName: invoice.client_name,
-          clientEmail: invoice.client_email,
-          merchantName: merchant.merchant_name,
-          merchantEmail: merchant.email,
-          amount: invoice.amount,
-          dueDate: invoice.due_date,
-          description: invoice.description,
-          paymentLink: `${window.location.origin}/invoice/${invoiceId}`,
-          status: "paid",
-          txHash: receipt.hash,
-          network: selectedNetwork,
-          paidAt: paidAt,
-        },
+    if (settleError) {
+      console.error("Invoice settlement failed:", settleError);
+      toast({
+        title: "Payment sent",
+        description: "Your payment is on-chain but the invoice is not confirmed yet. Keep the transaction hash for reference.",
       });
-    } catch (emailError) {
-      console.error("Email notification failed:", emailError);
     }
 
     // Navigate to success page
     navigate("/success", {
       state: {
-        amount: invoice.amount,
+        amount: Number(intent.amount),
         reference: invoice.invoice_number,
-        txHash: receipt.hash,
+        txHash,
         network: selectedNetwork,
+        isTest: invoice.is_test,
       },
     });
 
@@ -401,6 +520,10 @@ const handlePayment = async () => {
     );
   }
 
+  const splitInvoice = Array.isArray(invoice.split_rules) && invoice.split_rules.length > 0;
+  // Once deposited, the client releases milestones instead of paying
+  const escrowFunded = invoice.escrow && ESCROW_STATUSES.includes(invoice.status);
+
   return (
     <div className="min-h-screen flex flex-col bg-muted/20">
       <Navbar />
@@ -422,6 +545,13 @@ const handlePayment = async () => {
             <p className="text-sm sm:text-base text-muted-foreground">
               Invoice #{invoice.invoice_number}
             </p>
+            {merchantWallets[selectedNetwork] && (
+              <MerchantWalletLabel
+                address={merchantWallets[selectedNetwork]!}
+                name={walletNames[selectedNetwork]}
+                upcoming={upcomingWallets[selectedNetwork]}
+              />
+            )}
           </div>
 
           {/* Invoice Details Card */}
@@ -452,93 +582,226 @@ const handlePayment = async () => {
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-semibold">Total Amount:</span>
                     <span className="text-3xl font-bold text-primary">
-                      ${invoice.amount.toFixed(2)}
+                      {formatMoney(invoice.amount, invoice.currency)}
                     </span>
                   </div>
+                  {invoice.status === "partially_paid" && (
+                    <>
+                      <div className="flex justify-between text-sm text-muted-foreground mt-2">
+                        <span>Already Paid:</span>
+                        <span>{formatMoney(invoice.amount - invoice.amount_due, invoice.currency)}</span>
+                      </div>
+                      <div className="flex justify-between items-center mt-1">
+                        <span className="font-semibold">Amount Due:</span>
+                        <span className="text-xl font-bold">
+                          {formatMoney(invoice.amount_due, invoice.currency)}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                  {invoice.currency !== "USD" && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Paid in USD stablecoins at the exchange rate when you pay.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
           </Card>
 
+          {invoice.escrow && (
+            <Card className="p-6 sm:p-8 mb-6 space-y-4">
+              <div className="flex items-start gap-3">
+                <Lock className="w-5 h-5 text-primary mt-1" />
+                <div className="flex-1">
+                  <h3 className="font-semibold mb-1">Milestone Escrow</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {escrowFunded
+                      ? "Release each milestone once you are satisfied with it. Completed milestones release automatically after the review period."
+                      : `Your deposit is held in escrow and paid out per milestone. Completed milestones you have not released within ${invoice.escrow_release_days} days release automatically.`}
+                  </p>
+                </div>
+              </div>
+              <EscrowMilestones
+                invoice={invoice}
+                milestones={milestones}
+                role="client"
+                onChanged={fetchInvoiceData}
+              />
+            </Card>
+          )}
+
           {/* Payment Card */}
-          <Card className="p-6 sm:p-8 space-y-6">
-            {!walletAddress ? (
-              <div className="space-y-3">
-                <Label className="text-sm">Connect Wallet to Pay</Label>
-                <div className="grid gap-3">
-                  <Button
-                    className="w-full h-12"
-                    onClick={() => setShowNetworkOptions(!showNetworkOptions)}
-                  >
-                    <Wallet className="w-5 h-5 mr-2" />
-                    Connect Wallet
-                  </Button>
+          {!escrowFunded && (
+            <Card className="p-6 sm:p-8 space-y-6">
+              {!walletAddress ? (
+                <div className="space-y-3">
+                  <Label className="text-sm">Connect Wallet to Pay</Label>
+                  <div className="grid gap-3">
+                    <Button
+                      className="w-full h-12"
+                      onClick={() => setShowNetworkOptions(!showNetworkOptions)}
+                    >
+                      <Wallet className="w-5 h-5 mr-2" />
+                      Connect Wallet
+                    </Button>
+
+                    {showNetworkOptions && (
+                      <div className="border rounded-lg p-4 space-y-3">
+                        <p className="text-sm font-medium text-center">Select Network</p>
+                        {merchantWallets.base && (
+                          <Button 
+                            onClick={() => connectWallet(false, "base")}
+                            className="w-full"
+                            variant="outline"
+                          >
+                            Base (MetaMask)
+                          </Button>
+                        )}
+                        {merchantWallets.celo && (
+                          <Button 
+                            onClick={() => connectWallet(false, "celo")}
+                            className="w-full"
+                            variant="outline"
+                          >
+                            Celo (MetaMask)
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    <Button
+                      className="w-full h-12"
+                      onClick={() => connectWallet(true, merchantWallets.celo ? "celo" : "base")}
+                      variant="outline"
+                    >
+                      <Wallet className="w-5 h-5 mr-2" />
+                      WalletConnect (Mobile)
+                    </Button>
+
+                    {/* A scan-to-pay URI sends one transfer, so split and escrow invoices need a connected wallet */}
+                    {!splitInvoice && !invoice.escrow && (
+                      <>
+                        <Button
+                          className="w-full h-12"
+                          onClick={() => setShowScanOptions(!showScanOptions)}
+                          disabled={creatingScan}
+                          variant="outline"
+                        >
+                          {creatingScan ? (
+                            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                          ) : (
+                            <QrCode className="w-5 h-5 mr-2" />
+                          )}
+                          Scan to Pay (QR Code)
+                        </Button>
+
+                        {showScanOptions && (
+                          <div className="border rounded-lg p-4 space-y-3">
+                            <p className="text-sm font-medium text-center">Select Network</p>
+                            {merchantWallets.base && (
+                              <Button
+                                onClick={() => startScanToPay("base")}
+                                className="w-full"
+                                variant="outline"
+                              >
+                                Base
+                              </Button>
+                            )}
+                            {merchantWallets.celo && (
+                              <Button
+                                onClick={() => startScanToPay("celo")}
+                                className="w-full"
+                                variant="outline"
+                              >
+                                Celo
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
 
-                  {showNetworkOptions && (
-                    <div className="border rounded-lg p-4 space-y-3">
-                      <p className="text-sm font-medium text-center">Select Network</p>
-                      <Button 
-                        onClick={() => connectWallet(false, "base")}
-                        className="w-full"
-                        variant="outline"
-                      >
-                        Base (MetaMask)
-                      </Button>
-                      <Button 
-                        onClick={() => connectWallet(false, "celo")}
-                        className="w-full"
-                        variant="outline"
-                      >
-                        Celo (MetaMask)
-                      </Button>
+                  {scanIntent && (
+                    <div className="pt-3">
+                      <ScanToPay
+                        intent={scanIntent}
+                        labels={{ label: merchant.merchant_name, message: `Invoice ${invoice.invoice_number}` }}
+                        onPaid={handleScanPaid}
+                      />
                     </div>
                   )}
-
-                  <Button
-                    className="w-full h-12"
-                    onClick={() => connectWallet(true)}
-                    variant="outline"
-                  >
-                    <Wallet className="w-5 h-5 mr-2" />
-                    WalletConnect (Mobile)
-                  </Button>
                 </div>
-              </div>
-            ) : (
-              <>
-                <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                  <div>
-                    <p className="text-xs text-muted-foreground">Connected Wallet</p>
-                    <p className="text-sm font-medium">
-                      {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
-                    </p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Connected Wallet</p>
+                      <p className="text-sm font-medium">
+                        {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setWalletAddress(null)}
+                    >
+                      Disconnect
+                    </Button>
                   </div>
+
+                  {acceptedTokens(selectedNetwork, merchant.accepted_tokens, invoice.is_test).length > 1 && (
+                    <div>
+                      <Label className="text-sm">Pay With</Label>
+                      <div className="grid grid-cols-3 gap-2 mt-2">
+                        {acceptedTokens(selectedNetwork, merchant.accepted_tokens, invoice.is_test).map((token) => (
+                          <Button
+                            key={token.symbol}
+                            type="button"
+                            variant={selectedToken === token.symbol ? "default" : "outline"}
+                            onClick={() => setSelectedToken(token.symbol)}
+                            className="h-11"
+                          >
+                            {token.symbol}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {!splitInvoice && !invoice.escrow && supportsGasless(findToken(selectedNetwork, selectedToken ?? "", invoice.is_test)) && (
+                    <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="gasless" className="text-sm">Pay without gas</Label>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          Sign an authorization instead of sending a transaction. No {networksForMode(invoice.is_test)[selectedNetwork].nativeCurrency.symbol} needed.
+                        </p>
+                      </div>
+                      <Switch id="gasless" checked={gasless} onCheckedChange={setGasless} />
+                    </div>
+                  )}
+
                   <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => setWalletAddress(null)}
+                    className="w-full h-14 text-lg"
+                    onClick={invoice.escrow ? handleEscrowFunding : handlePayment}
+                    disabled={paying}
                   >
-                    Disconnect
+                    {paying ? (
+                      <>
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        Processing Payment...
+                      </>
+                    ) : invoice.escrow ? (
+                      `Deposit $${invoice.amount.toFixed(2)} into Escrow`
+                    ) : (
+                      `Pay ${formatMoney(invoice.amount_due, invoice.currency)}`
+                    )}
                   </Button>
-                </div>
-
-                <Button
-                  className="w-full h-14 text-lg"
-                  onClick={handlePayment}
-                  disabled={paying}
-                >
-                  {paying ? (
-                    <>
-                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                      Processing Payment...
-                    </>
-                  ) : (
-                    `Pay $${invoice.amount.toFixed(2)}`
-                  )}
-                </Button>
-              </>
-            )}
-          </Card>
+                </>
+              )}
+            </Card>
+          )}
 
           <div className="mt-6 text-center text-sm text-muted-foreground">
             <p>Powered by blockchain • Secure payment • Instant settlement</p>
@@ -3,16 +3,26 @@ import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Printer, Download, ArrowLeft, CheckCircle2 } from "lucide-react";
+import { Loader2, Printer, Download, ArrowLeft, CheckCircle2, AlertCircle, ExternalLink, Undo2 } from "lucide-react";
+import RefundDialog, { type RefundablePayment } from "@/components/RefundDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { networkName, txExplorerUrl } from "@/lib/networks";
+import { formatMoney } from "@/lib/currency";
 
 interface Invoice {
   id: string;
   invoice_number: string;
   client_name: string;
   client_email: string;
+  // All amounts below are in this currency
+  currency: string;
   amount: number;
+  amount_paid: number;
+  amount_due: number;
+  overpaid_amount: number;
+  overpayment_resolution: string | null;
+  refunded_amount: number;
   status: string;
   due_date: string;
   created_at: string;
@@ -20,6 +30,21 @@ interface Invoice {
   paid_at: string | null;
   tx_hash: string | null;
   network: string | null;
+  is_test: boolean;
+}
+
+// One transfer towards the invoice; an invoice can be paid in several
+interface InvoicePaymentRecord {
+  id: string;
+  amount: number;
+  refunded_amount: number;
+  token: string;
+  network: string;
+  tx_hash: string;
+  from_address: string;
+  status: string;
+  is_test: boolean;
+  created_at: string;
 }
 
 interface MerchantProfile {
@@ -36,6 +61,9 @@ const InvoicePreview = () => {
   const [merchant, setMerchant] = useState<MerchantProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [isOwner, setIsOwner] = useState(false);
+  const [payments, setPayments] = useState<InvoicePaymentRecord[]>([]);
+  const [resolving, setResolving] = useState(false);
+  const [refunding, setRefunding] = useState<RefundablePayment | null>(null);
 
   useEffect(() => {
     fetchInvoiceData();
@@ -65,6 +93,12 @@ const InvoicePreview = () => {
       setInvoice(invoiceData);
       setIsOwner(session?.user.id === invoiceData.merchant_id);
 
+      const { data: paymentData, error: paymentError } = await supabase
+        .rpc("get_invoice_payments", { p_invoice_id: invoiceId });
+
+      if (paymentError) throw paymentError;
+      setPayments(paymentData || []);
+
       const { data: merchantData, error: merchantError } = await supabase
         .from("profiles")
         .select("merchant_name, business_address, email")
@@ -85,6 +119,34 @@ const InvoicePreview = () => {
     }
   };
 
+  // The merchant decides what happens to money paid past the total
+  const resolveOverpayment = async (resolution: "refund" | "credit") => {
+    if (!invoice) return;
+    setResolving(true);
+
+    const { error } = await supabase
+      .from("invoices")
+      .update({ overpayment_resolution: resolution })
+      .eq("id", invoice.id);
+
+    setResolving(false);
+
+    if (error) {
+      toast({
+        title: "Error updating invoice",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setInvoice({ ...invoice, overpayment_resolution: resolution });
+    toast({
+      title: resolution === "refund" ? "Marked for refund" : "Kept as credit",
+      description: `${formatMoney(invoice.overpaid_amount, invoice.currency)} overpaid on ${invoice.invoice_number}`,
+    });
+  };
+
   const handlePrint = () => {
     window.print();
   };
@@ -120,6 +182,7 @@ const InvoicePreview = () => {
       draft: "bg-gray-100 text-gray-700",
       sent: "bg-blue-100 text-blue-700",
       viewed: "bg-yellow-100 text-yellow-700",
+      partially_paid: "bg-orange-100 text-orange-700",
       paid: "bg-green-100 text-green-700",
       overdue: "bg-red-100 text-red-700",
     };
@@ -183,7 +246,7 @@ const InvoicePreview = () => {
                 {invoice.invoice_number}
               </p>
               <Badge className={`mt-2 print:border print:border-current ${getStatusColor(invoice.status)}`}>
-                {invoice.status.toUpperCase()}
+                {invoice.status.replace("_", " ").toUpperCase()}
               </Badge>
             </div>
           </div>
@@ -241,50 +304,163 @@ const InvoicePreview = () => {
             <div className="w-full sm:w-80 space-y-3">
               <div className="flex justify-between text-muted-foreground">
                 <span>Subtotal:</span>
-                <span className="font-mono">${invoice.amount.toFixed(2)}</span>
+                <span className="font-mono">{formatMoney(invoice.amount, invoice.currency)}</span>
               </div>
               <div className="flex justify-between text-muted-foreground">
                 <span>Tax:</span>
-                <span className="font-mono">$0.00</span>
+                <span className="font-mono">{formatMoney(0, invoice.currency)}</span>
               </div>
               <div className="border-t-2 pt-3 flex justify-between">
                 <span className="text-lg font-bold">Total:</span>
                 <span className="text-2xl font-bold text-primary font-mono">
-                  ${invoice.amount.toFixed(2)}
+                  {formatMoney(invoice.amount, invoice.currency)}
                 </span>
               </div>
+              {invoice.amount_paid > 0 && (
+                <>
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Paid:</span>
+                    <span className="font-mono">{formatMoney(invoice.amount_paid, invoice.currency)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Amount Due:</span>
+                    <span className="font-mono">{formatMoney(invoice.amount_due, invoice.currency)}</span>
+                  </div>
+                </>
+              )}
               {invoice.status === "paid" && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center gap-2">
                   <CheckCircle2 className="w-5 h-5 text-green-600" />
                   <span className="text-green-700 font-semibold">PAID IN FULL</span>
                 </div>
               )}
+              {invoice.refunded_amount > 0 && (
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-center gap-2">
+                  <Undo2 className="w-5 h-5 text-orange-600" />
+                  <span className="text-orange-700 font-semibold">
+                    {invoice.refunded_amount >= invoice.amount_paid
+                      ? "REFUNDED"
+                      : `PARTIALLY REFUNDED • ${formatMoney(invoice.refunded_amount, invoice.currency)}`}
+                  </span>
+                </div>
+              )}
+              {invoice.status === "partially_paid" && (
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5 text-orange-600" />
+                  <span className="text-orange-700 font-semibold">
+                    PARTIALLY PAID • {formatMoney(invoice.amount_due, invoice.currency)} REMAINING
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
-          {/* Payment Info - Only if paid */}
-          {invoice.status === "paid" && invoice.tx_hash && (
+          {/* Overpayment - the merchant refunds it or keeps it as credit */}
+          {invoice.overpaid_amount > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8 text-sm">
+              <p className="font-semibold text-yellow-800">
+                Overpaid by ${Number(invoice.overpaid_amount).toFixed(2)}
+              </p>
+              <p className="text-yellow-700 mt-1">
+                {invoice.overpayment_resolution === "refund"
+                  ? "The overpayment will be refunded."
+                  : invoice.overpayment_resolution === "credit"
+                    ? "The overpayment is kept as credit for future invoices."
+                    : "The overpayment is awaiting a refund or credit."}
+              </p>
+              {isOwner && invoice.overpayment_resolution === "pending" && (
+                <div className="flex gap-2 mt-3 print:hidden">
+                  <Button size="sm" variant="outline" disabled={resolving} onClick={() => resolveOverpayment("refund")}>
+                    Mark for Refund
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={resolving} onClick={() => resolveOverpayment("credit")}>
+                    Keep as Credit
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Payments - every transfer towards the invoice */}
+          {payments.length > 0 && (
             <div className="border-t pt-6 print:border-gray-300">
               <h3 className="text-sm font-semibold text-muted-foreground mb-3">
                 PAYMENT DETAILS
               </h3>
-              <div className="bg-blue-50 rounded-lg p-4 space-y-2 text-sm print:bg-gray-50">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Network:</span>
-                  <span className="font-mono font-semibold uppercase">
-                    {invoice.network}
-                  </span>
-                </div>
-                <div className="flex flex-col gap-1">
-                  <span className="text-muted-foreground">Transaction Hash:</span>
-                  <span className="font-mono text-xs break-all">
-                    {invoice.tx_hash}
-                  </span>
-                </div>
-                <p className="text-xs text-muted-foreground pt-2 print:hidden">
-                  Verified on blockchain • Payment is final and immutable
-                </p>
+              <div className="space-y-3">
+                {payments.map((payment) => {
+                  const explorerUrl = txExplorerUrl(payment.network, payment.tx_hash, payment.is_test);
+                  return (
+                    <div key={payment.id} className="bg-blue-50 rounded-lg p-4 space-y-2 text-sm print:bg-gray-50">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          {new Date(payment.created_at).toLocaleDateString()}
+                        </span>
+                        <span className="font-mono font-semibold">
+                          ${Number(payment.amount).toFixed(2)} {payment.token}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Network:</span>
+                        <span className="font-mono font-semibold uppercase">
+                          {networkName(payment.network, payment.is_test)}
+                        </span>
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <span className="text-muted-foreground">Transaction Hash:</span>
+                        {explorerUrl ? (
+                          <a
+                            href={explorerUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-xs break-all text-primary hover:underline inline-flex items-center gap-1"
+                          >
+                            {payment.tx_hash}
+                            <ExternalLink className="w-3 h-3 shrink-0 print:hidden" />
+                          </a>
+                        ) : (
+                          <span className="font-mono text-xs break-all">{payment.tx_hash}</span>
+                        )}
+                      </div>
+                      {(payment.status === "dropped" || payment.status === "failed") && (
+                        <p className="text-xs text-destructive">
+                          This transaction did not confirm and is not counted.
+                        </p>
+                      )}
+                      {payment.refunded_amount > 0 && (
+                        <p className="text-xs text-orange-600">
+                          {payment.refunded_amount >= payment.amount
+                            ? "Refunded"
+                            : `Partially refunded: $${Number(payment.refunded_amount).toFixed(2)}`}
+                        </p>
+                      )}
+                      {isOwner && payment.from_address && payment.refunded_amount < payment.amount &&
+                        (payment.status === "confirmed" || payment.status === "confirming") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="print:hidden"
+                          onClick={() => setRefunding({
+                            id: payment.id,
+                            amount: Number(payment.amount),
+                            refundedAmount: Number(payment.refunded_amount),
+                            network: payment.network,
+                            token: payment.token,
+                            fromAddress: payment.from_address,
+                            isTest: payment.is_test,
+                          })}
+                        >
+                          <Undo2 className="w-3 h-3 mr-1" />
+                          Refund
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
+              <p className="text-xs text-muted-foreground pt-2 print:hidden">
+                Verified on blockchain • Payments are final and immutable
+              </p>
             </div>
           )}
 
@@ -305,6 +481,12 @@ const InvoicePreview = () => {
         </Card>
       </div>
 
+      <RefundDialog
+        payment={refunding}
+        onOpenChange={(open) => !open && setRefunding(null)}
+        onRefunded={fetchInvoiceData}
+      />
+
       {/* Print Styles */}
       <style>{`
         @media print {
@@ -6,8 +6,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import SplitRulesEditor from "@/components/SplitRulesEditor";
+import MilestonesEditor from "@/components/MilestonesEditor";
+import EscrowMilestones from "@/components/EscrowMilestones";
 import { 
   Plus, 
   FileText, 
@@ -18,10 +23,16 @@ import {
   Loader2,
   Copy,
   ExternalLink,
-  Bell
+  Bell,
+  CircleDollarSign,
+  Lock,
+  ShieldAlert
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fromSplitRuleDrafts, type SplitRuleDraft } from "@/lib/splits";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+import { DEFAULT_RELEASE_DAYS, toMilestoneRows, type Milestone, type MilestoneDraft } from "@/lib/escrow";
 import {
   Dialog,
   DialogContent,
@@ -37,10 +48,21 @@ interface Invoice {
   client_name: string;
   client_email: string;
   amount: number;
+  amount_due: number;
+  // amount and amount_due are in this currency
+  currency: string;
   status: string;
   due_date: string;
   created_at: string;
   description: string;
+  is_test: boolean;
+  network: string | null;
+  // Milestone escrow: funded up front, paid out per milestone
+  escrow: boolean;
+  escrow_id: string | null;
+  escrow_contract: string | null;
+  escrow_release_days: number | null;
+  milestones: Milestone[];
 }
 
 const Invoices = () => {
@@ -55,8 +77,13 @@ const Invoices = () => {
   const [clientName, setClientName] = useState("");
   const [clientEmail, setClientEmail] = useState("");
   const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("USD");
   const [description, setDescription] = useState("");
   const [dueDate, setDueDate] = useState("");
+  const [splitRules, setSplitRules] = useState<SplitRuleDraft[]>([]);
+  const [escrow, setEscrow] = useState(false);
+  const [milestones, setMilestones] = useState<MilestoneDraft[]>([]);
+  const [releaseDays, setReleaseDays] = useState(String(DEFAULT_RELEASE_DAYS));
 
   useEffect(() => {
     checkAuthAndFetchInvoices();
@@ -75,7 +102,7 @@ const Invoices = () => {
   const fetchInvoices = async () => {
     const { data, error } = await supabase
       .from("invoices")
-      .select("*")
+      .select("*, milestones:invoice_milestones(*)")
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -85,7 +112,10 @@ const Invoices = () => {
         variant: "destructive",
       });
     } else {
-      setInvoices(data || []);
+      setInvoices((data || []).map((invoice) => ({
+        ...invoice,
+        milestones: [...invoice.milestones].sort((a, b) => a.position - b.position),
+      })));
     }
     setLoading(false);
   };
@@ -98,6 +128,17 @@ const Invoices = () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) throw new Error("Not authenticated");
 
+      // Throws on an invalid recipient or milestone before anything is created
+      const splits = escrow ? null : fromSplitRuleDrafts(splitRules);
+      const invoiceAmount = parseFloat(amount);
+      const days = Number(releaseDays);
+      if (escrow) {
+        toMilestoneRows("", milestones, invoiceAmount);
+        if (!Number.isInteger(days) || days < 1 || days > 90) {
+          throw new Error("Review period must be between 1 and 90 days");
+        }
+      }
+
       // Generate invoice number
       const { data: invoiceNumber } = await supabase.rpc(
         "generate_invoice_number",
@@ -111,17 +152,33 @@ const Invoices = () => {
           merchant_id: session.user.id,
           client_name: clientName,
           client_email: clientEmail,
-          amount: parseFloat(amount),
+          amount: invoiceAmount,
+          currency,
           description: description,
           invoice_number: invoiceNumber,
           due_date: new Date(dueDate).toISOString(),
           status: "draft",
+          split_rules: splits,
+          escrow,
+          escrow_release_days: escrow ? days : null,
         })
         .select()
         .single();
 
       if (error) throw error;
 
+      if (escrow) {
+        const { error: milestonesError } = await supabase
+          .from("invoice_milestones")
+          .insert(toMilestoneRows(data.id, milestones, invoiceAmount));
+
+        if (milestonesError) {
+          // An escrow invoice without its milestones cannot be funded
+          await supabase.from("invoices").delete().eq("id", data.id);
+          throw milestonesError;
+        }
+      }
+
       toast({
         title: "Invoice created!",
         description: `Invoice ${invoiceNumber} has been created.`,
@@ -131,8 +188,13 @@ const Invoices = () => {
       setClientName("");
       setClientEmail("");
       setAmount("");
+      setCurrency("USD");
       setDescription("");
       setDueDate("");
+      setSplitRules([]);
+      setEscrow(false);
+      setMilestones([]);
+      setReleaseDays(String(DEFAULT_RELEASE_DAYS));
       setIsDialogOpen(false);
 
       // Refresh invoices
@@ -185,6 +247,7 @@ const Invoices = () => {
           merchantName: merchantProfile?.merchant_name || "Merchant",
           merchantEmail: merchantProfile?.email || "",
           amount: invoice.amount,
+          currency: invoice.currency,
           dueDate: invoice.due_date,
           description: invoice.description,
           paymentLink: paymentLink,
@@ -305,16 +368,24 @@ const Invoices = () => {
       draft: "bg-gray-100 text-gray-700",
       sent: "bg-blue-100 text-blue-700",
       viewed: "bg-yellow-100 text-yellow-700",
+      partially_paid: "bg-orange-100 text-orange-700",
       paid: "bg-green-100 text-green-700",
       overdue: "bg-red-100 text-red-700",
+      funded: "bg-purple-100 text-purple-700",
+      disputed: "bg-red-100 text-red-700",
+      resolved: "bg-gray-100 text-gray-700",
     };
 
     const icons = {
       draft: FileText,
       sent: Send,
       viewed: Eye,
+      partially_paid: CircleDollarSign,
       paid: CheckCircle2,
       overdue: Clock,
+      funded: Lock,
+      disputed: ShieldAlert,
+      resolved: CheckCircle2,
     };
 
     const Icon = icons[status as keyof typeof icons] || FileText;
@@ -322,7 +393,7 @@ const Invoices = () => {
     return (
       <Badge className={`${styles[status as keyof typeof styles] || styles.draft} text-xs`}>
         <Icon className="w-3 h-3 mr-1" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {status.charAt(0).toUpperCase() + status.slice(1).replace("_", " ")}
       </Badge>
     );
   };
@@ -390,19 +461,46 @@ const Invoices = () => {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="amount" className="text-sm">Amount (USD) *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="100.00"
-                    className="h-11"
-                    required
-                  />
+                <div className="grid grid-cols-[1fr_auto] gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="amount" className="text-sm">Amount *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="100.00"
+                      className="h-11"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Currency</Label>
+                    <Select
+                      value={currency}
+                      onValueChange={(value) => {
+                        setCurrency(value);
+                        // Escrow deposits are made in stablecoin amounts
+                        if (value !== "USD") setEscrow(false);
+                      }}
+                    >
+                      <SelectTrigger className="h-11 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+                {currency !== "USD" && (
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    Your client pays the equivalent in stablecoins at the exchange rate when they pay.
+                  </p>
+                )}
 
                 <div className="space-y-2">
                   <Label htmlFor="description" className="text-sm">Description</Label>
@@ -428,6 +526,28 @@ const Invoices = () => {
                   />
                 </div>
 
+                <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="escrow" className="text-sm">Milestone Escrow</Label>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Your client deposits the full amount up front; it is paid out milestone by milestone.
+                    </p>
+                  </div>
+                  <Switch id="escrow" checked={escrow} onCheckedChange={setEscrow} disabled={currency !== "USD"} />
+                </div>
+
+                {/* Escrow payouts go to the merchant wallet alone */}
+                {escrow ? (
+                  <MilestonesEditor
+                    milestones={milestones}
+                    onChange={setMilestones}
+                    releaseDays={releaseDays}
+                    onReleaseDaysChange={setReleaseDays}
+                  />
+                ) : (
+                  <SplitRulesEditor rules={splitRules} onChange={setSplitRules} />
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-3 pt-4">
                   <Button
                     type="button"
@@ -478,6 +598,17 @@ const Invoices = () => {
                         {invoice.invoice_number}
                       </h3>
                       {getStatusBadge(invoice.status)}
+                      {invoice.is_test && (
+                        <Badge variant="outline" className="border-amber-500 text-amber-600 text-xs">
+                          Test
+                        </Badge>
+                      )}
+                      {invoice.escrow && (
+                        <Badge variant="outline" className="text-xs">
+                          <Lock className="w-3 h-3 mr-1" />
+                          Escrow
+                        </Badge>
+                      )}
                     </div>
                     
                     <div className="space-y-1 mb-3">
@@ -507,8 +638,13 @@ const Invoices = () => {
                   {/* Right side - Amount and actions */}
                   <div className="flex sm:flex-col items-center sm:items-end justify-between sm:justify-start gap-3 sm:gap-4">
                     <p className="text-xl sm:text-2xl font-bold text-primary">
-                      ${invoice.amount.toFixed(2)}
+                      {formatMoney(invoice.amount, invoice.currency)}
                     </p>
+                    {invoice.status === "partially_paid" && (
+                      <p className="text-xs sm:text-sm text-orange-600">
+                        {formatMoney(invoice.amount_due, invoice.currency)} due
+                      </p>
+                    )}
                     
                     <div className="flex gap-2">
                       <Button
@@ -530,7 +666,7 @@ const Invoices = () => {
                           <span className="hidden sm:inline">Send</span>
                         </Button>
                       )}
-                      {(invoice.status === "sent" || invoice.status === "viewed" || invoice.status === "overdue") && (
+                      {["sent", "viewed", "overdue", "partially_paid"].includes(invoice.status) && (
                         <Button
                           size="sm"
                           variant="outline"
@@ -562,6 +698,17 @@ const Invoices = () => {
                     </div>
                   </div>
                 </div>
+
+                {invoice.escrow && invoice.milestones.length > 0 && (
+                  <div className="mt-4 pt-4 border-t">
+                    <EscrowMilestones
+                      invoice={invoice}
+                      milestones={invoice.milestones}
+                      role="merchant"
+                      onChanged={fetchInvoices}
+                    />
+                  </div>
+                )}
               </Card>
             ))}
           </div>
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,10 +15,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import SplitRulesEditor from "@/components/SplitRulesEditor";
 import { Plus, Pencil, Trash2, Search, Share2, Copy, Check } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { getErrorMessage } from "@/lib/errorHandler";
+import { SplitRuleError, fromSplitRuleDrafts, toSplitRuleDrafts, type SplitRuleDraft } from "@/lib/splits";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+import type { Json } from "@/integrations/supabase/types";
 import { z } from "zod";
 
 // Validation schema for product inputs
@@ -37,6 +42,7 @@ const productSchema = z.object({
     .positive("Price must be positive")
     .max(1000000, "Price too large")
     .multipleOf(0.01, "Price can have max 2 decimal places"),
+  currency: z.enum(CURRENCIES),
 });
 
 interface Product {
@@ -44,7 +50,10 @@ interface Product {
   name: string;
   description: string | null;
   price: number;
+  // Converted to stablecoin at checkout when not USD
+  currency: string;
   is_active: boolean;
+  split_rules: Json | null;
 }
 
 const Products = () => {
@@ -60,7 +69,9 @@ const Products = () => {
     name: "",
     description: "",
     price: "",
+    currency: "USD",
   });
+  const [splitRules, setSplitRules] = useState<SplitRuleDraft[]>([]);
 
   useEffect(() => {
     const checkAuthAndFetch = async () => {
@@ -114,6 +125,7 @@ const Products = () => {
         name: formData.name,
         description: formData.description || undefined,
         price: parseFloat(formData.price),
+        currency: formData.currency,
       });
 
       const productData = {
@@ -121,6 +133,8 @@ const Products = () => {
         name: validatedData.name,
         description: validatedData.description || null,
         price: validatedData.price,
+        currency: validatedData.currency,
+        split_rules: fromSplitRuleDrafts(splitRules),
       };
 
       if (editingId) {
@@ -152,7 +166,8 @@ const Products = () => {
         toast({ title: "Product added successfully" });
       }
 
-      setFormData({ name: "", description: "", price: "" });
+      setFormData({ name: "", description: "", price: "", currency: "USD" });
+      setSplitRules([]);
       setIsAdding(false);
       setEditingId(null);
       fetchProducts();
@@ -163,6 +178,12 @@ const Products = () => {
           description: error.errors[0].message,
           variant: "destructive",
         });
+      } else if (error instanceof SplitRuleError) {
+        toast({
+          title: "Invalid split",
+          description: error.message,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Error",
@@ -178,7 +199,9 @@ const Products = () => {
       name: product.name,
       description: product.description || "",
       price: product.price.toString(),
+      currency: product.currency,
     });
+    setSplitRules(toSplitRuleDrafts(product.split_rules));
     setEditingId(product.id);
     setIsAdding(true);
   };
@@ -219,7 +242,7 @@ const Products = () => {
   const handleShare = async (product: Product, platform: string) => {
     // Share your payment link with product pre-selected
     const productUrl = `https://ravgateway.com/pay/${userId}?product=${product.id}`;
-    const shareText = `Check out ${product.name} - $${product.price.toFixed(2)}`;
+    const shareText = `Check out ${product.name} - ${formatMoney(product.price, product.currency)}`;
     const fullText = product.description
       ? `${shareText}\n\n${product.description}`
       : shareText;
@@ -344,22 +367,46 @@ const Products = () => {
                     className="mt-1.5"
                   />
                 </div>
-                <div>
-                  <Label htmlFor="price" className="text-sm">Price (USD) *</Label>
-                  <Input
-                    id="price"
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max="1000000"
-                    value={formData.price}
-                    onChange={(e) =>
-                      setFormData({ ...formData, price: e.target.value })
-                    }
-                    required
-                    className="h-11 mt-1.5"
-                  />
+                <div className="grid grid-cols-[1fr_auto] gap-3">
+                  <div>
+                    <Label htmlFor="price" className="text-sm">Price *</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max="1000000"
+                      value={formData.price}
+                      onChange={(e) =>
+                        setFormData({ ...formData, price: e.target.value })
+                      }
+                      required
+                      className="h-11 mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-sm">Currency</Label>
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(currency) => setFormData({ ...formData, currency })}
+                    >
+                      <SelectTrigger className="h-11 mt-1.5 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+                {formData.currency !== "USD" && (
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    Customers pay the equivalent in stablecoins at the exchange rate when they check out.
+                  </p>
+                )}
+                <SplitRulesEditor rules={splitRules} onChange={setSplitRules} />
                 <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 pt-2">
                   <Button type="submit" className="h-11 w-full sm:w-auto">
                     {editingId ? "Update" : "Add"} Product
@@ -370,7 +417,8 @@ const Products = () => {
                     onClick={() => {
                       setIsAdding(false);
                       setEditingId(null);
-                      setFormData({ name: "", description: "", price: "" });
+                      setFormData({ name: "", description: "", price: "", currency: "USD" });
+                      setSplitRules([]);
                     }}
                     className="h-11 w-full sm:w-auto"
                   >
@@ -404,7 +452,7 @@ const Products = () => {
                           {product.name}
                         </h3>
                         <span className="text-xl sm:text-2xl font-bold text-primary">
-                          ${product.price.toFixed(2)}
+                          {formatMoney(product.price, product.currency)}
                         </span>
                       </div>
                       {product.description && (
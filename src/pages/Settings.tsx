@@ -5,12 +5,47 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
-import { Save, Upload, X, Sun, Moon, Monitor, Wallet, LogOut, CheckCircle2, AlertCircle } from "lucide-react";
+import { Save, Upload, X, Sun, Moon, Monitor, Wallet, LogOut, CheckCircle2, AlertCircle, PenLine, Clock, Mail } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { getErrorMessage } from "@/lib/errorHandler";
+import { TOKENS, acceptedTokens, enabledTokens, type AcceptedTokens, type Network } from "@/lib/tokens";
+import {
+  fetchMerchantWallets,
+  fetchWalletNames,
+  isWalletAddress,
+  type MerchantWalletNames,
+  type MerchantWallets,
+} from "@/lib/wallets";
+import { isWalletName, resolveWalletName } from "@/lib/names";
+import { isWalletLoginEmail } from "@/lib/walletLogin";
+import {
+  cancelWalletChange,
+  fetchOpenWalletChanges,
+  fetchVerifiedNetworks,
+  proveWalletOwnership,
+  type WalletChange,
+} from "@/lib/ownership";
+
+const TOKEN_NETWORKS: { id: Network; name: string }[] = [
+  { id: "base", name: "Base" },
+  { id: "celo", name: "Celo" },
+  { id: "solana", name: "Solana" },
+];
+
+// Every enabled token, used until the merchant saves a choice
+const allTokens = (): AcceptedTokens =>
+  Object.fromEntries(
+    (Object.keys(TOKENS) as Network[]).map((network) => [network, enabledTokens(network).map((token) => token.symbol)])
+  );
+
+// EVM wallets can also be given as an ENS name or Basename
+const isWalletInput = (network: Network, value: string) =>
+  isWalletAddress(network, value) || (network !== "solana" && isWalletName(value));
 
 const Settings = () => {
   const navigate = useNavigate();
@@ -20,14 +55,20 @@ const Settings = () => {
   const [userId, setUserId] = useState<string>("");
   const [merchantName, setMerchantName] = useState("");
   const [email, setEmail] = useState("");
-  const [walletAddress, setWalletAddress] = useState("");
-  const [originalWalletAddress, setOriginalWalletAddress] = useState(""); // Track original value
-  const [walletValid, setWalletValid] = useState<boolean | null>(null); // null = not validated yet
+  const [wallets, setWallets] = useState<MerchantWallets>({});
+  const [originalWallets, setOriginalWallets] = useState<MerchantWallets>({}); // Track saved values
+  const [walletNames, setWalletNames] = useState<MerchantWalletNames>({});
+  // Wallets proven with a signature, and changes waiting on email or cooling-off
+  const [verifiedNetworks, setVerifiedNetworks] = useState<Network[]>([]);
+  const [walletChanges, setWalletChanges] = useState<Partial<Record<Network, WalletChange>>>({});
+  const [walletBusy, setWalletBusy] = useState<Network | null>(null);
   
   // Preferences state
   const [defaultChain, setDefaultChain] = useState("base");
   const [defaultStablecoin, setDefaultStablecoin] = useState("usdc");
   const [theme, setTheme] = useState("system");
+  const [tokenChoice, setTokenChoice] = useState<AcceptedTokens>(allTokens);
+  const [gaslessBilling, setGaslessBilling] = useState(false);
   
   // Logo state
   const [logoUrl, setLogoUrl] = useState("");
@@ -43,18 +84,6 @@ const Settings = () => {
     loadSettings();
   }, []);
 
-  // Real-time wallet validation
-  useEffect(() => {
-    if (walletAddress === "") {
-      setWalletValid(null);
-      return;
-    }
-
-    // Validate Ethereum address format (0x + 40 hex characters)
-    const isValid = /^0x[a-fA-F0-9]{40}$/.test(walletAddress);
-    setWalletValid(isValid);
-  }, [walletAddress]);
-
   const loadSettings = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -70,7 +99,8 @@ const Settings = () => {
       }
 
       setUserId(session.user.id);
-      setEmail(session.user.email || "");
+      // Wallet sign-in accounts have a placeholder address
+      setEmail(isWalletLoginEmail(session.user.email) ? "" : session.user.email || "");
 
       // Load profile data
       const { data: profile, error } = await supabase
@@ -83,14 +113,22 @@ const Settings = () => {
 
       if (profile) {
         setMerchantName(profile.merchant_name || "");
-        setWalletAddress(profile.wallet_address || "");
-        setOriginalWalletAddress(profile.wallet_address || ""); // Store original
         setDefaultChain(profile.default_chain || "base");
         setDefaultStablecoin(profile.default_stablecoin || "usdc");
         setTheme(profile.theme || "system");
+        const saved = profile.accepted_tokens as AcceptedTokens | null;
+        setTokenChoice(Object.fromEntries(
+          (Object.keys(TOKENS) as Network[]).map((network) => [
+            network,
+            acceptedTokens(network, saved).map((token) => token.symbol),
+          ])
+        ));
+        setGaslessBilling(profile.gasless_billing ?? false);
         setLogoUrl(profile.logo_url || "");
         setLogoPreview(profile.logo_url || "");
       }
+
+      await loadWallets(session.user.id);
     } catch (error: any) {
       toast({
         title: "Failed to load settings",
@@ -102,6 +140,25 @@ const Settings = () => {
     }
   };
 
+  const loadWallets = async (merchantId = userId) => {
+    // Named wallets are edited by their name
+    const [saved, names, verified, changes] = await Promise.all([
+      fetchMerchantWallets(merchantId),
+      fetchWalletNames(merchantId),
+      fetchVerifiedNetworks(merchantId),
+      fetchOpenWalletChanges(merchantId),
+    ]);
+    const inputs: MerchantWallets = {
+      ...saved,
+      ...Object.fromEntries(Object.entries(names).map(([network, named]) => [network, named.name])),
+    };
+    setWallets(inputs);
+    setOriginalWallets(inputs);
+    setWalletNames(names);
+    setVerifiedNetworks(verified);
+    setWalletChanges(changes);
+  };
+
   const handleLogoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -192,12 +249,21 @@ const Settings = () => {
     setLogoPreview(logoUrl);
   };
 
+  // Re-resolves the merchant's names server-side, which is what lets
+  // payers see them, then reloads the results
+  const refreshWalletNames = async () => {
+    const { error } = await supabase.functions.invoke("check-wallet-names");
+    if (error) {
+      console.error("Wallet name check failed:", error);
+    }
+    setWalletNames(await fetchWalletNames(userId));
+  };
+
   const handleSaveSettings = async () => {
-    // Validate wallet address
-    if (walletAddress && !walletValid) {
+    if (Object.values(tokenChoice).every((symbols) => !symbols?.length)) {
       toast({
-        title: "Invalid wallet address",
-        description: "Please enter a valid Ethereum address (0x...)",
+        title: "No tokens accepted",
+        description: "Accept at least one token so customers can pay you",
         variant: "destructive",
       });
       return;
@@ -209,18 +275,16 @@ const Settings = () => {
         .from("profiles")
         .update({
           merchant_name: merchantName,
-          wallet_address: walletAddress,
           default_chain: defaultChain,
           default_stablecoin: defaultStablecoin,
+          accepted_tokens: tokenChoice,
+          gasless_billing: gaslessBilling,
           theme: theme,
         })
         .eq("id", userId);
 
       if (error) throw error;
 
-      // Update original wallet address after successful save
-      setOriginalWalletAddress(walletAddress);
-
       // Apply theme
       applyTheme(theme);
 
@@ -239,6 +303,16 @@ const Settings = () => {
     }
   };
 
+  const toggleToken = (network: Network, symbol: string, checked: boolean) => {
+    setTokenChoice((current) => {
+      const symbols = current[network] || [];
+      return {
+        ...current,
+        [network]: checked ? [...symbols, symbol] : symbols.filter((s) => s !== symbol),
+      };
+    });
+  };
+
   const applyTheme = (selectedTheme: string) => {
     const root = window.document.documentElement;
     
@@ -255,8 +329,86 @@ const Settings = () => {
     navigate("/auth");
   };
 
-  // Check if wallet has unsaved changes
-  const walletHasChanges = walletAddress !== originalWalletAddress;
+  // Signs for `address` (by default the wallet in the field) with the
+  // browser wallet. It takes effect right away for a new account or when
+  // re-verifying the active wallet; a replacement waits for the email
+  // confirmation and the cooling-off period.
+  const handleProveWallet = async (network: Network, address = wallets[network] || "") => {
+    const name = isWalletName(address) ? address : null;
+
+    setWalletBusy(network);
+    try {
+      const resolved = isWalletName(address) ? await resolveWalletName(address) : address;
+      if (!resolved) {
+        throw new Error(`${address} does not point to a wallet address`);
+      }
+
+      const change = await proveWalletOwnership(network, resolved, name);
+      await loadWallets();
+      if (change.status === "active" && change.name) {
+        await refreshWalletNames();
+      }
+
+      toast(change.status === "active"
+        ? { title: "Wallet verified", description: "Payments on this network go to the wallet you signed with" }
+        : { title: "Check your email", description: "Confirm the new wallet from the link we sent you. Payments keep going to your current wallet until then." });
+    } catch (error) {
+      toast({
+        title: "Wallet not verified",
+        description: error instanceof Error ? error.message : getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setWalletBusy(null);
+    }
+  };
+
+  const handleCancelChange = async (network: Network) => {
+    const change = walletChanges[network];
+    if (!change) return;
+
+    setWalletBusy(network);
+    try {
+      await cancelWalletChange(change.id);
+      await loadWallets();
+      toast({ title: "Wallet change canceled", description: "Payments keep going to your current wallet" });
+    } catch (error) {
+      toast({
+        title: "Failed to cancel",
+        description: error instanceof Error ? error.message : getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setWalletBusy(null);
+    }
+  };
+
+  // Removing a wallet needs no proof: it cannot redirect payments
+  const handleRemoveWallet = async (network: Network) => {
+    setWalletBusy(network);
+    try {
+      const { error } = await supabase
+        .from("merchant_wallets")
+        .delete()
+        .eq("merchant_id", userId)
+        .eq("network", network);
+
+      if (error) throw error;
+      await loadWallets();
+      toast({ title: "Wallet removed", description: "You no longer accept payments on this network" });
+    } catch (error) {
+      toast({
+        title: "Failed to remove wallet",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setWalletBusy(null);
+    }
+  };
+
+  const setWallet = (network: Network, address: string) =>
+    setWallets((current) => ({ ...current, [network]: address.trim() }));
 
   if (loading) {
     return (
@@ -350,80 +502,180 @@ const Settings = () => {
                   <Input
                     id="email"
                     value={email}
+                    placeholder="Signed in with a wallet"
                     disabled
                     className="h-11 mt-1.5 bg-muted"
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Contact support to change your email
+                    {email
+                      ? "Contact support to change your email"
+                      : "Contact support to add an email; replacing a receiving wallet needs one"}
                   </p>
                 </div>
 
-                {/* Wallet Address with Real-time Validation */}
-                <div>
-                  <Label htmlFor="walletAddress" className="text-sm">
-                    <Wallet className="w-4 h-4 inline mr-1" />
-                    Wallet Address
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="walletAddress"
-                      value={walletAddress}
-                      onChange={(e) => setWalletAddress(e.target.value)}
-                      placeholder="0x..."
-                      className={`h-11 mt-1.5 font-mono text-sm pr-10 ${
-                        walletValid === true ? 'border-green-500 focus-visible:ring-green-500' : 
-                        walletValid === false ? 'border-red-500 focus-visible:ring-red-500' : ''
-                      }`}
-                    />
-                    {/* Real-time validation indicator */}
-                    {walletAddress && (
-                      <div className="absolute right-3 top-1/2 transform -translate-y-1/2 mt-0.75">
-                        {walletValid ? (
-                          <CheckCircle2 className="w-5 h-5 text-green-600" />
-                        ) : (
-                          <AlertCircle className="w-5 h-5 text-red-600" />
+              </div>
+            </Card>
+
+            {/* Receiving Wallets */}
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold mb-1">
+                <Wallet className="w-5 h-5 inline mr-2" />
+                Receiving Wallets
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Customers paying on a network send funds to its wallet. You sign a message with each wallet to prove it is yours; replacing a wallet also needs a confirmation from your email and takes effect after a cooling-off period.
+              </p>
+
+              <div className="space-y-4">
+                {TOKEN_NETWORKS.map((network) => {
+                  const address = wallets[network.id] || "";
+                  const valid = address ? isWalletInput(network.id, address) : null;
+                  const hasChanges = address !== (originalWallets[network.id] || "");
+                  const named = !hasChanges ? walletNames[network.id] : undefined;
+                  const saved = Boolean(originalWallets[network.id]);
+                  const verified = verifiedNetworks.includes(network.id);
+                  const change = walletChanges[network.id];
+                  const busy = walletBusy === network.id;
+
+                  return (
+                    <div key={network.id}>
+                      <Label htmlFor={`wallet-${network.id}`} className="text-sm">
+                        {network.name} Wallet Address
+                      </Label>
+                      <div className="relative">
+                        <Input
+                          id={`wallet-${network.id}`}
+                          value={address}
+                          onChange={(e) => setWallet(network.id, e.target.value)}
+                          placeholder={network.id === "solana" ? "Base58 address" : "0x... or name.eth"}
+                          className={`h-11 mt-1.5 font-mono text-sm pr-10 ${
+                            valid === true ? 'border-green-500 focus-visible:ring-green-500' :
+                            valid === false ? 'border-red-500 focus-visible:ring-red-500' : ''
+                          }`}
+                        />
+                        {/* Real-time validation indicator */}
+                        {address && (
+                          <div className="absolute right-3 top-1/2 transform -translate-y-1/2 mt-0.75">
+                            {valid ? (
+                              <CheckCircle2 className="w-5 h-5 text-green-600" />
+                            ) : (
+                              <AlertCircle className="w-5 h-5 text-red-600" />
+                            )}
+                          </div>
                         )}
                       </div>
-                    )}
-                  </div>
-                  
-                  {/* Status messages */}
-                  {walletAddress && (
-                    <div className="mt-2 space-y-1">
-                      {walletValid ? (
-                        <p className="text-xs text-green-600 flex items-center gap-1">
-                          <CheckCircle2 className="w-3 h-3" />
-                          Valid Ethereum address
-                        </p>
-                      ) : (
-                        <p className="text-xs text-red-600 flex items-center gap-1">
+
+                      {address && !valid && (
+                        <p className="text-xs text-red-600 flex items-center gap-1 mt-2">
                           <AlertCircle className="w-3 h-3" />
-                          Invalid format. Must be 0x followed by 40 hex characters
+                          {network.id === "solana"
+                            ? "Invalid format. Must be a base58 Solana wallet address"
+                            : "Invalid format. Must be 0x followed by 40 hex characters, or a name ending in .eth"}
                         </p>
                       )}
-                      
-                      {/* Unsaved changes indicator */}
-                      {walletHasChanges && walletValid && (
-                        <p className="text-xs text-orange-600 flex items-center gap-1">
-                          <AlertCircle className="w-3 h-3" />
-                          You have unsaved changes
+
+                      {/* Saved ENS name / Basename: where it resolved and whether it still does */}
+                      {named && (named.mismatched ? (
+                        <div className="text-xs text-red-600 mt-2 space-y-2">
+                          <p className="flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            {named.resolvedAddress
+                              ? `${named.name} now points to ${named.resolvedAddress.slice(0, 8)}...${named.resolvedAddress.slice(-6)}.`
+                              : `${named.name} no longer points to a wallet.`}
+                            {" "}Payments still go to {named.address.slice(0, 8)}...{named.address.slice(-6)} and payers no longer see the name.
+                          </p>
+                          {named.resolvedAddress && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleProveWallet(network.id, named.name)}
+                              disabled={busy}
+                            >
+                              Use the new address
+                            </Button>
+                          )}
+                        </div>
+                      ) : named.verified ? (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-2 font-mono">
+                          <CheckCircle2 className="w-3 h-3 text-green-600" />
+                          {named.resolvedAddress}
                         </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Checking where {named.name} points...
+                        </p>
+                      ))}
+
+                      {/* Ownership: signed, or still to be signed */}
+                      {saved && !hasChanges && (verified ? (
+                        <p className="text-xs text-green-600 flex items-center gap-1 mt-2">
+                          <CheckCircle2 className="w-3 h-3" />
+                          Ownership verified
+                        </p>
+                      ) : (
+                        <div className="flex items-center gap-2 mt-2">
+                          <p className="text-xs text-orange-600 flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            Not verified. Sign with this wallet to prove it is yours.
+                          </p>
+                          <Button size="sm" variant="outline" onClick={() => handleProveWallet(network.id)} disabled={busy}>
+                            <PenLine className="w-3 h-3 mr-1" />
+                            Verify
+                          </Button>
+                        </div>
+                      ))}
+
+                      {/* Edited wallet: sign to save it, or remove it */}
+                      {hasChanges && (address ? valid && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <Button size="sm" onClick={() => handleProveWallet(network.id)} disabled={busy}>
+                            <PenLine className="w-3 h-3 mr-1" />
+                            {busy ? "Waiting for signature..." : "Sign & save"}
+                          </Button>
+                          <p className="text-xs text-muted-foreground">
+                            {saved ? "Replacing a wallet needs an email confirmation" : "Sign with this wallet to prove it is yours"}
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2 mt-2">
+                          <Button size="sm" variant="outline" onClick={() => handleRemoveWallet(network.id)} disabled={busy}>
+                            Remove wallet
+                          </Button>
+                          <p className="text-xs text-orange-600">Stops payments on this network</p>
+                        </div>
+                      ))}
+
+                      {/* Replacement waiting on the email or the cooling-off period */}
+                      {change && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            {change.status === "awaiting_email" ? (
+                              <>
+                                <Mail className="w-3 h-3" />
+                                Confirm the switch to {change.address.slice(0, 8)}...{change.address.slice(-6)} from the link in your email
+                              </>
+                            ) : (
+                              <>
+                                <Clock className="w-3 h-3" />
+                                Switches to {change.address.slice(0, 8)}...{change.address.slice(-6)} on{" "}
+                                {new Date(change.active_at!).toLocaleString()}
+                              </>
+                            )}
+                          </p>
+                          <Button size="sm" variant="ghost" onClick={() => handleCancelChange(network.id)} disabled={busy}>
+                            Cancel
+                          </Button>
+                        </div>
                       )}
-                      
-                      {!walletHasChanges && walletValid && originalWalletAddress && (
-                        <p className="text-xs text-muted-foreground">
-                          Customers send payments to this address
+
+                      {!address && !hasChanges && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Not accepting payments on {network.name}
                         </p>
                       )}
                     </div>
-                  )}
-                  
-                  {!walletAddress && (
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Enter your Ethereum wallet address to receive payments
-                    </p>
-                  )}
-                </div>
+                  );
+                })}
               </div>
             </Card>
 
@@ -442,7 +694,7 @@ const Settings = () => {
                     <SelectContent>
                       <SelectItem value="base">Base</SelectItem>
                       <SelectItem value="celo">Celo</SelectItem>
-                      <SelectItem value="solana">Solana (Coming Soon)</SelectItem>
+                      <SelectItem value="solana">Solana</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground mt-1">
@@ -459,7 +711,7 @@ const Settings = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="usdc">USDC</SelectItem>
-                      {/*<SelectItem value="usdt">USDT</SelectItem>*/}
+                      <SelectItem value="usdt">USDT</SelectItem>
                       <SelectItem value="cusd">cUSD (Celo only)</SelectItem>
                     </SelectContent>
                   </Select>
@@ -467,6 +719,43 @@ const Settings = () => {
                     Pre-selected stablecoin for payments
                   </p>
                 </div>
+
+                {/* Accepted Tokens */}
+                <div>
+                  <Label className="text-sm">Accepted Tokens</Label>
+                  <div className="mt-1.5 space-y-3">
+                    {TOKEN_NETWORKS.map((network) => (
+                      <div key={network.id} className="flex items-center justify-between gap-3">
+                        <span className="text-sm text-muted-foreground">{network.name}</span>
+                        <div className="flex flex-wrap gap-4">
+                          {enabledTokens(network.id).map((token) => (
+                            <label key={token.symbol} className="flex items-center gap-2 text-sm cursor-pointer">
+                              <Checkbox
+                                checked={tokenChoice[network.id]?.includes(token.symbol) ?? false}
+                                onCheckedChange={(checked) => toggleToken(network.id, token.symbol, checked === true)}
+                              />
+                              {token.symbol}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Customers can only pay you in the tokens you tick
+                  </p>
+                </div>
+
+                {/* Gasless payments */}
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <Label htmlFor="gaslessBilling" className="text-sm">Cover gas for gasless payments</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Customers paying USDC without gas have the relayer's gas cost billed to you
+                    </p>
+                  </div>
+                  <Switch id="gaslessBilling" checked={gaslessBilling} onCheckedChange={setGaslessBilling} />
+                </div>
               </div>
             </Card>
 
@@ -508,7 +797,7 @@ const Settings = () => {
             {/* Save Button */}
             <Button
               onClick={handleSaveSettings}
-              disabled={saving || (walletAddress && !walletValid)}
+              disabled={saving}
               className="w-full h-12 text-base"
             >
               {saving ? (
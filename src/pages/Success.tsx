@@ -2,15 +2,27 @@ import { useEffect, useState } from "react";
 import { useLocation, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { CheckCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { networkName, txExplorerUrl } from "@/lib/networks";
+
+interface PaymentStatus {
+  status: "pending" | "confirming" | "confirmed" | "failed" | "dropped";
+  confirmations: number;
+  required_confirmations: number | null;
+}
+
+const POLL_INTERVAL_MS = 5000;
 
 const Success = () => {
   const location = useLocation();
   const [animate, setAnimate] = useState(false);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null);
   
-  const { amount, reference, txHash, network } = location.state || {};
+  const { amount, reference, txHash, network, isTest } = location.state || {};
 
 
   useEffect(() => {
@@ -18,15 +30,36 @@ const Success = () => {
     setTimeout(() => setAnimate(true), 100);
   }, []);
 
-// MAINNET explorer links
-const explorerLinks = {
-  celo: "https://explorer.celo.org/mainnet/tx/",     // Celo mainnet
-  base: "https://basescan.org/tx/",                  // Base mainnet
-  ethereum: "https://etherscan.io/tx/",              // Ethereum mainnet
-  polygon: "https://polygonscan.com/tx/",            // Polygon mainnet
-  avalanche: "https://snowtrace.io/tx/",             // Avalanche mainnet
-};
+  // Follow the payment until it reaches the network's confirmation threshold
+  useEffect(() => {
+    if (!txHash) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
 
+    const poll = async () => {
+      const { data } = await supabase.functions.invoke("payment-status", {
+        body: { txHash },
+      });
+      if (cancelled) return;
+
+      if (data?.status) setPaymentStatus(data);
+      if (!data?.status || data.status === "pending" || data.status === "confirming") {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [txHash]);
+
+  const required = paymentStatus?.required_confirmations || 0;
+  const confirmations = Math.min(paymentStatus?.confirmations || 0, required);
+  const isFinal = !paymentStatus || paymentStatus.status === "confirmed";
+  const isLost = paymentStatus?.status === "failed" || paymentStatus?.status === "dropped";
 
   return (
     <div className="min-h-screen flex flex-col bg-muted/20">
@@ -69,7 +102,7 @@ const explorerLinks = {
                   <div className="border-t pt-3">
                     <p className="text-xs text-muted-foreground mb-1">Blockchain Transaction</p>
                     <a 
-                      href={`${explorerLinks[network] || explorerLinks.celo}${txHash}`}
+                      href={txExplorerUrl(network, txHash, isTest) ?? undefined}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="font-mono text-xs text-primary hover:underline break-all"
@@ -82,16 +115,31 @@ const explorerLinks = {
                   <div className="border-t pt-3">
                     <p className="text-xs text-muted-foreground mb-1">Network</p>
                     <p className="text-sm font-medium capitalize text-foreground">
-                      {network}
+                      {networkName(network, isTest)}
                     </p>
                 </div>
 
                 <div className="border-t pt-3">
                   <p className="text-xs text-muted-foreground mb-1">Status</p>
-                  <div className="inline-flex items-center gap-2 bg-green-100 text-green-700 px-3 py-1 rounded-full text-sm font-medium">
-                    <div className="w-2 h-2 bg-green-600 rounded-full"></div>
-                    Confirmed
-                  </div>
+                  {isFinal ? (
+                    <div className="inline-flex items-center gap-2 bg-green-100 text-green-700 px-3 py-1 rounded-full text-sm font-medium">
+                      <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+                      Confirmed
+                    </div>
+                  ) : isLost ? (
+                    <div className="inline-flex items-center gap-2 bg-red-100 text-red-700 px-3 py-1 rounded-full text-sm font-medium">
+                      <div className="w-2 h-2 bg-red-600 rounded-full"></div>
+                      {paymentStatus.status === "dropped" ? "Dropped by the network" : "Failed"}
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="inline-flex items-center gap-2 bg-yellow-100 text-yellow-700 px-3 py-1 rounded-full text-sm font-medium">
+                        <div className="w-2 h-2 bg-yellow-600 rounded-full animate-pulse"></div>
+                        {required ? `Confirming (${confirmations}/${required})` : "Waiting for the block"}
+                      </div>
+                      {required > 0 && <Progress value={(confirmations / required) * 100} className="h-2" />}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,23 @@
+import type { PublicKey, Transaction } from "@solana/web3.js";
+
+// Phantom-style injected wallet (Phantom, Solflare, Backpack)
+export interface SolanaWalletProvider {
+  isPhantom?: boolean;
+  publicKey: PublicKey | null;
+  connect: () => Promise<{ publicKey: PublicKey }>;
+  disconnect: () => Promise<void>;
+  signAndSendTransaction: (transaction: Transaction) => Promise<{ signature: string }>;
+  // Used to prove wallet ownership; not every wallet supports it
+  signMessage?: (message: Uint8Array, display?: "utf8" | "hex") => Promise<{ signature: Uint8Array }>;
+}
+
+declare global {
+  interface Window {
+    solana?: SolanaWalletProvider;
+    phantom?: {
+      solana?: SolanaWalletProvider;
+    };
+  }
+}
+
+export {};
@@ -0,0 +1,216 @@
+// Confirmation tracking for recorded payments.
+// pending -> confirming (n/N) -> confirmed, or failed/dropped when the
+// transaction reverts or a reorg removes it before reaching N blocks.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { chainFor, getBlockNumber, getTransactionReceipt } from './evm.ts'
+import { getSignatureStatus, getSlot, solanaFor } from './solana.ts'
+
+export const TRACKED_COLUMNS =
+  'id, network, tx_hash, amount, status, block_number, block_hash, confirmations, required_confirmations, invoice_id, refund_of, milestone_id, split_amount, fiat_amount, is_test'
+
+export interface TrackedTransaction {
+  id: string
+  network: string
+  tx_hash: string
+  amount: number
+  status: string
+  block_number: number | null
+  block_hash: string | null
+  confirmations: number
+  required_confirmations: number | null
+  invoice_id: string | null
+  // The credit a refund (debit) pays back
+  refund_of: string | null
+  // The escrow milestone a payout released
+  milestone_id: string | null
+  // Paid to split recipients in the same transaction; counted towards the invoice
+  split_amount: number
+  // What the payment counted for on its invoice, in the invoice's currency
+  fiat_amount: number | null
+  is_test: boolean
+}
+
+export interface ConfirmationState {
+  status: 'confirming' | 'confirmed'
+  confirmations: number
+  required_confirmations: number
+}
+
+export const countConfirmations = (head: number, blockNumber: number) =>
+  Math.max(0, head - blockNumber + 1)
+
+/**
+ * Confirmation columns for a payment that was just verified in `blockNumber`.
+ * `isTest` reads the sandbox (testnet) chain.
+ */
+export async function initialConfirmationState(
+  network: string,
+  blockNumber: number,
+  isTest = false,
+): Promise<ConfirmationState> {
+  if (network === 'solana') {
+    // Solana reports finality directly: confirmed once the slot is rooted
+    const solana = solanaFor(isTest)
+    const [head, finalized] = await Promise.all([
+      getSlot(solana.rpcUrl, 'confirmed'),
+      getSlot(solana.rpcUrl, 'finalized'),
+    ])
+    return {
+      status: finalized >= blockNumber ? 'confirmed' : 'confirming',
+      confirmations: Math.min(countConfirmations(head, blockNumber), solana.confirmations),
+      required_confirmations: solana.confirmations,
+    }
+  }
+
+  const chain = chainFor(network, isTest)!
+  const head = await getBlockNumber(chain.rpcUrl)
+  const confirmations = countConfirmations(head, blockNumber)
+
+  return {
+    status: confirmations >= chain.confirmations ? 'confirmed' : 'confirming',
+    confirmations,
+    required_confirmations: chain.confirmations,
+  }
+}
+
+/**
+ * A payment whose transaction was later dropped is taken off its invoice,
+ * which goes back to being partially paid or payable (see the
+ * revert_invoice_payment function).
+ */
+export async function reopenInvoice(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  txHash: string,
+  amount: number,
+) {
+  const { error } = await supabase.rpc('revert_invoice_payment', {
+    p_invoice_id: invoiceId,
+    p_amount: amount,
+    p_tx_hash: txHash,
+  })
+
+  if (error) throw error
+}
+
+/**
+ * A refund whose transaction was later dropped no longer counts against
+ * the credit it refunded (see the revert_refund function).
+ */
+export async function revertRefund(supabase: SupabaseClient, creditId: string, amount: number) {
+  const { error } = await supabase.rpc('revert_refund', {
+    p_transaction_id: creditId,
+    p_amount: amount,
+  })
+
+  if (error) throw error
+}
+
+/**
+ * An escrow payout whose transaction was later dropped puts its milestone
+ * back in escrow (see the revert_escrow_release function).
+ */
+export async function revertEscrowRelease(supabase: SupabaseClient, milestoneId: string) {
+  const { error } = await supabase.rpc('revert_escrow_release', { p_milestone_id: milestoneId })
+
+  if (error) throw error
+}
+
+/**
+ * Re-reads the receipt of a confirming transaction and moves it along its
+ * lifecycle. Pass `head` when refreshing many transactions of one network.
+ */
+export async function refreshConfirmations(
+  supabase: SupabaseClient,
+  tx: TrackedTransaction,
+  head?: number,
+): Promise<TrackedTransaction> {
+  if (tx.network === 'solana') return refreshSolanaConfirmations(supabase, tx)
+
+  const chain = chainFor(tx.network, tx.is_test)
+  if (!chain || tx.status !== 'confirming') return tx
+
+  const receipt = await getTransactionReceipt(chain.rpcUrl, tx.tx_hash)
+  const required = tx.required_confirmations ?? chain.confirmations
+
+  let update: Partial<TrackedTransaction>
+  if (!receipt) {
+    // Reorged out before reaching the threshold
+    update = { status: 'dropped', confirmations: 0 }
+  } else if (BigInt(receipt.status) !== 1n) {
+    // Re-included in a different block, but reverted there
+    update = { status: 'failed', confirmations: 0 }
+  } else {
+    const blockNumber = Number(receipt.blockNumber)
+    const confirmations = countConfirmations(head ?? await getBlockNumber(chain.rpcUrl), blockNumber)
+    update = {
+      status: confirmations >= required ? 'confirmed' : 'confirming',
+      confirmations,
+      required_confirmations: required,
+      block_number: blockNumber,
+      block_hash: receipt.blockHash,
+    }
+  }
+
+  return applyConfirmationUpdate(supabase, tx, update)
+}
+
+/** Same lifecycle for Solana, read from the signature status instead of a receipt. */
+async function refreshSolanaConfirmations(
+  supabase: SupabaseClient,
+  tx: TrackedTransaction,
+): Promise<TrackedTransaction> {
+  if (tx.status !== 'confirming') return tx
+
+  const solana = solanaFor(tx.is_test)
+  const status = await getSignatureStatus(solana.rpcUrl, tx.tx_hash)
+  const required = tx.required_confirmations ?? solana.confirmations
+
+  let update: Partial<TrackedTransaction>
+  if (!status) {
+    // The fork holding the transaction was abandoned
+    update = { status: 'dropped', confirmations: 0 }
+  } else if (status.err) {
+    update = { status: 'failed', confirmations: 0 }
+  } else {
+    const finalized = status.confirmationStatus === 'finalized'
+    update = {
+      status: finalized ? 'confirmed' : 'confirming',
+      confirmations: finalized ? required : Math.min(status.confirmations ?? 0, required),
+      required_confirmations: required,
+      block_number: status.slot,
+    }
+  }
+
+  return applyConfirmationUpdate(supabase, tx, update)
+}
+
+async function applyConfirmationUpdate(
+  supabase: SupabaseClient,
+  tx: TrackedTransaction,
+  update: Partial<TrackedTransaction>,
+): Promise<TrackedTransaction> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .update(update)
+    .eq('id', tx.id)
+    .eq('status', 'confirming')
+    .select(TRACKED_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return tx
+
+  if (data.status === 'dropped' || data.status === 'failed') {
+    if (data.refund_of) {
+      await revertRefund(supabase, data.refund_of, data.amount)
+    } else if (data.milestone_id) {
+      await revertEscrowRelease(supabase, data.milestone_id)
+    } else if (data.invoice_id) {
+      const credited = data.fiat_amount ?? Number(data.amount) + Number(data.split_amount)
+      await reopenInvoice(supabase, data.invoice_id, data.tx_hash, Number(credited))
+    }
+  }
+
+  return data as TrackedTransaction
+}
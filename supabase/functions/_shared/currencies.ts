@@ -0,0 +1,30 @@
+// Fiat currencies products and invoices can be priced in. Every supported
+// stablecoin is USD-pegged, so USD prices are paid one to one and other
+// currencies are converted when the payment intent is created, at a rate
+// locked for the intent's lifetime (see rates.ts).
+// Plain data with no runtime-specific imports, like networks.ts.
+
+export const BASE_CURRENCY = 'USD'
+
+// Every currency but USD is quoted by the provider in rates.ts
+export const CURRENCIES = ['USD', 'EUR', 'NGN', 'KES'] as const
+
+export type Currency = typeof CURRENCIES[number]
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value)
+
+// Stablecoin amounts are kept to the smallest USDC unit, so converting a
+// price and back lands on the same cent
+const STABLECOIN_PRECISION = 1e6
+
+/**
+ * Stablecoin (USD) amount for `amount` of a currency quoted at `rate`
+ * units per USD, rounded up so the merchant never receives less.
+ */
+export const toStablecoin = (amount: number, rate: number) =>
+  Math.ceil((amount / rate) * STABLECOIN_PRECISION - 1e-6) / STABLECOIN_PRECISION
+
+/** What a stablecoin amount is worth in the currency at `rate`, to the cent. */
+export const toCurrency = (stablecoinAmount: number, rate: number) =>
+  Math.round(stablecoinAmount * rate * 100) / 100
@@ -0,0 +1,29 @@
+// Account emails to merchants (security notices and the like), sent
+// straight through Resend like send-receipt-email. Invoice and payment
+// emails still go through their own functions.
+
+export interface AccountEmail {
+  to: string
+  subject: string
+  html: string
+}
+
+export async function sendAccountEmail(email: AccountEmail) {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  if (!resendApiKey) {
+    throw new Error('RESEND_API_KEY not configured')
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${resendApiKey}`,
+    },
+    body: JSON.stringify({ from: 'RAV Payments <security@yourdomain.com>', ...email }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Resend failed with HTTP ${response.status}: ${await response.text()}`)
+  }
+}
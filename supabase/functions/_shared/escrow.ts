@@ -0,0 +1,629 @@
+// Milestone escrow for invoices (contracts/RavEscrow.sol). The client funds
+// an escrow invoice in full up front; the merchant marks milestones complete
+// and each one is released to the merchant by the client or, once the
+// invoice's release window has passed, by the relayer. A dispute by either
+// party freezes what is left until the arbiter resolves it.
+//
+// The contract holds the truth. Its events are applied here by sync-escrow,
+// right after a party's transaction, and by chain-watcher on every run;
+// whichever sees an event second finds it already applied.
+//
+// Sending autoRelease needs a transaction signer, so like relayer.ts this
+// module uses ethers.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { Contract } from 'https://esm.sh/ethers@6.15.0'
+import {
+  SANDBOX_SHARES_NETWORKS,
+  VerificationError,
+  chainFor,
+  formatUnits,
+  getContractLogs,
+  getTransactionReceipt,
+  parseUnits,
+  sameAddress,
+  type ChainConfig,
+  type RpcLog,
+  type TokenConfig,
+} from './evm.ts'
+import { initialConfirmationState } from './confirmations.ts'
+import { acceptedTokens, findToken } from './payments.ts'
+import { relayerWallet } from './relayer.ts'
+import { INVOICE_COLUMNS, type InvoiceRecord } from './settlement.ts'
+
+// keccak256 of each RavEscrow event signature
+export const ESCROW_TOPICS = {
+  // Funded(bytes32,bytes32,address,address,address,uint256[],uint64)
+  funded: '0xcfc219fe5c687707fe0ec16cf0f6170bfd1e06aa53ab744902ed84e59d2038ed',
+  // MilestoneCompleted(bytes32,uint256)
+  completed: '0x5cb7c5e9b0dca26a49521f1bc1cd37a5a32bd1c4b7fc5f07df3ff850020b47b1',
+  // MilestoneReleased(bytes32,uint256,uint256,bool)
+  released: '0x5cf814ada10da786d03743efe52c76507ee70cafea7b569189da119b8271393e',
+  // Disputed(bytes32,address)
+  disputed: '0x0ba174eb1c3530da63920b98261208eeb30b48447d1cfcbbdf116fd4ee8c62db',
+  // Resolved(bytes32,uint256,uint256)
+  resolved: '0x3d54c4a194e33c023d1ba76f7b608825bde138804d8718e94bed18de2871d793',
+}
+
+const ESCROW_ABI = ['function autoRelease(bytes32 id, uint256 index)']
+
+// Escrow invoices are funded instead of paid, from the same statuses
+export const FUNDABLE_INVOICE_STATUSES = ['sent', 'viewed', 'overdue']
+
+export const ESCROW_INVOICE_COLUMNS =
+  `${INVOICE_COLUMNS}, escrow, escrow_release_days, escrow_id, escrow_contract, escrow_client_address, escrow_merchant_address`
+
+export interface EscrowInvoice extends InvoiceRecord {
+  escrow: boolean
+  escrow_release_days: number | null
+  // Set once the deposit has been seen
+  escrow_id: string | null
+  escrow_contract: string | null
+  escrow_client_address: string | null
+  escrow_merchant_address: string | null
+}
+
+export const MILESTONE_COLUMNS =
+  'id, invoice_id, position, title, amount, status, completed_at, released_at, release_tx_hash, auto_released'
+
+export interface MilestoneRecord {
+  id: string
+  invoice_id: string
+  // Index of the milestone in the contract
+  position: number
+  title: string
+  amount: number
+  status: 'pending' | 'completed' | 'released' | 'resolved'
+  completed_at: string | null
+  released_at: string | null
+  release_tx_hash: string | null
+  auto_released: boolean
+}
+
+// What the client's fund() call must carry for the deposit to count
+export interface EscrowTerms {
+  contract: string
+  ref: string
+  token: TokenConfig
+  merchant: string
+  // Base units per milestone, in position order
+  amounts: bigint[]
+  // Seconds after completion before anyone may release a milestone
+  releaseAfter: number
+}
+
+interface EscrowLogMeta {
+  contract: string
+  id: string
+  txHash: string
+  blockNumber: number
+  blockHash: string
+}
+
+export type EscrowEvent = EscrowLogMeta & (
+  | {
+    kind: 'funded'
+    ref: string
+    client: string
+    merchant: string
+    token: string
+    amounts: bigint[]
+    releaseAfter: number
+  }
+  | { kind: 'completed'; index: number }
+  | { kind: 'released'; index: number; amount: bigint; automatic: boolean }
+  | { kind: 'disputed'; by: string }
+  | { kind: 'resolved'; toMerchant: bigint; toClient: bigint }
+)
+
+type EventOf<K extends EscrowEvent['kind']> = Extract<EscrowEvent, { kind: K }>
+
+/** The contract's reference for an invoice: its UUID as bytes32. */
+export const escrowRef = (invoiceId: string) => `0x${invoiceId.replace(/-/g, '').padStart(64, '0')}`
+
+// Null for references that are not an invoice UUID
+const refToInvoiceId = (ref: string) => {
+  const hex = ref.replace(/^0x/, '').toLowerCase()
+  if (!/^0{32}[0-9a-f]{32}$/.test(hex)) return null
+  const id = hex.slice(32)
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`
+}
+
+const words = (data: string): string[] => data.replace(/^0x/, '').match(/.{64}/g) ?? []
+const toUint = (word: string) => BigInt(`0x${word}`)
+const toAddress = (word: string) => `0x${word.slice(24)}`.toLowerCase()
+
+/** Decodes a RavEscrow log; null for any other event. */
+export function decodeEscrowLog(log: RpcLog): EscrowEvent | null {
+  if (log.topics.length < 2) return null
+
+  const meta: EscrowLogMeta = {
+    contract: log.address.toLowerCase(),
+    id: log.topics[1].toLowerCase(),
+    txHash: log.transactionHash.toLowerCase(),
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+  }
+  const data = words(log.data)
+
+  switch (log.topics[0].toLowerCase()) {
+    case ESCROW_TOPICS.funded: {
+      // amounts is dynamic: its head word is the byte offset of its length
+      const offset = Number(toUint(data[3])) / 32
+      const count = Number(toUint(data[offset]))
+      return {
+        ...meta,
+        kind: 'funded',
+        ref: log.topics[2].toLowerCase(),
+        client: toAddress(data[0]),
+        merchant: toAddress(data[1]),
+        token: toAddress(data[2]),
+        amounts: data.slice(offset + 1, offset + 1 + count).map(toUint),
+        releaseAfter: Number(toUint(data[4])),
+      }
+    }
+    case ESCROW_TOPICS.completed:
+      return { ...meta, kind: 'completed', index: Number(toUint(data[0])) }
+    case ESCROW_TOPICS.released:
+      return {
+        ...meta,
+        kind: 'released',
+        index: Number(toUint(data[0])),
+        amount: toUint(data[1]),
+        automatic: toUint(data[2]) === 1n,
+      }
+    case ESCROW_TOPICS.disputed:
+      return { ...meta, kind: 'disputed', by: toAddress(data[0]) }
+    case ESCROW_TOPICS.resolved:
+      return { ...meta, kind: 'resolved', toMerchant: toUint(data[0]), toClient: toUint(data[1]) }
+    default:
+      return null
+  }
+}
+
+/** Every escrow event on a chain in a block range. */
+export const getEscrowLogs = (chain: ChainConfig, fromBlock: number, toBlock: number) =>
+  getContractLogs(chain.rpcUrl, {
+    address: chain.escrow!,
+    topics: Object.values(ESCROW_TOPICS),
+    fromBlock,
+    toBlock,
+  })
+
+export async function loadMilestones(supabase: SupabaseClient, invoiceId: string) {
+  const { data, error } = await supabase
+    .from('invoice_milestones')
+    .select(MILESTONE_COLUMNS)
+    .eq('invoice_id', invoiceId)
+    .order('position', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as MilestoneRecord[]
+}
+
+/**
+ * The deposit an escrow invoice asks for on `network`, in the merchant's
+ * preferred token unless `token` (symbol or address) names another one
+ * they accept.
+ */
+export async function escrowTerms(
+  supabase: SupabaseClient,
+  invoice: EscrowInvoice,
+  network: string,
+  token?: string,
+): Promise<EscrowTerms> {
+  const chain = chainFor(network, invoice.is_test)
+  if (!chain?.escrow) {
+    throw new VerificationError(`Escrow is not available on ${network}`)
+  }
+
+  const { data: merchant, error: merchantError } = await supabase
+    .from('profiles')
+    .select('accepted_tokens')
+    .eq('id', invoice.merchant_id)
+    .maybeSingle()
+
+  const { data: wallet } = await supabase
+    .from('merchant_wallets')
+    .select('address')
+    .eq('merchant_id', invoice.merchant_id)
+    .eq('network', network)
+    .maybeSingle()
+
+  if (merchantError || !merchant || !wallet) {
+    throw new VerificationError(`Merchant is not configured to receive payments on ${network}`)
+  }
+
+  const accepted = acceptedTokens(network, merchant.accepted_tokens, invoice.is_test)
+  const requested = token ? findToken(network, token, invoice.is_test) : accepted[0]
+  const selected = accepted.find((candidate) => candidate.symbol === requested?.symbol)
+  if (!selected) {
+    throw new VerificationError(
+      token ? `Merchant does not accept ${token} on ${network}` : `Merchant does not accept payments on ${network}`
+    )
+  }
+
+  const milestones = await loadMilestones(supabase, invoice.id)
+  if (milestones.length === 0) {
+    throw new VerificationError('Invoice has no milestones')
+  }
+
+  return {
+    contract: chain.escrow.toLowerCase(),
+    ref: escrowRef(invoice.id),
+    token: selected,
+    merchant: wallet.address.toLowerCase(),
+    amounts: milestones.map((milestone) => parseUnits(Number(milestone.amount), selected.decimals)),
+    releaseAfter: invoice.escrow_release_days! * 24 * 60 * 60,
+  }
+}
+
+async function loadEscrowInvoice(supabase: SupabaseClient, event: EscrowEvent) {
+  let query = supabase.from('invoices').select(ESCROW_INVOICE_COLUMNS).eq('escrow', true)
+
+  if (event.kind === 'funded') {
+    const invoiceId = refToInvoiceId(event.ref)
+    if (!invoiceId) return null
+    query = query.eq('id', invoiceId)
+  } else {
+    query = query.eq('escrow_id', event.id).eq('escrow_contract', event.contract)
+  }
+
+  const { data, error } = await query.maybeSingle()
+  if (error) throw error
+  return data as EscrowInvoice | null
+}
+
+type EscrowEmailStatus =
+  | 'escrow_funded'
+  | 'milestone_completed'
+  | 'milestone_released'
+  | 'escrow_disputed'
+  | 'escrow_resolved'
+
+/** Escrow emails go out like the payment emails: best-effort, after the change is saved. */
+async function notifyEscrow(
+  supabase: SupabaseClient,
+  invoice: InvoiceRecord,
+  status: EscrowEmailStatus,
+  details: Record<string, unknown> = {},
+) {
+  const { data: merchant } = await supabase
+    .from('profiles')
+    .select('merchant_name, email')
+    .eq('id', invoice.merchant_id)
+    .maybeSingle()
+
+  const { error } = await supabase.functions.invoke('send-invoice-email', {
+    body: {
+      invoiceNumber: invoice.invoice_number,
+      clientName: invoice.client_name,
+      clientEmail: invoice.client_email,
+      merchantName: merchant?.merchant_name || 'Merchant',
+      merchantEmail: merchant?.email || '',
+      amount: invoice.amount,
+      amountPaid: invoice.amount_paid,
+      dueDate: invoice.due_date,
+      description: invoice.description,
+      paymentLink: `${Deno.env.get('APP_URL') || 'https://www.ravgateway.com'}/invoice/${invoice.id}`,
+      status,
+      network: invoice.network,
+      token: invoice.token,
+      ...details,
+    },
+  })
+
+  if (error) {
+    console.error('Escrow email failed:', error)
+  }
+}
+
+const milestoneDetails = (milestone: MilestoneRecord) => ({
+  milestone: { title: milestone.title, amount: milestone.amount, number: milestone.position + 1 },
+})
+
+async function fundEscrow(
+  supabase: SupabaseClient,
+  network: string,
+  invoice: EscrowInvoice,
+  event: EventOf<'funded'>,
+) {
+  if (invoice.escrow_id || !FUNDABLE_INVOICE_STATUSES.includes(invoice.status)) return false
+
+  // Anyone can fund any reference; only a deposit on the invoice's terms counts
+  let terms: EscrowTerms
+  try {
+    terms = await escrowTerms(supabase, invoice, network, event.token)
+  } catch (error) {
+    if (!(error instanceof VerificationError)) throw error
+    console.warn(`Ignoring escrow deposit ${event.txHash} for ${invoice.invoice_number}:`, error.message)
+    return false
+  }
+
+  const matches = sameAddress(event.contract, terms.contract) &&
+    sameAddress(event.merchant, terms.merchant) &&
+    sameAddress(event.token, terms.token.address) &&
+    event.releaseAfter === terms.releaseAfter &&
+    event.amounts.length === terms.amounts.length &&
+    event.amounts.every((amount, index) => amount === terms.amounts[index])
+
+  if (!matches) {
+    console.warn(`Ignoring escrow deposit ${event.txHash} for ${invoice.invoice_number}: terms differ`)
+    return false
+  }
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({
+      status: 'funded',
+      escrow_id: event.id,
+      escrow_contract: event.contract,
+      escrow_client_address: event.client,
+      escrow_merchant_address: event.merchant,
+      escrow_fund_tx_hash: event.txHash,
+      escrow_funded_at: new Date().toISOString(),
+      network,
+      token: terms.token.symbol,
+    })
+    .eq('id', invoice.id)
+    .is('escrow_id', null)
+    .in('status', FUNDABLE_INVOICE_STATUSES)
+    .select(ESCROW_INVOICE_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return false
+
+  await notifyEscrow(supabase, data as EscrowInvoice, 'escrow_funded')
+  return true
+}
+
+async function completeMilestone(supabase: SupabaseClient, invoice: EscrowInvoice, event: EventOf<'completed'>) {
+  const { data, error } = await supabase
+    .from('invoice_milestones')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('invoice_id', invoice.id)
+    .eq('position', event.index)
+    .eq('status', 'pending')
+    .select(MILESTONE_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return false
+
+  await notifyEscrow(supabase, invoice, 'milestone_completed', {
+    ...milestoneDetails(data as MilestoneRecord),
+    releaseDays: invoice.escrow_release_days,
+  })
+  return true
+}
+
+// A payout from escrow is recorded as a credit to the merchant, like any
+// payment towards the invoice, so it counts as revenue once confirmed
+async function recordPayout(
+  supabase: SupabaseClient,
+  network: string,
+  invoice: EscrowInvoice,
+  event: EscrowLogMeta,
+  amount: number,
+  reference: string,
+  milestoneId: string | null,
+) {
+  const { error } = await supabase.from('transactions').insert({
+    merchant_id: invoice.merchant_id,
+    invoice_id: invoice.id,
+    milestone_id: milestoneId,
+    amount,
+    transaction_type: 'credit',
+    customer_name: invoice.client_name || invoice.client_email,
+    reference_id: `${invoice.invoice_number}-${reference}`,
+    network,
+    token: invoice.token,
+    tx_hash: event.txHash,
+    block_number: event.blockNumber,
+    block_hash: event.blockHash,
+    from_address: event.contract,
+    to_address: invoice.escrow_merchant_address,
+    is_test: invoice.is_test,
+    ...await initialConfirmationState(network, event.blockNumber, invoice.is_test),
+  })
+
+  // 23505: this payout was recorded concurrently
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
+
+async function releaseMilestone(
+  supabase: SupabaseClient,
+  network: string,
+  invoice: EscrowInvoice,
+  event: EventOf<'released'>,
+) {
+  const { data: milestone, error: milestoneError } = await supabase
+    .from('invoice_milestones')
+    .select(MILESTONE_COLUMNS)
+    .eq('invoice_id', invoice.id)
+    .eq('position', event.index)
+    .maybeSingle()
+
+  if (milestoneError) throw milestoneError
+  if (!milestone || milestone.status === 'released') return false
+
+  const token = findToken(network, invoice.token!, invoice.is_test)!
+  const amount = Number(formatUnits(event.amount, token.decimals))
+  if (!await recordPayout(supabase, network, invoice, event, amount, `M${event.index + 1}`, milestone.id)) {
+    return false
+  }
+
+  const { data: settled, error } = await supabase
+    .rpc('release_escrow_milestone', {
+      p_milestone_id: milestone.id,
+      p_tx_hash: event.txHash,
+      p_automatic: event.automatic,
+    })
+    .maybeSingle()
+
+  if (error) throw error
+  if (!settled) return false
+
+  await notifyEscrow(supabase, settled as EscrowInvoice, 'milestone_released', {
+    ...milestoneDetails(milestone as MilestoneRecord),
+    autoReleased: event.automatic,
+    txHash: event.txHash,
+  })
+  return true
+}
+
+async function disputeEscrow(supabase: SupabaseClient, invoice: EscrowInvoice, event: EventOf<'disputed'>) {
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({ status: 'disputed' })
+    .eq('id', invoice.id)
+    .eq('status', 'funded')
+    .select(ESCROW_INVOICE_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return false
+
+  await notifyEscrow(supabase, data as EscrowInvoice, 'escrow_disputed', {
+    disputedBy: sameAddress(event.by, invoice.escrow_client_address ?? '') ? 'client' : 'merchant',
+  })
+  return true
+}
+
+async function resolveEscrow(
+  supabase: SupabaseClient,
+  network: string,
+  invoice: EscrowInvoice,
+  event: EventOf<'resolved'>,
+) {
+  if (invoice.status !== 'disputed') return false
+
+  const token = findToken(network, invoice.token!, invoice.is_test)!
+  const toMerchant = Number(formatUnits(event.toMerchant, token.decimals))
+  if (toMerchant > 0 && !await recordPayout(supabase, network, invoice, event, toMerchant, 'R', null)) {
+    return false
+  }
+
+  const { data: settled, error } = await supabase
+    .rpc('resolve_escrow', { p_invoice_id: invoice.id, p_to_merchant: toMerchant })
+    .maybeSingle()
+
+  if (error) throw error
+  if (!settled) return false
+
+  await notifyEscrow(supabase, settled as EscrowInvoice, 'escrow_resolved', {
+    toMerchant,
+    toClient: Number(formatUnits(event.toClient, token.decimals)),
+    txHash: event.txHash,
+  })
+  return true
+}
+
+/**
+ * Applies one escrow event to its invoice. False when the event was already
+ * applied, or belongs to no escrow invoice of this mode.
+ */
+export async function applyEscrowEvent(
+  supabase: SupabaseClient,
+  network: string,
+  isTest: boolean,
+  event: EscrowEvent,
+) {
+  const invoice = await loadEscrowInvoice(supabase, event)
+
+  // On a testnet deployment live and sandbox escrows share chains
+  if (!invoice || (!SANDBOX_SHARES_NETWORKS && invoice.is_test !== isTest)) return false
+
+  switch (event.kind) {
+    case 'funded':
+      return fundEscrow(supabase, network, invoice, event)
+    case 'completed':
+      return completeMilestone(supabase, invoice, event)
+    case 'released':
+      return releaseMilestone(supabase, network, invoice, event)
+    case 'disputed':
+      return disputeEscrow(supabase, invoice, event)
+    case 'resolved':
+      return resolveEscrow(supabase, network, invoice, event)
+  }
+}
+
+/** Applies a chain's escrow logs in order; returns how many changed an invoice. */
+export async function applyEscrowLogs(supabase: SupabaseClient, network: string, isTest: boolean, logs: RpcLog[]) {
+  let applied = 0
+  for (const log of logs) {
+    const event = decodeEscrowLog(log)
+    if (event && await applyEscrowEvent(supabase, network, isTest, event)) applied++
+  }
+  return applied
+}
+
+/**
+ * Applies the escrow events of one mined transaction, for the pages that
+ * just sent it. Throws a VerificationError when it is not mined or failed.
+ */
+export async function applyEscrowTransaction(
+  supabase: SupabaseClient,
+  network: string,
+  isTest: boolean,
+  txHash: string,
+) {
+  const chain = chainFor(network, isTest)
+  if (!chain?.escrow) {
+    throw new VerificationError(`Escrow is not available on ${network}`)
+  }
+
+  const receipt = await getTransactionReceipt(chain.rpcUrl, txHash)
+  if (!receipt) {
+    throw new VerificationError('Transaction not found or not yet mined', 404)
+  }
+  if (BigInt(receipt.status) !== 1n) {
+    throw new VerificationError('Transaction failed on chain')
+  }
+
+  const logs = receipt.logs.filter((log) => sameAddress(log.address, chain.escrow!))
+  return applyEscrowLogs(supabase, network, isTest, logs)
+}
+
+interface DueMilestoneRow extends MilestoneRecord {
+  invoice: EscrowInvoice
+}
+
+/**
+ * Releases every completed milestone whose release window has passed, from
+ * the relayer wallet. The contract checks the window against its own
+ * clock, so each call is simulated first. Skipped without a relayer key.
+ */
+export async function releaseDueMilestones(supabase: SupabaseClient) {
+  if (!Deno.env.get('RELAYER_PRIVATE_KEY')) return 0
+
+  const { data, error } = await supabase
+    .from('invoice_milestones')
+    .select(`${MILESTONE_COLUMNS}, invoice:invoices!inner(${ESCROW_INVOICE_COLUMNS})`)
+    .eq('status', 'completed')
+    .eq('invoice.status', 'funded')
+
+  if (error) throw error
+
+  let released = 0
+  for (const row of (data || []) as unknown as DueMilestoneRow[]) {
+    const { invoice } = row
+    const due = new Date(row.completed_at!).getTime() + invoice.escrow_release_days! * 24 * 60 * 60 * 1000
+    const chain = chainFor(invoice.network!, invoice.is_test)
+    if (Date.now() < due || !chain || !invoice.escrow_contract) continue
+
+    // One stuck milestone must not hold up the others
+    try {
+      const contract = new Contract(invoice.escrow_contract, ESCROW_ABI, relayerWallet(chain))
+      await contract.autoRelease.staticCall(invoice.escrow_id, row.position)
+      const tx = await contract.autoRelease(invoice.escrow_id, row.position)
+      await tx.wait()
+      released += await applyEscrowTransaction(supabase, invoice.network!, invoice.is_test, tx.hash.toLowerCase())
+    } catch (error) {
+      console.warn(`Auto-release of ${invoice.invoice_number} milestone ${row.position + 1} failed:`, error)
+    }
+  }
+  return released
+}
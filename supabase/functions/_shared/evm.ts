@@ -0,0 +1,256 @@
+// Server-side EVM helpers shared by the edge functions.
+// Talks to the chain over plain JSON-RPC so the same code runs against
+// public RPC endpoints and a local node such as anvil.
+import { resolveNetworks, type NetworkConfig, type TokenConfig } from './networks.ts'
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+export type { TokenConfig }
+export { isEvmAddress } from './networks.ts'
+
+// ChainConfig is an EVM entry of the network profile
+export type ChainConfig = NetworkConfig
+
+// The network profile comes from NETWORK_PROFILE (mainnet when unset),
+// with the per-network overrides described in networks.ts, e.g.
+// RPC_URL_BASE=http://127.0.0.1:8545 for anvil.
+export const NETWORK_PROFILE = Deno.env.get('NETWORK_PROFILE') || 'mainnet'
+
+const resolveProfile = (profile: string) => resolveNetworks(profile, NETWORK_PROFILE, Deno.env.toObject())
+
+/** Every network of the deployment's profile, Solana included. */
+export const NETWORKS = resolveProfile(NETWORK_PROFILE)
+
+// Sandbox (is_test) records always run on testnets, whatever the deployment
+export const TEST_NETWORKS = resolveProfile('testnet')
+
+// True when sandbox and live payments share the same chains (staging)
+export const SANDBOX_SHARES_NETWORKS = NETWORK_PROFILE === 'testnet'
+
+export const networksForMode = (isTest = false) => isTest ? TEST_NETWORKS : NETWORKS
+
+export const CHAINS: Record<string, ChainConfig> = Object.fromEntries(
+  Object.entries(NETWORKS).filter(([, config]) => config.kind === 'evm'),
+)
+
+export const TEST_CHAINS: Record<string, ChainConfig> = Object.fromEntries(
+  Object.entries(TEST_NETWORKS).filter(([, config]) => config.kind === 'evm'),
+)
+
+/** EVM chain of a live or sandbox record, undefined for Solana or unknown networks. */
+export const chainFor = (network: string, isTest = false): ChainConfig | undefined =>
+  (isTest ? TEST_CHAINS : CHAINS)[network]
+
+export interface RpcLog {
+  address: string
+  topics: string[]
+  data: string
+  logIndex: string
+  blockNumber: string
+  blockHash: string
+  transactionHash: string
+}
+
+export interface RpcReceipt {
+  status: string
+  blockNumber: string
+  blockHash: string
+  transactionHash: string
+  from: string
+  to: string | null
+  logs: RpcLog[]
+}
+
+export interface TokenTransfer {
+  token: string
+  from: string
+  to: string
+  value: bigint
+  logIndex: number
+}
+
+export interface VerifiedTransfer extends TokenTransfer {
+  txHash: string
+  blockNumber: number
+  blockHash: string
+}
+
+/**
+ * Raised when a transaction does not prove the payment it claims to.
+ * `status` is the HTTP status the edge function should answer with.
+ */
+export class VerificationError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'VerificationError'
+    this.status = status
+  }
+}
+
+export const isTxHash = (value: string) => /^0x[0-9a-fA-F]{64}$/.test(value)
+
+export const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+export async function rpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`RPC ${method} failed with HTTP ${response.status}`)
+  }
+
+  const body = await response.json()
+  if (body.error) {
+    throw new Error(`RPC ${method} failed: ${body.error.message}`)
+  }
+
+  return body.result as T
+}
+
+export const getTransactionReceipt = (rpcUrl: string, txHash: string) =>
+  rpc<RpcReceipt | null>(rpcUrl, 'eth_getTransactionReceipt', [txHash])
+
+export const getBlockNumber = async (rpcUrl: string) =>
+  Number(await rpc<string>(rpcUrl, 'eth_blockNumber', []))
+
+const toHex = (value: number) => `0x${value.toString(16)}`
+
+/** Left-pads an address to a 32-byte log topic. */
+export const addressToTopic = (address: string) =>
+  `0x${address.toLowerCase().replace(/^0x/, '').padStart(64, '0')}`
+
+interface TransferLogFilter {
+  tokens: string[]
+  recipients: string[]
+  fromBlock: number
+  toBlock: number
+}
+
+/** Fetches ERC-20 Transfer logs for any of `tokens` sent to any of `recipients`. */
+export const getTransferLogs = (rpcUrl: string, { tokens, recipients, fromBlock, toBlock }: TransferLogFilter) =>
+  rpc<RpcLog[]>(rpcUrl, 'eth_getLogs', [{
+    address: tokens,
+    topics: [TRANSFER_TOPIC, null, recipients.map(addressToTopic)],
+    fromBlock: toHex(fromBlock),
+    toBlock: toHex(toBlock),
+  }])
+
+interface ContractLogFilter {
+  address: string
+  // Event signatures to match; any of them
+  topics: string[]
+  fromBlock: number
+  toBlock: number
+}
+
+/** Fetches the events `address` emitted with any of `topics`. */
+export const getContractLogs = (rpcUrl: string, { address, topics, fromBlock, toBlock }: ContractLogFilter) =>
+  rpc<RpcLog[]>(rpcUrl, 'eth_getLogs', [{
+    address,
+    topics: [topics],
+    fromBlock: toHex(fromBlock),
+    toBlock: toHex(toBlock),
+  }])
+
+/**
+ * Converts a decimal amount (e.g. "12.5") to base units. Digits beyond the
+ * token's precision are truncated rather than rounded up.
+ */
+export function parseUnits(amount: number | string, decimals: number): bigint {
+  const [whole, fraction = ''] = String(amount).split('.')
+  if (!/^\d+$/.test(whole) || !/^\d*$/.test(fraction)) {
+    throw new Error(`Invalid amount: ${amount}`)
+  }
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, '0')
+  return BigInt(whole + paddedFraction)
+}
+
+export function formatUnits(value: bigint, decimals: number): string {
+  const digits = value.toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : whole
+}
+
+const topicToAddress = (topic: string) => `0x${topic.slice(26)}`.toLowerCase()
+
+/**
+ * Decodes every ERC-20 Transfer log in a receipt, optionally limited to one
+ * token contract.
+ */
+export function decodeTransfers(logs: RpcLog[], tokenAddress?: string): TokenTransfer[] {
+  return logs
+    .filter((log) => log.topics.length === 3 && log.topics[0].toLowerCase() === TRANSFER_TOPIC)
+    .filter((log) => !tokenAddress || sameAddress(log.address, tokenAddress))
+    .map((log) => ({
+      token: log.address.toLowerCase(),
+      from: topicToAddress(log.topics[1]),
+      to: topicToAddress(log.topics[2]),
+      value: BigInt(log.data),
+      logIndex: Number(log.logIndex),
+    }))
+}
+
+interface VerifyTransferParams {
+  network: string
+  txHash: string
+  recipient: string
+  token: TokenConfig
+  minAmount: bigint
+  // Sandbox payments are verified on the testnet profile
+  isTest?: boolean
+}
+
+/**
+ * Fetches the receipt for `txHash` and checks that it succeeded and moved at
+ * least `minAmount` of `token` to `recipient`.
+ */
+export async function verifyTransfer({
+  network,
+  txHash,
+  recipient,
+  token,
+  minAmount,
+  isTest,
+}: VerifyTransferParams): Promise<VerifiedTransfer> {
+  const chain = chainFor(network, isTest)
+  if (!chain) {
+    throw new VerificationError(`Unsupported network: ${network}`)
+  }
+
+  const receipt = await getTransactionReceipt(chain.rpcUrl, txHash)
+  if (!receipt) {
+    throw new VerificationError('Transaction not found or not yet mined', 404)
+  }
+
+  if (BigInt(receipt.status) !== 1n) {
+    throw new VerificationError('Transaction failed on chain')
+  }
+
+  const transfer = decodeTransfers(receipt.logs, token.address)
+    .find((t) => sameAddress(t.to, recipient))
+
+  if (!transfer) {
+    throw new VerificationError(`No ${token.symbol} transfer to the merchant wallet in this transaction`)
+  }
+
+  if (transfer.value < minAmount) {
+    throw new VerificationError(
+      `Transferred ${formatUnits(transfer.value, token.decimals)} ${token.symbol}, ` +
+      `expected ${formatUnits(minAmount, token.decimals)}`
+    )
+  }
+
+  return {
+    ...transfer,
+    txHash: receipt.transactionHash,
+    blockNumber: Number(receipt.blockNumber),
+    blockHash: receipt.blockHash,
+  }
+}
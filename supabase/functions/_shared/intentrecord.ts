@@ -0,0 +1,295 @@
+// Payment intent rows and how a new one is priced and inserted, shared by
+// create-payment-intent (through intents.ts) and POST /api/v1/payment_intents.
+// No runtime-specific imports, like networks.ts: callers pass their Supabase
+// client, their environment (Deno.env.toObject() or process.env) and the
+// networks of the intent's mode.
+import {
+  acceptedTokensOf,
+  isRecipientAddress,
+  isSolana,
+  normalizeAddress,
+  type NetworkConfig,
+  type TokenConfig,
+} from './networks.ts'
+import { toStablecoin } from './currencies.ts'
+import { RateError, quoteRate, rateLockMinutes, type RateQuote } from './rates.ts'
+import { SplitRuleError, parseSplitRules, resolveSplits, type SplitLeg } from './splits.ts'
+import { createSolanaReference } from './uris.ts'
+
+type Env = Record<string, string | undefined>
+
+// The caller's Supabase client. Deno loads it from esm.sh and Node from npm,
+// and their generic query builders are too deep to compare structurally, so
+// the client is taken as is and the queries made here are typed by Query.
+interface Client {
+  from(table: string): unknown
+}
+
+interface Result {
+  data: unknown
+  error: unknown
+}
+
+interface Filter extends PromiseLike<Result> {
+  eq(column: string, value: unknown): Filter
+  in(column: string, values: unknown[]): Filter
+  maybeSingle(): PromiseLike<Result>
+  single(): PromiseLike<Result>
+}
+
+interface Query {
+  from(table: string): {
+    select(columns: string): Filter
+    insert(values: Record<string, unknown>): { select(columns: string): Filter }
+  }
+}
+
+type Rows<T> = { data: T | null; error: unknown }
+
+const MAX_AMOUNT = 1000000
+
+export const INTENT_COLUMNS =
+  'id, merchant_id, product_id, invoice_id, quantity, amount, token, token_address, network, recipient_address, customer_email, status, tx_hash, expires_at, is_test, solana_reference, splits, splitter_address, currency, fiat_amount, exchange_rate, rate_source, rate_quoted_at'
+
+export interface PaymentIntentRecord {
+  id: string
+  merchant_id: string
+  product_id: string | null
+  invoice_id: string | null
+  quantity: number
+  amount: number
+  token: string
+  token_address: string
+  network: string
+  recipient_address: string
+  customer_email: string | null
+  status: 'requires_payment' | 'processing' | 'succeeded' | 'expired' | 'canceled'
+  tx_hash: string | null
+  expires_at: string
+  // Sandbox intent, paid on the testnet profile
+  is_test: boolean
+  // Solana Pay reference key (Solana intents only), see uris.ts
+  solana_reference: string | null
+  // Other wallets paid in the same transaction, see splits.ts. The
+  // recipient gets `amount` minus the legs.
+  splits: SplitLeg[]
+  // RavSplitter the payer calls for EVM intents with splits
+  splitter_address: string | null
+  // The price in the currency it was set in, and the locked quote that
+  // converted it to `amount`; see currencies.ts
+  currency: string
+  fiat_amount: number | null
+  exchange_rate: number
+  rate_source: string | null
+  rate_quoted_at: string | null
+}
+
+// What createIntent returns: the record plus the fields only its creator shows
+export interface CreatedIntent extends PaymentIntentRecord {
+  description: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+}
+
+export interface IntentParams {
+  merchantId: string
+  network: string
+  // In `currency`; converted to the stablecoin amount at a locked rate
+  amount: number
+  // Currency of the product or invoice; USD when unset
+  currency?: string | null
+  // Symbol; defaults to the first token the merchant accepts on the network
+  token?: string | null
+  productId?: string | null
+  invoiceId?: string | null
+  quantity?: number
+  description?: string | null
+  customerEmail?: string | null
+  metadata?: Record<string, unknown> | null
+  isTest?: boolean
+  // split_rules of the product or invoice being paid
+  splitRules?: unknown
+  // PAYMENT_INTENT_TTL_MINUTES (30) when unset; a converted price is only
+  // held as long as its quote
+  expiresInMinutes?: number
+}
+
+export interface IntentRuntime {
+  // Live or sandbox networks, matching params.isTest
+  networks: Record<string, NetworkConfig>
+  env: Env
+}
+
+/**
+ * Raised when an intent cannot be created as asked. `status` is the HTTP
+ * status to answer with; `field` names the request field at fault.
+ */
+export class IntentError extends Error {
+  status: number
+  field?: string
+
+  constructor(message: string, status = 400, field?: string) {
+    super(message)
+    this.name = 'IntentError'
+    this.status = status
+    this.field = field
+  }
+}
+
+/**
+ * Creates an intent paying `amount` of an accepted token to the merchant's
+ * current wallet. Callers are responsible for pricing; prices in another
+ * currency are converted here, and the intent expires with its quote.
+ */
+export async function createIntent(client: Client, params: IntentParams, { networks, env }: IntentRuntime) {
+  const supabase = client as Query
+  const network = networks[params.network]
+  if (!network) {
+    throw new IntentError(`Unsupported network. Use one of: ${Object.keys(networks).join(', ')}`, 400, 'network')
+  }
+
+  // The stablecoin amount to pay
+  const quote = await quoteIntentRate(params.currency || 'USD', env)
+  const amount = toStablecoin(params.amount, quote.rate)
+
+  if (!(amount > 0)) {
+    throw new IntentError('Invalid amount', 400, 'amount')
+  }
+  if (amount > MAX_AMOUNT) {
+    throw new IntentError('Amount too large', 400, 'amount')
+  }
+
+  const { data: merchant, error: merchantError } = await supabase
+    .from('profiles')
+    .select('accepted_tokens')
+    .eq('id', params.merchantId)
+    .maybeSingle() as Rows<{ accepted_tokens: Record<string, string[]> | null }>
+
+  // The merchant's receiving wallet on this network
+  const { data: wallet } = await supabase
+    .from('merchant_wallets')
+    .select('address')
+    .eq('merchant_id', params.merchantId)
+    .eq('network', params.network)
+    .maybeSingle() as Rows<{ address: string }>
+
+  const recipient = wallet?.address
+  if (merchantError || !merchant || !recipient || !isRecipientAddress(params.network, recipient)) {
+    throw new IntentError(
+      `Merchant is not configured to receive payments on ${params.network}: set a wallet address in Settings`,
+      400,
+      'network',
+    )
+  }
+
+  const accepted = acceptedTokensOf(network.tokens, params.network, merchant.accepted_tokens)
+  const token = params.token
+    ? accepted.find((candidate) => candidate.symbol.toLowerCase() === params.token!.toLowerCase())
+    : accepted[0]
+
+  if (!token) {
+    throw new IntentError(
+      params.token
+        ? `Merchant does not accept ${params.token} on ${params.network}. Accepted: ${accepted.map((t) => t.symbol).join(', ') || 'none'}`
+        : `Merchant does not accept payments on ${params.network}`,
+      400,
+      'token',
+    )
+  }
+
+  // Split legs are fixed now; the merchant's wallet receives the rest. EVM
+  // split payments go through the RavSplitter contract.
+  const splits = await resolveIntentSplits(supabase, params, amount, recipient, token)
+  const splitter = splits.length > 0 && !isSolana(params.network) ? network.splitter : null
+  if (splits.length > 0 && !isSolana(params.network) && !splitter) {
+    throw new IntentError(`Split payments are not available on ${params.network}`, 400, 'split_rules')
+  }
+
+  const requestedMinutes = params.expiresInMinutes ?? Number(env.PAYMENT_INTENT_TTL_MINUTES || '30')
+  const ttlMinutes = quote.source === 'parity'
+    ? requestedMinutes
+    : Math.min(requestedMinutes, rateLockMinutes(env))
+
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .insert({
+      merchant_id: params.merchantId,
+      product_id: params.productId || null,
+      invoice_id: params.invoiceId || null,
+      quantity: params.quantity ?? 1,
+      amount,
+      token: token.symbol,
+      token_address: normalizeAddress(params.network, token.address),
+      network: params.network,
+      recipient_address: normalizeAddress(params.network, recipient),
+      description: params.description || null,
+      customer_email: params.customerEmail || null,
+      metadata: params.metadata || {},
+      expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+      is_test: params.isTest ?? false,
+      // Solana Pay wallets attach it to the transfer so the watcher can find it
+      solana_reference: isSolana(params.network) ? createSolanaReference() : null,
+      splits,
+      splitter_address: splitter ? splitter.toLowerCase() : null,
+      currency: quote.currency,
+      fiat_amount: params.amount,
+      exchange_rate: quote.rate,
+      rate_source: quote.source,
+      rate_quoted_at: quote.quotedAt,
+    })
+    .select(`${INTENT_COLUMNS}, description, metadata, created_at`)
+    .single() as Rows<CreatedIntent>
+
+  if (error || !data) throw error
+  return data
+}
+
+async function quoteIntentRate(currency: string, env: Env): Promise<RateQuote> {
+  try {
+    return await quoteRate(currency, env)
+  } catch (error) {
+    // No rate means no price: the payer can retry shortly
+    if (error instanceof RateError) throw new IntentError(error.message, 503)
+    throw error
+  }
+}
+
+/**
+ * Resolves the split rules of what is being paid into legs of `amount`.
+ * Legs paid to a registered merchant wallet are tagged with that merchant.
+ */
+async function resolveIntentSplits(
+  supabase: Query,
+  params: IntentParams,
+  amount: number,
+  recipient: string,
+  token: TokenConfig,
+): Promise<SplitLeg[]> {
+  let legs: Omit<SplitLeg, 'merchant_id'>[]
+  try {
+    const rules = parseSplitRules(params.splitRules)
+    if (rules.length === 0) return []
+    legs = resolveSplits(rules, {
+      network: params.network,
+      total: amount,
+      decimals: token.decimals,
+      recipient,
+    })
+  } catch (error) {
+    if (error instanceof SplitRuleError) throw new IntentError(error.message, 400, 'split_rules')
+    throw error
+  }
+
+  const { data: wallets, error } = await supabase
+    .from('merchant_wallets')
+    .select('merchant_id, address')
+    .eq('network', params.network)
+    .in('address', legs.map((leg) => leg.address)) as Rows<{ merchant_id: string; address: string }[]>
+
+  if (error) throw error
+
+  return legs.map((leg) => ({
+    ...leg,
+    merchant_id: wallets?.find((wallet) => wallet.address === leg.address)?.merchant_id ?? null,
+  }))
+}
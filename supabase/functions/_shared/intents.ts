@@ -0,0 +1,254 @@
+// Payment intents shared by create-payment-intent, record-payment,
+// settle-invoice and chain-watcher. An intent fixes the amount, token,
+// network and merchant wallet of a checkout before any money moves; it is
+// created by intentrecord.ts, which the /api/v1 routes share.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, formatUnits, networksForMode, parseUnits, type TokenConfig } from './evm.ts'
+import { toCurrency } from './currencies.ts'
+import { normalizeAddress, verifyPayment } from './payments.ts'
+import { legUnits, merchantShareUnits } from './splits.ts'
+import {
+  INTENT_COLUMNS,
+  IntentError,
+  createIntent,
+  type IntentParams,
+  type PaymentIntentRecord,
+} from './intentrecord.ts'
+
+export { INTENT_COLUMNS }
+export type { IntentParams, PaymentIntentRecord } from './intentrecord.ts'
+
+// The quote a payment was made at, copied onto its transaction
+export type RateSnapshot = Pick<PaymentIntentRecord, 'currency' | 'exchange_rate' | 'rate_source' | 'rate_quoted_at'>
+
+export const isIntentExpired = (intent: PaymentIntentRecord) =>
+  intent.status === 'requires_payment' && new Date(intent.expires_at).getTime() < Date.now()
+
+/** What the intent's own recipient must receive: its amount less any split legs. */
+export const recipientUnits = (intent: PaymentIntentRecord, token: TokenConfig) =>
+  merchantShareUnits(Number(intent.amount), intent.splits, token.decimals)
+
+/** The part of the intent paid to split legs, as split_amount on the payer's line. */
+export const splitAmount = (intent: PaymentIntentRecord, token: TokenConfig) =>
+  Number(formatUnits(parseUnits(Number(intent.amount), token.decimals) - recipientUnits(intent, token), token.decimals))
+
+/**
+ * Rate snapshot columns for a transaction paying `amount` of stablecoin
+ * (split legs included) at the intent's quote.
+ */
+export const rateSnapshot = (rate: RateSnapshot, amount: number) => ({
+  currency: rate.currency,
+  exchange_rate: rate.exchange_rate,
+  rate_source: rate.rate_source,
+  rate_quoted_at: rate.rate_quoted_at,
+  fiat_amount: toCurrency(amount, Number(rate.exchange_rate)),
+})
+
+/** createIntent on the deployment's networks, failing with a VerificationError. */
+export async function createPaymentIntent(supabase: SupabaseClient, params: IntentParams) {
+  try {
+    return await createIntent(supabase, params, {
+      networks: networksForMode(params.isTest),
+      env: Deno.env.toObject(),
+    })
+  } catch (error) {
+    if (error instanceof IntentError) throw new VerificationError(error.message, error.status)
+    throw error
+  }
+}
+
+/**
+ * Loads an intent that `txHash` may pay. Rejects intents that are paid,
+ * canceled, expired, or already being paid by another transaction.
+ */
+export async function loadPayableIntent(supabase: SupabaseClient, intentId: string, txHash: string) {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select(INTENT_COLUMNS)
+    .eq('id', intentId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) {
+    throw new VerificationError('Payment intent not found', 404)
+  }
+
+  const intent = data as PaymentIntentRecord
+
+  if (intent.tx_hash && intent.tx_hash !== txHash) {
+    throw new VerificationError('Payment intent has already been paid', 409)
+  }
+  if (intent.status === 'canceled') {
+    throw new VerificationError('Payment intent has been canceled', 409)
+  }
+  if (intent.status === 'expired' || isIntentExpired(intent)) {
+    throw new VerificationError('Payment intent has expired', 410)
+  }
+
+  return intent
+}
+
+/**
+ * Binds `txHash` to an open intent and moves it to `processing` (not mined
+ * yet) or `succeeded`. Conditional on the intent still being open, so an
+ * intent is only ever paid by one transaction.
+ */
+export async function claimIntent(
+  supabase: SupabaseClient,
+  intentId: string,
+  txHash: string,
+  status: 'processing' | 'succeeded',
+) {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .update({ status, tx_hash: txHash })
+    .eq('id', intentId)
+    .or(`status.eq.requires_payment,and(status.eq.processing,tx_hash.eq.${txHash})`)
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  return data !== null
+}
+
+/** Marks open intents past their expiry as `expired`. Returns how many. */
+export async function expireIntents(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .update({ status: 'expired' })
+    .eq('status', 'requires_payment')
+    .lt('expires_at', new Date().toISOString())
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length
+}
+
+/** Reopens an intent whose registered transaction never made it on-chain. */
+export async function releaseIntent(supabase: SupabaseClient, intentId: string, txHash: string) {
+  const { error } = await supabase
+    .from('payment_intents')
+    .update({ status: 'requires_payment', tx_hash: null })
+    .eq('id', intentId)
+    .eq('status', 'processing')
+    .eq('tx_hash', txHash)
+
+  if (error) throw error
+}
+
+export interface UnverifiedClaim {
+  id: string
+  status: string
+  payment_intent_id: string | null
+}
+
+/**
+ * Deletes a checkout registered before its transaction was mined, and
+ * reopens its intent. Nothing about such a row was checked against the
+ * chain, so it gives its hash up to the payment the transaction really is.
+ * Returns false when the row has moved on in the meantime.
+ */
+export async function discardUnverifiedClaim(supabase: SupabaseClient, claim: UnverifiedClaim, txHash: string) {
+  const { data, error } = await supabase
+    .from('transactions')
+    .delete()
+    .eq('id', claim.id)
+    .eq('status', claim.status)
+    .is('block_number', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return false
+
+  if (claim.payment_intent_id) await releaseIntent(supabase, claim.payment_intent_id, txHash)
+  return true
+}
+
+/**
+ * Checks that `txHash` also paid every split leg of the intent in full,
+ * from the wallet that paid the merchant's share.
+ */
+export async function verifySplits(
+  intent: PaymentIntentRecord,
+  token: TokenConfig,
+  txHash: string,
+  payer: string,
+) {
+  for (const leg of intent.splits) {
+    const transfer = await verifyPayment({
+      network: intent.network,
+      txHash,
+      recipient: leg.address,
+      token,
+      minAmount: legUnits(leg, token.decimals),
+      isTest: intent.is_test,
+    })
+
+    if (normalizeAddress(intent.network, transfer.from) !== normalizeAddress(intent.network, payer)) {
+      throw new VerificationError(`Split payment to ${leg.address} came from a different wallet`)
+    }
+  }
+}
+
+// Columns of the payer's transaction line that its split lines copy
+export const SPLIT_PARENT_COLUMNS =
+  'id, customer_name, reference_id, token, tx_hash, status, confirmations, required_confirmations, block_number, block_hash, from_address'
+
+export interface SplitParent {
+  id: string
+  customer_name: string
+  reference_id: string
+  token: string | null
+  tx_hash: string | null
+  status: string
+  confirmations: number
+  required_confirmations: number | null
+  block_number: number | null
+  block_hash: string | null
+  from_address: string | null
+}
+
+/**
+ * Records a transaction line for every leg paid to a RavGateway merchant,
+ * linked to the payer's line, so each merchant's dashboard shows only its
+ * own share. Lines track confirmations like any other transaction.
+ * Idempotent: returns false when the lines were already recorded.
+ */
+export async function recordSplitLines(
+  supabase: SupabaseClient,
+  intent: PaymentIntentRecord,
+  parent: SplitParent,
+) {
+  const lines = intent.splits
+    .map((leg, index) => ({ leg, index }))
+    .filter(({ leg }) => leg.merchant_id)
+    .map(({ leg, index }) => ({
+      merchant_id: leg.merchant_id,
+      split_of: parent.id,
+      transaction_type: 'credit',
+      amount: leg.amount,
+      customer_name: parent.customer_name,
+      reference_id: `SPLIT-${parent.reference_id}-${index + 1}`,
+      network: intent.network,
+      token: parent.token,
+      tx_hash: parent.tx_hash,
+      status: parent.status,
+      confirmations: parent.confirmations,
+      required_confirmations: parent.required_confirmations,
+      block_number: parent.block_number,
+      block_hash: parent.block_hash,
+      from_address: parent.from_address,
+      to_address: leg.address,
+      is_test: intent.is_test,
+    }))
+
+  if (lines.length === 0) return true
+
+  const { error } = await supabase.from('transactions').insert(lines)
+
+  // 23505: recorded by a concurrent request
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
@@ -0,0 +1,33 @@
+// ENS names and Basenames (*.base.eth) merchants can give instead of an EVM
+// receiving wallet address. Both resolve on Ethereum mainnet, Basenames
+// through ENS's offchain (CCIP-read) resolver, whichever network profile
+// the deployment runs. The name is only a label: payments always go to the
+// stored address, never to whatever the name resolves to at payment time.
+// No runtime-specific imports, like networks.ts: the frontend resolves with
+// ethers from npm and check-wallet-names with ethers from esm.sh.
+
+// Mainnet RPC used for resolution unless ENS_RPC_URL / VITE_ENS_RPC_URL is set
+export const ENS_RPC_URL = 'https://ethereum-rpc.publicnode.com'
+
+// Dot-separated labels ending in .eth, e.g. alice.eth or alice.base.eth.
+// Full ENSIP-15 normalization is left to ethers when resolving.
+const WALLET_NAME = /^(?:[^.\s]+\.)+eth$/i
+
+export const isWalletName = (value: string) => WALLET_NAME.test(value)
+
+export const normalizeWalletName = (name: string) => name.trim().toLowerCase()
+
+export interface NamedWallet {
+  address: string
+  name: string | null
+  // Address the name resolved to at its last check; null once it no longer resolves
+  name_address: string | null
+}
+
+/** The name still points at the wallet payments go to, so payers can be shown it. */
+export const isNameVerified = (wallet: NamedWallet) =>
+  Boolean(wallet.name && wallet.name_address) && wallet.name_address!.toLowerCase() === wallet.address.toLowerCase()
+
+/** The name was checked and now points somewhere else (or nowhere): the merchant must act. */
+export const isNameMismatched = (wallet: NamedWallet & { name_checked_at?: string | null }) =>
+  Boolean(wallet.name && wallet.name_checked_at) && !isNameVerified(wallet)
@@ -0,0 +1,229 @@
+// Chain and token configuration shared by the edge functions, the /api/v1
+// routes and the frontend (via src/lib/networks.ts). Plain data with no
+// runtime-specific imports, so Deno, Node and Vite can all load it.
+//
+// A deployment picks one profile: NETWORK_PROFILE for edge functions,
+// VITE_NETWORK_PROFILE for the frontend and API routes. Staging runs
+// `testnet` so it never touches mainnet funds.
+
+export type Network = 'base' | 'celo' | 'solana'
+
+export type NetworkProfile = 'mainnet' | 'testnet'
+
+export interface TokenConfig {
+  symbol: string
+  address: string
+  decimals: number
+  // Disabled tokens stay listed so past payments still resolve, but new
+  // intents cannot use them
+  enabled: boolean
+  // Signature the payer can sign instead of sending the transfer, so the
+  // relayer pays the gas: EIP-3009 transferWithAuthorization or EIP-2612 permit
+  gasless?: GaslessStandard
+}
+
+export type GaslessStandard = 'eip3009' | 'eip2612'
+
+export interface NetworkConfig {
+  name: string
+  kind: 'evm' | 'solana'
+  // EVM chain id; 0 for Solana
+  chainId: number
+  rpcUrl: string
+  explorer: string
+  // Appended to explorer links, e.g. the Solana cluster
+  explorerQuery?: string
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  // Blocks on top of (and including) the payment's block before it is final
+  confirmations: number
+  testnet: boolean
+  // RavSplitter contract (contracts/RavSplitter.sol) that pays split
+  // payments in one transaction; split intents are refused without one
+  splitter?: string
+  // RavEscrow contract (contracts/RavEscrow.sol) holding the deposits of
+  // milestone invoices; escrow invoices cannot be funded without one
+  escrow?: string
+  // The first enabled token is the network's default
+  tokens: TokenConfig[]
+}
+
+export const NETWORK_IDS: Network[] = ['base', 'celo', 'solana']
+
+export const PROFILES: Record<NetworkProfile, Record<Network, NetworkConfig>> = {
+  mainnet: {
+    base: {
+      name: 'Base Mainnet',
+      kind: 'evm',
+      chainId: 8453,
+      rpcUrl: 'https://mainnet.base.org',
+      explorer: 'https://basescan.org',
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      confirmations: 10,
+      testnet: false,
+      tokens: [
+        { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, enabled: true, gasless: 'eip3009' },
+        { symbol: 'USDT', address: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2', decimals: 6, enabled: true },
+      ],
+    },
+    celo: {
+      name: 'Celo Mainnet',
+      kind: 'evm',
+      chainId: 42220,
+      rpcUrl: 'https://forno.celo.org',
+      explorer: 'https://explorer.celo.org/mainnet',
+      nativeCurrency: { name: 'Celo', symbol: 'CELO', decimals: 18 },
+      confirmations: 3,
+      testnet: false,
+      tokens: [
+        { symbol: 'cUSD', address: '0x765DE816845861e75A25fCA122bb6898B8B1282a', decimals: 18, enabled: true },
+        { symbol: 'USDC', address: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C', decimals: 6, enabled: true },
+        { symbol: 'USDT', address: '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e', decimals: 6, enabled: true },
+      ],
+    },
+    solana: {
+      name: 'Solana Mainnet',
+      kind: 'solana',
+      chainId: 0,
+      rpcUrl: 'https://api.mainnet-beta.solana.com',
+      explorer: 'https://explorer.solana.com',
+      nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+      // Solana finalizes after 32 confirmed blocks on top of the payment's slot
+      confirmations: 32,
+      testnet: false,
+      tokens: [
+        { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6, enabled: true },
+        { symbol: 'USDT', address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6, enabled: true },
+      ],
+    },
+  },
+  // Circle's test USDC and Mento's test cUSD; faucets are listed in docs/BLOCKCHAIN.md
+  testnet: {
+    base: {
+      name: 'Base Sepolia',
+      kind: 'evm',
+      chainId: 84532,
+      rpcUrl: 'https://sepolia.base.org',
+      explorer: 'https://sepolia.basescan.org',
+      nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+      confirmations: 10,
+      testnet: true,
+      tokens: [
+        { symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6, enabled: true, gasless: 'eip3009' },
+      ],
+    },
+    celo: {
+      name: 'Celo Alfajores',
+      kind: 'evm',
+      chainId: 44787,
+      rpcUrl: 'https://alfajores-forno.celo-testnet.org',
+      explorer: 'https://celo-alfajores.blockscout.com',
+      nativeCurrency: { name: 'Celo', symbol: 'CELO', decimals: 18 },
+      confirmations: 3,
+      testnet: true,
+      tokens: [
+        { symbol: 'cUSD', address: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1', decimals: 18, enabled: true },
+        { symbol: 'USDC', address: '0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B', decimals: 6, enabled: true },
+      ],
+    },
+    solana: {
+      name: 'Solana Devnet',
+      kind: 'solana',
+      chainId: 0,
+      rpcUrl: 'https://api.devnet.solana.com',
+      explorer: 'https://explorer.solana.com',
+      explorerQuery: '?cluster=devnet',
+      nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+      confirmations: 32,
+      testnet: true,
+      tokens: [
+        { symbol: 'USDC', address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', decimals: 6, enabled: true },
+      ],
+    },
+  },
+}
+
+export const isNetworkProfile = (value: string): value is NetworkProfile => value in PROFILES
+
+/**
+ * Networks for a profile name; unset means mainnet. An unknown name throws
+ * rather than falling back, so a typo in staging cannot land on mainnet.
+ */
+export function networksFor(profile?: string | null): Record<Network, NetworkConfig> {
+  if (!profile) return PROFILES.mainnet
+  if (!isNetworkProfile(profile)) {
+    throw new Error(`Unknown network profile "${profile}". Use one of: ${Object.keys(PROFILES).join(', ')}`)
+  }
+  return PROFILES[profile]
+}
+
+export const explorerTxUrl = (config: NetworkConfig, txHash: string) =>
+  `${config.explorer}/tx/${txHash}${config.explorerQuery ?? ''}`
+
+type Env = Record<string, string | undefined>
+
+// RPC, chain id, confirmations and token addresses can be overridden per
+// network, e.g. RPC_URL_BASE=http://127.0.0.1:8545
+// TOKEN_ADDRESS_BASE_USDC=0x... for anvil. TOKEN_ADDRESS_<NETWORK> still
+// overrides the default token, and GASLESS_<NETWORK>_<SYMBOL> (eip3009,
+// eip2612 or none) matches a mock token's signature support, and
+// SPLITTER_ADDRESS_<NETWORK> and ESCROW_ADDRESS_<NETWORK> point at deployed
+// RavSplitter and RavEscrow contracts.
+function withEnvOverrides(network: string, config: NetworkConfig, env: Env): NetworkConfig {
+  const key = network.toUpperCase()
+  const get = (name: string, fallback: string) => env[name] || fallback
+  return {
+    ...config,
+    chainId: Number(get(`CHAIN_ID_${key}`, String(config.chainId))),
+    rpcUrl: get(`RPC_URL_${key}`, config.rpcUrl),
+    confirmations: Number(get(`CONFIRMATIONS_${key}`, String(config.confirmations))),
+    splitter: get(`SPLITTER_ADDRESS_${key}`, config.splitter ?? '') || undefined,
+    escrow: get(`ESCROW_ADDRESS_${key}`, config.escrow ?? '') || undefined,
+    tokens: config.tokens.map((token, index) => {
+      const gasless = get(`GASLESS_${key}_${token.symbol.toUpperCase()}`, token.gasless ?? 'none')
+      return {
+        ...token,
+        address: get(
+          `TOKEN_ADDRESS_${key}_${token.symbol.toUpperCase()}`,
+          index === 0 ? get(`TOKEN_ADDRESS_${key}`, token.address) : token.address,
+        ),
+        gasless: gasless === 'none' ? undefined : gasless as GaslessStandard,
+      }
+    }),
+  }
+}
+
+/**
+ * Networks of `profile` on a deployment running `deployedProfile`. The
+ * overrides in `env` (Deno.env.toObject() or process.env) only apply to the
+ * deployment's own profile.
+ */
+export function resolveNetworks(profile: string, deployedProfile: string, env: Env): Record<Network, NetworkConfig> {
+  const networks = networksFor(profile)
+  if (profile !== deployedProfile) return networks
+  return Object.fromEntries(
+    Object.entries(networks).map(([network, config]) => [network, withEnvOverrides(network, config, env)]),
+  ) as Record<Network, NetworkConfig>
+}
+
+export const isSolana = (network: string) => network === 'solana'
+
+export const isEvmAddress = (value: string) => /^0x[0-9a-fA-F]{40}$/.test(value)
+
+export const isSolanaAddress = (value: string) => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)
+
+export const isRecipientAddress = (network: string, address: string) =>
+  isSolana(network) ? isSolanaAddress(address) : isEvmAddress(address)
+
+// EVM addresses and hashes are stored lowercase; base58 is case-sensitive
+export const normalizeAddress = (network: string, address: string) =>
+  isSolana(network) ? address : address.toLowerCase()
+
+/**
+ * Tokens a merchant takes out of a network's `tokens`. `accepted` maps
+ * network to symbols; merchants who never chose accept every enabled token.
+ */
+export function acceptedTokensOf(tokens: TokenConfig[], network: string, accepted?: Record<string, string[]> | null) {
+  const enabled = tokens.filter((token) => token.enabled)
+  const symbols = accepted?.[network]
+  return symbols ? enabled.filter((token) => symbols.includes(token.symbol)) : enabled
+}
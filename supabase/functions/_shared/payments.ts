@@ -0,0 +1,68 @@
+// Network-agnostic entry points over evm.ts and solana.ts, so the edge
+// functions can verify a payment without caring which chain it is on.
+import {
+  chainFor,
+  isTxHash,
+  verifyTransfer,
+  VerificationError,
+  type TokenConfig,
+} from './evm.ts'
+import {
+  isSolanaSignature,
+  solanaFor,
+  verifySolanaTransfer,
+} from './solana.ts'
+import { acceptedTokensOf, isSolana, normalizeAddress } from './networks.ts'
+
+export { isRecipientAddress, isSolana, normalizeAddress } from './networks.ts'
+
+export const isSupportedNetwork = (network: string) => chainFor(network) !== undefined || isSolana(network)
+
+/**
+ * Every token registered on a network, enabled or not. `isTest` reads the
+ * testnet profile used by sandbox records.
+ */
+export const tokensFor = (network: string, isTest = false): TokenConfig[] =>
+  isSolana(network) ? solanaFor(isTest).tokens : chainFor(network, isTest)?.tokens ?? []
+
+/**
+ * Looks a token up by symbol or contract/mint address. Disabled tokens are
+ * found too, so payments made before a token was disabled still verify.
+ */
+export const findToken = (network: string, symbolOrAddress: string, isTest = false) =>
+  tokensFor(network, isTest).find((token) =>
+    token.symbol.toLowerCase() === symbolOrAddress.toLowerCase() ||
+    normalizeAddress(network, token.address) === normalizeAddress(network, symbolOrAddress)
+  )
+
+export const defaultToken = (network: string, isTest = false) =>
+  tokensFor(network, isTest).find((token) => token.enabled)
+
+/** Tokens a merchant takes on `network`, see acceptedTokensOf. */
+export const acceptedTokens = (network: string, accepted?: Record<string, string[]> | null, isTest = false) =>
+  acceptedTokensOf(tokensFor(network, isTest), network, accepted)
+
+export const isPaymentTxHash = (txHash: string) => isTxHash(txHash) || isSolanaSignature(txHash)
+
+export const normalizeTxHash = (txHash: string) => isTxHash(txHash) ? txHash.toLowerCase() : txHash
+
+interface VerifyPaymentParams {
+  network: string
+  txHash: string
+  recipient: string
+  token: TokenConfig
+  minAmount: bigint
+  isTest?: boolean
+}
+
+/** verifyTransfer for EVM networks, verifySolanaTransfer for Solana. */
+export function verifyPayment({ network, txHash, recipient, token, minAmount, isTest }: VerifyPaymentParams) {
+  if (!isSolana(network)) {
+    return verifyTransfer({ network, txHash, recipient, token, minAmount, isTest })
+  }
+
+  if (!isSolanaSignature(txHash)) {
+    throw new VerificationError('Invalid transaction signature')
+  }
+  return verifySolanaTransfer({ signature: txHash, recipient, token, minAmount, isTest })
+}
@@ -0,0 +1,103 @@
+// Exchange rates for fiat-priced products and invoices. The provider is
+// pluggable: RATE_PROVIDER picks one of RATE_PROVIDERS, and `fixture`
+// serves fixed rates so local runs and tests never call out.
+// No runtime-specific imports, like currencies.ts, so the Node API can load
+// it as well as the edge functions; callers pass their environment
+// (Deno.env.toObject() or process.env).
+import { BASE_CURRENCY, isCurrency, type Currency } from './currencies.ts'
+
+type Env = Record<string, string | undefined>
+
+export interface RateProvider {
+  // Recorded as rate_source on the intent and its transactions
+  name: string
+  /** Units of `currency` per USD, or undefined when the provider has none. */
+  fetchRate(currency: string, env: Env): Promise<number | undefined>
+}
+
+export interface RateQuote {
+  currency: string
+  // Units of `currency` per USD
+  rate: number
+  source: string
+  quotedAt: string
+}
+
+export class RateError extends Error {}
+
+// How long a quoted rate holds; intents priced in another currency expire
+// with their quote
+export const rateLockMinutes = (env: Env) => Number(env.RATE_LOCK_MINUTES || '15')
+
+// Used by the fixture provider unless RATE_FIXTURES is set, e.g.
+// RATE_FIXTURES='{"NGN":1600,"EUR":0.9}'
+const DEFAULT_FIXTURE_RATES: Record<Exclude<Currency, typeof BASE_CURRENCY>, number> = {
+  EUR: 0.92,
+  NGN: 1550,
+  KES: 129,
+}
+
+const fixtureProvider: RateProvider = {
+  name: 'fixture',
+  fetchRate(currency, env) {
+    const rates: Record<string, number> = env.RATE_FIXTURES ? JSON.parse(env.RATE_FIXTURES) : DEFAULT_FIXTURE_RATES
+    return Promise.resolve(rates[currency])
+  },
+}
+
+// ExchangeRate-API's open endpoint: daily USD rates, no key required
+const openExchangeRatesProvider: RateProvider = {
+  name: 'open-er-api',
+  async fetchRate(currency, env) {
+    const response = await fetch(env.RATE_PROVIDER_URL || 'https://open.er-api.com/v6/latest/USD')
+    if (!response.ok) {
+      throw new Error(`Rate provider failed with HTTP ${response.status}`)
+    }
+    const body = await response.json()
+    return body.rates?.[currency]
+  },
+}
+
+export const RATE_PROVIDERS: Record<string, RateProvider> = {
+  [fixtureProvider.name]: fixtureProvider,
+  [openExchangeRatesProvider.name]: openExchangeRatesProvider,
+}
+
+export function rateProvider(env: Env): RateProvider {
+  const name = env.RATE_PROVIDER || openExchangeRatesProvider.name
+  const provider = RATE_PROVIDERS[name]
+  if (!provider) {
+    throw new Error(`Unknown RATE_PROVIDER: ${name}`)
+  }
+  return provider
+}
+
+/**
+ * Quotes the current rate of `currency` against USD. USD itself is always
+ * at parity, without asking the provider. Throws a RateError for an
+ * unsupported currency or when no usable rate is available.
+ */
+export async function quoteRate(currency: string, env: Env): Promise<RateQuote> {
+  const quotedAt = new Date().toISOString()
+  if (currency === BASE_CURRENCY) {
+    return { currency, rate: 1, source: 'parity', quotedAt }
+  }
+
+  if (!isCurrency(currency)) {
+    throw new RateError(`Unsupported currency: ${currency}`)
+  }
+
+  const provider = rateProvider(env)
+  let rate: number | undefined
+  try {
+    rate = await provider.fetchRate(currency, env)
+  } catch (error) {
+    console.error(`Rate provider ${provider.name} failed:`, error)
+  }
+
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+    throw new RateError(`No exchange rate available for ${currency}. Please try again shortly.`)
+  }
+
+  return { currency, rate, source: provider.name, quotedAt }
+}
@@ -0,0 +1,160 @@
+// Gasless payments. The payer signs an EIP-3009 transferWithAuthorization
+// (or an EIP-2612 permit) for the intent's amount, and the relayer wallet
+// submits it and pays the gas. The resulting transfer is an ordinary
+// Transfer log from the payer to the merchant, so record-payment,
+// settle-invoice and chain-watcher verify it like any other payment.
+//
+// The rest of the shared code talks plain JSON-RPC; sending needs a
+// transaction signer, so this module uses ethers.
+import { Contract, JsonRpcProvider, Signature, Wallet, type TransactionReceipt } from 'https://esm.sh/ethers@6.15.0'
+import { VerificationError, type ChainConfig, type TokenConfig } from './evm.ts'
+
+const RELAYER_ABI = [
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function transferFrom(address from, address to, uint256 value) returns (bool)',
+]
+
+// EIP-3009: the signature names the recipient, so it can only pay the intent
+export interface TransferAuthorization {
+  from: string
+  value: string
+  validAfter: number
+  validBefore: number
+  nonce: string
+  signature: string
+}
+
+// EIP-2612: approves the relayer, which then moves the funds with transferFrom
+export interface PermitAuthorization {
+  owner: string
+  value: string
+  deadline: number
+  signature: string
+}
+
+export interface RelayedTransfer {
+  txHash: string
+  // Gas spent by the relayer across every transaction it sent, in wei
+  gasUsed: bigint
+  gasCost: bigint
+}
+
+/** The relayer wallet on a chain. Throws when RELAYER_PRIVATE_KEY is unset. */
+export function relayerWallet(chain: ChainConfig) {
+  const privateKey = Deno.env.get('RELAYER_PRIVATE_KEY')
+  if (!privateKey) {
+    throw new VerificationError('Gasless payments are not available', 503)
+  }
+  // Uncached: a permit's transferFrom must read the nonce the permit left,
+  // even when both are mined within ethers' default cache window
+  return new Wallet(privateKey, new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true, cacheTimeout: -1 }))
+}
+
+interface SimulatedCall {
+  status: string
+  error?: { message: string }
+}
+
+/**
+ * Runs the relayer's calls in order without sending them, each on the state
+ * the one before left (eth_simulateV1), so a later call that would revert
+ * stops the earlier ones from being sent too.
+ */
+async function simulateInOrder(wallet: Wallet, contract: Contract, calls: [method: string, args: unknown[]][]) {
+  const [block] = await (wallet.provider as JsonRpcProvider).send('eth_simulateV1', [{
+    blockStateCalls: [{
+      calls: calls.map(([method, args]) => ({
+        from: wallet.address,
+        to: contract.target,
+        data: contract.interface.encodeFunctionData(method, args),
+      })),
+    }],
+  }, 'latest'])
+
+  const results: SimulatedCall[] = block.calls
+  results.forEach((result, index) => {
+    if (BigInt(result.status) !== 1n) {
+      console.warn(`Relay ${calls[index][0]} rejected:`, result.error?.message)
+      throw new VerificationError('The token contract rejected the signed authorization')
+    }
+  })
+}
+
+async function sendAndWait(contract: Contract, method: string, args: unknown[]): Promise<TransactionReceipt> {
+  // Simulate first so a bad signature costs no gas
+  try {
+    await contract[method].staticCall(...args)
+  } catch (error) {
+    console.warn(`Relay ${method} rejected:`, error)
+    throw new VerificationError('The token contract rejected the signed authorization')
+  }
+
+  const tx = await contract[method](...args)
+  const receipt = await tx.wait()
+  if (!receipt || receipt.status !== 1) {
+    throw new VerificationError('Relayed transaction failed on chain')
+  }
+  return receipt
+}
+
+/** Submits an EIP-3009 authorization paying `to`; resolves once mined. */
+export async function relayTransferWithAuthorization(
+  chain: ChainConfig,
+  token: TokenConfig,
+  to: string,
+  authorization: TransferAuthorization,
+): Promise<RelayedTransfer> {
+  const contract = new Contract(token.address, RELAYER_ABI, relayerWallet(chain))
+  const { v, r, s } = Signature.from(authorization.signature)
+
+  const receipt = await sendAndWait(contract, 'transferWithAuthorization', [
+    authorization.from,
+    to,
+    authorization.value,
+    authorization.validAfter,
+    authorization.validBefore,
+    authorization.nonce,
+    v,
+    r,
+    s,
+  ])
+
+  return {
+    txHash: receipt.hash.toLowerCase(),
+    gasUsed: receipt.gasUsed,
+    gasCost: receipt.gasUsed * receipt.gasPrice,
+  }
+}
+
+/**
+ * Submits an EIP-2612 permit for the relayer, then moves the funds to `to`
+ * with transferFrom, once both have been simulated. The transferFrom
+ * transaction is the payment.
+ */
+export async function relayPermit(
+  chain: ChainConfig,
+  token: TokenConfig,
+  to: string,
+  permit: PermitAuthorization,
+): Promise<RelayedTransfer> {
+  const wallet = relayerWallet(chain)
+  const contract = new Contract(token.address, RELAYER_ABI, wallet)
+  const { v, r, s } = Signature.from(permit.signature)
+
+  const permitArgs = [permit.owner, wallet.address, permit.value, permit.deadline, v, r, s]
+  const transferArgs = [permit.owner, to, permit.value]
+
+  // The permit alone would spend gas and leave an allowance behind, so it
+  // is only sent once the transfer it enables is known to go through
+  await simulateInOrder(wallet, contract, [['permit', permitArgs], ['transferFrom', transferArgs]])
+
+  const permitReceipt = await sendAndWait(contract, 'permit', permitArgs)
+  const receipt = await sendAndWait(contract, 'transferFrom', transferArgs)
+
+  return {
+    txHash: receipt.hash.toLowerCase(),
+    gasUsed: permitReceipt.gasUsed + receipt.gasUsed,
+    gasCost: permitReceipt.gasUsed * permitReceipt.gasPrice + receipt.gasUsed * receipt.gasPrice,
+  }
+}
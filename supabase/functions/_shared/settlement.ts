@@ -0,0 +1,198 @@
+// Invoice settlement shared by settle-invoice (payer-initiated) and
+// chain-watcher (reconciled from on-chain Transfer events).
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { initialConfirmationState } from './confirmations.ts'
+import {
+  SPLIT_PARENT_COLUMNS,
+  claimIntent,
+  rateSnapshot,
+  recordSplitLines,
+  type PaymentIntentRecord,
+  type RateSnapshot,
+  type SplitParent,
+} from './intents.ts'
+
+// Invoices a payer can still be asked to pay
+export const OPEN_INVOICE_STATUSES = ['sent', 'viewed', 'overdue', 'partially_paid']
+
+// Invoices a transfer is still applied to; a payment to a paid invoice is
+// recorded as an overpayment rather than lost
+export const RECEIVABLE_INVOICE_STATUSES = [...OPEN_INVOICE_STATUSES, 'paid']
+
+export const INVOICE_COLUMNS =
+  'id, merchant_id, invoice_number, client_name, client_email, amount, amount_paid, amount_due, currency, status, due_date, description, network, token, tx_hash, is_test'
+
+export interface InvoiceRecord {
+  id: string
+  merchant_id: string
+  invoice_number: string
+  client_name: string
+  client_email: string
+  amount: number
+  amount_paid: number
+  amount_due: number
+  // amount, amount_paid and amount_due are in this currency
+  currency: string
+  status: string
+  due_date: string
+  description: string | null
+  network: string | null
+  token: string | null
+  tx_hash: string | null
+  is_test: boolean
+}
+
+export interface SettledInvoice extends InvoiceRecord {
+  paid_at: string | null
+  overpaid_amount: number
+  // Set to `pending` when a payment goes past the amount
+  overpayment_resolution: 'pending' | 'refund' | 'credit' | null
+}
+
+export interface MerchantRecord {
+  merchant_name: string
+  email: string
+}
+
+export interface InvoicePayment {
+  txHash: string
+  network: string
+  // Symbol of the token the invoice was paid in
+  token: string
+  amount: number
+  fromAddress: string
+  toAddress: string
+  blockNumber: number
+  blockHash: string
+  // The payment intent the payer was shown, when known
+  intentId?: string
+  // Split intents: what the same transaction paid the split legs, which
+  // also counts towards the invoice
+  split?: { amount: number; intent: PaymentIntentRecord }
+  // The intent's quote, converting the payment into the invoice's
+  // currency. Payments without an intent are only matched to USD invoices.
+  rate?: RateSnapshot
+}
+
+/**
+ * Applies a verified payment to an invoice: records the linked credit
+ * transaction (plus one line per split recipient) whose confirmations
+ * chain-watcher tracks, adds its amount and any split legs to
+ * `amount_paid` (moving the invoice to `partially_paid` or `paid`, and
+ * flagging any overpayment) and sends the payment emails. Non-USD invoices
+ * are credited at the rate of the intent the payment was made against. The transaction's
+ * unique hash makes each transfer count once; returns null when it has
+ * already been recorded, or when the invoice is no longer payable (and
+ * the credit is removed again).
+ */
+export async function settleInvoice(
+  supabase: SupabaseClient,
+  invoice: InvoiceRecord,
+  merchant: MerchantRecord,
+  payment: InvoicePayment,
+) {
+  const { txHash, network, token } = payment
+  const splitAmount = payment.split?.amount ?? 0
+  const snapshot = payment.rate ? rateSnapshot(payment.rate, payment.amount + splitAmount) : null
+  const credited = snapshot ? snapshot.fiat_amount : payment.amount + splitAmount
+
+  // If this transaction is dropped by a reorg, its amount is taken back
+  const { data: line, error: txError } = await supabase.from('transactions').insert({
+    merchant_id: invoice.merchant_id,
+    invoice_id: invoice.id,
+    payment_intent_id: payment.intentId || null,
+    amount: payment.amount,
+    transaction_type: 'credit',
+    customer_name: invoice.client_name || invoice.client_email,
+    reference_id: `${invoice.invoice_number}-${txHash.slice(2, 10)}`,
+    network,
+    token,
+    tx_hash: txHash,
+    block_number: payment.blockNumber,
+    block_hash: payment.blockHash,
+    from_address: payment.fromAddress,
+    to_address: payment.toAddress,
+    is_test: invoice.is_test,
+    split_amount: splitAmount,
+    ...snapshot,
+    ...await initialConfirmationState(network, payment.blockNumber, invoice.is_test),
+  }).select(SPLIT_PARENT_COLUMNS).single()
+
+  // 23505: this transfer was recorded concurrently
+  if (txError?.code === '23505') return null
+  if (txError) throw txError
+
+  const settled = await applyInvoicePayment(supabase, invoice.id, credited, txHash, network, token)
+  if (!settled) {
+    // The invoice stopped being payable since it was loaded: a credit that
+    // counts towards nothing would hold the hash, so the transfer could
+    // never be recorded as what it is
+    const { error: deleteError } = await supabase.from('transactions').delete().eq('id', (line as SplitParent).id)
+    if (deleteError) throw deleteError
+    return null
+  }
+
+  if (payment.split) {
+    await recordSplitLines(supabase, payment.split.intent, line as SplitParent)
+  }
+
+  if (payment.intentId) {
+    await claimIntent(supabase, payment.intentId, txHash, 'succeeded')
+  }
+
+  // Payment emails are best-effort once the payment is recorded
+  const { error: emailError } = await supabase.functions.invoke('send-invoice-email', {
+    body: {
+      invoiceNumber: invoice.invoice_number,
+      clientName: invoice.client_name,
+      clientEmail: invoice.client_email,
+      merchantName: merchant.merchant_name,
+      merchantEmail: merchant.email,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      amountPaid: settled.amount_paid,
+      amountDue: settled.amount_due,
+      overpaidAmount: settled.overpaid_amount,
+      dueDate: invoice.due_date,
+      description: invoice.description,
+      paymentLink: `${Deno.env.get('APP_URL') || 'https://www.ravgateway.com'}/invoice/${invoice.id}`,
+      status: settled.status,
+      txHash,
+      network,
+      token,
+      paidAt: settled.paid_at,
+    },
+  })
+
+  if (emailError) {
+    console.error('Email notification failed:', emailError)
+  }
+
+  return settled
+}
+
+/**
+ * Adds `amount` to an invoice's `amount_paid` atomically (see the
+ * apply_invoice_payment function). Null if the invoice is not payable.
+ */
+export async function applyInvoicePayment(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  amount: number,
+  txHash: string,
+  network: string,
+  token: string,
+) {
+  const { data, error } = await supabase
+    .rpc('apply_invoice_payment', {
+      p_invoice_id: invoiceId,
+      p_amount: amount,
+      p_tx_hash: txHash,
+      p_network: network,
+      p_token: token,
+    })
+    .maybeSingle()
+
+  if (error) throw error
+  return data as SettledInvoice | null
+}
@@ -0,0 +1,26 @@
+// Checks that a wallet signed a text message: EIP-191 personal_sign on EVM
+// networks, Ed25519 over the UTF-8 bytes on Solana (Phantom-style
+// signMessage, sent base64-encoded). Used to prove control of a wallet
+// before payments go to it.
+import { verifyMessage } from 'https://esm.sh/ethers@6.15.0'
+import { decodeBase58 } from './uris.ts'
+
+const base64Bytes = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+async function verifySolanaSignature(address: string, message: string, signature: string) {
+  const key = await crypto.subtle.importKey('raw', decodeBase58(address), { name: 'Ed25519' }, false, ['verify'])
+  return crypto.subtle.verify('Ed25519', key, base64Bytes(signature), new TextEncoder().encode(message))
+}
+
+/** True when `signature` over `message` was made by `address`; false for malformed input. */
+export async function verifyWalletSignature(network: string, address: string, message: string, signature: string) {
+  try {
+    if (network === 'solana') {
+      return await verifySolanaSignature(address, message, signature)
+    }
+    return verifyMessage(message, signature).toLowerCase() === address.toLowerCase()
+  } catch (error) {
+    console.error('Signature check failed:', error)
+    return false
+  }
+}
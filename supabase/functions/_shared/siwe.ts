@@ -0,0 +1,63 @@
+// EIP-4361 (Sign-In with Ethereum) messages. The server issues the whole
+// message with a one-time nonce and keeps it; the wallet signs it as
+// personal_sign text, so wallets that understand EIP-4361 show the domain
+// and warn when it does not match the page. Solana wallets sign the same
+// layout (the Sign-In with Solana variant) with "Solana account".
+// No runtime-specific imports, like networks.ts.
+
+export interface SiweFields {
+  // Host of the site asking for the signature, e.g. ravgateway.com
+  domain: string
+  address: string
+  // Ethereum or Solana: the account kind in the header line
+  chain: 'Ethereum' | 'Solana'
+  statement: string
+  uri: string
+  // EVM chain id, or the Solana cluster (mainnet, devnet)
+  chainId: number | string
+  nonce: string
+  issuedAt: string
+  expirationTime: string
+}
+
+export function formatSiweMessage(fields: SiweFields) {
+  return [
+    `${fields.domain} wants you to sign in with your ${fields.chain} account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join('\n')
+}
+
+/** EIP-4361 nonce: at least 8 alphanumeric characters; 16 random bytes as hex. */
+export function createNonce() {
+  const bytes = new Uint8Array(16)
+  globalThis.crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/** `domain` and `uri` for messages, from the app's public URL. */
+export function siweOrigin(appUrl: string, path: string) {
+  const url = new URL(path, appUrl)
+  return { domain: url.host, uri: url.toString() }
+}
+
+// Accounts created by signing in with a wallet have no real email. Supabase
+// Auth still needs one to mint sessions, so they get an address on a domain
+// that never receives mail.
+const WALLET_LOGIN_EMAIL_DOMAIN = 'wallet.ravgateway.invalid'
+
+export function walletLoginEmail(address: string) {
+  return `${address.toLowerCase()}@${WALLET_LOGIN_EMAIL_DOMAIN}`
+}
+
+export function isWalletLoginEmail(email: string | null | undefined) {
+  return Boolean(email?.endsWith(`@${WALLET_LOGIN_EMAIL_DOMAIN}`))
+}
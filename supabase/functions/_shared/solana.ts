@@ -0,0 +1,166 @@
+// Server-side Solana helpers shared by the edge functions. Mirrors evm.ts:
+// plain JSON-RPC, so the same code runs against mainnet and a local
+// solana-test-validator.
+import {
+  VerificationError,
+  formatUnits,
+  networksForMode,
+  rpc,
+  type TokenConfig,
+  type VerifiedTransfer,
+} from './evm.ts'
+
+export { isSolanaAddress } from './networks.ts'
+
+/**
+ * Solana entry of the live or sandbox profile, with the same RPC_URL_SOLANA /
+ * CONFIRMATIONS_SOLANA / TOKEN_ADDRESS_SOLANA_<SYMBOL> overrides as EVM.
+ */
+export const solanaFor = (isTest = false) => networksForMode(isTest).solana
+
+interface TokenBalance {
+  accountIndex: number
+  mint: string
+  owner?: string
+  uiTokenAmount: { amount: string; decimals: number }
+}
+
+interface SolanaTransaction {
+  slot: number
+  meta: {
+    err: unknown
+    preTokenBalances?: TokenBalance[]
+    postTokenBalances?: TokenBalance[]
+  } | null
+  transaction: { signatures: string[] }
+}
+
+export interface SignatureStatus {
+  slot: number
+  // null once the slot is rooted (finalized)
+  confirmations: number | null
+  err: unknown
+  confirmationStatus: 'processed' | 'confirmed' | 'finalized' | null
+}
+
+const BASE58 = /^[1-9A-HJ-NP-Za-km-z]+$/
+
+export const isSolanaSignature = (value: string) =>
+  BASE58.test(value) && value.length >= 86 && value.length <= 88
+
+export const getSlot = (rpcUrl: string, commitment: 'confirmed' | 'finalized') =>
+  rpc<number>(rpcUrl, 'getSlot', [{ commitment }])
+
+export const getSolanaTransaction = (rpcUrl: string, signature: string) =>
+  rpc<SolanaTransaction | null>(rpcUrl, 'getTransaction', [
+    signature,
+    { encoding: 'json', commitment: 'confirmed', maxSupportedTransactionVersion: 0 },
+  ])
+
+export async function getSignatureStatus(rpcUrl: string, signature: string) {
+  const { value } = await rpc<{ value: (SignatureStatus | null)[] }>(
+    rpcUrl,
+    'getSignatureStatuses',
+    [[signature], { searchTransactionHistory: true }],
+  )
+  return value[0]
+}
+
+export interface SignatureInfo {
+  signature: string
+  slot: number
+  err: unknown
+}
+
+/** Newest-first signatures of transactions that reference `address` */
+export const getSignaturesForAddress = (rpcUrl: string, address: string, limit = 10) =>
+  rpc<SignatureInfo[]>(rpcUrl, 'getSignaturesForAddress', [address, { limit, commitment: 'confirmed' }])
+
+const getBlockhash = async (rpcUrl: string, slot: number) => {
+  const block = await rpc<{ blockhash: string }>(rpcUrl, 'getBlock', [
+    slot,
+    { commitment: 'confirmed', transactionDetails: 'none', rewards: false, maxSupportedTransactionVersion: 0 },
+  ])
+  return block.blockhash
+}
+
+interface SplBalanceChange {
+  owner: string
+  value: bigint
+}
+
+/**
+ * Net change per owner of `mint` token balances in a transaction. A token
+ * account created by the transaction has no pre balance and counts from 0.
+ */
+export function decodeSplBalanceChanges(tx: SolanaTransaction, mint: string): SplBalanceChange[] {
+  const pre = new Map<number, bigint>()
+  for (const balance of tx.meta?.preTokenBalances || []) {
+    if (balance.mint === mint) pre.set(balance.accountIndex, BigInt(balance.uiTokenAmount.amount))
+  }
+
+  return (tx.meta?.postTokenBalances || [])
+    .filter((balance) => balance.mint === mint && balance.owner)
+    .map((balance) => ({
+      owner: balance.owner!,
+      value: BigInt(balance.uiTokenAmount.amount) - (pre.get(balance.accountIndex) ?? 0n),
+    }))
+}
+
+interface VerifySolanaTransferParams {
+  signature: string
+  recipient: string
+  token: TokenConfig
+  minAmount: bigint
+  isTest?: boolean
+}
+
+/**
+ * Fetches the transaction for `signature` and checks that it succeeded and
+ * credited at least `minAmount` of `token` to an account owned by `recipient`.
+ * `blockNumber` is the slot.
+ */
+export async function verifySolanaTransfer({
+  signature,
+  recipient,
+  token,
+  minAmount,
+  isTest,
+}: VerifySolanaTransferParams): Promise<VerifiedTransfer> {
+  const { rpcUrl } = solanaFor(isTest)
+  const tx = await getSolanaTransaction(rpcUrl, signature)
+  if (!tx || !tx.meta) {
+    throw new VerificationError('Transaction not found or not yet confirmed', 404)
+  }
+
+  if (tx.meta.err) {
+    throw new VerificationError('Transaction failed on chain')
+  }
+
+  const changes = decodeSplBalanceChanges(tx, token.address)
+  const credit = changes.find((change) => change.owner === recipient && change.value > 0n)
+
+  if (!credit) {
+    throw new VerificationError(`No ${token.symbol} transfer to the merchant wallet in this transaction`)
+  }
+
+  if (credit.value < minAmount) {
+    throw new VerificationError(
+      `Transferred ${formatUnits(credit.value, token.decimals)} ${token.symbol}, ` +
+      `expected ${formatUnits(minAmount, token.decimals)}`
+    )
+  }
+
+  const debit = changes.find((change) => change.value < 0n)
+
+  return {
+    token: token.address,
+    from: debit?.owner ?? '',
+    to: recipient,
+    value: credit.value,
+    logIndex: 0,
+    txHash: signature,
+    blockNumber: tx.slot,
+    blockHash: await getBlockhash(rpcUrl, tx.slot),
+  }
+}
@@ -0,0 +1,159 @@
+// Split payments: a product or invoice can send part of every payment to
+// other wallets, e.g. a vendor plus a platform commission. Rules are stored
+// as percentages or fixed amounts and resolved into fixed legs when the
+// payment intent is created; the intent's own recipient gets the rest.
+// Plain data with no runtime-specific imports, like networks.ts.
+
+// A type rather than an interface so rules type-check as JSON column values
+export type SplitRule = {
+  address: string
+  // Exactly one of: share of the total (0-100), or a fixed amount in the
+  // payment token
+  percent?: number
+  amount?: number
+  // Shown to the payer, e.g. "Platform fee"
+  label?: string
+}
+
+export interface SplitLeg {
+  address: string
+  // Decimal amount of the intent's token
+  amount: number
+  label: string | null
+  // Set when the wallet belongs to a RavGateway merchant, whose dashboard
+  // then shows this leg as its own transaction line
+  merchant_id: string | null
+}
+
+export const MAX_SPLIT_RECIPIENTS = 5
+
+export class SplitRuleError extends Error {}
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+export const isSplitAddress = (network: string, address: string) =>
+  network === 'solana' ? SOLANA_ADDRESS.test(address) : EVM_ADDRESS.test(address)
+
+// EVM addresses are stored lowercase; base58 is case-sensitive
+const normalize = (network: string, address: string) =>
+  network === 'solana' ? address : address.toLowerCase()
+
+// Decimal amount to base units, truncating past the token's precision
+const toUnits = (amount: number, decimals: number) => {
+  const [whole, fraction = ''] = String(amount).split('.')
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'))
+}
+
+const fromUnits = (units: bigint, decimals: number) => {
+  if (decimals === 0) return Number(units)
+  const digits = units.toString().padStart(decimals + 1, '0')
+  return Number(`${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`)
+}
+
+/**
+ * Validates split rules as stored on a product or invoice (null or an
+ * array). Throws a SplitRuleError describing the first problem.
+ */
+export function parseSplitRules(value: unknown): SplitRule[] {
+  if (value === null || value === undefined) return []
+  if (!Array.isArray(value)) {
+    throw new SplitRuleError('split_rules must be an array')
+  }
+  if (value.length > MAX_SPLIT_RECIPIENTS) {
+    throw new SplitRuleError(`At most ${MAX_SPLIT_RECIPIENTS} split recipients are allowed`)
+  }
+
+  const rules = value.map((rule, index): SplitRule => {
+    const where = `Split recipient ${index + 1}`
+    if (!rule || typeof rule !== 'object' || typeof rule.address !== 'string' || !rule.address.trim()) {
+      throw new SplitRuleError(`${where} needs a wallet address`)
+    }
+    if (!EVM_ADDRESS.test(rule.address.trim()) && !SOLANA_ADDRESS.test(rule.address.trim())) {
+      throw new SplitRuleError(`${where} is not a valid wallet address`)
+    }
+
+    const hasPercent = rule.percent !== undefined && rule.percent !== null
+    const hasAmount = rule.amount !== undefined && rule.amount !== null
+    if (hasPercent === hasAmount) {
+      throw new SplitRuleError(`${where} needs either a percent or a fixed amount`)
+    }
+    if (hasPercent && !(typeof rule.percent === 'number' && rule.percent > 0 && rule.percent < 100)) {
+      throw new SplitRuleError(`${where} percent must be between 0 and 100`)
+    }
+    if (hasAmount && !(typeof rule.amount === 'number' && rule.amount > 0)) {
+      throw new SplitRuleError(`${where} amount must be positive`)
+    }
+    if (rule.label !== undefined && rule.label !== null && (typeof rule.label !== 'string' || rule.label.length > 50)) {
+      throw new SplitRuleError(`${where} label must be at most 50 characters`)
+    }
+
+    return {
+      address: rule.address.trim(),
+      ...(hasPercent ? { percent: rule.percent } : { amount: rule.amount }),
+      ...(rule.label ? { label: rule.label } : {}),
+    }
+  })
+
+  const percent = rules.reduce((sum, rule) => sum + (rule.percent ?? 0), 0)
+  if (percent >= 100) {
+    throw new SplitRuleError('Split percentages must leave a share for the merchant')
+  }
+
+  return rules
+}
+
+interface ResolveSplitsParams {
+  network: string
+  // Total the payer is charged, in the payment token
+  total: number
+  decimals: number
+  // The intent's own recipient, which may not also be a split recipient
+  recipient: string
+}
+
+/**
+ * Turns rules into fixed legs of `total`. Percentages are rounded down to
+ * the token's precision; the remainder stays with the merchant.
+ */
+export function resolveSplits(
+  rules: SplitRule[],
+  { network, total, decimals, recipient }: ResolveSplitsParams,
+): Omit<SplitLeg, 'merchant_id'>[] {
+  const totalUnits = toUnits(total, decimals)
+  const seen = new Set([normalize(network, recipient)])
+
+  const legs = rules.map((rule) => {
+    if (!isSplitAddress(network, rule.address)) {
+      throw new SplitRuleError(`${rule.address} is not a valid ${network} address`)
+    }
+
+    const address = normalize(network, rule.address)
+    if (seen.has(address)) {
+      throw new SplitRuleError(`${rule.address} appears more than once in the split`)
+    }
+    seen.add(address)
+
+    const units = rule.percent !== undefined
+      ? totalUnits * BigInt(Math.round(rule.percent * 100)) / 10000n
+      : toUnits(rule.amount!, decimals)
+
+    if (units <= 0n) {
+      throw new SplitRuleError(`The share for ${rule.address} rounds to nothing`)
+    }
+    return { address, units, label: rule.label || null }
+  })
+
+  const splitUnits = legs.reduce((sum, leg) => sum + leg.units, 0n)
+  if (splitUnits >= totalUnits) {
+    throw new SplitRuleError('Split amounts must leave a share for the merchant')
+  }
+
+  return legs.map(({ address, units, label }) => ({ address, amount: fromUnits(units, decimals), label }))
+}
+
+/** What the intent's own recipient receives once every leg is paid, in base units. */
+export const merchantShareUnits = (total: number, legs: SplitLeg[], decimals: number) =>
+  legs.reduce((share, leg) => share - toUnits(leg.amount, decimals), toUnits(total, decimals))
+
+export const legUnits = (leg: SplitLeg, decimals: number) => toUnits(leg.amount, decimals)
@@ -0,0 +1,146 @@
+// Scan-to-pay URIs for payment intents: EIP-681 on the EVM networks and
+// Solana Pay on Solana. Runtime-free like networks.ts, so the /api/v1 routes
+// can return the URI and the frontend can render it as a QR code.
+//
+// Wallets that open these URIs send the transfer themselves; chain-watcher
+// matches it to the intent (EVM by recipient, token and exact amount,
+// Solana by the intent's reference key).
+import type { Network, NetworkConfig } from './networks.ts'
+
+// The intent fields a URI is built from
+export interface PaymentRequest {
+  id: string
+  network: string
+  amount: number
+  token_address: string
+  recipient_address: string
+  // Solana Pay reference key; only set on Solana intents
+  solana_reference?: string | null
+}
+
+export interface UriLabels {
+  // Shown by Solana Pay wallets as the payee and the purpose
+  label?: string
+  message?: string
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function encodeBase58(bytes: Uint8Array) {
+  const digits = [0]
+  for (const byte of bytes) {
+    let carry = byte
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8
+      digits[i] = carry % 58
+      carry = (carry / 58) | 0
+    }
+    while (carry > 0) {
+      digits.push(carry % 58)
+      carry = (carry / 58) | 0
+    }
+  }
+
+  let leadingZeros = ''
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    leadingZeros += '1'
+  }
+
+  return leadingZeros + digits.reverse().map((digit) => BASE58_ALPHABET[digit]).join('')
+}
+
+/** Bytes of a base58 string, e.g. a Solana public key; throws on invalid characters. */
+export function decodeBase58(value: string) {
+  const bytes = [0]
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char)
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character: ${char}`)
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58
+      bytes[i] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+
+  let leadingZeros = 0
+  while (value[leadingZeros] === '1') leadingZeros++
+
+  const digits = bytes.reverse()
+  // A value of only zeros leaves a single 0 digit behind
+  return new Uint8Array([...new Array(leadingZeros).fill(0), ...(digits.length === 1 && digits[0] === 0 ? [] : digits)])
+}
+
+/**
+ * A fresh Solana Pay reference: 32 random bytes, base58-encoded like a
+ * public key. Wallets add it to the transfer so it can be found with
+ * getSignaturesForAddress without any memo or browser callback.
+ */
+export function createSolanaReference() {
+  const bytes = new Uint8Array(32)
+  globalThis.crypto.getRandomValues(bytes)
+  return encodeBase58(bytes)
+}
+
+/**
+ * Decimal amount without float noise, e.g. 12.5 -> "12.5". Intent amounts
+ * are stablecoin prices, so six decimals is plenty.
+ */
+export const formatAmount = (amount: number) => String(Number(amount.toFixed(6)))
+
+/** `amount` in the token's smallest unit, for EIP-681's uint256 parameter */
+export function toBaseUnits(amount: number, decimals: number) {
+  const [whole, fraction = ''] = formatAmount(amount).split('.')
+  return `${whole}${fraction.padEnd(decimals, '0').slice(0, decimals)}`.replace(/^0+(?=\d)/, '')
+}
+
+/** `ethereum:<token>@<chainId>/transfer?address=<recipient>&uint256=<amount>` */
+export function eip681Uri(request: PaymentRequest, network: NetworkConfig) {
+  const token = network.tokens.find((candidate) =>
+    candidate.address.toLowerCase() === request.token_address.toLowerCase()
+  )
+  if (!token) return null
+
+  const params = new URLSearchParams({
+    address: request.recipient_address,
+    uint256: toBaseUnits(Number(request.amount), token.decimals),
+  })
+  return `ethereum:${token.address}@${network.chainId}/transfer?${params}`
+}
+
+/** `solana:<recipient>?amount=&spl-token=&reference=&label=&message=&memo=` */
+export function solanaPayUri(request: PaymentRequest, labels: UriLabels = {}) {
+  if (!request.solana_reference) return null
+
+  const params = new URLSearchParams({
+    amount: formatAmount(Number(request.amount)),
+    'spl-token': request.token_address,
+    reference: request.solana_reference,
+  })
+  if (labels.label) params.set('label', labels.label)
+  if (labels.message) params.set('message', labels.message)
+  // Same memo as in-browser Solana payments
+  params.set('memo', request.id)
+
+  return `solana:${request.recipient_address}?${params.toString().replace(/\+/g, '%20')}`
+}
+
+/**
+ * Scan-to-pay URI for an intent on the given network set (live or sandbox),
+ * or null when the intent cannot be paid that way.
+ */
+export function paymentUri(
+  request: PaymentRequest,
+  networks: Record<Network, NetworkConfig>,
+  labels: UriLabels = {},
+) {
+  const network = networks[request.network as Network]
+  if (!network) return null
+  return network.kind === 'solana' ? solanaPayUri(request, labels) : eip681Uri(request, network)
+}
@@ -0,0 +1,95 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { CHAINS, SANDBOX_SHARES_NETWORKS, TEST_CHAINS } from '../_shared/evm.ts'
+import { expireIntents } from '../_shared/intents.ts'
+import { releaseDueMilestones } from '../_shared/escrow.ts'
+import {
+  expireStalePending,
+  loadMerchantWallets,
+  scanNetwork,
+  scanSolanaReferences,
+  trackConfirmations,
+  type NetworkResult,
+  type SolanaResult,
+} from './watcher.ts'
+
+// Scheduled every minute by pg_cron (see the chain_watcher migration).
+// Scans Transfer logs of every enabled token to merchant wallets from the stored cursor
+// and reconciles them with pending checkouts and open invoices, so payments
+// are recorded even when the payer's browser never reports back. Each run
+// also advances confirming transactions towards their network's threshold.
+// Sandbox (is_test) payments live on the testnet profile; unless the
+// deployment already runs on testnets, those chains are scanned as well,
+// with their own cursors, and only reconciled against sandbox records.
+// Solana has no log scan: open Solana intents are looked up by their Solana
+// Pay reference key, which scan-to-pay wallets attach to the transfer.
+// Escrow contract events in the same block range are applied to escrow
+// invoices, and milestones past their release window are released.
+
+interface WatchRequest {
+  networks?: string[]
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only the scheduler (or an operator) holding the service role key may run a scan
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: WatchRequest = await req.json().catch(() => ({}))
+    const networks = payload.networks?.length ? payload.networks : Object.keys(CHAINS)
+
+    const walletsByNetwork = await loadMerchantWallets(supabase)
+
+    const results: NetworkResult[] = []
+    const errors: Record<string, string> = {}
+    const modes = SANDBOX_SHARES_NETWORKS ? [false] : [false, true]
+
+    // One failing RPC must not stall the other networks
+    for (const isTest of modes) {
+      for (const network of networks) {
+        const chain = (isTest ? TEST_CHAINS : CHAINS)[network]
+        if (!chain) continue
+        try {
+          const result = await scanNetwork(supabase, network, chain, walletsByNetwork.get(network) || new Map(), isTest)
+          if (result) results.push(result)
+        } catch (error) {
+          const label = isTest ? `${network} (sandbox)` : network
+          console.error(`Chain watcher failed on ${label}:`, error)
+          errors[label] = error.message
+        }
+      }
+    }
+
+    let solana: SolanaResult | null = null
+    if (!payload.networks?.length || payload.networks.includes('solana')) {
+      try {
+        solana = await scanSolanaReferences(supabase)
+      } catch (error) {
+        console.error('Chain watcher failed on Solana Pay references:', error)
+        errors.solana = error.message
+      }
+    }
+
+    const expired = await expireStalePending(supabase)
+    const confirmations = await trackConfirmations(supabase)
+    const expiredIntents = await expireIntents(supabase)
+    const autoReleased = await releaseDueMilestones(supabase)
+
+    console.log('Chain watcher run:', { results, solana, expired, confirmations, expiredIntents, autoReleased, errors })
+    return jsonResponse({ success: true, results, solana, expired, confirmations, expiredIntents, autoReleased, errors }, 200)
+  } catch (error) {
+    console.error('Chain watcher error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,676 @@
+// The chain watcher's scan of each network and its bookkeeping, run by
+// index.ts and by tests/chain-watcher.test.ts against a local anvil node.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import {
+  SANDBOX_SHARES_NETWORKS,
+  VerificationError,
+  chainFor,
+  decodeTransfers,
+  formatUnits,
+  getBlockNumber,
+  getTransferLogs,
+  isEvmAddress,
+  parseUnits,
+  sameAddress,
+  type ChainConfig,
+  type RpcLog,
+  type TokenConfig,
+  type VerifiedTransfer,
+} from '../_shared/evm.ts'
+import {
+  TRACKED_COLUMNS,
+  initialConfirmationState,
+  refreshConfirmations,
+  type TrackedTransaction,
+} from '../_shared/confirmations.ts'
+import {
+  INTENT_COLUMNS,
+  SPLIT_PARENT_COLUMNS,
+  claimIntent,
+  discardUnverifiedClaim,
+  rateSnapshot,
+  recipientUnits,
+  recordSplitLines,
+  releaseIntent,
+  splitAmount,
+  verifySplits,
+  type PaymentIntentRecord,
+  type SplitParent,
+} from '../_shared/intents.ts'
+import { applyEscrowLogs, getEscrowLogs } from '../_shared/escrow.ts'
+import { toCurrency } from '../_shared/currencies.ts'
+import { defaultToken, findToken, verifyPayment } from '../_shared/payments.ts'
+import { getSignaturesForAddress, solanaFor, verifySolanaTransfer } from '../_shared/solana.ts'
+import {
+  INVOICE_COLUMNS,
+  OPEN_INVOICE_STATUSES,
+  RECEIVABLE_INVOICE_STATUSES,
+  applyInvoicePayment,
+  settleInvoice,
+  type InvoiceRecord,
+  type MerchantRecord,
+} from '../_shared/settlement.ts'
+
+const MAX_BLOCK_RANGE = Number(Deno.env.get('WATCHER_MAX_BLOCK_RANGE') || '2000')
+// Blocks to stay behind head, giving the pay pages time to register checkouts
+const BLOCK_LAG = Number(Deno.env.get('WATCHER_BLOCK_LAG') || '2')
+// Where to start on a network without a cursor; defaults to the current head
+const START_BLOCK = Deno.env.get('WATCHER_START_BLOCK')
+const PENDING_TIMEOUT_MINUTES = Number(Deno.env.get('WATCHER_PENDING_TIMEOUT_MINUTES') || '30')
+const RECIPIENTS_PER_QUERY = 50
+
+export interface MerchantWallet extends MerchantRecord {
+  id: string
+}
+
+interface WalletRow {
+  network: string
+  address: string
+  merchant: MerchantWallet | null
+}
+
+// A checkout record-payment registered before its transaction was mined
+interface PendingClaim {
+  id: string
+  status: string
+  amount: number
+  token: string | null
+  to_address: string
+  payment_intent_id: string | null
+  is_test: boolean
+}
+
+export interface SolanaResult {
+  intents: number
+  checkouts: number
+  invoices: number
+}
+
+export interface NetworkResult {
+  network: string
+  isTest: boolean
+  fromBlock: number
+  toBlock: number
+  transfers: number
+  checkouts: number
+  invoices: number
+  unmatched: number
+  unattributed: number
+  escrowEvents: number
+}
+
+// Merchants by receiving wallet, for each EVM network
+export async function loadMerchantWallets(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('merchant_wallets')
+    .select('network, address, merchant:profiles(id, merchant_name, email)')
+    .neq('network', 'solana')
+
+  if (error) throw error
+
+  const byNetwork = new Map<string, Map<string, MerchantWallet[]>>()
+  for (const wallet of (data || []) as unknown as WalletRow[]) {
+    if (!wallet.merchant || !isEvmAddress(wallet.address)) continue
+    const byWallet = byNetwork.get(wallet.network) || new Map<string, MerchantWallet[]>()
+    const key = wallet.address.toLowerCase()
+    byWallet.set(key, [...(byWallet.get(key) || []), wallet.merchant])
+    byNetwork.set(wallet.network, byWallet)
+  }
+  return byNetwork
+}
+
+async function fetchLogs(chain: ChainConfig, recipients: string[], fromBlock: number, toBlock: number) {
+  const logs: RpcLog[] = []
+  for (let i = 0; i < recipients.length; i += RECIPIENTS_PER_QUERY) {
+    logs.push(...await getTransferLogs(chain.rpcUrl, {
+      // Disabled tokens are still watched so in-flight payments complete
+      tokens: chain.tokens.map((token) => token.address),
+      recipients: recipients.slice(i, i + RECIPIENTS_PER_QUERY),
+      fromBlock,
+      toBlock,
+    }))
+  }
+  return logs
+}
+
+async function loadIntent(supabase: SupabaseClient, intentId: string) {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select(INTENT_COLUMNS)
+    .eq('id', intentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as PaymentIntentRecord | null
+}
+
+// Whether the transaction also paid every split leg of the intent; a
+// payment missing a leg is not the payment the intent asked for
+async function splitsPaid(intent: PaymentIntentRecord, token: TokenConfig, txHash: string, payer: string) {
+  if (intent.splits.length === 0) return true
+  try {
+    await verifySplits(intent, token, txHash, payer)
+    return true
+  } catch (error) {
+    if (error instanceof VerificationError) return false
+    throw error
+  }
+}
+
+// Whether the transaction makes the transfer a pending row was registered for
+async function claimPaid(network: string, txHash: string, claim: PendingClaim) {
+  // Rows registered before tokens were recorded paid the default token
+  const token = claim.token ? findToken(network, claim.token, claim.is_test) : defaultToken(network, claim.is_test)
+  if (!token) return false
+  try {
+    await verifyPayment({
+      network,
+      txHash,
+      recipient: claim.to_address,
+      token,
+      minAmount: parseUnits(Number(claim.amount), token.decimals),
+      isTest: claim.is_test,
+    })
+    return true
+  } catch (error) {
+    if (error instanceof VerificationError) return false
+    throw error
+  }
+}
+
+/**
+ * Records a transfer that pays an open intent nobody reported back: settles
+ * its invoice, or records the checkout it was created for.
+ */
+async function settleIntent(
+  supabase: SupabaseClient,
+  network: string,
+  intent: PaymentIntentRecord,
+  token: TokenConfig,
+  transfer: VerifiedTransfer,
+  merchants: MerchantWallet[],
+): Promise<'checkout' | 'invoice' | null> {
+  const { txHash, blockNumber, blockHash } = transfer
+  const paidAmount = Number(formatUnits(transfer.value, token.decimals))
+
+  const merchant = merchants.find((m) => m.id === intent.merchant_id)
+  if (!merchant || !await splitsPaid(intent, token, txHash, transfer.from)) return null
+
+  const split = intent.splits.length > 0 ? { amount: splitAmount(intent, token), intent } : undefined
+
+  if (intent.invoice_id) {
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select(INVOICE_COLUMNS)
+      .eq('id', intent.invoice_id)
+      .in('status', RECEIVABLE_INVOICE_STATUSES)
+      .maybeSingle()
+
+    if (!invoice) return null
+
+    const settled = await settleInvoice(supabase, invoice as InvoiceRecord, merchant, {
+      txHash,
+      network,
+      token: token.symbol,
+      amount: paidAmount,
+      fromAddress: transfer.from,
+      toAddress: transfer.to,
+      blockNumber,
+      blockHash,
+      intentId: intent.id,
+      split,
+      rate: intent,
+    })
+    return settled ? 'invoice' : null
+  }
+
+  if (!await claimIntent(supabase, intent.id, txHash, 'succeeded')) return null
+
+  const { data: line, error } = await supabase.from('transactions').insert({
+    merchant_id: intent.merchant_id,
+    payment_intent_id: intent.id,
+    product_id: intent.product_id,
+    quantity: intent.quantity,
+    amount: paidAmount,
+    transaction_type: 'credit',
+    customer_name: `${transfer.from.slice(0, 6)}...${transfer.from.slice(-4)}`,
+    reference_id: `${Date.now()}-${txHash.slice(0, 8)}`,
+    ...await initialConfirmationState(network, blockNumber, intent.is_test),
+    network,
+    token: token.symbol,
+    tx_hash: txHash,
+    block_number: blockNumber,
+    block_hash: blockHash,
+    from_address: transfer.from,
+    to_address: transfer.to,
+    is_test: intent.is_test,
+    split_amount: split?.amount ?? 0,
+    ...rateSnapshot(intent, paidAmount + (split?.amount ?? 0)),
+  }).select(SPLIT_PARENT_COLUMNS).single()
+
+  // 23505: record-payment recorded it concurrently
+  if (error && error.code !== '23505') throw error
+  if (line) await recordSplitLines(supabase, intent, line as SplitParent)
+  return 'checkout'
+}
+
+async function reconcileLog(
+  supabase: SupabaseClient,
+  network: string,
+  chain: ChainConfig,
+  log: RpcLog,
+  merchants: MerchantWallet[],
+  isTest: boolean,
+): Promise<'checkout' | 'invoice' | 'unmatched' | 'unattributed' | 'skipped'> {
+  const token = chain.tokens.find((candidate) => sameAddress(candidate.address, log.address))
+  const [transfer] = decodeTransfers([log])
+  if (!token || !transfer) return 'skipped'
+
+  // Escrow payouts are recorded from the escrow contract's own events
+  if (chain.escrow && sameAddress(transfer.from, chain.escrow)) return 'skipped'
+
+  const txHash = log.transactionHash.toLowerCase()
+  const blockNumber = Number(log.blockNumber)
+  const paidAmount = Number(formatUnits(transfer.value, token.decimals))
+
+  // 1. A checkout registered by record-payment before the tx was mined, or
+  //    a payment dropped by a reorg that has been mined again
+  const { data: existing } = await supabase
+    .from('transactions')
+    .select('id, status, amount, split_amount, exchange_rate, token, to_address, invoice_id, payment_intent_id, is_test')
+    .eq('tx_hash', txHash)
+    .is('split_of', null)
+    .maybeSingle()
+
+  if (existing) {
+    if (existing.status !== 'pending' && existing.status !== 'dropped') return 'skipped'
+
+    const intent = existing.payment_intent_id ? await loadIntent(supabase, existing.payment_intent_id) : null
+    const ownLog = existing.to_address === transfer.to
+    const matches = ownLog &&
+      (!existing.token || existing.token === token.symbol) &&
+      transfer.value >= parseUnits(Number(existing.amount), token.decimals) &&
+      (!intent || await splitsPaid(intent, token, txHash, transfer.from))
+
+    if (matches) {
+      const mined = {
+        ...await initialConfirmationState(network, blockNumber, existing.is_test),
+        block_number: blockNumber,
+        block_hash: log.blockHash,
+        from_address: transfer.from,
+      }
+
+      // Credited to its invoice at the rate the payment was quoted at
+      const fiatAmount = toCurrency(paidAmount + Number(existing.split_amount), Number(existing.exchange_rate))
+
+      const { data: line } = await supabase
+        .from('transactions')
+        .update({ ...mined, amount: paidAmount, fiat_amount: fiatAmount })
+        .eq('id', existing.id)
+        .eq('status', existing.status)
+        .select(SPLIT_PARENT_COLUMNS)
+        .maybeSingle()
+
+      if (line && intent) {
+        if (existing.status === 'dropped') {
+          await supabase.from('transactions').update(mined).eq('split_of', existing.id)
+        } else {
+          await recordSplitLines(supabase, intent, line as SplitParent)
+        }
+      }
+
+      // The payment was taken off its invoice when the transaction dropped;
+      // apply it again
+      if (existing.invoice_id && existing.status === 'dropped') {
+        await applyInvoicePayment(supabase, existing.invoice_id, fiatAmount, txHash, network, token.symbol)
+      }
+
+      if (existing.payment_intent_id) {
+        await claimIntent(supabase, existing.payment_intent_id, txHash, 'succeeded')
+      }
+      return 'checkout'
+    }
+
+    // Another transfer in the same transaction, such as a split leg: the
+    // row is reconciled from its own log, if the transaction makes it
+    if (!ownLog && (existing.status === 'dropped' || await claimPaid(network, txHash, existing))) {
+      return 'skipped'
+    }
+
+    // Verified once, but mined again differently
+    if (existing.status === 'dropped') {
+      await supabase.from('transactions').update({ status: 'failed' }).eq('id', existing.id).eq('status', 'dropped')
+      return 'skipped'
+    }
+
+    // Registered for a transfer the transaction does not make: the claim
+    // gives the hash up and the transfer is reconciled like any other
+    if (!await discardUnverifiedClaim(supabase, existing, txHash)) return 'skipped'
+  }
+
+  const { data: settledInvoice } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('tx_hash', txHash)
+    .maybeSingle()
+
+  if (settledInvoice) return 'skipped'
+
+  // 2. An open payment intent to this wallet for exactly this amount of this token
+  let intentQuery = supabase
+    .from('payment_intents')
+    .select(INTENT_COLUMNS)
+    .eq('recipient_address', transfer.to)
+    .eq('network', network)
+    .eq('token_address', transfer.token)
+    .eq('status', 'requires_payment')
+
+  // On a testnet deployment live and sandbox payments share chains
+  if (!SANDBOX_SHARES_NETWORKS) intentQuery = intentQuery.eq('is_test', isTest)
+
+  const { data: openIntents } = await intentQuery.order('created_at', { ascending: true })
+
+  // A split intent's wallet receives only the merchant's share
+  const intent = ((openIntents || []) as PaymentIntentRecord[]).find((candidate) =>
+    recipientUnits(candidate, token) === transfer.value
+  )
+
+  if (intent) {
+    const outcome = await settleIntent(
+      supabase,
+      network,
+      intent,
+      token,
+      { ...transfer, txHash, blockNumber, blockHash: log.blockHash },
+      merchants,
+    )
+    if (outcome) return outcome
+  }
+
+  // 3. An open invoice with exactly this amount still due, oldest first
+  let invoiceQuery = supabase
+    .from('invoices')
+    .select(INVOICE_COLUMNS)
+    .in('merchant_id', merchants.map((m) => m.id))
+    .in('status', OPEN_INVOICE_STATUSES)
+    // Escrow invoices are funded through the escrow contract, not paid directly
+    .eq('escrow', false)
+    // Other currencies need the rate an intent locked
+    .eq('currency', 'USD')
+
+  if (!SANDBOX_SHARES_NETWORKS) invoiceQuery = invoiceQuery.eq('is_test', isTest)
+
+  const { data: openInvoices } = await invoiceQuery.order('created_at', { ascending: true })
+
+  const invoice = ((openInvoices || []) as InvoiceRecord[]).find((inv) =>
+    (!inv.network || inv.network === network) &&
+    parseUnits(Number(inv.amount_due), token.decimals) === transfer.value
+  )
+
+  if (invoice) {
+    const merchant = merchants.find((m) => m.id === invoice.merchant_id)!
+    const settled = await settleInvoice(supabase, invoice, merchant, {
+      txHash,
+      network,
+      token: token.symbol,
+      amount: paidAmount,
+      fromAddress: transfer.from,
+      toAddress: transfer.to,
+      blockNumber,
+      blockHash: log.blockHash,
+    })
+    if (settled) return 'invoice'
+  }
+
+  // 4. A direct transfer nobody reported: still record the revenue, if the
+  //    wallet is one merchant's. With several there is no telling whose it is.
+  if (merchants.length !== 1) {
+    console.warn(`Unattributed ${token.symbol} transfer ${txHash} to ${transfer.to}, shared by ${merchants.length} merchants`)
+    return 'unattributed'
+  }
+
+  const { error } = await supabase.from('transactions').insert({
+    merchant_id: merchants[0].id,
+    amount: paidAmount,
+    transaction_type: 'credit',
+    customer_name: `${transfer.from.slice(0, 6)}...${transfer.from.slice(-4)}`,
+    reference_id: `${Date.now()}-${txHash.slice(0, 8)}`,
+    ...await initialConfirmationState(network, blockNumber, isTest),
+    network,
+    token: token.symbol,
+    tx_hash: txHash,
+    block_number: blockNumber,
+    block_hash: log.blockHash,
+    from_address: transfer.from,
+    to_address: transfer.to,
+    is_test: isTest,
+  })
+
+  // 23505: record-payment recorded it concurrently
+  if (error && error.code !== '23505') throw error
+  return 'unmatched'
+}
+
+export async function scanNetwork(
+  supabase: SupabaseClient,
+  network: string,
+  chain: ChainConfig,
+  merchantsByWallet: Map<string, MerchantWallet[]>,
+  isTest: boolean,
+): Promise<NetworkResult | null> {
+  const head = await getBlockNumber(chain.rpcUrl) - BLOCK_LAG
+
+  const { data: cursor, error: cursorError } = await supabase
+    .from('chain_cursors')
+    .select('last_block')
+    .eq('network', network)
+    .eq('is_test', isTest)
+    .maybeSingle()
+
+  if (cursorError) throw cursorError
+
+  const fromBlock = cursor ? Number(cursor.last_block) + 1 : Number(START_BLOCK ?? head)
+  if (fromBlock > head) return null
+
+  const toBlock = Math.min(head, fromBlock + MAX_BLOCK_RANGE - 1)
+  const result: NetworkResult = {
+    network, isTest, fromBlock, toBlock, transfers: 0, checkouts: 0, invoices: 0, unmatched: 0, unattributed: 0, escrowEvents: 0,
+  }
+
+  if (chain.escrow) {
+    const escrowLogs = await getEscrowLogs(chain, fromBlock, toBlock)
+    result.escrowEvents = await applyEscrowLogs(supabase, network, isTest, escrowLogs)
+  }
+
+  const recipients = [...merchantsByWallet.keys()]
+  if (recipients.length > 0) {
+    const logs = await fetchLogs(chain, recipients, fromBlock, toBlock)
+    result.transfers = logs.length
+
+    for (const log of logs) {
+      const to = `0x${log.topics[2].slice(26)}`.toLowerCase()
+      const outcome = await reconcileLog(supabase, network, chain, log, merchantsByWallet.get(to) || [], isTest)
+      if (outcome === 'checkout') result.checkouts++
+      if (outcome === 'invoice') result.invoices++
+      if (outcome === 'unmatched') result.unmatched++
+      if (outcome === 'unattributed') result.unattributed++
+    }
+  }
+
+  // Only advance once every log in the range has been handled
+  const { error: saveError } = await supabase
+    .from('chain_cursors')
+    .upsert(
+      { network, is_test: isTest, last_block: toBlock, updated_at: new Date().toISOString() },
+      { onConflict: 'network,is_test' },
+    )
+
+  if (saveError) throw saveError
+  return result
+}
+
+/**
+ * Open Solana intents paid through Solana Pay: finds the transfer by the
+ * intent's reference key, verifies it like record-payment would and settles
+ * the intent. Intents paid in the browser are already `processing`.
+ */
+export async function scanSolanaReferences(supabase: SupabaseClient): Promise<SolanaResult> {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select(INTENT_COLUMNS)
+    .eq('network', 'solana')
+    .eq('status', 'requires_payment')
+    .not('solana_reference', 'is', null)
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) throw error
+
+  const result: SolanaResult = { intents: 0, checkouts: 0, invoices: 0 }
+
+  for (const intent of (data || []) as PaymentIntentRecord[]) {
+    result.intents++
+    const token = findToken('solana', intent.token_address, intent.is_test)
+    if (!token) continue
+
+    const { rpcUrl } = solanaFor(intent.is_test)
+    const signatures = await getSignaturesForAddress(rpcUrl, intent.solana_reference!)
+
+    for (const { signature, err } of signatures.reverse()) {
+      if (err) continue
+
+      let transfer: VerifiedTransfer
+      try {
+        transfer = await verifySolanaTransfer({
+          signature,
+          recipient: intent.recipient_address,
+          token,
+          // Invoices take partial payments; checkouts and splits need the full amount
+          minAmount: intent.invoice_id && intent.splits.length === 0 ? 1n : recipientUnits(intent, token),
+          isTest: intent.is_test,
+        })
+      } catch (verifyError) {
+        if (verifyError instanceof VerificationError) continue
+        throw verifyError
+      }
+
+      const { data: merchant } = await supabase
+        .from('profiles')
+        .select('id, merchant_name, email')
+        .eq('id', intent.merchant_id)
+        .maybeSingle()
+
+      if (!merchant) break
+
+      const outcome = await settleIntent(supabase, 'solana', intent, token, transfer, [merchant as MerchantWallet])
+      if (outcome === 'checkout') result.checkouts++
+      if (outcome === 'invoice') result.invoices++
+      break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Pending checkouts that never showed up in a scanned block: verify them
+ * directly, and fail the ones whose transaction never made it on-chain.
+ */
+export async function expireStalePending(supabase: SupabaseClient) {
+  const cutoff = new Date(Date.now() - PENDING_TIMEOUT_MINUTES * 60 * 1000).toISOString()
+
+  const { data: stale, error } = await supabase
+    .from('transactions')
+    .select('id, network, token, tx_hash, amount, to_address, payment_intent_id, is_test')
+    .eq('status', 'pending')
+    .not('tx_hash', 'is', null)
+    .lt('created_at', cutoff)
+
+  if (error) throw error
+
+  let expired = 0
+  for (const tx of stale || []) {
+    // Rows registered before tokens were recorded paid the default token
+    const token = tx.token ? findToken(tx.network, tx.token, tx.is_test) : defaultToken(tx.network, tx.is_test)
+    if (!token) continue
+
+    const intent = tx.payment_intent_id ? await loadIntent(supabase, tx.payment_intent_id) : null
+
+    let update: Record<string, unknown>
+    try {
+      const transfer = await verifyPayment({
+        network: tx.network,
+        txHash: tx.tx_hash,
+        recipient: tx.to_address,
+        token,
+        minAmount: parseUnits(Number(tx.amount), token.decimals),
+        isTest: tx.is_test,
+      })
+      if (intent) await verifySplits(intent, token, tx.tx_hash, transfer.from)
+      update = {
+        ...await initialConfirmationState(tx.network, transfer.blockNumber, tx.is_test),
+        amount: Number(formatUnits(transfer.value, token.decimals)),
+        block_number: transfer.blockNumber,
+        block_hash: transfer.blockHash,
+        from_address: transfer.from,
+      }
+    } catch (verifyError) {
+      if (!(verifyError instanceof VerificationError)) throw verifyError
+      update = { status: 'failed' }
+      expired++
+    }
+
+    const { data: line } = await supabase
+      .from('transactions')
+      .update(update)
+      .eq('id', tx.id)
+      .eq('status', 'pending')
+      .select(SPLIT_PARENT_COLUMNS)
+      .maybeSingle()
+
+    if (intent && line && update.status !== 'failed') {
+      await recordSplitLines(supabase, intent, line as SplitParent)
+    }
+
+    if (tx.payment_intent_id) {
+      if (update.status === 'failed') {
+        await releaseIntent(supabase, tx.payment_intent_id, tx.tx_hash)
+      } else {
+        await claimIntent(supabase, tx.payment_intent_id, tx.tx_hash, 'succeeded')
+      }
+    }
+  }
+
+  return expired
+}
+
+/**
+ * Re-checks every confirming transaction against its network's head: bumps
+ * the confirmation count, finalises the ones past the threshold and drops
+ * the ones a reorg removed (reopening their invoice).
+ */
+export async function trackConfirmations(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(TRACKED_COLUMNS)
+    .eq('status', 'confirming')
+
+  if (error) throw error
+
+  const counts = { confirmed: 0, dropped: 0 }
+  const heads = new Map<string, number>()
+
+  for (const tx of (data || []) as TrackedTransaction[]) {
+    // Solana rows are refreshed from their signature status instead
+    const chain = chainFor(tx.network, tx.is_test)
+    const key = `${tx.network}:${tx.is_test}`
+    if (chain && !heads.has(key)) {
+      heads.set(key, await getBlockNumber(chain.rpcUrl))
+    }
+
+    const updated = await refreshConfirmations(supabase, tx, heads.get(key))
+    if (updated.status === 'confirmed') counts.confirmed++
+    if (updated.status === 'dropped' || updated.status === 'failed') counts.dropped++
+  }
+
+  return counts
+}
@@ -0,0 +1,134 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { JsonRpcProvider } from 'https://esm.sh/ethers@6.15.0'
+import { ENS_RPC_URL, isNameVerified, type NamedWallet } from '../_shared/names.ts'
+
+// Re-resolves the ENS names and Basenames of merchant wallets. Scheduled
+// hourly by pg_cron (see the merchant wallet names migration) with the
+// service role key, it checks every named wallet; Settings also calls it
+// with the merchant's session right after saving a name, to check just
+// theirs. Only this function sets name_address, so payers never see a name
+// the merchant vouched for themselves. A name that now points elsewhere is
+// only flagged: payments keep going to the stored address until the
+// merchant accepts the new one.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Scheduled runs check at most this many names, longest-unchecked first
+const BATCH_SIZE = 200
+
+interface WalletNameRow extends NamedWallet {
+  id: string
+  merchant_id: string
+  network: string
+  name: string
+}
+
+interface NameCheck {
+  network: string
+  name: string
+  address: string
+  name_address: string | null
+  verified: boolean
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+async function checkName(
+  supabase: SupabaseClient,
+  provider: JsonRpcProvider,
+  wallet: WalletNameRow,
+): Promise<NameCheck> {
+  let resolved: string | null = null
+  try {
+    resolved = (await provider.resolveName(wallet.name))?.toLowerCase() ?? null
+  } catch (error) {
+    // An RPC failure says nothing about the name; keep the last result
+    console.error(`Resolving ${wallet.name} failed:`, error)
+    return {
+      network: wallet.network,
+      name: wallet.name,
+      address: wallet.address,
+      name_address: wallet.name_address,
+      verified: isNameVerified(wallet),
+    }
+  }
+
+  const { error } = await supabase
+    .from('merchant_wallets')
+    .update({ name_address: resolved, name_checked_at: new Date().toISOString() })
+    .eq('id', wallet.id)
+    // The merchant may have changed the wallet while the name resolved
+    .eq('name', wallet.name)
+    .eq('address', wallet.address)
+
+  if (error) {
+    throw error
+  }
+
+  const checked = { ...wallet, name_address: resolved }
+  if (wallet.name_address === wallet.address && !isNameVerified(checked)) {
+    console.warn(`${wallet.name} no longer resolves to the ${wallet.network} wallet of merchant ${wallet.merchant_id}`)
+  }
+
+  return {
+    network: wallet.network,
+    name: wallet.name,
+    address: wallet.address,
+    name_address: resolved,
+    verified: isNameVerified(checked),
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    let query = supabase
+      .from('merchant_wallets')
+      .select('id, merchant_id, network, address, name, name_address')
+      .not('name', 'is', null)
+
+    // The scheduler checks everyone; a merchant only their own wallets
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (jwt === supabaseServiceKey) {
+      query = query.order('name_checked_at', { ascending: true, nullsFirst: true }).limit(BATCH_SIZE)
+    } else {
+      const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } }
+      if (!user) {
+        return jsonResponse({ error: 'Not signed in' }, 401)
+      }
+      query = query.eq('merchant_id', user.id)
+    }
+
+    const { data: wallets, error } = await query
+    if (error) {
+      throw error
+    }
+
+    const provider = new JsonRpcProvider(Deno.env.get('ENS_RPC_URL') || ENS_RPC_URL)
+    const checks: NameCheck[] = []
+    for (const wallet of (wallets || []) as WalletNameRow[]) {
+      checks.push(await checkName(supabase, provider, wallet))
+    }
+
+    return jsonResponse({ wallets: checks }, 200)
+  } catch (error) {
+    console.error('Error checking wallet names:', error)
+    return jsonResponse({ error: 'Failed to check wallet names' }, 500)
+  }
+})
@@ -0,0 +1,130 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError } from '../_shared/evm.ts'
+import { createPaymentIntent } from '../_shared/intents.ts'
+import { OPEN_INVOICE_STATUSES } from '../_shared/settlement.ts'
+
+// Called by the pay pages before the wallet prompt opens. The amount is
+// always priced here, from the product catalogue or the invoice, and
+// converted to stablecoin when it is priced in another currency.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface IntentRequest {
+  network: string
+  token?: string
+  merchantId?: string
+  productId?: string
+  quantity?: number
+  invoiceId?: string
+  customerEmail?: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: IntentRequest = await req.json()
+
+    console.log('Creating payment intent:', payload)
+
+    const network = payload.network || 'base'
+
+    if (payload.invoiceId) {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('id, merchant_id, amount_due, currency, status, description, split_rules, escrow, is_test')
+        .eq('id', payload.invoiceId)
+        .maybeSingle()
+
+      if (invoiceError || !invoice) {
+        return jsonResponse({ error: 'Invoice not found' }, 404)
+      }
+
+      if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+        return jsonResponse({ error: 'Invoice is not payable' }, 409)
+      }
+
+      // Escrow invoices are funded through the escrow contract (see escrow-terms)
+      if (invoice.escrow) {
+        return jsonResponse({ error: 'Escrow invoices are funded through the escrow contract' }, 409)
+      }
+
+      const intent = await createPaymentIntent(supabase, {
+        merchantId: invoice.merchant_id,
+        network,
+        token: payload.token,
+        // What is left after any partial payments
+        amount: Number(invoice.amount_due),
+        currency: invoice.currency,
+        invoiceId: invoice.id,
+        description: invoice.description,
+        customerEmail: payload.customerEmail,
+        // Sandbox invoices are paid on testnets
+        isTest: invoice.is_test,
+        splitRules: invoice.split_rules,
+      })
+
+      return jsonResponse({ success: true, intent }, 201)
+    }
+
+    if (!payload.merchantId || !payload.productId) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    const quantity = payload.quantity ?? 1
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000) {
+      return jsonResponse({ error: 'Invalid quantity' }, 400)
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, name, price, currency, split_rules')
+      .eq('id', payload.productId)
+      .eq('merchant_id', payload.merchantId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (productError || !product) {
+      return jsonResponse({ error: 'Product not found' }, 400)
+    }
+
+    const intent = await createPaymentIntent(supabase, {
+      merchantId: payload.merchantId,
+      network,
+      token: payload.token,
+      amount: Number(product.price) * quantity,
+      currency: product.currency,
+      productId: product.id,
+      quantity,
+      description: product.name,
+      customerEmail: payload.customerEmail,
+      splitRules: product.split_rules,
+    })
+
+    return jsonResponse({ success: true, intent }, 201)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error creating payment intent:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
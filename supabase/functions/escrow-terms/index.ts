@@ -0,0 +1,91 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError } from '../_shared/evm.ts'
+import {
+  ESCROW_INVOICE_COLUMNS,
+  FUNDABLE_INVOICE_STATUSES,
+  escrowTerms,
+  type EscrowInvoice,
+} from '../_shared/escrow.ts'
+
+// Called by the invoice page before the client funds an escrow invoice: the
+// fund() arguments the deposit must carry for sync-escrow and chain-watcher
+// to accept it. Amounts are priced here, from the invoice's milestones.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface TermsRequest {
+  invoiceId: string
+  network: string
+  token?: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: TermsRequest = await req.json()
+
+    if (!payload.invoiceId || !payload.network) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select(ESCROW_INVOICE_COLUMNS)
+      .eq('id', payload.invoiceId)
+      .maybeSingle()
+
+    if (invoiceError || !invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404)
+    }
+
+    if (!invoice.escrow) {
+      return jsonResponse({ error: 'Invoice is not an escrow invoice' }, 400)
+    }
+
+    if (!FUNDABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      return jsonResponse({ error: 'Invoice can no longer be funded' }, 409)
+    }
+
+    const terms = await escrowTerms(supabase, invoice as EscrowInvoice, payload.network, payload.token)
+
+    return jsonResponse({
+      success: true,
+      terms: {
+        contract: terms.contract,
+        ref: terms.ref,
+        token: terms.token.symbol,
+        token_address: terms.token.address,
+        decimals: terms.token.decimals,
+        merchant: terms.merchant,
+        // Base units, as strings to survive JSON
+        amounts: terms.amounts.map(String),
+        release_after: terms.releaseAfter,
+      },
+    }, 200)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error preparing escrow terms:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,68 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import {
+  TRACKED_COLUMNS,
+  refreshConfirmations,
+  type TrackedTransaction,
+} from '../_shared/confirmations.ts'
+import { isPaymentTxHash, normalizeTxHash } from '../_shared/payments.ts'
+
+// Polled by the success page while a payment is confirming. Refreshes the
+// row on the spot so the payer does not wait for the next chain-watcher run.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface StatusRequest {
+  txHash: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: StatusRequest = await req.json()
+
+    if (!payload.txHash || !isPaymentTxHash(payload.txHash)) {
+      return jsonResponse({ error: 'Invalid transaction hash' }, 400)
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select(TRACKED_COLUMNS)
+      .eq('tx_hash', normalizeTxHash(payload.txHash))
+      .is('split_of', null)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return jsonResponse({ error: 'Transaction not found' }, 404)
+    }
+
+    const tx = await refreshConfirmations(supabase, data as TrackedTransaction)
+
+    return jsonResponse({
+      status: tx.status,
+      confirmations: tx.confirmations,
+      required_confirmations: tx.required_confirmations,
+    }, 200)
+
+  } catch (error) {
+    console.error('Error reading payment status:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
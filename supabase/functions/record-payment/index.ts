@@ -1,4 +1,17 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, formatUnits } from '../_shared/evm.ts'
+import { initialConfirmationState } from '../_shared/confirmations.ts'
+import {
+  claimIntent,
+  discardUnverifiedClaim,
+  loadPayableIntent,
+  rateSnapshot,
+  recipientUnits,
+  recordSplitLines,
+  splitAmount,
+  verifySplits,
+} from '../_shared/intents.ts'
+import { findToken, isPaymentTxHash, normalizeTxHash, verifyPayment } from '../_shared/payments.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': 'https://ravgateway.com',
@@ -7,16 +20,17 @@ const corsHeaders = {
 }
 
 interface PaymentRequest {
-  merchantId: string
-  amount: number
+  intentId: string
   customerName: string
-  productId?: string
   txHash: string
-  blockNumber: number
-  fromAddress: string
-  toAddress: string
 }
 
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
 Deno.serve(async (req) => {
   // Handle preflight (CORS)
   if (req.method === 'OPTIONS') {
@@ -33,50 +47,171 @@ Deno.serve(async (req) => {
     console.log('Recording payment:', payload)
 
     // Validate inputs
-    if (!payload.merchantId || !payload.amount || !payload.customerName || !payload.txHash) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!payload.intentId || !payload.customerName || !payload.txHash) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    if (!isPaymentTxHash(payload.txHash)) {
+      return jsonResponse({ error: 'Invalid transaction hash' }, 400)
+    }
+
+    // Solana signatures are case-sensitive base58
+    const txHash = normalizeTxHash(payload.txHash)
+
+    // Amount, token, network and recipient all come from the intent
+    const intent = await loadPayableIntent(supabase, payload.intentId, txHash)
+    if (intent.invoice_id) {
+      return jsonResponse({ error: 'Invoice payments are settled by settle-invoice' }, 400)
     }
 
-    if (payload.amount <= 0 || payload.amount > 1000000) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid amount' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    const network = intent.network
+    const token = findToken(network, intent.token_address, intent.is_test)
+    if (!token) {
+      return jsonResponse({ error: 'Unsupported token' }, 400)
     }
 
-    const referenceId = `${Date.now()}-${payload.txHash.slice(0, 8)}`
+    // A transaction hash can only ever pay for one checkout. A pending row
+    // for the same intent is this checkout registered before mining; one
+    // for another intent was never verified and gives way to a verified
+    // payment (see discardUnverifiedClaim)
+    const { data: existing } = await supabase
+      .from('transactions')
+      .select('id, payment_intent_id, status, reference_id, block_number')
+      .eq('tx_hash', txHash)
+      .is('split_of', null)
+      .maybeSingle()
+
+    const registered = existing?.status === 'pending' && existing.payment_intent_id === intent.id ? existing : null
+    const unverified = existing && !registered && existing.block_number === null &&
+      (existing.status === 'pending' || existing.status === 'failed')
+      ? existing
+      : null
+
+    if (existing && !registered && !unverified) {
+      return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+    }
 
-    const { data, error } = await supabase.from('transactions').insert({
-      merchant_id: payload.merchantId,
-      amount: payload.amount,
+    const referenceId = registered?.reference_id ?? `${Date.now()}-${payload.txHash.slice(0, 8)}`
+    const checkout = {
+      merchant_id: intent.merchant_id,
+      payment_intent_id: intent.id,
       transaction_type: 'credit',
       customer_name: payload.customerName,
       reference_id: referenceId,
-      status: 'completed',
-      product_id: payload.productId || null,
-    }).select().single()
+      product_id: intent.product_id,
+      quantity: intent.quantity,
+      network,
+      token: token.symbol,
+      tx_hash: txHash,
+      is_test: intent.is_test,
+      split_amount: splitAmount(intent, token),
+    }
+
+    // With split legs the intent's wallet receives only the merchant's share
+    const share = recipientUnits(intent, token)
+
+    let transfer
+    try {
+      transfer = await verifyPayment({
+        network,
+        txHash,
+        recipient: intent.recipient_address,
+        token,
+        minAmount: share,
+        isTest: intent.is_test,
+      })
+    } catch (error) {
+      if (!(error instanceof VerificationError) || error.status !== 404) throw error
+
+      // Not mined yet: register the checkout so chain-watcher can complete
+      // it even if the payer closes the page before confirmation. While
+      // another claim holds the hash, chain-watcher settles this intent from
+      // the transfer itself once it is mined.
+      if (registered || unverified) {
+        return jsonResponse({ success: true, pending: true, reference_id: referenceId }, 202)
+      }
+
+      if (!await claimIntent(supabase, intent.id, txHash, 'processing')) {
+        return jsonResponse({ error: 'Payment intent has already been paid' }, 409)
+      }
+
+      const { data, error: insertError } = await supabase.from('transactions').insert({
+        ...checkout,
+        ...rateSnapshot(intent, Number(intent.amount)),
+        amount: Number(formatUnits(share, token.decimals)),
+        status: 'pending',
+        to_address: intent.recipient_address,
+      }).select().single()
+
+      if (insertError) {
+        if (insertError.code === '23505') {
+          return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+        }
+        console.error('Database error:', insertError)
+        return jsonResponse({ error: 'Failed to record transaction' }, 500)
+      }
+
+      return jsonResponse({ success: true, pending: true, reference_id: referenceId, transaction: data }, 202)
+    }
+
+    await verifySplits(intent, token, txHash, transfer.from)
+
+    // Mined and verified: confirming until the network's threshold is reached
+    const paid = Number(formatUnits(transfer.value, token.decimals))
+    const verified = {
+      ...checkout,
+      ...await initialConfirmationState(network, transfer.blockNumber, intent.is_test),
+      ...rateSnapshot(intent, paid + checkout.split_amount),
+      amount: paid,
+      block_number: transfer.blockNumber,
+      block_hash: transfer.blockHash,
+      from_address: transfer.from,
+      to_address: transfer.to,
+    }
+
+    // The transaction pays this intent, not the one the other row claimed
+    if (unverified && !await discardUnverifiedClaim(supabase, unverified, txHash)) {
+      return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+    }
+
+    if (!await claimIntent(supabase, intent.id, txHash, 'succeeded')) {
+      return jsonResponse({ error: 'Payment intent has already been paid' }, 409)
+    }
+
+    const { data, error } = registered
+      ? await supabase.from('transactions')
+          .update(verified)
+          .eq('id', registered.id)
+          .eq('status', 'pending')
+          .select()
+          .maybeSingle()
+      : await supabase.from('transactions').insert(verified).select().single()
 
     if (error) {
+      // Unique violation on tx_hash: a concurrent request won the race
+      if (error.code === '23505') {
+        return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+      }
       console.error('Database error:', error)
-      return new Response(
-        JSON.stringify({ error: 'Failed to record transaction' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Failed to record transaction' }, 500)
+    }
+
+    // chain-watcher verified the pending row between our read and update
+    if (!data) {
+      return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
     }
 
-    return new Response(
-      JSON.stringify({ success: true, reference_id: referenceId, transaction: data }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    await recordSplitLines(supabase, intent, data)
+
+    return jsonResponse({ success: true, reference_id: referenceId, transaction: data }, 200)
 
   } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Payment verification failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
     console.error('Error processing payment:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({ error: 'Internal server error' }, 500)
   }
 })
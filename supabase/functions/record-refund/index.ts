@@ -0,0 +1,253 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, parseUnits, sameAddress } from '../_shared/evm.ts'
+import { initialConfirmationState } from '../_shared/confirmations.ts'
+import { findToken, isPaymentTxHash, isSolana, normalizeTxHash, verifyPayment } from '../_shared/payments.ts'
+
+// Called by the dashboard once the merchant's wallet has sent a refund back
+// to the payer. The transfer is verified on-chain like a payment, then
+// recorded as a debit linked to the credit it refunds.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface RefundRequest {
+  transactionId: string
+  txHash: string
+  amount: number
+}
+
+interface RefundedCredit {
+  merchant_id: string
+  invoice_id: string | null
+  payment_intent_id: string | null
+  customer_name: string
+}
+
+interface RefundDebit {
+  amount: number
+  tx_hash: string
+  network: string
+  reference_id: string
+  is_test: boolean
+  created_at: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Only the merchant who received the payment can refund it
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } }
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    const payload: RefundRequest = await req.json()
+
+    console.log('Recording refund:', payload)
+
+    if (!payload.transactionId || !payload.txHash || !(Number(payload.amount) > 0)) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    if (!isPaymentTxHash(payload.txHash)) {
+      return jsonResponse({ error: 'Invalid transaction hash' }, 400)
+    }
+
+    const txHash = normalizeTxHash(payload.txHash)
+    const amount = Number(payload.amount)
+
+    const { data: credit, error: creditError } = await supabase
+      .from('transactions')
+      .select('id, merchant_id, invoice_id, payment_intent_id, amount, refunded_amount, status, network, token, from_address, to_address, customer_name, reference_id, is_test')
+      .eq('id', payload.transactionId)
+      .eq('merchant_id', user.id)
+      .eq('transaction_type', 'credit')
+      .maybeSingle()
+
+    if (creditError || !credit) {
+      return jsonResponse({ error: 'Transaction not found' }, 404)
+    }
+
+    if (credit.status !== 'confirmed' && credit.status !== 'confirming') {
+      return jsonResponse({ error: 'Only verified payments can be refunded' }, 409)
+    }
+
+    if (!credit.network || !credit.token || !credit.from_address) {
+      return jsonResponse({ error: 'Payment has no payer address to refund' }, 400)
+    }
+
+    if (amount > Number(credit.amount) - Number(credit.refunded_amount)) {
+      return jsonResponse({ error: 'Refund exceeds the amount left to refund' }, 409)
+    }
+
+    const token = findToken(credit.network, credit.token, credit.is_test)
+    if (!token) {
+      return jsonResponse({ error: 'Unsupported token' }, 400)
+    }
+
+    const { data: recorded } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('tx_hash', txHash)
+      .is('split_of', null)
+      .maybeSingle()
+
+    if (recorded) {
+      return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+    }
+
+    // The refund goes back to the payer, in the token they paid with
+    const transfer = await verifyPayment({
+      network: credit.network,
+      txHash,
+      recipient: credit.from_address,
+      token,
+      minAmount: parseUnits(amount, token.decimals),
+      isTest: credit.is_test,
+    })
+
+    // ...from the wallet that received the payment
+    const fromMerchant = isSolana(credit.network)
+      ? transfer.from === credit.to_address
+      : sameAddress(transfer.from, credit.to_address)
+
+    if (!fromMerchant) {
+      return jsonResponse({ error: 'Refund was not sent from the wallet that received the payment' }, 400)
+    }
+
+    // Checked again atomically, in case two refunds race
+    const { data: refunded, error: refundError } = await supabase
+      .rpc('apply_refund', { p_transaction_id: credit.id, p_amount: amount })
+      .maybeSingle()
+
+    if (refundError) throw refundError
+    if (!refunded) {
+      return jsonResponse({ error: 'Refund exceeds the amount left to refund' }, 409)
+    }
+
+    const { data: debit, error: debitError } = await supabase.from('transactions').insert({
+      merchant_id: credit.merchant_id,
+      invoice_id: credit.invoice_id,
+      refund_of: credit.id,
+      amount,
+      transaction_type: 'debit',
+      customer_name: credit.customer_name,
+      reference_id: `REFUND-${credit.reference_id}`,
+      network: credit.network,
+      token: token.symbol,
+      tx_hash: txHash,
+      block_number: transfer.blockNumber,
+      block_hash: transfer.blockHash,
+      from_address: transfer.from,
+      to_address: transfer.to,
+      is_test: credit.is_test,
+      ...await initialConfirmationState(credit.network, transfer.blockNumber, credit.is_test),
+    }).select().single()
+
+    if (debitError) {
+      await supabase.rpc('revert_refund', { p_transaction_id: credit.id, p_amount: amount })
+      if (debitError.code === '23505') {
+        return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+      }
+      console.error('Database error:', debitError)
+      return jsonResponse({ error: 'Failed to record refund' }, 500)
+    }
+
+    await sendRefundReceipt(supabase, credit, debit, token.symbol)
+
+    return jsonResponse({
+      success: true,
+      refund: debit,
+      refunded_amount: Number(refunded.refunded_amount),
+    }, 200)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Refund verification failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error recording refund:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
+
+/** Refund receipt to the payer (when their email is known) and the merchant. */
+async function sendRefundReceipt(
+  supabase: SupabaseClient,
+  credit: RefundedCredit,
+  debit: RefundDebit,
+  token: string,
+) {
+  const { data: merchant } = await supabase
+    .from('profiles')
+    .select('merchant_name, email')
+    .eq('id', credit.merchant_id)
+    .maybeSingle()
+
+  if (!merchant) return
+
+  // The payer's email is on the invoice or the checkout's intent
+  let customerEmail: string | undefined
+  let productName = 'Payment'
+  if (credit.invoice_id) {
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('invoice_number, client_email')
+      .eq('id', credit.invoice_id)
+      .maybeSingle()
+    customerEmail = invoice?.client_email
+    if (invoice) productName = `Invoice ${invoice.invoice_number}`
+  } else if (credit.payment_intent_id) {
+    const { data: intent } = await supabase
+      .from('payment_intents')
+      .select('customer_email, description')
+      .eq('id', credit.payment_intent_id)
+      .maybeSingle()
+    customerEmail = intent?.customer_email ?? undefined
+    if (intent?.description) productName = intent.description
+  }
+
+  // Receipts are best-effort once the refund is recorded
+  const { error } = await supabase.functions.invoke('send-receipt-email', {
+    body: {
+      type: 'refund',
+      customerName: credit.customer_name,
+      customerEmail,
+      merchantName: merchant.merchant_name,
+      merchantEmail: merchant.email,
+      productName,
+      quantity: 1,
+      unitPrice: Number(debit.amount),
+      totalAmount: Number(debit.amount),
+      txHash: debit.tx_hash,
+      network: debit.network,
+      token,
+      isTest: debit.is_test,
+      referenceId: debit.reference_id,
+      paymentDate: new Date(debit.created_at).toLocaleString(),
+    },
+  })
+
+  if (error) {
+    console.error('Refund receipt failed:', error)
+  }
+}
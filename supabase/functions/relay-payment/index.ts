@@ -0,0 +1,157 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, chainFor, isEvmAddress, parseUnits } from '../_shared/evm.ts'
+import { loadPayableIntent } from '../_shared/intents.ts'
+import { findToken } from '../_shared/payments.ts'
+import {
+  relayPermit,
+  relayTransferWithAuthorization,
+  relayerWallet,
+  type PermitAuthorization,
+  type RelayedTransfer,
+  type TransferAuthorization,
+} from '../_shared/relayer.ts'
+
+// "Pay without gas": called by the pay pages in two steps. With only an
+// intent id it says which signature to request (and which relayer a permit
+// approves); with the signature it relays the payment and returns the mined
+// transaction hash, which the page then reports like any other payment.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface RelayRequest {
+  intentId: string
+  authorization?: TransferAuthorization
+  permit?: PermitAuthorization
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: RelayRequest = await req.json()
+
+    if (!payload.intentId) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    const intent = await loadPayableIntent(supabase, payload.intentId, '')
+    if (intent.status !== 'requires_payment') {
+      return jsonResponse({ error: 'Payment intent is already being paid' }, 409)
+    }
+
+    // The relayer signs for one transfer; split legs go through RavSplitter
+    if (intent.splits.length > 0) {
+      return jsonResponse({ error: 'Gasless payments are not available for split payments' }, 400)
+    }
+
+    const chain = chainFor(intent.network, intent.is_test)
+    const token = findToken(intent.network, intent.token_address, intent.is_test)
+    if (!chain || !token?.gasless) {
+      return jsonResponse({ error: `Gasless payments are not available for ${intent.token} on ${intent.network}` }, 400)
+    }
+
+    const relayer = relayerWallet(chain)
+
+    // Step 1: what the payer should sign
+    if (!payload.authorization && !payload.permit) {
+      return jsonResponse({
+        standard: token.gasless,
+        relayer: relayer.address,
+        chainId: chain.chainId,
+        token: token.address,
+        recipient: intent.recipient_address,
+        value: parseUnits(Number(intent.amount), token.decimals).toString(),
+        validBefore: Math.floor(new Date(intent.expires_at).getTime() / 1000),
+      }, 200)
+    }
+
+    // Step 2: relay exactly the intent's amount, to the intent's wallet
+    const expected = parseUnits(Number(intent.amount), token.decimals)
+    const signed = token.gasless === 'eip3009' ? payload.authorization : payload.permit
+    if (!signed) {
+      return jsonResponse({ error: `${token.symbol} expects an ${token.gasless.toUpperCase()} signature` }, 400)
+    }
+
+    const payer = 'from' in signed ? signed.from : signed.owner
+    if (!isEvmAddress(payer) || BigInt(signed.value) !== expected) {
+      return jsonResponse({ error: 'Signed authorization does not match the payment intent' }, 400)
+    }
+
+    const { data: merchant } = await supabase
+      .from('profiles')
+      .select('gasless_billing')
+      .eq('id', intent.merchant_id)
+      .maybeSingle()
+
+    // Also the lock: only one relay per intent at a time
+    const { data: relay, error: relayError } = await supabase
+      .from('relayed_payments')
+      .insert({
+        payment_intent_id: intent.id,
+        merchant_id: intent.merchant_id,
+        network: intent.network,
+        token: token.symbol,
+        standard: token.gasless,
+        payer_address: payer.toLowerCase(),
+        relayer_address: relayer.address.toLowerCase(),
+        billed_to_merchant: merchant?.gasless_billing ?? false,
+        is_test: intent.is_test,
+      })
+      .select('id')
+      .single()
+
+    if (relayError?.code === '23505') {
+      return jsonResponse({ error: 'Payment is already being relayed' }, 409)
+    }
+    if (relayError) throw relayError
+
+    let relayed: RelayedTransfer
+    try {
+      relayed = token.gasless === 'eip3009'
+        ? await relayTransferWithAuthorization(chain, token, intent.recipient_address, signed as TransferAuthorization)
+        : await relayPermit(chain, token, intent.recipient_address, signed as PermitAuthorization)
+    } catch (error) {
+      await supabase.from('relayed_payments').update({ status: 'failed' }).eq('id', relay.id)
+      throw error
+    }
+
+    await supabase
+      .from('relayed_payments')
+      .update({
+        status: 'mined',
+        tx_hash: relayed.txHash,
+        gas_used: relayed.gasUsed.toString(),
+        gas_cost_wei: relayed.gasCost.toString(),
+      })
+      .eq('id', relay.id)
+
+    console.log('Relayed payment:', intent.id, relayed.txHash)
+
+    return jsonResponse({ success: true, txHash: relayed.txHash }, 200)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Relay rejected:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error relaying payment:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,122 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { z } from 'https://esm.sh/zod@3.25.76'
+import { sendAccountEmail } from '../_shared/email.ts'
+import { isWalletLoginEmail } from '../_shared/siwe.ts'
+
+// Emails merchants when an API key reaches 80% or 100% of its monthly
+// quota. consume_api_rate_limit queues the alerts in api_quota_alerts;
+// pg_cron calls this every five minutes with the service role key to send
+// the pending ones.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const APP_URL = Deno.env.get('APP_URL') || 'https://www.ravgateway.com'
+const BATCH_SIZE = 50
+
+// A pending alert with the key it is about, as selected below
+const quotaAlert = z.object({
+  id: z.string(),
+  period_start: z.string(),
+  threshold: z.number(),
+  calls: z.number(),
+  quota: z.number(),
+  api_keys: z.object({ name: z.string().nullable(), key_prefix: z.string(), profile_id: z.string() }).nullable(),
+})
+
+type QuotaAlert = z.infer<typeof quotaAlert>
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const periodEnd = (periodStart: string) => {
+  const end = new Date(periodStart)
+  end.setUTCMonth(end.getUTCMonth() + 1)
+  return end.toUTCString().slice(0, 16)
+}
+
+async function sendAlert(supabase: SupabaseClient, alert: QuotaAlert) {
+  const key = alert.api_keys
+  const { data: { user } } = key ? await supabase.auth.admin.getUserById(key.profile_id) : { data: { user: null } }
+
+  // Wallet sign-in accounts have nowhere to send it
+  if (!key || !user?.email || isWalletLoginEmail(user.email)) {
+    console.warn(`Quota alert ${alert.id} has no email to go to`)
+    return false
+  }
+
+  const keyLabel = `${key.name || 'Unnamed key'} (${key.key_prefix}...)`
+  const reached = alert.threshold === 100
+  await sendAccountEmail({
+    to: user.email,
+    subject: reached
+      ? `Your API key ${key.name || key.key_prefix} has used its monthly quota`
+      : `Your API key ${key.name || key.key_prefix} has used ${alert.threshold}% of its monthly quota`,
+    html: `
+      <p>Your RavGateway API key <strong>${keyLabel}</strong> has made ${alert.calls.toLocaleString('en-US')} of its ${alert.quota.toLocaleString('en-US')} requests this month.</p>
+      <p>${reached
+        ? 'Further requests are rejected with <code>429 rate_limited</code>'
+        : 'Once the quota is used, further requests are rejected with <code>429 rate_limited</code>'} until the quota resets on ${periodEnd(alert.period_start)}.</p>
+      <p>See usage or create a key on a higher tier on the <a href="${APP_URL}/apikeys">API Keys page</a>.</p>
+    `,
+  })
+  return true
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Only the scheduler sends alerts
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (jwt !== supabaseServiceKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const { data, error } = await supabase
+      .from('api_quota_alerts')
+      .select('id, period_start, threshold, calls, quota, api_keys(name, key_prefix, profile_id)')
+      .is('notified_at', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (error) {
+      throw error
+    }
+
+    const alerts = z.array(quotaAlert).parse(data || [])
+
+    let sent = 0
+    for (const alert of alerts) {
+      try {
+        if (await sendAlert(supabase, alert)) sent++
+      } catch (sendError) {
+        // Left pending for the next run
+        console.error(`Failed to send quota alert ${alert.id}:`, sendError)
+        continue
+      }
+
+      await supabase
+        .from('api_quota_alerts')
+        .update({ notified_at: new Date().toISOString() })
+        .eq('id', alert.id)
+    }
+
+    return jsonResponse({ alerts: alerts.length, sent }, 200)
+  } catch (error) {
+    console.error('Error sending quota alerts:', error)
+    return jsonResponse({ error: 'Failed to send quota alerts' }, 500)
+  }
+})
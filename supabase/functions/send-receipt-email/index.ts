@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { explorerTxUrl, networksFor, type Network } from '../_shared/networks.ts'
+
+const NETWORKS = networksFor(Deno.env.get('NETWORK_PROFILE'))
+// Sandbox payments are made on testnets
+const TEST_NETWORKS = networksFor('testnet')
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': 'https://ravgateway.com',
@@ -8,6 +13,8 @@ const corsHeaders = {
 }
 
 interface ReceiptData {
+  // Refund receipts are sent by record-refund; the amounts are the refund's
+  type?: 'payment' | 'refund'
   customerName: string
   customerEmail?: string
   merchantName: string
@@ -18,13 +25,19 @@ interface ReceiptData {
   totalAmount: number
   txHash: string
   network: string
+  token?: string
+  isTest?: boolean
   referenceId: string
   paymentDate: string
 }
 
 const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
   const recipient = isCustomer ? data.customerName : data.merchantName
-  const greeting = isCustomer ? "Thank you for your purchase!" : "You received a payment!"
+  const isRefund = data.type === 'refund'
+  const greeting = isRefund
+    ? (isCustomer ? "Your refund is on its way!" : "You sent a refund.")
+    : (isCustomer ? "Thank you for your purchase!" : "You received a payment!")
+  const network = (data.isTest ? TEST_NETWORKS : NETWORKS)[data.network as Network]
   
   return `
 <!DOCTYPE html>
@@ -32,7 +45,7 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Payment Receipt</title>
+  <title>${isRefund ? 'Refund Receipt' : 'Payment Receipt'}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
   <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
@@ -44,7 +57,7 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
           <tr>
             <td style="background: linear-gradient(135deg, #06b6d4 0%, #22d3ee 100%); padding: 40px 30px; text-align: center;">
               <img src="https://your-domain.com/logo.png" alt="RAV Logo" style="width: 120px; height: auto; margin-bottom: 20px;" />
-              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">Payment Receipt</h1>
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">${isRefund ? 'Refund Receipt' : 'Payment Receipt'}</h1>
               <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0; font-size: 16px;">${greeting}</p>
             </td>
           </tr>
@@ -62,7 +75,7 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
               <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9fafb; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
                 <tr>
                   <td>
-                    <h2 style="color: #1f2937; font-size: 18px; font-weight: 600; margin: 0 0 20px 0;">Payment Details</h2>
+                    <h2 style="color: #1f2937; font-size: 18px; font-weight: 600; margin: 0 0 20px 0;">${isRefund ? 'Refund Details' : 'Payment Details'}</h2>
                     
                     <table width="100%" cellpadding="8" cellspacing="0">
                       ${isCustomer ? `
@@ -80,6 +93,7 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
                         <td style="color: #6b7280; font-size: 14px; padding: 8px 0;">Product/Service:</td>
                         <td style="color: #1f2937; font-size: 14px; font-weight: 600; text-align: right; padding: 8px 0;">${data.productName}</td>
                       </tr>
+                      ${isRefund ? '' : `
                       <tr>
                         <td style="color: #6b7280; font-size: 14px; padding: 8px 0;">Quantity:</td>
                         <td style="color: #1f2937; font-size: 14px; font-weight: 600; text-align: right; padding: 8px 0;">${data.quantity}</td>
@@ -88,8 +102,9 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
                         <td style="color: #6b7280; font-size: 14px; padding: 8px 0;">Unit Price:</td>
                         <td style="color: #1f2937; font-size: 14px; font-weight: 600; text-align: right; padding: 8px 0;">$${data.unitPrice.toFixed(2)}</td>
                       </tr>
+                      `}
                       <tr style="border-top: 2px solid #e5e7eb;">
-                        <td style="color: #1f2937; font-size: 18px; font-weight: 700; padding: 16px 0 8px 0;">Total Amount:</td>
+                        <td style="color: #1f2937; font-size: 18px; font-weight: 700; padding: 16px 0 8px 0;">${isRefund ? 'Amount Refunded:' : 'Total Amount:'}</td>
                         <td style="color: #06b6d4; font-size: 24px; font-weight: 700; text-align: right; padding: 16px 0 8px 0;">$${data.totalAmount.toFixed(2)}</td>
                       </tr>
                     </table>
@@ -109,20 +124,28 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
                       </tr>
                       <tr>
                         <td style="color: #1e40af; font-size: 13px;">Network:</td>
-                        <td style="color: #1e3a8a; font-size: 13px; font-weight: 600; text-align: right;">${data.network === 'celo' ? 'Celo' : 'Base'} Testnet</td>
+                        <td style="color: #1e3a8a; font-size: 13px; font-weight: 600; text-align: right;">${network?.name ?? data.network}</td>
+                      </tr>
+                      ${data.token ? `
+                      <tr>
+                        <td style="color: #1e40af; font-size: 13px;">${isRefund ? 'Refunded In:' : 'Paid In:'}</td>
+                        <td style="color: #1e3a8a; font-size: 13px; font-weight: 600; text-align: right;">${data.token}</td>
                       </tr>
+                      ` : ''}
                       <tr>
                         <td style="color: #1e40af; font-size: 13px;">Date:</td>
                         <td style="color: #1e3a8a; font-size: 13px; font-weight: 600; text-align: right;">${data.paymentDate}</td>
                       </tr>
+                      ${network ? `
                       <tr>
                         <td colspan="2" style="padding-top: 12px;">
-                          <a href="${data.network === 'celo' ? 'https://celo-sepolia.blockscout.com' : 'https://sepolia.basescan.org'}/tx/${data.txHash}" 
+                          <a href="${explorerTxUrl(network, data.txHash)}" 
                              style="display: inline-block; background-color: #06b6d4; color: #ffffff; text-decoration: none; padding: 10px 20px; border-radius: 6px; font-size: 14px; font-weight: 600;">
                             View on Blockchain Explorer →
                           </a>
                         </td>
                       </tr>
+                      ` : ''}
                     </table>
                   </td>
                 </tr>
@@ -130,9 +153,13 @@ const generateReceiptHTML = (data: ReceiptData, isCustomer: boolean) => {
 
               <!-- Footer Message -->
               <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 0;">
-                ${isCustomer 
-                  ? 'This payment was processed securely on the blockchain. Your transaction is immutable and publicly verifiable.'
-                  : 'The funds have been sent to your connected wallet. You can verify the transaction on the blockchain explorer.'
+                ${isRefund
+                  ? (isCustomer
+                    ? 'The refund was sent to the wallet you paid from. You can verify the transaction on the blockchain explorer.'
+                    : 'The refund was sent from your wallet to the payer and verified on the blockchain.')
+                  : isCustomer 
+                    ? 'This payment was processed securely on the blockchain. Your transaction is immutable and publicly verifiable.'
+                    : 'The funds have been sent to your connected wallet. You can verify the transaction on the blockchain explorer.'
                 }
               </p>
 
@@ -190,7 +217,9 @@ serve(async (req) => {
       body: JSON.stringify({
         from: 'RAV Payments <payments@yourdomain.com>',
         to: data.merchantEmail,
-        subject: `💰 Payment Received - $${data.totalAmount.toFixed(2)}`,
+        subject: data.type === 'refund'
+          ? `↩️ Refund Sent - $${data.totalAmount.toFixed(2)}`
+          : `💰 Payment Received - $${data.totalAmount.toFixed(2)}`,
         html: generateReceiptHTML(data, false),
       }),
     })
@@ -209,7 +238,9 @@ serve(async (req) => {
         body: JSON.stringify({
           from: 'RAV Payments <receipts@yourdomain.com>',
           to: data.customerEmail,
-          subject: `Receipt for your purchase - $${data.totalAmount.toFixed(2)}`,
+          subject: data.type === 'refund'
+            ? `Refund from ${data.merchantName} - $${data.totalAmount.toFixed(2)}`
+            : `Receipt for your purchase - $${data.totalAmount.toFixed(2)}`,
           html: generateReceiptHTML(data, true),
         }),
       })
@@ -0,0 +1,153 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, formatUnits } from '../_shared/evm.ts'
+import { loadPayableIntent, recipientUnits, splitAmount, verifySplits } from '../_shared/intents.ts'
+import { findToken, isPaymentTxHash, normalizeTxHash, verifyPayment } from '../_shared/payments.ts'
+import { INVOICE_COLUMNS, settleInvoice } from '../_shared/settlement.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface SettleRequest {
+  intentId: string
+  txHash: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: SettleRequest = await req.json()
+
+    console.log('Settling invoice:', payload)
+
+    if (!payload.intentId || !payload.txHash) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    if (!isPaymentTxHash(payload.txHash)) {
+      return jsonResponse({ error: 'Invalid transaction hash' }, 400)
+    }
+
+    // Solana signatures are case-sensitive base58
+    const txHash = normalizeTxHash(payload.txHash)
+
+    const intent = await loadPayableIntent(supabase, payload.intentId, txHash)
+    if (!intent.invoice_id) {
+      return jsonResponse({ error: 'Payment intent is not for an invoice' }, 400)
+    }
+
+    const network = intent.network
+    const token = findToken(network, intent.token_address, intent.is_test)
+    if (!token) {
+      return jsonResponse({ error: 'Unsupported token' }, 400)
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select(INVOICE_COLUMNS)
+      .eq('id', intent.invoice_id)
+      .maybeSingle()
+
+    if (invoiceError || !invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404)
+    }
+
+    // The same transfer cannot pay two invoices or double as a checkout.
+    // A payment to an invoice that is already paid is still recorded, and
+    // flagged as an overpayment.
+    const { data: recorded } = await supabase
+      .from('transactions')
+      .select('id, invoice_id')
+      .eq('tx_hash', txHash)
+      .is('split_of', null)
+      .maybeSingle()
+
+    if (recorded) {
+      // Retrying with a hash already applied to this invoice is harmless
+      if (recorded.invoice_id === invoice.id) {
+        return jsonResponse({ success: true, invoice }, 200)
+      }
+      return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+    }
+
+    const { data: merchant, error: merchantError } = await supabase
+      .from('profiles')
+      .select('merchant_name, email')
+      .eq('id', invoice.merchant_id)
+      .maybeSingle()
+
+    if (merchantError || !merchant) {
+      return jsonResponse({ error: 'Merchant not found' }, 400)
+    }
+
+    // Checked against the wallet the intent fixed up front. Any amount is
+    // accepted: less than the amount due leaves the invoice partially paid.
+    // A split intent's legs are fixed, so it is paid in full or not at all.
+    const split = intent.splits.length > 0
+    const transfer = await verifyPayment({
+      network,
+      txHash,
+      recipient: intent.recipient_address,
+      token,
+      minAmount: split ? recipientUnits(intent, token) : 1n,
+      isTest: intent.is_test,
+    })
+
+    if (split) {
+      await verifySplits(intent, token, txHash, transfer.from)
+    }
+
+    let settled
+    try {
+      settled = await settleInvoice(supabase, invoice, merchant, {
+        txHash,
+        network,
+        token: token.symbol,
+        amount: Number(formatUnits(transfer.value, token.decimals)),
+        fromAddress: transfer.from,
+        toAddress: transfer.to,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+        intentId: intent.id,
+        split: split ? { amount: splitAmount(intent, token), intent } : undefined,
+        rate: intent,
+      })
+    } catch (updateError) {
+      if (updateError.code === '23505') {
+        return jsonResponse({ error: 'Transaction has already been recorded' }, 409)
+      }
+      console.error('Database error:', updateError)
+      return jsonResponse({ error: 'Failed to settle invoice' }, 500)
+    }
+
+    if (!settled) {
+      return jsonResponse({ error: 'Invoice can no longer be paid' }, 409)
+    }
+
+    return jsonResponse({ success: true, invoice: settled }, 200)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Invoice verification failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error settling invoice:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,214 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { getAddress } from 'https://esm.sh/ethers@6.15.0'
+import { CHAINS, VerificationError, isEvmAddress } from '../_shared/evm.ts'
+import { createNonce, formatSiweMessage, siweOrigin, walletLoginEmail } from '../_shared/siwe.ts'
+import { verifyWalletSignature } from '../_shared/signatures.ts'
+
+// Sign-In with Ethereum for the Auth page:
+//   nonce  - issues an EIP-4361 message for the address, valid 5 minutes
+//   verify - checks the signature, marks the message used and returns a
+//            one-time magic link token the browser exchanges for a session
+//            (supabase.auth.verifyOtp)
+// The address signs in to the merchant whose verified receiving wallet it
+// is. Any other address gets its own account, created on first sign-in and
+// linked to the address in wallet_accounts.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const APP_URL = Deno.env.get('APP_URL') || 'https://www.ravgateway.com'
+const MESSAGE_TTL_MINUTES = 5
+
+type LoginRequest =
+  | { action: 'nonce'; address: string }
+  | { action: 'verify'; loginId: string; signature: string }
+
+interface WalletLogin {
+  id: string
+  address: string
+  message: string
+  expires_at: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+async function issueMessage(supabase: SupabaseClient, rawAddress: string) {
+  const address = rawAddress?.toLowerCase()
+  if (!address || !isEvmAddress(address)) {
+    throw new VerificationError('Invalid wallet address', 400)
+  }
+
+  const nonce = createNonce()
+  const issuedAt = new Date()
+  const expiresAt = new Date(issuedAt.getTime() + MESSAGE_TTL_MINUTES * 60_000).toISOString()
+  const message = formatSiweMessage({
+    ...siweOrigin(APP_URL, '/auth'),
+    address: getAddress(address),
+    chain: 'Ethereum',
+    statement: 'Sign in to RavGateway with this wallet.',
+    // Merchants receive on Base; the signature is the same on any chain
+    chainId: CHAINS.base.chainId,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: expiresAt,
+  })
+
+  const { data, error } = await supabase
+    .from('wallet_logins')
+    .insert({ address, message, nonce, expires_at: expiresAt })
+    .select('id, message')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * The merchant whose verified EVM wallet this is, else the account the
+ * wallet is linked to in wallet_accounts, created on its first sign-in.
+ */
+async function accountFor(supabase: SupabaseClient, address: string) {
+  const { data: wallets, error } = await supabase
+    .from('merchant_wallets')
+    .select('merchant_id')
+    .eq('address', address)
+    .neq('network', 'solana')
+    .not('verified_at', 'is', null)
+
+  if (error) throw error
+
+  const merchantIds = [...new Set((wallets || []).map((wallet) => wallet.merchant_id))]
+  if (merchantIds.length > 1) {
+    throw new VerificationError('This wallet receives payments for several accounts. Sign in with your email instead.', 409)
+  }
+
+  if (merchantIds.length === 1) return emailOf(supabase, merchantIds[0])
+
+  const { data: linked, error: linkError } = await supabase
+    .from('wallet_accounts')
+    .select('user_id')
+    .eq('address', address)
+    .maybeSingle()
+
+  if (linkError) throw linkError
+  if (linked) return emailOf(supabase, linked.user_id)
+
+  // First sign-in: create the account (handle_new_user adds the profile)
+  // and link it to the wallet
+  const email = walletLoginEmail(address)
+  const { data: created, error: createError } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { merchant_name: 'Merchant' },
+  })
+  if (createError) {
+    // A concurrent first sign-in is creating it
+    if (/already (been )?registered/i.test(createError.message)) {
+      throw new VerificationError('This wallet is still being set up. Please try again.', 409)
+    }
+    throw createError
+  }
+
+  const { error: insertError } = await supabase
+    .from('wallet_accounts')
+    .insert({ address, user_id: created.user.id })
+
+  if (insertError) {
+    // An account the wallet cannot find would block its email for good
+    await supabase.auth.admin.deleteUser(created.user.id)
+    throw insertError
+  }
+  return email
+}
+
+async function emailOf(supabase: SupabaseClient, userId: string) {
+  const { data: { user }, error } = await supabase.auth.admin.getUserById(userId)
+  if (error || !user?.email) {
+    throw new VerificationError('This account cannot sign in with a wallet. Sign in with your email instead.', 409)
+  }
+  return user.email
+}
+
+async function verifyLogin(supabase: SupabaseClient, payload: Extract<LoginRequest, { action: 'verify' }>) {
+  const { data } = await supabase
+    .from('wallet_logins')
+    .select('id, address, message, expires_at')
+    .eq('id', payload.loginId)
+    .is('used_at', null)
+    .maybeSingle()
+
+  const login = data as WalletLogin | null
+  if (!login) {
+    throw new VerificationError('Sign-in request not found or already used', 404)
+  }
+  if (new Date(login.expires_at) <= new Date()) {
+    throw new VerificationError('This sign-in request has expired. Please try again.', 410)
+  }
+
+  if (!payload.signature || !(await verifyWalletSignature('base', login.address, login.message, payload.signature))) {
+    throw new VerificationError('The signature does not match this wallet', 401)
+  }
+
+  // Claim the message before minting anything, so a replay loses the race
+  const { data: claimed } = await supabase
+    .from('wallet_logins')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', login.id)
+    .is('used_at', null)
+    .select('id')
+
+  if (!claimed?.length) {
+    throw new VerificationError('Sign-in request not found or already used', 404)
+  }
+
+  const email = await accountFor(supabase, login.address)
+  const { data: link, error: linkError } = await supabase.auth.admin.generateLink({ type: 'magiclink', email })
+  if (linkError) throw linkError
+
+  await supabase
+    .from('wallet_logins')
+    .update({ user_id: link.user.id })
+    .eq('id', login.id)
+
+  return { token_hash: link.properties.hashed_token }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: LoginRequest = await req.json()
+
+    switch (payload.action) {
+      case 'nonce': {
+        const login = await issueMessage(supabase, payload.address)
+        return jsonResponse({ loginId: login.id, message: login.message }, 201)
+      }
+      case 'verify':
+        return jsonResponse(await verifyLogin(supabase, payload), 200)
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Wallet sign-in failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error in wallet sign-in:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
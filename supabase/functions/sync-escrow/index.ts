@@ -0,0 +1,100 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { VerificationError, isTxHash } from '../_shared/evm.ts'
+import {
+  ESCROW_INVOICE_COLUMNS,
+  applyEscrowTransaction,
+  loadMilestones,
+} from '../_shared/escrow.ts'
+
+// Called by the invoice pages after the client or the merchant sends an
+// escrow transaction (fund, complete, release, dispute). The events are
+// read from the mined receipt, so nothing in the request is trusted;
+// chain-watcher applies the same events if this call never arrives.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface SyncRequest {
+  invoiceId: string
+  network: string
+  txHash: string
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: SyncRequest = await req.json()
+
+    console.log('Syncing escrow:', payload)
+
+    if (!payload.invoiceId || !payload.network || !payload.txHash) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
+    }
+
+    if (!isTxHash(payload.txHash)) {
+      return jsonResponse({ error: 'Invalid transaction hash' }, 400)
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, escrow, network, is_test')
+      .eq('id', payload.invoiceId)
+      .maybeSingle()
+
+    if (invoiceError || !invoice || !invoice.escrow) {
+      return jsonResponse({ error: 'Escrow invoice not found' }, 404)
+    }
+
+    // Once funded, an escrow lives on the network it was funded on
+    if (invoice.network && invoice.network !== payload.network) {
+      return jsonResponse({ error: `Invoice escrow is on ${invoice.network}` }, 400)
+    }
+
+    const applied = await applyEscrowTransaction(
+      supabase,
+      payload.network,
+      invoice.is_test,
+      payload.txHash.toLowerCase(),
+    )
+
+    const { data: updated, error: updatedError } = await supabase
+      .from('invoices')
+      .select(ESCROW_INVOICE_COLUMNS)
+      .eq('id', invoice.id)
+      .single()
+
+    if (updatedError) throw updatedError
+
+    return jsonResponse({
+      success: true,
+      applied,
+      invoice: updated,
+      milestones: await loadMilestones(supabase, invoice.id),
+    }, 200)
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Escrow sync failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error syncing escrow:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
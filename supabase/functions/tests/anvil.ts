@@ -0,0 +1,51 @@
+// Shared setup of the tests that run against a local anvil node. Run them
+// with scripts/test-anvil.sh, which starts anvil, builds the mock tokens
+// with forge and points the base network (RPC_URL_BASE) at the node.
+import { Contract, ContractFactory, JsonRpcProvider, Wallet, toQuantity } from 'https://esm.sh/ethers@6.15.0'
+import { chainFor, type ChainConfig, type TokenConfig } from '../_shared/evm.ts'
+
+export const chain = chainFor('base') as ChainConfig
+
+// Uncached, so each transaction reads the nonce the last one left
+export const provider = new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true, cacheTimeout: -1 })
+
+// anvil's default accounts, funded with ETH on every start
+export const ANVIL_KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+]
+
+export const anvilWallet = (index: number) => new Wallet(ANVIL_KEYS[index], provider)
+
+/** A fresh address that has never held anything. */
+export const newAddress = () => Wallet.createRandom().address.toLowerCase()
+
+/**
+ * Deploys a mock 6-decimal token built by `forge build` (contracts/test/mocks)
+ * and returns it with the token config the shared code expects.
+ */
+export async function deployMock(name: string, deployer: Wallet) {
+  const artifactUrl = new URL(`../../../contracts/out/${name}.sol/${name}.json`, import.meta.url)
+  const artifact = JSON.parse(await Deno.readTextFile(artifactUrl))
+  const factory = new ContractFactory(artifact.abi, artifact.bytecode.object, deployer)
+  const deployed = await factory.deploy()
+  await deployed.waitForDeployment()
+
+  const address = (await deployed.getAddress()).toLowerCase()
+  const token: TokenConfig = { symbol: 'USDC', address, decimals: 6, enabled: true }
+  return { contract: new Contract(address, artifact.abi, deployer), token }
+}
+
+/**
+ * Puts the code of a mock token at the address of a configured token, so
+ * code that looks tokens up by network (the chain watcher) reads the mock.
+ */
+export async function installMock(name: string, token: TokenConfig, deployer: Wallet) {
+  const { contract } = await deployMock(name, deployer)
+  await provider.send('anvil_setCode', [token.address, await provider.getCode(await contract.getAddress())])
+  return contract.attach(token.address) as Contract
+}
+
+/** Mines `blocks` empty blocks. */
+export const mine = (blocks: number) => provider.send('anvil_mine', [toQuantity(blocks)])
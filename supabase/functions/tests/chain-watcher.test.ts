@@ -0,0 +1,171 @@
+// The chain watcher's reconciliation of pending checkouts with the Transfer
+// logs it scans, against MockUSDC installed at Base's USDC address on a
+// local anvil node and an in-memory database.
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { parseUnits } from '../_shared/evm.ts'
+import { scanNetwork, trackConfirmations, type MerchantWallet } from '../chain-watcher/watcher.ts'
+import { anvilWallet, chain, installMock, mine, newAddress, provider } from './anvil.ts'
+import { FakeSupabase, type Row } from './supabase.ts'
+
+// WATCHER_BLOCK_LAG: the watcher stays this far behind head
+const BLOCK_LAG = 2
+
+const payer = anvilWallet(0)
+const token = chain.tokens[0]
+const usdc = await installMock('MockUSDC', token, payer)
+await (await usdc.mint(payer.address, parseUnits(1000, 6))).wait()
+
+/** A merchant receiving on a fresh wallet. */
+function newMerchant(): MerchantWallet & { address: string } {
+  return { id: crypto.randomUUID(), merchant_name: 'Merchant', email: 'merchant@example.com', address: newAddress() }
+}
+
+/** A database whose cursor on Base is at the current head. */
+async function newDatabase() {
+  const db = new FakeSupabase()
+  db.insert('chain_cursors', { network: 'base', is_test: false, last_block: await provider.getBlockNumber() })
+  return db
+}
+
+function openIntent(db: FakeSupabase, merchant: MerchantWallet & { address: string }, amount: number) {
+  return db.insert('payment_intents', {
+    merchant_id: merchant.id,
+    product_id: null,
+    invoice_id: null,
+    quantity: 1,
+    amount,
+    token: token.symbol,
+    token_address: token.address.toLowerCase(),
+    network: 'base',
+    recipient_address: merchant.address,
+    customer_email: null,
+    status: 'requires_payment',
+    tx_hash: null,
+    expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+    is_test: false,
+    solana_reference: null,
+    splits: [],
+    splitter_address: null,
+    currency: 'USD',
+    fiat_amount: amount,
+    exchange_rate: 1,
+    rate_source: 'parity',
+    rate_quoted_at: null,
+  })
+}
+
+/** What record-payment registers for a transaction that is not mined yet. */
+function registerPending(db: FakeSupabase, intent: Row, txHash: string) {
+  Object.assign(intent, { status: 'processing', tx_hash: txHash })
+  return db.insert('transactions', {
+    merchant_id: intent.merchant_id,
+    payment_intent_id: intent.id,
+    amount: intent.amount,
+    transaction_type: 'credit',
+    status: 'pending',
+    network: 'base',
+    token: token.symbol,
+    tx_hash: txHash,
+    to_address: intent.recipient_address,
+    block_number: null,
+    split_of: null,
+    split_amount: 0,
+    invoice_id: null,
+    exchange_rate: 1,
+    is_test: false,
+  })
+}
+
+const scan = (db: FakeSupabase, merchants: (MerchantWallet & { address: string })[]) =>
+  scanNetwork(db.client, 'base', chain, new Map(merchants.map((merchant) => [merchant.address, [merchant]])), false)
+
+const signTransfer = async (to: string, amount: number) =>
+  payer.signTransaction(await payer.populateTransaction(await usdc.transfer.populateTransaction(to, parseUnits(amount, 6))))
+
+async function pay(to: string, amount: number) {
+  const tx = await provider.broadcastTransaction(await signTransfer(to, amount))
+  await tx.wait()
+  return tx.hash.toLowerCase()
+}
+
+Deno.test('records a pending checkout once mined and confirms it', async () => {
+  const db = await newDatabase()
+  const merchant = newMerchant()
+  const intent = openIntent(db, merchant, 25)
+  const txHash = await pay(merchant.address, 25)
+  const line = registerPending(db, intent, txHash)
+
+  await mine(BLOCK_LAG)
+  const result = await scan(db, [merchant])
+
+  assertEquals(result?.checkouts, 1)
+  assertEquals(line.status, 'confirming')
+  assertEquals(line.from_address, payer.address.toLowerCase())
+  assertEquals(intent.status, 'succeeded')
+
+  await mine(chain.confirmations)
+  assertEquals(await trackConfirmations(db.client), { confirmed: 1, dropped: 0 })
+  assertEquals(line.status, 'confirmed')
+})
+
+Deno.test('records a payment a reorg dropped once it is mined again', async () => {
+  const db = await newDatabase()
+  const merchant = newMerchant()
+  const intent = openIntent(db, merchant, 25)
+  const snapshot = await provider.send('evm_snapshot', [])
+  const signed = await signTransfer(merchant.address, 25)
+
+  const tx = await provider.broadcastTransaction(signed)
+  await tx.wait()
+  const line = registerPending(db, intent, tx.hash.toLowerCase())
+  await mine(BLOCK_LAG)
+  await scan(db, [merchant])
+  assertEquals(line.status, 'confirming')
+
+  // The reorg takes the transaction out of the chain
+  const scannedTo = await provider.getBlockNumber()
+  await provider.send('evm_revert', [snapshot])
+  assertEquals(await trackConfirmations(db.client), { confirmed: 0, dropped: 1 })
+  assertEquals(line.status, 'dropped')
+
+  // ...and the new chain includes it later, past the blocks already scanned
+  await mine(scannedTo - await provider.getBlockNumber())
+  await (await provider.broadcastTransaction(signed)).wait()
+  await mine(BLOCK_LAG)
+  const result = await scan(db, [merchant])
+
+  assertEquals(result?.checkouts, 1)
+  assertEquals(line.status, 'confirming')
+  assertEquals(line.block_number, await provider.getBlockNumber() - BLOCK_LAG)
+
+  await mine(chain.confirmations)
+  assertEquals(await trackConfirmations(db.client), { confirmed: 1, dropped: 0 })
+  assertEquals(line.status, 'confirmed')
+})
+
+Deno.test('gives up a hash registered for another wallet to the intent the transfer pays', async () => {
+  const db = await newDatabase()
+  const merchant = newMerchant()
+  const squatter = newMerchant()
+  const intent = openIntent(db, merchant, 25)
+  const squatted = openIntent(db, squatter, 25)
+
+  // Someone registers the payer's broadcast hash for their own intent first
+  const txHash = await pay(merchant.address, 25)
+  const claim = registerPending(db, squatted, txHash)
+
+  await mine(BLOCK_LAG)
+  const result = await scan(db, [merchant, squatter])
+
+  assertEquals(result?.checkouts, 1)
+  assertEquals(db.find('transactions', { id: claim.id }), [])
+  assertEquals(squatted.status, 'requires_payment')
+  assertEquals(squatted.tx_hash, null)
+
+  assertEquals(intent.status, 'succeeded')
+  assertEquals(intent.tx_hash, txHash)
+  const [line] = db.find('transactions', { tx_hash: txHash })
+  assertEquals(line.payment_intent_id, intent.id)
+  assertEquals(line.to_address, merchant.address)
+  assertEquals(line.status, 'confirming')
+})
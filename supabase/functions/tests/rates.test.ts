@@ -0,0 +1,63 @@
+// Fiat prices converted at rates from the fixture provider, from the quote
+// to the payment intent it prices. Needs no chain: run it on its own with
+// `deno test supabase/functions/tests/rates.test.ts`.
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { CURRENCIES, toCurrency, toStablecoin } from '../_shared/currencies.ts'
+import { RateError, quoteRate } from '../_shared/rates.ts'
+import { createIntent } from '../_shared/intentrecord.ts'
+import { resolveNetworks } from '../_shared/networks.ts'
+import { FakeSupabase } from './supabase.ts'
+
+const env = { RATE_PROVIDER: 'fixture' }
+
+Deno.test('quotes USD at parity without asking the provider', async () => {
+  const quote = await quoteRate('USD', { RATE_PROVIDER: 'unknown' })
+  assertEquals([quote.rate, quote.source], [1, 'parity'])
+})
+
+Deno.test('quotes every other currency through the fixture provider', async () => {
+  for (const currency of CURRENCIES.filter((currency) => currency !== 'USD')) {
+    const quote = await quoteRate(currency, env)
+    assertEquals(quote.source, 'fixture')
+    assertEquals(quote.rate > 0, true)
+  }
+})
+
+Deno.test('converts at the fixture rate and back to the same price', async () => {
+  const { rate } = await quoteRate('NGN', { ...env, RATE_FIXTURES: '{"NGN":1600}' })
+  assertEquals(rate, 1600)
+  assertEquals(toStablecoin(24000, rate), 15)
+  assertEquals(toCurrency(15, rate), 24000)
+})
+
+Deno.test('rounds conversions up to the smallest stablecoin unit', async () => {
+  const { rate } = await quoteRate('EUR', env)
+  const amount = toStablecoin(10, rate)
+  assertEquals(amount, 10.869566)
+  assertEquals(toCurrency(amount, rate), 10)
+})
+
+Deno.test('rejects currencies that are not supported or have no rate', async () => {
+  await assertRejects(() => quoteRate('GBP', env), RateError, 'Unsupported currency: GBP')
+  await assertRejects(() => quoteRate('KES', { ...env, RATE_FIXTURES: '{}' }), RateError, 'No exchange rate available for KES')
+})
+
+Deno.test('prices a payment intent at the quoted rate, locked until it expires', async () => {
+  const db = new FakeSupabase()
+  const merchant = db.insert('profiles', { accepted_tokens: null })
+  db.insert('merchant_wallets', { merchant_id: merchant.id, network: 'base', address: `0x${'ab'.repeat(20)}` })
+
+  const intent = await createIntent(db.client, {
+    merchantId: merchant.id as string,
+    network: 'base',
+    amount: 15500,
+    currency: 'NGN',
+  }, { networks: resolveNetworks('mainnet', 'mainnet', {}), env: { ...env, RATE_LOCK_MINUTES: '10' } })
+
+  assertEquals(intent.amount, 10)
+  assertEquals(intent.token, 'USDC')
+  assertEquals([intent.currency, intent.fiat_amount, intent.exchange_rate, intent.rate_source], ['NGN', 15500, 1550, 'fixture'])
+
+  const lockedFor = new Date(intent.expires_at).getTime() - Date.now()
+  assertEquals(lockedFor > 9 * 60 * 1000 && lockedFor <= 10 * 60 * 1000, true)
+})
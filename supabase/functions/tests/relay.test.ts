@@ -0,0 +1,138 @@
+// Gasless payments relayed against MockUSDC on a local anvil node: the
+// payer signs, the relayer (RELAYER_PRIVATE_KEY) submits and pays the gas,
+// and the mined transfer verifies like any other payment.
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { hexlify, randomBytes } from 'https://esm.sh/ethers@6.15.0'
+import { parseUnits, verifyTransfer, VerificationError } from '../_shared/evm.ts'
+import { relayPermit, relayTransferWithAuthorization, relayerWallet } from '../_shared/relayer.ts'
+import { anvilWallet, chain, deployMock, newAddress } from './anvil.ts'
+
+const payer = anvilWallet(2)
+const relayer = relayerWallet(chain)
+const { contract: usdc, token } = await deployMock('MockUSDC', anvilWallet(0))
+await (await usdc.mint(payer.address, parseUnits(1000, 6))).wait()
+
+const domain = {
+  name: await usdc.name(),
+  version: await usdc.version(),
+  chainId: chain.chainId,
+  verifyingContract: token.address,
+}
+
+const validBefore = () => Math.floor(Date.now() / 1000) + 3600
+
+async function signTransfer(to: string, amount: number) {
+  const authorization = {
+    from: payer.address,
+    to,
+    value: parseUnits(amount, 6).toString(),
+    validAfter: 0,
+    validBefore: validBefore(),
+    nonce: hexlify(randomBytes(32)),
+  }
+  const signature = await payer.signTypedData(domain, {
+    TransferWithAuthorization: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+  }, authorization)
+  const { to: _, ...signed } = authorization
+  return { ...signed, signature }
+}
+
+async function signPermit(amount: number, signer = payer) {
+  const permit = {
+    owner: payer.address,
+    spender: relayer.address,
+    value: parseUnits(amount, 6).toString(),
+    nonce: await usdc.nonces(payer.address),
+    deadline: validBefore(),
+  }
+  const signature = await signer.signTypedData(domain, {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  }, permit)
+  return { owner: permit.owner, value: permit.value, deadline: permit.deadline, signature }
+}
+
+Deno.test('relays an EIP-3009 authorization that verifies as the payment', async () => {
+  const merchant = newAddress()
+  const authorization = await signTransfer(merchant, 40)
+  const relayerBalance = await usdc.balanceOf(relayer.address)
+
+  const relayed = await relayTransferWithAuthorization(chain, token, merchant, authorization)
+  assert(relayed.gasCost > 0n)
+
+  const transfer = await verifyTransfer({ network: 'base', txHash: relayed.txHash, recipient: merchant, token, minAmount: parseUnits(40, 6) })
+  assertEquals(transfer.from, payer.address.toLowerCase())
+  assertEquals(await usdc.balanceOf(relayer.address), relayerBalance)
+})
+
+Deno.test('rejects an EIP-3009 authorization used twice', async () => {
+  const merchant = newAddress()
+  const authorization = await signTransfer(merchant, 5)
+  await relayTransferWithAuthorization(chain, token, merchant, authorization)
+
+  await assertRejects(
+    () => relayTransferWithAuthorization(chain, token, merchant, authorization),
+    VerificationError,
+    'rejected the signed authorization',
+  )
+})
+
+Deno.test('rejects an EIP-3009 authorization relayed to another recipient', async () => {
+  const authorization = await signTransfer(newAddress(), 5)
+
+  await assertRejects(
+    () => relayTransferWithAuthorization(chain, token, newAddress(), authorization),
+    VerificationError,
+    'rejected the signed authorization',
+  )
+})
+
+Deno.test('relays an EIP-2612 permit and the transfer that pays', async () => {
+  const merchant = newAddress()
+  const permit = await signPermit(12.5)
+
+  const relayed = await relayPermit(chain, token, merchant, permit)
+
+  const transfer = await verifyTransfer({ network: 'base', txHash: relayed.txHash, recipient: merchant, token, minAmount: parseUnits(12.5, 6) })
+  assertEquals(transfer.from, payer.address.toLowerCase())
+  assertEquals(await usdc.allowance(payer.address, relayer.address), 0n)
+})
+
+Deno.test('rejects an EIP-2612 permit signed by someone else', async () => {
+  const permit = await signPermit(10, anvilWallet(0))
+  const paid = await usdc.balanceOf(payer.address)
+
+  await assertRejects(
+    () => relayPermit(chain, token, newAddress(), permit),
+    VerificationError,
+    'rejected the signed authorization',
+  )
+  assertEquals(await usdc.balanceOf(payer.address), paid)
+})
+
+Deno.test('sends nothing for an EIP-2612 permit whose transfer would fail', async () => {
+  // The permit itself is valid, but the payer does not hold the amount
+  const permit = await signPermit(1_000_000)
+  const nonce = await usdc.nonces(payer.address)
+  const relayerNonce = await relayer.getNonce()
+
+  await assertRejects(
+    () => relayPermit(chain, token, newAddress(), permit),
+    VerificationError,
+    'rejected the signed authorization',
+  )
+  assertEquals(await usdc.nonces(payer.address), nonce)
+  assertEquals(await relayer.getNonce(), relayerNonce)
+})
@@ -0,0 +1,233 @@
+// An in-memory stand-in for the Supabase client, for tests of code that
+// reads and writes tables. It keeps whole rows and ignores column lists,
+// and supports the filters the edge functions use; or() takes the
+// `column.op.value` terms and and() groups claimIntent builds.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+
+export type Row = Record<string, unknown>
+
+type Predicate = (row: Row) => boolean
+
+const value = (row: Row, column: string) => row[column] ?? null
+
+const compare = (op: string, actual: unknown, expected: unknown) => {
+  switch (op) {
+    case 'eq': return actual === expected
+    case 'neq': return actual !== expected
+    case 'is': return actual === expected
+    case 'lt': return (actual as string | number) < (expected as string | number)
+    case 'gt': return (actual as string | number) > (expected as string | number)
+  }
+  throw new Error(`Unsupported filter ${op}`)
+}
+
+// Terms of an or()/and() filter, split on the commas outside parentheses
+function splitTerms(filter: string) {
+  const terms: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < filter.length; i++) {
+    if (filter[i] === '(') depth++
+    if (filter[i] === ')') depth--
+    if (filter[i] === ',' && depth === 0) {
+      terms.push(filter.slice(start, i))
+      start = i + 1
+    }
+  }
+  return [...terms, filter.slice(start)]
+}
+
+function parseFilter(term: string): Predicate {
+  const group = term.match(/^(and|or)\((.*)\)$/)
+  if (group) {
+    const predicates = splitTerms(group[2]).map(parseFilter)
+    return group[1] === 'and'
+      ? (row) => predicates.every((predicate) => predicate(row))
+      : (row) => predicates.some((predicate) => predicate(row))
+  }
+  const [column, op, ...rest] = term.split('.')
+  const raw = rest.join('.')
+  const expected = raw === 'null' ? null : raw
+  return (row) => compare(op, value(row, column), expected)
+}
+
+interface Result {
+  data: unknown
+  error: unknown
+}
+
+class Query implements PromiseLike<Result> {
+  private filters: Predicate[] = []
+  private action: 'select' | 'insert' | 'update' | 'delete' | 'upsert' = 'select'
+  private values: Row[] = []
+  private changes: Row = {}
+  private conflictColumns: string[] = []
+  private returning = false
+  private cardinality: 'one' | 'maybe' | null = null
+  private sort: { column: string; ascending: boolean } | null = null
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns?: string) {
+    this.returning = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict: string }) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.conflictColumns = options.onConflict.split(',')
+    return this
+  }
+
+  update(changes: Row) {
+    this.action = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  private where(op: string, column: string, expected: unknown) {
+    this.filters.push((row) => compare(op, value(row, column), expected))
+    return this
+  }
+
+  eq(column: string, expected: unknown) {
+    return this.where('eq', column, expected)
+  }
+
+  neq(column: string, expected: unknown) {
+    return this.where('neq', column, expected)
+  }
+
+  is(column: string, expected: null) {
+    return this.where('is', column, expected)
+  }
+
+  lt(column: string, expected: unknown) {
+    return this.where('lt', column, expected)
+  }
+
+  gt(column: string, expected: unknown) {
+    return this.where('gt', column, expected)
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(value(row, column)))
+    return this
+  }
+
+  not(column: string, op: string, expected: unknown) {
+    this.filters.push((row) => !compare(op, value(row, column), expected))
+    return this
+  }
+
+  or(filter: string) {
+    this.filters.push(parseFilter(`or(${filter})`))
+    return this
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.sort = { column, ascending }
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybe'
+    return this
+  }
+
+  single() {
+    this.cardinality = 'one'
+    return this
+  }
+
+  then<T = Result, U = never>(
+    onfulfilled?: ((result: Result) => T | PromiseLike<T>) | null,
+    onrejected?: ((reason: unknown) => U | PromiseLike<U>) | null,
+  ): PromiseLike<T | U> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected)
+  }
+
+  private run(): Result {
+    const rows = this.db.rows(this.table)
+    const matching = () => rows.filter((row) => this.filters.every((predicate) => predicate(row)))
+    let result: Row[]
+
+    switch (this.action) {
+      case 'select':
+        result = matching()
+        break
+      case 'insert':
+        result = this.values.map((values) => this.db.insert(this.table, values))
+        break
+      case 'upsert':
+        result = this.values.map((values) => {
+          const existing = rows.find((row) => this.conflictColumns.every((column) => row[column] === values[column]))
+          return existing ? Object.assign(existing, values) : this.db.insert(this.table, values)
+        })
+        break
+      case 'update':
+        result = matching().map((row) => Object.assign(row, this.changes))
+        break
+      case 'delete':
+        result = matching()
+        this.db.tables[this.table] = rows.filter((row) => !result.includes(row))
+        break
+    }
+
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      result.sort((a, b) => (a[column]! < b[column]! ? -1 : a[column]! > b[column]! ? 1 : 0) * (ascending ? 1 : -1))
+    }
+
+    const copies = result.map((row) => structuredClone(row))
+    if (this.cardinality) {
+      if (copies.length > 1 || (this.cardinality === 'one' && copies.length === 0)) {
+        return { data: null, error: { message: `Expected one ${this.table} row, found ${copies.length}` } }
+      }
+      return { data: copies[0] ?? null, error: null }
+    }
+    return { data: this.action === 'select' || this.returning ? copies : null, error: null }
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {}
+
+  rows(table: string) {
+    return this.tables[table] ??= []
+  }
+
+  insert(table: string, values: Row): Row {
+    const row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...values }
+    this.rows(table).push(row)
+    return row
+  }
+
+  find(table: string, match: Row) {
+    return this.rows(table).filter((row) => Object.entries(match).every(([column, expected]) => row[column] === expected))
+  }
+
+  from(table: string) {
+    return new Query(this, table)
+  }
+
+  rpc(name: string) {
+    return Promise.resolve({ data: null, error: { message: `No function ${name} in the fake database` } })
+  }
+
+  get client() {
+    return this as unknown as SupabaseClient
+  }
+}
@@ -0,0 +1,96 @@
+// verifyTransfer, which record-payment, settle-invoice and chain-watcher
+// rely on, against real receipts from a local anvil node.
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { parseUnits, verifyTransfer, VerificationError } from '../_shared/evm.ts'
+import { anvilWallet, deployMock, newAddress } from './anvil.ts'
+
+const payer = anvilWallet(0)
+const { contract: usdc, token } = await deployMock('MockUSDC', payer)
+await (await usdc.mint(payer.address, parseUnits(1000, 6))).wait()
+
+async function pay(to: string, amount: number) {
+  const tx = await usdc.transfer(to, parseUnits(amount, 6))
+  await tx.wait()
+  return tx.hash as string
+}
+
+Deno.test('verifies a transfer of the expected amount to the merchant', async () => {
+  const merchant = newAddress()
+  const txHash = await pay(merchant, 25)
+
+  const transfer = await verifyTransfer({ network: 'base', txHash, recipient: merchant, token, minAmount: parseUnits(25, 6) })
+
+  assertEquals(transfer.to, merchant)
+  assertEquals(transfer.from, payer.address.toLowerCase())
+  assertEquals(transfer.value, parseUnits(25, 6))
+  assertEquals(transfer.txHash, txHash)
+})
+
+Deno.test('accepts paying more than expected', async () => {
+  const merchant = newAddress()
+  const txHash = await pay(merchant, 30)
+
+  const transfer = await verifyTransfer({ network: 'base', txHash, recipient: merchant, token, minAmount: parseUnits(25, 6) })
+  assertEquals(transfer.value, parseUnits(30, 6))
+})
+
+Deno.test('rejects paying less than expected', async () => {
+  const merchant = newAddress()
+  const txHash = await pay(merchant, 24.99)
+
+  await assertRejects(
+    () => verifyTransfer({ network: 'base', txHash, recipient: merchant, token, minAmount: parseUnits(25, 6) }),
+    VerificationError,
+    'Transferred 24.99 USDC, expected 25',
+  )
+})
+
+Deno.test('rejects a transfer to another wallet', async () => {
+  const txHash = await pay(newAddress(), 25)
+
+  await assertRejects(
+    () => verifyTransfer({ network: 'base', txHash, recipient: newAddress(), token, minAmount: parseUnits(25, 6) }),
+    VerificationError,
+    'No USDC transfer to the merchant wallet',
+  )
+})
+
+Deno.test('rejects a transfer of another token', async () => {
+  const { contract: other, token: otherToken } = await deployMock('MockUSDC', payer)
+  await (await other.mint(payer.address, parseUnits(25, 6))).wait()
+  const merchant = newAddress()
+  const tx = await other.transfer(merchant, parseUnits(25, 6))
+  await tx.wait()
+
+  await assertRejects(
+    () => verifyTransfer({ network: 'base', txHash: tx.hash, recipient: merchant, token, minAmount: parseUnits(25, 6) }),
+    VerificationError,
+    'No USDC transfer',
+  )
+
+  // The same transaction verifies against its own token
+  const transfer = await verifyTransfer({ network: 'base', txHash: tx.hash, recipient: merchant, token: otherToken, minAmount: parseUnits(25, 6) })
+  assertEquals(transfer.token, otherToken.address)
+})
+
+Deno.test('rejects a reverted transaction', async () => {
+  const merchant = newAddress()
+  // More than the payer holds; a fixed gas limit skips estimation, so the
+  // transaction is mined and reverts
+  const tx = await usdc.transfer(merchant, parseUnits(1_000_000, 6), { gasLimit: 100_000 })
+  await tx.wait().catch(() => {})
+
+  await assertRejects(
+    () => verifyTransfer({ network: 'base', txHash: tx.hash, recipient: merchant, token, minAmount: parseUnits(1, 6) }),
+    VerificationError,
+    'Transaction failed on chain',
+  )
+})
+
+Deno.test('rejects an unknown transaction with 404', async () => {
+  const error = await assertRejects(
+    () => verifyTransfer({ network: 'base', txHash: `0x${'ab'.repeat(32)}`, recipient: newAddress(), token, minAmount: 1n }),
+    VerificationError,
+  )
+  assertEquals(error.status, 404)
+})
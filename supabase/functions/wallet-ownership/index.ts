@@ -0,0 +1,349 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.4'
+import { getAddress } from 'https://esm.sh/ethers@6.15.0'
+import { CHAINS, NETWORK_PROFILE, VerificationError, isEvmAddress } from '../_shared/evm.ts'
+import { isSolanaAddress } from '../_shared/solana.ts'
+import { isWalletName, normalizeWalletName } from '../_shared/names.ts'
+import { createNonce, formatSiweMessage, isWalletLoginEmail, siweOrigin } from '../_shared/siwe.ts'
+import { verifyWalletSignature } from '../_shared/signatures.ts'
+import { sendAccountEmail } from '../_shared/email.ts'
+
+// Receiving wallets only become active once the merchant proves control
+// of them. Settings walks a change through:
+//   request - issues an EIP-4361 style message with a one-time nonce
+//   verify  - checks the wallet's signature. A new account's first wallet,
+//             or re-verifying the active one, is activated right away;
+//             anything else needs the emailed confirmation link
+//   confirm - called from that link; starts the cooling-off period, after
+//             which activate_wallet_changes (pg_cron) switches the wallet
+//   cancel  - by the merchant, or from the email if they did not ask for it
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://ravgateway.com',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const APP_URL = Deno.env.get('APP_URL') || 'https://www.ravgateway.com'
+// How long the message can be signed, and the emailed link used
+const SIGNATURE_TTL_MINUTES = 15
+const EMAIL_TTL_HOURS = 24
+const COOLING_OFF_HOURS = Number(Deno.env.get('WALLET_COOLING_OFF_HOURS') || '48')
+
+const OPEN_STATUSES = ['awaiting_signature', 'awaiting_email', 'cooling_off']
+
+type OwnershipRequest =
+  | { action: 'request'; network: string; address: string; name?: string }
+  | { action: 'verify'; changeId: string; signature: string }
+  | { action: 'confirm'; token: string }
+  | { action: 'cancel'; changeId?: string; token?: string }
+
+interface WalletChange {
+  id: string
+  merchant_id: string
+  network: string
+  address: string
+  name: string | null
+  previous_address: string | null
+  status: string
+  message: string
+  active_at: string | null
+  expires_at: string
+}
+
+const CHANGE_COLUMNS = 'id, merchant_id, network, address, name, previous_address, status, message, active_at, expires_at'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString()
+
+async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const networkLabel = (network: string) => network === 'solana' ? 'Solana' : CHAINS[network]?.name ?? network
+
+async function requestChange(
+  supabase: SupabaseClient,
+  merchantId: string,
+  payload: Extract<OwnershipRequest, { action: 'request' }>,
+) {
+  const { network } = payload
+  const isSolana = network === 'solana'
+  if (!isSolana && !CHAINS[network]) {
+    throw new VerificationError(`Unsupported network: ${network}`, 400)
+  }
+
+  const address = isSolana ? payload.address : payload.address?.toLowerCase()
+  if (!address || !(isSolana ? isSolanaAddress(address) : isEvmAddress(address))) {
+    throw new VerificationError(`Invalid ${networkLabel(network)} wallet address`, 400)
+  }
+
+  const name = payload.name ? normalizeWalletName(payload.name) : null
+  if (name && (isSolana || !isWalletName(name))) {
+    throw new VerificationError('Names must be an ENS name or Basename on an EVM network', 400)
+  }
+
+  const { data: current } = await supabase
+    .from('merchant_wallets')
+    .select('address')
+    .eq('merchant_id', merchantId)
+    .eq('network', network)
+    .maybeSingle()
+
+  // A new request replaces whatever was still open for this wallet
+  await supabase
+    .from('wallet_changes')
+    .update({ status: 'canceled' })
+    .eq('merchant_id', merchantId)
+    .eq('network', network)
+    .in('status', OPEN_STATUSES)
+
+  const nonce = createNonce()
+  const issuedAt = new Date().toISOString()
+  const expiresAt = minutesFromNow(SIGNATURE_TTL_MINUTES)
+  const message = formatSiweMessage({
+    ...siweOrigin(APP_URL, '/settings'),
+    // EIP-4361 wants the checksummed form
+    address: isSolana ? address : getAddress(address),
+    chain: isSolana ? 'Solana' : 'Ethereum',
+    statement: `Confirm that this wallet is mine and should receive my RavGateway payments on ${networkLabel(network)}.`,
+    chainId: isSolana ? (NETWORK_PROFILE === 'testnet' ? 'devnet' : 'mainnet') : CHAINS[network].chainId,
+    nonce,
+    issuedAt,
+    expirationTime: expiresAt,
+  })
+
+  const { data: change, error } = await supabase
+    .from('wallet_changes')
+    .insert({
+      merchant_id: merchantId,
+      network,
+      address,
+      name,
+      previous_address: current?.address ?? null,
+      message,
+      nonce,
+      expires_at: expiresAt,
+    })
+    .select(CHANGE_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return change as WalletChange
+}
+
+async function verifyChange(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string },
+  payload: Extract<OwnershipRequest, { action: 'verify' }>,
+) {
+  const { data } = await supabase
+    .from('wallet_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('id', payload.changeId)
+    .eq('merchant_id', user.id)
+    .maybeSingle()
+
+  const change = data as WalletChange | null
+  if (!change || change.status !== 'awaiting_signature') {
+    throw new VerificationError('Wallet change not found or already signed', 404)
+  }
+  if (new Date(change.expires_at) <= new Date()) {
+    throw new VerificationError('This message has expired. Please start again.', 410)
+  }
+
+  if (!payload.signature || !(await verifyWalletSignature(change.network, change.address, change.message, payload.signature))) {
+    throw new VerificationError('The signature does not match this wallet', 400)
+  }
+
+  const signedAt = new Date().toISOString()
+
+  // Re-verifying the active wallet moves no payments, and a new account has
+  // none to redirect, so neither needs the email or the waiting period
+  const { count: activeChanges } = await supabase
+    .from('wallet_changes')
+    .select('id', { count: 'exact', head: true })
+    .eq('merchant_id', user.id)
+    .eq('status', 'active')
+
+  if (change.previous_address === change.address || !activeChanges) {
+    const { error: walletError } = await supabase
+      .from('merchant_wallets')
+      .upsert({
+        merchant_id: user.id,
+        network: change.network,
+        address: change.address,
+        name: change.name,
+        verified_at: signedAt,
+        // check-wallet-names re-resolves the name
+        name_address: null,
+        name_checked_at: null,
+      }, { onConflict: 'merchant_id,network' })
+
+    if (walletError) throw walletError
+
+    await supabase
+      .from('wallet_changes')
+      .update({ status: 'active', signature: payload.signature, signed_at: signedAt, active_at: signedAt })
+      .eq('id', change.id)
+
+    return { ...change, status: 'active', active_at: signedAt }
+  }
+
+  // Accounts created by wallet sign-in have a placeholder address
+  if (!user.email || isWalletLoginEmail(user.email)) {
+    throw new VerificationError('Your account has no email address to confirm the change. Contact support to add one.', 400)
+  }
+
+  const token = createNonce() + createNonce()
+  const expiresAt = minutesFromNow(EMAIL_TTL_HOURS * 60)
+  const { error: updateError } = await supabase
+    .from('wallet_changes')
+    .update({
+      status: 'awaiting_email',
+      signature: payload.signature,
+      signed_at: signedAt,
+      email_token_hash: await sha256Hex(token),
+      expires_at: expiresAt,
+    })
+    .eq('id', change.id)
+
+  if (updateError) throw updateError
+
+  const link = (action: string) => `${APP_URL}/confirm-wallet?action=${action}&token=${token}`
+  await sendAccountEmail({
+    to: user.email,
+    subject: `Confirm your new ${networkLabel(change.network)} payout wallet`,
+    html: `
+      <p>Someone signed in to your RavGateway account and asked to send your ${networkLabel(change.network)} payments to a new wallet:</p>
+      <p style="font-family: monospace;">${change.name ? `${change.name} (${change.address})` : change.address}</p>
+      <p>${change.previous_address ? `It would replace <span style="font-family: monospace;">${change.previous_address}</span>. ` : ''}After you confirm, the change takes effect in ${COOLING_OFF_HOURS} hours, and your payment pages show it until then.</p>
+      <p><a href="${link('confirm')}">Confirm the new wallet</a></p>
+      <p>If this was not you, <a href="${link('cancel')}">cancel the change</a> and reset your password. The link expires in ${EMAIL_TTL_HOURS} hours.</p>
+    `,
+  })
+
+  return { ...change, status: 'awaiting_email', expires_at: expiresAt }
+}
+
+async function changeByToken(supabase: SupabaseClient, token: string) {
+  if (!token) {
+    throw new VerificationError('Missing confirmation token', 400)
+  }
+
+  const { data } = await supabase
+    .from('wallet_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('email_token_hash', await sha256Hex(token))
+    .maybeSingle()
+
+  return data as WalletChange | null
+}
+
+async function confirmChange(supabase: SupabaseClient, token: string) {
+  const change = await changeByToken(supabase, token)
+  if (!change || change.status !== 'awaiting_email') {
+    throw new VerificationError('This link is invalid or was already used', 404)
+  }
+  if (new Date(change.expires_at) <= new Date()) {
+    throw new VerificationError('This link has expired. Please request the change again.', 410)
+  }
+
+  const activeAt = minutesFromNow(COOLING_OFF_HOURS * 60)
+  const { error } = await supabase
+    .from('wallet_changes')
+    .update({ status: 'cooling_off', email_confirmed_at: new Date().toISOString(), active_at: activeAt })
+    .eq('id', change.id)
+    .eq('status', 'awaiting_email')
+
+  if (error) throw error
+  return { ...change, status: 'cooling_off', active_at: activeAt }
+}
+
+async function cancelChange(supabase: SupabaseClient, change: WalletChange | null) {
+  if (!change || !OPEN_STATUSES.includes(change.status)) {
+    throw new VerificationError('No open wallet change to cancel', 404)
+  }
+
+  const { error } = await supabase
+    .from('wallet_changes')
+    .update({ status: 'canceled' })
+    .eq('id', change.id)
+    .in('status', OPEN_STATUSES)
+
+  if (error) throw error
+  return { ...change, status: 'canceled' }
+}
+
+// The message and the token hash stay server-side
+const publicChange = (change: WalletChange) => ({
+  id: change.id,
+  network: change.network,
+  address: change.address,
+  name: change.name,
+  previous_address: change.previous_address,
+  status: change.status,
+  active_at: change.active_at,
+  expires_at: change.expires_at,
+})
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const payload: OwnershipRequest = await req.json()
+
+    // Emailed links work without a session: the token is the proof
+    if (payload.action === 'confirm') {
+      return jsonResponse({ change: publicChange(await confirmChange(supabase, payload.token)) }, 200)
+    }
+    if (payload.action === 'cancel' && payload.token) {
+      return jsonResponse({ change: publicChange(await cancelChange(supabase, await changeByToken(supabase, payload.token))) }, 200)
+    }
+
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } }
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    switch (payload.action) {
+      case 'request': {
+        const change = await requestChange(supabase, user.id, payload)
+        return jsonResponse({ change: publicChange(change), message: change.message }, 201)
+      }
+      case 'verify':
+        return jsonResponse({ change: publicChange(await verifyChange(supabase, user, payload)) }, 200)
+      case 'cancel': {
+        const { data } = await supabase
+          .from('wallet_changes')
+          .select(CHANGE_COLUMNS)
+          .eq('id', payload.changeId ?? '')
+          .eq('merchant_id', user.id)
+          .maybeSingle()
+        return jsonResponse({ change: publicChange(await cancelChange(supabase, data as WalletChange | null)) }, 200)
+      }
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      console.warn('Wallet ownership failed:', error.message)
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('Error in wallet ownership:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
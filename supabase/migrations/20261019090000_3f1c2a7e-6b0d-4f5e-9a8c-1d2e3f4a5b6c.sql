@@ -0,0 +1,20 @@
+-- On-chain details for verified payments recorded by the record-payment edge function
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS network TEXT,
+  ADD COLUMN IF NOT EXISTS quantity INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS block_number BIGINT,
+  ADD COLUMN IF NOT EXISTS from_address TEXT,
+  ADD COLUMN IF NOT EXISTS to_address TEXT;
+
+-- A transaction hash can only be recorded once.
+-- Hashes are stored lowercased by the edge function.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_tx_hash
+  ON public.transactions (tx_hash)
+  WHERE tx_hash IS NOT NULL;
+
+-- Payments must go through record-payment, which verifies the transfer on-chain.
+-- Merchants could previously insert arbitrary "completed" credits for themselves.
+DROP POLICY IF EXISTS "Merchants can insert own transactions" ON public.transactions;
+
+COMMENT ON COLUMN public.transactions.tx_hash IS 'Lowercased hash of the verified on-chain transfer backing this transaction';
@@ -0,0 +1,30 @@
+-- Invoices are settled server-side by the settle-invoice edge function.
+-- Payers no longer write to invoices from the browser.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS network TEXT,
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+-- A transfer can only settle one invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_tx_hash
+  ON public.invoices (tx_hash)
+  WHERE tx_hash IS NOT NULL;
+
+-- Anonymous payers only need to flag an invoice as viewed.
+-- Expose that single transition instead of UPDATE on the table.
+CREATE OR REPLACE FUNCTION public.mark_invoice_viewed(p_invoice_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.invoices
+  SET status = 'viewed'
+  WHERE id = p_invoice_id
+    AND status = 'sent';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_invoice_viewed(uuid) TO anon, authenticated;
+
+REVOKE UPDATE ON public.invoices FROM anon;
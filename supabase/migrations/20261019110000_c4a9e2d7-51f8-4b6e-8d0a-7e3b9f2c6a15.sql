@@ -0,0 +1,36 @@
+-- Block cursor per network for the chain-watcher edge function
+CREATE TABLE IF NOT EXISTS public.chain_cursors (
+  network TEXT PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the service role (chain-watcher) reads or writes cursors
+ALTER TABLE public.chain_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Pending checkouts are expired by chain-watcher
+CREATE INDEX IF NOT EXISTS idx_transactions_pending
+  ON public.transactions (created_at)
+  WHERE status = 'pending';
+
+-- Run chain-watcher every minute.
+-- Expects `project_url` and `service_role_key` secrets in Vault:
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'chain-watcher',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/chain-watcher',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,31 @@
+-- Confirmation tracking: pending -> confirming (n/N) -> confirmed,
+-- or failed/dropped when the transaction reverts or is reorged out
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+
+UPDATE public.transactions SET status = 'confirmed' WHERE status = 'completed';
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'confirming', 'confirmed', 'failed', 'dropped'));
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS block_hash TEXT,
+  ADD COLUMN IF NOT EXISTS confirmations INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS required_confirmations INTEGER,
+  ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+-- Historical payments were recorded after verification
+UPDATE public.transactions
+  SET confirmations = 1, required_confirmations = 1
+  WHERE status = 'confirmed';
+
+-- chain-watcher re-checks confirming transactions every run
+CREATE INDEX IF NOT EXISTS idx_transactions_confirming
+  ON public.transactions (network)
+  WHERE status = 'confirming';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_invoice_id
+  ON public.transactions (invoice_id);
+
+-- The dashboard subscribes to status changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transactions;
@@ -0,0 +1,108 @@
+-- Payment intents fix what a checkout costs, in which token, on which
+-- network and to which wallet before the payer's wallet prompt opens.
+-- record-payment, settle-invoice and chain-watcher settle against them.
+CREATE TABLE IF NOT EXISTS public.payment_intents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  token TEXT NOT NULL,
+  token_address TEXT NOT NULL,
+  network TEXT NOT NULL,
+  recipient_address TEXT NOT NULL,
+  description TEXT,
+  customer_email TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'requires_payment'
+    CHECK (status IN ('requires_payment', 'processing', 'succeeded', 'expired', 'canceled')),
+  tx_hash TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A transfer can only pay one intent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_intents_tx_hash
+  ON public.payment_intents (tx_hash)
+  WHERE tx_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_merchant
+  ON public.payment_intents (merchant_id, created_at DESC);
+
+-- chain-watcher matches transfers against open intents and expires them
+CREATE INDEX IF NOT EXISTS idx_payment_intents_open
+  ON public.payment_intents (recipient_address, network)
+  WHERE status = 'requires_payment';
+
+CREATE TRIGGER set_payment_intents_updated_at
+  BEFORE UPDATE ON public.payment_intents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Intents are created and settled by edge functions and the API only
+ALTER TABLE public.payment_intents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view own payment intents"
+  ON public.payment_intents FOR SELECT
+  USING (auth.uid() = merchant_id);
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS payment_intent_id UUID REFERENCES public.payment_intents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_payment_intent_id
+  ON public.transactions (payment_intent_id);
+
+-- The checkout page loads an intent by id without listing anyone's intents
+CREATE OR REPLACE FUNCTION public.get_payment_intent(p_intent_id uuid)
+RETURNS TABLE (
+  id uuid,
+  merchant_id uuid,
+  merchant_name text,
+  product_id uuid,
+  product_name text,
+  invoice_id uuid,
+  quantity integer,
+  amount numeric,
+  token text,
+  token_address text,
+  network text,
+  recipient_address text,
+  description text,
+  status text,
+  tx_hash text,
+  expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pi.id,
+    pi.merchant_id,
+    p.merchant_name,
+    pi.product_id,
+    pr.name,
+    pi.invoice_id,
+    pi.quantity,
+    pi.amount,
+    pi.token,
+    pi.token_address,
+    pi.network,
+    pi.recipient_address,
+    pi.description,
+    CASE
+      WHEN pi.status = 'requires_payment' AND pi.expires_at < now() THEN 'expired'
+      ELSE pi.status
+    END,
+    pi.tx_hash,
+    pi.expires_at
+  FROM public.payment_intents pi
+  JOIN public.profiles p ON p.id = pi.merchant_id
+  LEFT JOIN public.products pr ON pr.id = pi.product_id
+  WHERE pi.id = p_intent_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_intent(uuid) TO anon, authenticated;
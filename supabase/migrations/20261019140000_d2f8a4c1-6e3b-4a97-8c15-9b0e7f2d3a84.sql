@@ -0,0 +1,6 @@
+-- Solana payments settle to a separate base58 wallet; wallet_address stays
+-- the merchant's EVM address.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS solana_wallet_address TEXT;
+
+COMMENT ON COLUMN public.profiles.solana_wallet_address IS 'PUBLIC: Solana wallet address (base58) - receives USDC for Solana checkouts. Safe to expose as wallet addresses are public on blockchain.';
@@ -0,0 +1,26 @@
+-- Networks accept more than one stablecoin. Record which token paid for
+-- each transaction and invoice, and let merchants choose what they accept.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS token TEXT;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS token TEXT;
+
+-- Everything recorded so far was paid in the network's only token
+UPDATE public.transactions
+SET token = CASE network WHEN 'celo' THEN 'cUSD' ELSE 'USDC' END
+WHERE token IS NULL
+  AND network IS NOT NULL;
+
+UPDATE public.invoices
+SET token = CASE network WHEN 'celo' THEN 'cUSD' ELSE 'USDC' END
+WHERE token IS NULL
+  AND network IS NOT NULL
+  AND status = 'paid';
+
+-- Map of network to accepted token symbols, e.g. {"base": ["USDC"]}.
+-- NULL, or a network missing from the map, accepts every enabled token.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS accepted_tokens JSONB;
+
+COMMENT ON COLUMN public.profiles.accepted_tokens IS 'PUBLIC: Token symbols accepted per network - read by the pay pages to offer the right tokens.';
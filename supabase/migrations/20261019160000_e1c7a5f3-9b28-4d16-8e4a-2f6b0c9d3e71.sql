@@ -0,0 +1,88 @@
+-- Sandbox mode. rav_test_ API keys create test invoices and payment
+-- intents that are paid on testnets; everything they produce is flagged
+-- so it stays out of live analytics and admin totals.
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.payment_intents
+  ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+-- Dashboards read either live or test records
+CREATE INDEX IF NOT EXISTS idx_invoices_merchant_is_test
+  ON public.invoices (merchant_id, is_test);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_is_test
+  ON public.transactions (merchant_id, is_test);
+
+-- chain-watcher scans testnets for sandbox payments with separate cursors
+ALTER TABLE public.chain_cursors
+  ADD COLUMN IF NOT EXISTS is_test BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.chain_cursors
+  DROP CONSTRAINT IF EXISTS chain_cursors_pkey;
+
+ALTER TABLE public.chain_cursors
+  ADD PRIMARY KEY (network, is_test);
+
+-- The checkout page needs to know which chains a sandbox intent is paid on
+DROP FUNCTION IF EXISTS public.get_payment_intent(uuid);
+
+CREATE FUNCTION public.get_payment_intent(p_intent_id uuid)
+RETURNS TABLE (
+  id uuid,
+  merchant_id uuid,
+  merchant_name text,
+  product_id uuid,
+  product_name text,
+  invoice_id uuid,
+  quantity integer,
+  amount numeric,
+  token text,
+  token_address text,
+  network text,
+  recipient_address text,
+  description text,
+  status text,
+  tx_hash text,
+  expires_at timestamptz,
+  is_test boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pi.id,
+    pi.merchant_id,
+    p.merchant_name,
+    pi.product_id,
+    pr.name,
+    pi.invoice_id,
+    pi.quantity,
+    pi.amount,
+    pi.token,
+    pi.token_address,
+    pi.network,
+    pi.recipient_address,
+    pi.description,
+    CASE
+      WHEN pi.status = 'requires_payment' AND pi.expires_at < now() THEN 'expired'
+      ELSE pi.status
+    END,
+    pi.tx_hash,
+    pi.expires_at,
+    pi.is_test
+  FROM public.payment_intents pi
+  JOIN public.profiles p ON p.id = pi.merchant_id
+  LEFT JOIN public.products pr ON pr.id = pi.product_id
+  WHERE pi.id = p_intent_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_intent(uuid) TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- Scan-to-pay. Solana Pay transfers carry no callback, so each Solana
+-- intent gets a random reference key that the wallet attaches to the
+-- transfer; chain-watcher looks the payment up by it.
+ALTER TABLE public.payment_intents
+  ADD COLUMN IF NOT EXISTS solana_reference TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_intents_solana_reference
+  ON public.payment_intents (solana_reference)
+  WHERE solana_reference IS NOT NULL;
+
+-- Open Solana intents are polled every watcher run
+CREATE INDEX IF NOT EXISTS idx_payment_intents_open_solana
+  ON public.payment_intents (status, network)
+  WHERE solana_reference IS NOT NULL;
+
+-- The checkout page builds the Solana Pay URI from the reference
+DROP FUNCTION IF EXISTS public.get_payment_intent(uuid);
+
+CREATE FUNCTION public.get_payment_intent(p_intent_id uuid)
+RETURNS TABLE (
+  id uuid,
+  merchant_id uuid,
+  merchant_name text,
+  product_id uuid,
+  product_name text,
+  invoice_id uuid,
+  quantity integer,
+  amount numeric,
+  token text,
+  token_address text,
+  network text,
+  recipient_address text,
+  description text,
+  status text,
+  tx_hash text,
+  expires_at timestamptz,
+  is_test boolean,
+  solana_reference text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pi.id,
+    pi.merchant_id,
+    p.merchant_name,
+    pi.product_id,
+    pr.name,
+    pi.invoice_id,
+    pi.quantity,
+    pi.amount,
+    pi.token,
+    pi.token_address,
+    pi.network,
+    pi.recipient_address,
+    pi.description,
+    CASE
+      WHEN pi.status = 'requires_payment' AND pi.expires_at < now() THEN 'expired'
+      ELSE pi.status
+    END,
+    pi.tx_hash,
+    pi.expires_at,
+    pi.is_test,
+    pi.solana_reference
+  FROM public.payment_intents pi
+  JOIN public.profiles p ON p.id = pi.merchant_id
+  LEFT JOIN public.products pr ON pr.id = pi.product_id
+  WHERE pi.id = p_intent_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_intent(uuid) TO anon, authenticated;
@@ -0,0 +1,118 @@
+-- Partial payments. An invoice accumulates every credit transaction linked
+-- to it: amount_paid is their sum, amount_due what is left. It is
+-- `partially_paid` until the total reaches the amount, and a payment past
+-- the amount flags the overpayment for the merchant to refund or credit.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overpayment_resolution TEXT
+    CHECK (overpayment_resolution IN ('pending', 'refund', 'credit'));
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_due NUMERIC
+    GENERATED ALWAYS AS (GREATEST(amount - amount_paid, 0)) STORED,
+  ADD COLUMN IF NOT EXISTS overpaid_amount NUMERIC
+    GENERATED ALWAYS AS (GREATEST(amount_paid - amount, 0)) STORED;
+
+-- Invoices settled before this migration were paid in full by one transfer
+UPDATE public.invoices
+SET amount_paid = amount
+WHERE status = 'paid';
+
+-- Adds a verified payment to an invoice in one statement, so concurrent
+-- payments cannot lose each other's amounts. invoices.tx_hash keeps the
+-- transfer that completed the payment.
+CREATE OR REPLACE FUNCTION public.apply_invoice_payment(
+  p_invoice_id uuid,
+  p_amount numeric,
+  p_tx_hash text,
+  p_network text,
+  p_token text
+)
+RETURNS SETOF public.invoices
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.invoices
+  SET
+    amount_paid = amount_paid + p_amount,
+    status = CASE WHEN amount_paid + p_amount >= amount THEN 'paid' ELSE 'partially_paid' END,
+    paid_at = CASE WHEN amount_paid + p_amount >= amount THEN COALESCE(paid_at, now()) END,
+    tx_hash = CASE
+      WHEN amount_paid < amount AND amount_paid + p_amount >= amount THEN p_tx_hash
+      ELSE tx_hash
+    END,
+    network = p_network,
+    token = p_token,
+    overpayment_resolution = CASE
+      WHEN amount_paid + p_amount > amount THEN COALESCE(overpayment_resolution, 'pending')
+      ELSE overpayment_resolution
+    END,
+    updated_at = now()
+  WHERE id = p_invoice_id
+    AND status IN ('sent', 'viewed', 'overdue', 'partially_paid', 'paid')
+  RETURNING *;
+$$;
+
+-- Takes back a payment whose transaction was dropped by a reorg or failed
+CREATE OR REPLACE FUNCTION public.revert_invoice_payment(
+  p_invoice_id uuid,
+  p_amount numeric,
+  p_tx_hash text
+)
+RETURNS SETOF public.invoices
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.invoices
+  SET
+    amount_paid = GREATEST(amount_paid - p_amount, 0),
+    status = CASE
+      WHEN amount_paid - p_amount >= amount THEN 'paid'
+      WHEN amount_paid - p_amount > 0 THEN 'partially_paid'
+      ELSE 'viewed'
+    END,
+    paid_at = CASE WHEN amount_paid - p_amount >= amount THEN paid_at END,
+    tx_hash = CASE WHEN tx_hash = p_tx_hash THEN NULL ELSE tx_hash END,
+    overpayment_resolution = CASE
+      WHEN amount_paid - p_amount > amount OR overpayment_resolution <> 'pending' THEN overpayment_resolution
+    END,
+    updated_at = now()
+  WHERE id = p_invoice_id
+    AND status IN ('partially_paid', 'paid')
+  RETURNING *;
+$$;
+
+-- Only the edge functions (service role) move money on invoices
+REVOKE EXECUTE ON FUNCTION public.apply_invoice_payment(uuid, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revert_invoice_payment(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+
+-- Every payment towards an invoice, for the invoice pages. Payers cannot
+-- read transactions directly.
+CREATE OR REPLACE FUNCTION public.get_invoice_payments(p_invoice_id uuid)
+RETURNS TABLE (
+  id uuid,
+  amount numeric,
+  token text,
+  network text,
+  tx_hash text,
+  from_address text,
+  status text,
+  is_test boolean,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.amount, t.token, t.network, t.tx_hash, t.from_address, t.status, t.is_test, t.created_at
+  FROM public.transactions t
+  WHERE t.invoice_id = p_invoice_id
+    AND t.transaction_type = 'credit'
+  ORDER BY t.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invoice_payments(uuid) TO anon, authenticated;
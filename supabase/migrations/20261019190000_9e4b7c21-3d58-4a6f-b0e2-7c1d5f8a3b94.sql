@@ -0,0 +1,103 @@
+-- Refunds. The merchant sends the stablecoin back to the payer's address
+-- and the transfer is recorded as a debit linked to the credit it refunds
+-- (refund_of). refunded_amount on the credit, and on its invoice, is what
+-- makes them show as refunded or partially refunded.
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS refund_of UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_refund_of
+  ON public.transactions(refund_of)
+  WHERE refund_of IS NOT NULL;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Adds a refund to the credit it refunds (and its invoice) in one
+-- statement. Returns nothing if it would refund more than was paid.
+CREATE OR REPLACE FUNCTION public.apply_refund(p_transaction_id uuid, p_amount numeric)
+RETURNS SETOF public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit public.transactions;
+BEGIN
+  UPDATE public.transactions
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_transaction_id
+    AND transaction_type = 'credit'
+    AND refunded_amount + p_amount <= amount
+  RETURNING * INTO v_credit;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_credit.invoice_id IS NOT NULL THEN
+    UPDATE public.invoices
+    SET refunded_amount = refunded_amount + p_amount, updated_at = now()
+    WHERE id = v_credit.invoice_id;
+  END IF;
+
+  RETURN NEXT v_credit;
+END;
+$$;
+
+-- Takes back a refund whose transaction was dropped by a reorg or failed
+CREATE OR REPLACE FUNCTION public.revert_refund(p_transaction_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+BEGIN
+  UPDATE public.transactions
+  SET refunded_amount = GREATEST(refunded_amount - p_amount, 0)
+  WHERE id = p_transaction_id
+  RETURNING invoice_id INTO v_invoice_id;
+
+  IF v_invoice_id IS NOT NULL THEN
+    UPDATE public.invoices
+    SET refunded_amount = GREATEST(refunded_amount - p_amount, 0), updated_at = now()
+    WHERE id = v_invoice_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_refund(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revert_refund(uuid, numeric) FROM PUBLIC, anon, authenticated;
+
+-- Invoice payments now carry what has been refunded of each
+DROP FUNCTION IF EXISTS public.get_invoice_payments(uuid);
+
+CREATE FUNCTION public.get_invoice_payments(p_invoice_id uuid)
+RETURNS TABLE (
+  id uuid,
+  amount numeric,
+  refunded_amount numeric,
+  token text,
+  network text,
+  tx_hash text,
+  from_address text,
+  status text,
+  is_test boolean,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.amount, t.refunded_amount, t.token, t.network, t.tx_hash, t.from_address, t.status, t.is_test, t.created_at
+  FROM public.transactions t
+  WHERE t.invoice_id = p_invoice_id
+    AND t.transaction_type = 'credit'
+  ORDER BY t.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invoice_payments(uuid) TO anon, authenticated;
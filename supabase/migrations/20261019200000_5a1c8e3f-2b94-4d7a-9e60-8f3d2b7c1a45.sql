@@ -0,0 +1,40 @@
+-- Gasless payments. The relayer submits the payer's signed EIP-3009 / EIP-2612
+-- authorization and pays the gas; each relay is recorded with its cost so
+-- merchants who opt in can be billed for it.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS gasless_billing BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.relayed_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_intent_id UUID NOT NULL REFERENCES public.payment_intents(id) ON DELETE CASCADE,
+  merchant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  network TEXT NOT NULL,
+  token TEXT NOT NULL,
+  standard TEXT NOT NULL CHECK (standard IN ('eip3009', 'eip2612')),
+  payer_address TEXT NOT NULL,
+  relayer_address TEXT NOT NULL,
+  -- submitted while the relayer waits for the transaction to be mined
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'mined', 'failed')),
+  tx_hash TEXT,
+  gas_used NUMERIC,
+  -- Native currency spent by the relayer, in wei
+  gas_cost_wei NUMERIC,
+  -- Copied from profiles.gasless_billing when the relay was made
+  billed_to_merchant BOOLEAN NOT NULL DEFAULT false,
+  is_test BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One live relay per intent; a failed relay can be retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_relayed_payments_intent
+  ON public.relayed_payments (payment_intent_id)
+  WHERE status <> 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_relayed_payments_merchant
+  ON public.relayed_payments (merchant_id, created_at DESC);
+
+ALTER TABLE public.relayed_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view own relayed payments"
+  ON public.relayed_payments FOR SELECT
+  USING (auth.uid() = merchant_id);
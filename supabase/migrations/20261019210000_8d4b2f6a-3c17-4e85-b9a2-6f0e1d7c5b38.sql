@@ -0,0 +1,56 @@
+-- Receiving wallets per network. profiles.wallet_address served Base and
+-- Celo alike and solana_wallet_address only Solana; merchants can now use a
+-- different wallet on every chain.
+CREATE TABLE IF NOT EXISTS public.merchant_wallets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  network TEXT NOT NULL CHECK (network IN ('base', 'celo', 'solana')),
+  -- EVM addresses are stored lowercase; base58 is case-sensitive
+  address TEXT NOT NULL CHECK (
+    CASE WHEN network = 'solana'
+      THEN address ~ '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+      ELSE address ~ '^0x[0-9a-f]{40}$'
+    END
+  ),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (merchant_id, network)
+);
+
+-- chain-watcher looks merchants up by the wallet a transfer went to
+CREATE INDEX IF NOT EXISTS idx_merchant_wallets_address
+  ON public.merchant_wallets (network, address);
+
+CREATE TRIGGER set_merchant_wallets_updated_at
+  BEFORE UPDATE ON public.merchant_wallets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.merchant_wallets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can manage own wallets"
+  ON public.merchant_wallets FOR ALL
+  USING (auth.uid() = merchant_id)
+  WITH CHECK (auth.uid() = merchant_id);
+
+-- Payers need the address to pay; it is public on-chain anyway
+CREATE POLICY "Public can view merchant wallets"
+  ON public.merchant_wallets FOR SELECT
+  USING (true);
+
+-- Existing wallets carry over: the EVM wallet to Base and Celo
+INSERT INTO public.merchant_wallets (merchant_id, network, address)
+SELECT p.id, n.network, lower(p.wallet_address)
+FROM public.profiles p
+CROSS JOIN (VALUES ('base'), ('celo')) AS n(network)
+WHERE p.wallet_address ~* '^0x[0-9a-f]{40}$'
+ON CONFLICT (merchant_id, network) DO NOTHING;
+
+INSERT INTO public.merchant_wallets (merchant_id, network, address)
+SELECT id, 'solana', solana_wallet_address
+FROM public.profiles
+WHERE solana_wallet_address ~ '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+ON CONFLICT (merchant_id, network) DO NOTHING;
+
+COMMENT ON COLUMN public.profiles.wallet_address IS 'DEPRECATED: superseded by merchant_wallets; no longer read or written.';
+COMMENT ON COLUMN public.profiles.solana_wallet_address IS 'DEPRECATED: superseded by merchant_wallets; no longer read or written.';
@@ -0,0 +1,104 @@
+-- Split payments: part of each payment goes to other wallets (a vendor, a
+-- platform commission) in the same transaction.
+
+-- Rules as set by the merchant: [{ address, percent | amount, label }]
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS split_rules JSONB
+  CHECK (split_rules IS NULL OR jsonb_typeof(split_rules) = 'array');
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS split_rules JSONB
+  CHECK (split_rules IS NULL OR jsonb_typeof(split_rules) = 'array');
+
+-- Rules resolved to fixed legs when the intent is created:
+-- [{ address, amount, label, merchant_id }]. recipient_address receives the
+-- rest. EVM intents with legs are paid through the splitter contract.
+ALTER TABLE public.payment_intents
+  ADD COLUMN IF NOT EXISTS splits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS splitter_address TEXT;
+
+-- Each recipient's share is its own transaction line. A split line points
+-- at the payer's line (split_of) and shares its tx_hash; split_amount on the
+-- payer's line is what went to the other recipients, which still counts
+-- towards its invoice.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS split_of UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS split_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_split_of
+  ON public.transactions (split_of)
+  WHERE split_of IS NOT NULL;
+
+-- A hash is still recorded once as a payment, plus once per split recipient
+DROP INDEX IF EXISTS public.idx_transactions_tx_hash;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_tx_hash
+  ON public.transactions (tx_hash)
+  WHERE tx_hash IS NOT NULL AND split_of IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_split_merchant
+  ON public.transactions (split_of, merchant_id)
+  WHERE split_of IS NOT NULL;
+
+-- The pay page shows the payer every leg
+DROP FUNCTION IF EXISTS public.get_payment_intent(uuid);
+
+CREATE FUNCTION public.get_payment_intent(p_intent_id uuid)
+RETURNS TABLE (
+  id uuid,
+  merchant_id uuid,
+  merchant_name text,
+  product_id uuid,
+  product_name text,
+  invoice_id uuid,
+  quantity integer,
+  amount numeric,
+  token text,
+  token_address text,
+  network text,
+  recipient_address text,
+  description text,
+  status text,
+  tx_hash text,
+  expires_at timestamptz,
+  is_test boolean,
+  solana_reference text,
+  splits jsonb,
+  splitter_address text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pi.id,
+    pi.merchant_id,
+    p.merchant_name,
+    pi.product_id,
+    pr.name,
+    pi.invoice_id,
+    pi.quantity,
+    pi.amount,
+    pi.token,
+    pi.token_address,
+    pi.network,
+    pi.recipient_address,
+    pi.description,
+    CASE
+      WHEN pi.status = 'requires_payment' AND pi.expires_at < now() THEN 'expired'
+      ELSE pi.status
+    END,
+    pi.tx_hash,
+    pi.expires_at,
+    pi.is_test,
+    pi.solana_reference,
+    pi.splits,
+    pi.splitter_address
+  FROM public.payment_intents pi
+  JOIN public.profiles p ON p.id = pi.merchant_id
+  LEFT JOIN public.products pr ON pr.id = pi.product_id
+  WHERE pi.id = p_intent_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_intent(uuid) TO anon, authenticated;
@@ -0,0 +1,197 @@
+-- Milestone escrow. An escrow invoice is funded in full up front into the
+-- RavEscrow contract (contracts/RavEscrow.sol) and paid out to the merchant
+-- one milestone at a time. Every change happens on-chain; these columns
+-- mirror the contract's events as sync-escrow and chain-watcher apply them.
+--
+-- Escrow invoices add three statuses: `funded` (the deposit is held),
+-- `disputed` (frozen until the arbiter resolves it) and `resolved`. They
+-- become `paid` once every milestone has been released.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS escrow BOOLEAN NOT NULL DEFAULT false,
+  -- Days after a milestone is marked complete before it releases itself
+  ADD COLUMN IF NOT EXISTS escrow_release_days INTEGER
+    CHECK (escrow_release_days BETWEEN 1 AND 90),
+  -- Set from the deposit: the contract's escrow id is keccak256(client, ref)
+  ADD COLUMN IF NOT EXISTS escrow_id TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_contract TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_client_address TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_merchant_address TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_fund_tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_funded_at TIMESTAMPTZ;
+
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_escrow_release_days_check
+  CHECK (NOT escrow OR escrow_release_days IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_escrow_id
+  ON public.invoices (escrow_id)
+  WHERE escrow_id IS NOT NULL;
+
+-- An escrow invoice's milestones add up to its amount; `position` is the
+-- milestone's index in the contract
+CREATE TABLE IF NOT EXISTS public.invoice_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  -- pending -> completed (by the merchant) -> released (by the client or
+  -- the timeout); `resolved` when the arbiter settled a dispute instead
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'released', 'resolved')),
+  completed_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  release_tx_hash TEXT,
+  auto_released BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, position)
+);
+
+CREATE TRIGGER set_invoice_milestones_updated_at
+  BEFORE UPDATE ON public.invoice_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.invoice_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Milestones are fixed once the invoice is sent; after that only the edge
+-- functions update them, from the contract's events
+CREATE POLICY "Merchants can add milestones to own draft invoices"
+  ON public.invoice_milestones FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_id
+      AND i.merchant_id = auth.uid()
+      AND i.status = 'draft'
+  ));
+
+-- Clients see the milestones on the invoice page, like the invoice itself
+CREATE POLICY "Public can view invoice milestones"
+  ON public.invoice_milestones FOR SELECT
+  USING (true);
+
+-- Each release is a credit transaction like any other payment
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES public.invoice_milestones(id) ON DELETE SET NULL;
+
+-- Releases a milestone and adds it to the invoice's amount_paid in one
+-- transaction; the invoice is paid once no milestone is left in escrow.
+-- Returns nothing if the milestone was already released.
+CREATE OR REPLACE FUNCTION public.release_escrow_milestone(
+  p_milestone_id uuid,
+  p_tx_hash text,
+  p_automatic boolean
+)
+RETURNS SETOF public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_amount numeric;
+  v_remaining integer;
+BEGIN
+  UPDATE public.invoice_milestones
+  SET status = 'released', released_at = now(), release_tx_hash = p_tx_hash, auto_released = p_automatic
+  WHERE id = p_milestone_id
+    AND status IN ('pending', 'completed')
+  RETURNING invoice_id, amount INTO v_invoice_id, v_amount;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_remaining
+  FROM public.invoice_milestones
+  WHERE invoice_id = v_invoice_id
+    AND status IN ('pending', 'completed');
+
+  RETURN QUERY
+  UPDATE public.invoices
+  SET
+    amount_paid = amount_paid + v_amount,
+    status = CASE WHEN v_remaining = 0 AND status = 'funded' THEN 'paid' ELSE status END,
+    paid_at = CASE WHEN v_remaining = 0 AND status = 'funded' THEN now() ELSE paid_at END,
+    tx_hash = CASE WHEN v_remaining = 0 AND status = 'funded' THEN p_tx_hash ELSE tx_hash END,
+    updated_at = now()
+  WHERE id = v_invoice_id
+  RETURNING *;
+END;
+$$;
+
+-- Takes back a release whose transaction was dropped by a reorg
+CREATE OR REPLACE FUNCTION public.revert_escrow_release(p_milestone_id uuid)
+RETURNS SETOF public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_amount numeric;
+BEGIN
+  UPDATE public.invoice_milestones
+  SET
+    status = CASE WHEN completed_at IS NULL THEN 'pending' ELSE 'completed' END,
+    released_at = NULL,
+    release_tx_hash = NULL,
+    auto_released = false
+  WHERE id = p_milestone_id
+    AND status = 'released'
+  RETURNING invoice_id, amount INTO v_invoice_id, v_amount;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.invoices
+  SET
+    amount_paid = GREATEST(amount_paid - v_amount, 0),
+    status = CASE WHEN status = 'paid' THEN 'funded' ELSE status END,
+    paid_at = CASE WHEN status = 'paid' THEN NULL ELSE paid_at END,
+    tx_hash = CASE WHEN status = 'paid' THEN NULL ELSE tx_hash END,
+    updated_at = now()
+  WHERE id = v_invoice_id
+  RETURNING *;
+END;
+$$;
+
+-- The arbiter's resolution pays out whatever was still in escrow: the
+-- merchant's part counts as paid, the rest went back to the client
+CREATE OR REPLACE FUNCTION public.resolve_escrow(
+  p_invoice_id uuid,
+  p_to_merchant numeric
+)
+RETURNS SETOF public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.invoices
+  SET
+    amount_paid = amount_paid + p_to_merchant,
+    status = 'resolved',
+    updated_at = now()
+  WHERE id = p_invoice_id
+    AND status = 'disputed'
+  RETURNING *;
+
+  IF FOUND THEN
+    UPDATE public.invoice_milestones
+    SET status = 'resolved'
+    WHERE invoice_id = p_invoice_id
+      AND status IN ('pending', 'completed');
+  END IF;
+END;
+$$;
+
+-- Only the edge functions (service role) move money on invoices
+REVOKE EXECUTE ON FUNCTION public.release_escrow_milestone(uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revert_escrow_release(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_escrow(uuid, numeric) FROM PUBLIC, anon, authenticated;
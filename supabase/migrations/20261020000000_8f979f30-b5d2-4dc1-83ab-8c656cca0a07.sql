@@ -0,0 +1,103 @@
+-- Fiat pricing. Products and invoices carry the currency their price is in;
+-- payments are still made in USD stablecoins, converted when the payment
+-- intent is created at a rate that holds until the intent expires. The
+-- rate is copied onto each transaction so revenue can be reported in the
+-- currency it was priced in.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD'
+    CHECK (currency IN ('USD', 'EUR', 'NGN', 'KES'));
+
+-- amount, amount_paid and amount_due are all in the invoice's currency
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD'
+    CHECK (currency IN ('USD', 'EUR', 'NGN', 'KES'));
+
+-- Escrow milestones are deposited as stablecoin amounts
+ALTER TABLE public.invoices
+  ADD CONSTRAINT invoices_escrow_currency_check
+  CHECK (NOT escrow OR currency = 'USD');
+
+-- The quote an intent was priced at: `amount` (stablecoin) is
+-- fiat_amount / exchange_rate, rounded up
+ALTER TABLE public.payment_intents
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS fiat_amount NUMERIC,
+  -- Units of `currency` per USD
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC NOT NULL DEFAULT 1
+    CHECK (exchange_rate > 0),
+  ADD COLUMN IF NOT EXISTS rate_source TEXT,
+  ADD COLUMN IF NOT EXISTS rate_quoted_at TIMESTAMPTZ;
+
+-- Rate snapshot of a payment. fiat_amount is the payment (split legs
+-- included) in `currency`, and is what it counted for on its invoice;
+-- null on rows recorded before fiat pricing, where it equals
+-- amount + split_amount.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS fiat_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC NOT NULL DEFAULT 1
+    CHECK (exchange_rate > 0),
+  ADD COLUMN IF NOT EXISTS rate_source TEXT,
+  ADD COLUMN IF NOT EXISTS rate_quoted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_currency
+  ON public.transactions (merchant_id, currency, created_at DESC);
+
+-- Refunds are sent in stablecoin; the invoice's refunded_amount is in its
+-- own currency, at the rate the refunded payment was made at
+CREATE OR REPLACE FUNCTION public.apply_refund(p_transaction_id uuid, p_amount numeric)
+RETURNS SETOF public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit public.transactions;
+BEGIN
+  UPDATE public.transactions
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_transaction_id
+    AND transaction_type = 'credit'
+    AND refunded_amount + p_amount <= amount
+  RETURNING * INTO v_credit;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_credit.invoice_id IS NOT NULL THEN
+    UPDATE public.invoices
+    SET refunded_amount = refunded_amount + round(p_amount * v_credit.exchange_rate, 2), updated_at = now()
+    WHERE id = v_credit.invoice_id;
+  END IF;
+
+  RETURN NEXT v_credit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revert_refund(p_transaction_id uuid, p_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_rate numeric;
+BEGIN
+  UPDATE public.transactions
+  SET refunded_amount = GREATEST(refunded_amount - p_amount, 0)
+  WHERE id = p_transaction_id
+  RETURNING invoice_id, exchange_rate INTO v_invoice_id, v_rate;
+
+  IF v_invoice_id IS NOT NULL THEN
+    UPDATE public.invoices
+    SET refunded_amount = GREATEST(refunded_amount - round(p_amount * v_rate, 2), 0), updated_at = now()
+    WHERE id = v_invoice_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_refund(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revert_refund(uuid, numeric) FROM PUBLIC, anon, authenticated;
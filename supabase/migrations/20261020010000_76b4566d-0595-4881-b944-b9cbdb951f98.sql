@@ -0,0 +1,65 @@
+-- ENS names and Basenames for EVM receiving wallets. The name is resolved
+-- when the wallet is saved and re-resolved by the check-wallet-names edge
+-- function; payers are only shown it while it still points at `address`.
+ALTER TABLE public.merchant_wallets
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  -- Address the name resolved to at its last check; null once it no longer resolves
+  ADD COLUMN IF NOT EXISTS name_address TEXT,
+  ADD COLUMN IF NOT EXISTS name_checked_at TIMESTAMPTZ;
+
+ALTER TABLE public.merchant_wallets
+  ADD CONSTRAINT merchant_wallets_name_check
+  CHECK (name IS NULL OR (network <> 'solana' AND name ~ '^([^.[:space:]]+\.)+eth$'));
+
+-- Merchants write their own rows, so they must not be able to vouch for a
+-- name themselves: only the service role (check-wallet-names) sets the
+-- resolution, and changing the name or address clears it
+CREATE OR REPLACE FUNCTION public.guard_wallet_name_resolution()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.name IS NOT DISTINCT FROM OLD.name
+    AND NEW.address = OLD.address THEN
+    NEW.name_address := OLD.name_address;
+    NEW.name_checked_at := OLD.name_checked_at;
+  ELSE
+    NEW.name_address := NULL;
+    NEW.name_checked_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_merchant_wallets_name
+  BEFORE INSERT OR UPDATE ON public.merchant_wallets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_wallet_name_resolution();
+
+-- check-wallet-names re-resolves the longest-unchecked names first
+CREATE INDEX IF NOT EXISTS idx_merchant_wallets_name_checked
+  ON public.merchant_wallets (name_checked_at NULLS FIRST)
+  WHERE name IS NOT NULL;
+
+-- Re-resolve every name hourly, with the same Vault secrets as chain-watcher
+SELECT cron.schedule(
+  'check-wallet-names',
+  '17 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-wallet-names',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,146 @@
+-- Wallet ownership. A receiving wallet only becomes active once the
+-- merchant has signed a server-issued message (EIP-4361 style) with it.
+-- Replacing an active wallet also needs a confirmation from the account
+-- email and then waits out a cooling-off period, shown on the pay pages,
+-- so a typo or a hijacked session cannot silently redirect payments.
+
+-- When the wallet's signature was checked; null for wallets saved before
+-- ownership proofs, which stay active until the merchant verifies them
+ALTER TABLE public.merchant_wallets
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- Wallets are now written by the wallet-ownership edge function and
+-- activate_wallet_changes; merchants can still remove one
+DROP POLICY IF EXISTS "Merchants can manage own wallets" ON public.merchant_wallets;
+
+CREATE POLICY "Merchants can remove own wallets"
+  ON public.merchant_wallets FOR DELETE
+  USING (auth.uid() = merchant_id);
+
+CREATE TABLE IF NOT EXISTS public.wallet_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  network TEXT NOT NULL CHECK (network IN ('base', 'celo', 'solana')),
+  address TEXT NOT NULL CHECK (
+    CASE WHEN network = 'solana'
+      THEN address ~ '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+      ELSE address ~ '^0x[0-9a-f]{40}$'
+    END
+  ),
+  -- ENS name or Basename the address was entered as
+  name TEXT,
+  -- Active wallet being replaced; null when the network had none
+  previous_address TEXT,
+  status TEXT NOT NULL DEFAULT 'awaiting_signature'
+    CHECK (status IN ('awaiting_signature', 'awaiting_email', 'cooling_off', 'active', 'canceled', 'expired')),
+  -- The exact message the wallet must sign, and its one-time nonce
+  message TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  signature TEXT,
+  signed_at TIMESTAMPTZ,
+  -- sha256 of the token in the confirmation email
+  email_token_hash TEXT UNIQUE,
+  email_confirmed_at TIMESTAMPTZ,
+  -- When a cooling-off change takes over from previous_address
+  active_at TIMESTAMPTZ,
+  -- Deadline for the current step (signature or email confirmation)
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open change per wallet; a new request cancels the previous one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_changes_open
+  ON public.wallet_changes (merchant_id, network)
+  WHERE status IN ('awaiting_signature', 'awaiting_email', 'cooling_off');
+
+CREATE INDEX IF NOT EXISTS idx_wallet_changes_due
+  ON public.wallet_changes (active_at)
+  WHERE status = 'cooling_off';
+
+-- Existing wallets are recorded as already active. Only a merchant with no
+-- active change at all (a new account) gets a wallet without the email
+-- confirmation and cooling-off, so removing every wallet first does not
+-- skip them.
+INSERT INTO public.wallet_changes (merchant_id, network, address, name, status, message, nonce, expires_at, created_at)
+SELECT merchant_id, network, address, name, 'active', 'Saved before wallet ownership proofs', gen_random_uuid()::text, now(), created_at
+FROM public.merchant_wallets;
+
+CREATE TRIGGER set_wallet_changes_updated_at
+  BEFORE UPDATE ON public.wallet_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.wallet_changes ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role writes changes
+CREATE POLICY "Merchants can view own wallet changes"
+  ON public.wallet_changes FOR SELECT
+  USING (auth.uid() = merchant_id);
+
+-- Pay pages show wallets that are about to change
+CREATE OR REPLACE FUNCTION public.get_pending_wallet_changes(p_merchant_id uuid)
+RETURNS TABLE (
+  network text,
+  address text,
+  active_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.network, c.address, c.active_at
+  FROM public.wallet_changes c
+  WHERE c.merchant_id = p_merchant_id
+    AND c.status = 'cooling_off';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_pending_wallet_changes(uuid) TO anon, authenticated;
+
+-- Activates changes whose cooling-off period is over and expires the ones
+-- left unsigned or unconfirmed. Returns how many wallets were activated.
+CREATE OR REPLACE FUNCTION public.activate_wallet_changes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change public.wallet_changes;
+  v_count integer := 0;
+BEGIN
+  UPDATE public.wallet_changes
+  SET status = 'expired'
+  WHERE status IN ('awaiting_signature', 'awaiting_email')
+    AND expires_at <= now();
+
+  FOR v_change IN
+    SELECT * FROM public.wallet_changes
+    WHERE status = 'cooling_off' AND active_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.merchant_wallets (merchant_id, network, address, name, verified_at)
+    VALUES (v_change.merchant_id, v_change.network, v_change.address, v_change.name, v_change.signed_at)
+    ON CONFLICT (merchant_id, network) DO UPDATE
+    SET address = EXCLUDED.address,
+        name = EXCLUDED.name,
+        verified_at = EXCLUDED.verified_at,
+        name_address = NULL,
+        name_checked_at = NULL;
+
+    UPDATE public.wallet_changes SET status = 'active' WHERE id = v_change.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_wallet_changes() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'activate-wallet-changes',
+  '* * * * *',
+  $$ SELECT public.activate_wallet_changes(); $$
+);
@@ -0,0 +1,30 @@
+-- Sign-In with Ethereum. The siwe-login edge function issues an EIP-4361
+-- message per attempt and keeps it here, so each nonce signs in once.
+-- Only the service role touches this table.
+CREATE TABLE IF NOT EXISTS public.wallet_logins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address TEXT NOT NULL CHECK (address ~ '^0x[0-9a-f]{40}$'),
+  message TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  -- Set once the signature is accepted; a used message cannot sign in again
+  used_at TIMESTAMPTZ,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_logins_created ON public.wallet_logins (created_at);
+
+-- Signing in looks the address up among verified wallets
+CREATE INDEX IF NOT EXISTS idx_merchant_wallets_verified_address
+  ON public.merchant_wallets (address)
+  WHERE verified_at IS NOT NULL;
+
+ALTER TABLE public.wallet_logins ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are only useful for a few minutes; keep a day for debugging
+SELECT cron.schedule(
+  'purge-wallet-logins',
+  '0 3 * * *',
+  $$ DELETE FROM public.wallet_logins WHERE created_at < now() - interval '1 day'; $$
+);
@@ -0,0 +1,90 @@
+-- API rate limiting. Each key has a per-minute burst limit (from its tier)
+-- and a monthly quota (api_keys.rate_limit), counted in fixed windows. The
+-- API calls consume_api_rate_limit once per request; counting happens in
+-- one statement per window, so concurrent requests cannot both take the
+-- last call.
+CREATE TABLE IF NOT EXISTS public.api_rate_windows (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_kind TEXT NOT NULL CHECK (window_kind IN ('minute', 'month')),
+  window_start TIMESTAMPTZ NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_kind, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_rate_windows_start
+  ON public.api_rate_windows (window_start);
+
+-- Only the service role (the API) reads or writes windows
+ALTER TABLE public.api_rate_windows ENABLE ROW LEVEL SECURITY;
+
+-- Counts one call against both windows. A call over either limit is not
+-- counted at all and comes back with allowed = false. Resets are the ends
+-- of the current minute and calendar month (UTC).
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(
+  p_key_id uuid,
+  p_minute_limit integer,
+  p_month_limit integer
+)
+RETURNS TABLE (
+  allowed boolean,
+  minute_remaining integer,
+  minute_reset timestamptz,
+  month_remaining integer,
+  month_reset timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minute timestamptz := date_trunc('minute', now());
+  v_month timestamptz := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_minute_calls integer;
+  v_month_calls integer;
+BEGIN
+  -- The upserts lock both rows until the call is decided
+  INSERT INTO public.api_rate_windows AS w (api_key_id, window_kind, window_start, calls)
+  VALUES (p_key_id, 'minute', v_minute, 1)
+  ON CONFLICT (api_key_id, window_kind, window_start) DO UPDATE SET calls = w.calls + 1
+  RETURNING w.calls INTO v_minute_calls;
+
+  INSERT INTO public.api_rate_windows AS w (api_key_id, window_kind, window_start, calls)
+  VALUES (p_key_id, 'month', v_month, 1)
+  ON CONFLICT (api_key_id, window_kind, window_start) DO UPDATE SET calls = w.calls + 1
+  RETURNING w.calls INTO v_month_calls;
+
+  allowed := v_minute_calls <= p_minute_limit AND v_month_calls <= p_month_limit;
+
+  IF NOT allowed THEN
+    UPDATE public.api_rate_windows
+    SET calls = calls - 1
+    WHERE api_key_id = p_key_id
+      AND ((window_kind = 'minute' AND window_start = v_minute)
+        OR (window_kind = 'month' AND window_start = v_month));
+
+    v_minute_calls := v_minute_calls - 1;
+    v_month_calls := v_month_calls - 1;
+  ELSE
+    -- calls_used shows this month's usage on the API Keys page
+    UPDATE public.api_keys
+    SET calls_used = v_month_calls,
+        last_used_at = now()
+    WHERE id = p_key_id;
+  END IF;
+
+  minute_remaining := GREATEST(p_minute_limit - v_minute_calls, 0);
+  minute_reset := v_minute + interval '1 minute';
+  month_remaining := GREATEST(p_month_limit - v_month_calls, 0);
+  month_reset := v_month + interval '1 month';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Minute windows are only needed while they are current
+SELECT cron.schedule(
+  'purge-api-rate-windows',
+  '17 * * * *',
+  $$ DELETE FROM public.api_rate_windows WHERE window_kind = 'minute' AND window_start < now() - interval '1 hour'; $$
+);
@@ -0,0 +1,164 @@
+-- API usage metering. Every request made with a valid key is counted per
+-- key, endpoint and UTC day with a breakdown by status code, for the usage
+-- chart on the API Keys page. Quota periods are the calendar-month windows
+-- of api_rate_windows, so they roll over on their own; crossing 80% and
+-- 100% of a quota queues an email to the merchant.
+CREATE TABLE IF NOT EXISTS public.api_usage_daily (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  -- Method and path, e.g. 'POST /api/v1/invoices/create'
+  endpoint TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  -- Calls per HTTP status, e.g. {"201": 40, "400": 2, "429": 1}
+  status_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  PRIMARY KEY (api_key_id, day, endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_daily_profile_day
+  ON public.api_usage_daily (profile_id, day);
+
+ALTER TABLE public.api_usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view own API usage"
+  ON public.api_usage_daily FOR SELECT
+  USING (auth.uid() = profile_id);
+
+-- Called by the API after each response
+CREATE OR REPLACE FUNCTION public.record_api_usage(
+  p_key_id uuid,
+  p_endpoint text,
+  p_status integer
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.api_usage_daily AS u (api_key_id, profile_id, day, endpoint, calls, status_counts)
+  SELECT k.id, k.profile_id, (now() AT TIME ZONE 'UTC')::date, p_endpoint, 1, jsonb_build_object(p_status::text, 1)
+  FROM public.api_keys k
+  WHERE k.id = p_key_id
+  ON CONFLICT (api_key_id, day, endpoint) DO UPDATE
+  SET calls = u.calls + 1,
+      status_counts = u.status_counts || jsonb_build_object(
+        p_status::text,
+        COALESCE((u.status_counts ->> p_status::text)::integer, 0) + 1
+      );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_usage(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+-- Quota warnings, one per key, quota period and threshold. send-quota-alerts
+-- emails the pending ones and sets notified_at.
+CREATE TABLE IF NOT EXISTS public.api_quota_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  threshold INTEGER NOT NULL CHECK (threshold IN (80, 100)),
+  calls INTEGER NOT NULL,
+  quota INTEGER NOT NULL,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (api_key_id, period_start, threshold)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_quota_alerts_pending
+  ON public.api_quota_alerts (created_at)
+  WHERE notified_at IS NULL;
+
+-- Only the service role reads or writes alerts
+ALTER TABLE public.api_quota_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Same as before, plus queuing the quota alerts: the call that reaches a
+-- threshold queues it, and the unique key keeps it to once per period
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(
+  p_key_id uuid,
+  p_minute_limit integer,
+  p_month_limit integer
+)
+RETURNS TABLE (
+  allowed boolean,
+  minute_remaining integer,
+  minute_reset timestamptz,
+  month_remaining integer,
+  month_reset timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minute timestamptz := date_trunc('minute', now());
+  v_month timestamptz := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_minute_calls integer;
+  v_month_calls integer;
+  v_threshold integer;
+BEGIN
+  -- The upserts lock both rows until the call is decided
+  INSERT INTO public.api_rate_windows AS w (api_key_id, window_kind, window_start, calls)
+  VALUES (p_key_id, 'minute', v_minute, 1)
+  ON CONFLICT (api_key_id, window_kind, window_start) DO UPDATE SET calls = w.calls + 1
+  RETURNING w.calls INTO v_minute_calls;
+
+  INSERT INTO public.api_rate_windows AS w (api_key_id, window_kind, window_start, calls)
+  VALUES (p_key_id, 'month', v_month, 1)
+  ON CONFLICT (api_key_id, window_kind, window_start) DO UPDATE SET calls = w.calls + 1
+  RETURNING w.calls INTO v_month_calls;
+
+  allowed := v_minute_calls <= p_minute_limit AND v_month_calls <= p_month_limit;
+
+  IF NOT allowed THEN
+    UPDATE public.api_rate_windows
+    SET calls = calls - 1
+    WHERE api_key_id = p_key_id
+      AND ((window_kind = 'minute' AND window_start = v_minute)
+        OR (window_kind = 'month' AND window_start = v_month));
+
+    v_minute_calls := v_minute_calls - 1;
+    v_month_calls := v_month_calls - 1;
+  ELSE
+    -- calls_used shows this month's usage on the API Keys page
+    UPDATE public.api_keys
+    SET calls_used = v_month_calls,
+        last_used_at = now()
+    WHERE id = p_key_id;
+
+    v_threshold := CASE
+      WHEN v_month_calls = p_month_limit THEN 100
+      WHEN v_month_calls = ceil(p_month_limit * 0.8)::integer THEN 80
+    END;
+
+    IF v_threshold IS NOT NULL THEN
+      INSERT INTO public.api_quota_alerts (api_key_id, period_start, threshold, calls, quota)
+      VALUES (p_key_id, v_month, v_threshold, v_month_calls, p_month_limit)
+      ON CONFLICT (api_key_id, period_start, threshold) DO NOTHING;
+    END IF;
+  END IF;
+
+  minute_remaining := GREATEST(p_minute_limit - v_minute_calls, 0);
+  minute_reset := v_minute + interval '1 minute';
+  month_remaining := GREATEST(p_month_limit - v_month_calls, 0);
+  month_reset := v_month + interval '1 month';
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Email queued quota alerts every five minutes, with the same Vault
+-- secrets as chain-watcher
+SELECT cron.schedule(
+  'send-quota-alerts',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-quota-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,74 @@
+-- Idempotency-Key support for POST requests to the API. The first response
+-- to a key is stored for 24 hours and replayed on retries; a retry with a
+-- different body or endpoint is refused.
+CREATE TABLE IF NOT EXISTS public.api_idempotency_keys (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  -- Method and path, e.g. 'POST /api/v1/invoices/create'
+  endpoint TEXT NOT NULL,
+  -- sha256 of the request body with its keys sorted
+  request_hash TEXT NOT NULL,
+  -- Both NULL while the first request is still running
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (api_key_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_created
+  ON public.api_idempotency_keys (created_at);
+
+-- Only the service role (the API) reads or writes idempotency keys
+ALTER TABLE public.api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Claims the key for a new request (claimed = true), or returns what is
+-- stored for it. Expired keys are free again, and so are claims left
+-- unfinished for five minutes by a request that died.
+CREATE OR REPLACE FUNCTION public.claim_idempotency_key(
+  p_key_id uuid,
+  p_idempotency_key text,
+  p_endpoint text,
+  p_request_hash text
+)
+RETURNS TABLE (
+  claimed boolean,
+  stored_endpoint text,
+  stored_hash text,
+  stored_status integer,
+  stored_body jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.api_idempotency_keys k
+  WHERE k.api_key_id = p_key_id
+    AND k.idempotency_key = p_idempotency_key
+    AND (k.created_at < now() - interval '24 hours'
+      OR (k.response_status IS NULL AND k.created_at < now() - interval '5 minutes'));
+
+  -- A concurrent claim of the same key waits here, then finds it taken
+  INSERT INTO public.api_idempotency_keys (api_key_id, idempotency_key, endpoint, request_hash)
+  VALUES (p_key_id, p_idempotency_key, p_endpoint, p_request_hash)
+  ON CONFLICT (api_key_id, idempotency_key) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT true, p_endpoint, p_request_hash, NULL::integer, NULL::jsonb;
+  ELSE
+    RETURN QUERY
+    SELECT false, k.endpoint, k.request_hash, k.response_status, k.response_body
+    FROM public.api_idempotency_keys k
+    WHERE k.api_key_id = p_key_id
+      AND k.idempotency_key = p_idempotency_key;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_idempotency_key(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-api-idempotency-keys',
+  '43 * * * *',
+  $$ DELETE FROM public.api_idempotency_keys WHERE created_at < now() - interval '24 hours'; $$
+);
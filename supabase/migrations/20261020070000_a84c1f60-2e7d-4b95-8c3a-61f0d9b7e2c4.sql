@@ -0,0 +1,4 @@
+-- GET /api/v1/invoices/list pages newest first by (created_at, id) with
+-- keyset cursors; this index serves every page of a walk, however deep
+CREATE INDEX IF NOT EXISTS idx_invoices_merchant_page
+  ON public.invoices (merchant_id, is_test, created_at DESC, id DESC);
@@ -0,0 +1,18 @@
+-- Accounts created by signing in with a wallet, linked to that wallet.
+-- siwe-login adds the link when it creates the account and signs the
+-- wallet in through it afterwards. Only the service role touches this table.
+CREATE TABLE IF NOT EXISTS public.wallet_accounts (
+  address TEXT PRIMARY KEY CHECK (address ~ '^0x[0-9a-f]{40}$'),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wallet_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Accounts created before the link kept the wallet in their metadata
+INSERT INTO public.wallet_accounts (address, user_id)
+SELECT lower(raw_user_meta_data->>'wallet_address'), id
+FROM auth.users
+WHERE raw_user_meta_data->>'wallet_address' ~* '^0x[0-9a-f]{40}$'
+  AND email = lower(raw_user_meta_data->>'wallet_address') || '@wallet.ravgateway.invalid'
+ON CONFLICT DO NOTHING;